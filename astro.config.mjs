@@ -1,22 +1,112 @@
+import node from "@astrojs/node";
 import tailwindcss from "@tailwindcss/vite";
 // @ts-check
-import { defineConfig } from "astro/config";
+import { defineConfig, envField } from "astro/config";
+import { loadEnv } from "vite";
+import { i18nConfig } from "./src/i18n/config";
+import { securityHeadersIntegration } from "./src/infrastructure/security/integration";
+import { linkValidationIntegration } from "./src/infrastructure/links/integration";
+import { remarkRouteLinks } from "./src/infrastructure/links/remarkRouteLinks";
+import { localeRedirectIntegration } from "./src/infrastructure/routing/integration";
+import { resolveHref } from "./src/i18n/links";
+import { getLocalizedPaths } from "./src/i18n/seo";
+
+// astro:env is not available in the config itself, read build-time values from process env / .env files
+const { SITE_URL, SITE_ENV, CSP_REPORT_URI } = loadEnv(process.env.NODE_ENV ?? "production", process.cwd(), "");
 
 // https://astro.build/config
 export default defineConfig({
+  // Absolute URLs (canonical, hreflang, sitemap) are built from this origin
+  site: SITE_URL || "https://website.myhelix.io",
+
+  // Pages stay static; routes with `export const prerender = false` (e.g. /api/contact) run on Node
+  // In production the handler runs inside server/index.mjs (health checks, cache headers, graceful shutdown)
+  adapter: node({ mode: "standalone" }),
+
+  // After the build: fail on broken content links, then write security headers (_headers, nginx snippet, server/index.mjs)
+  // and the locale redirect of the prerendered home page (server/index.mjs)
+  integrations: [
+    linkValidationIntegration({
+      locales: i18nConfig.locales,
+      defaultLocale: i18nConfig.defaultLocale,
+      resolveHref,
+    }),
+    // _headers and the nginx snippet are static: they use the build's SITE_ENV and CSP_REPORT_URI
+    securityHeadersIntegration({
+      environment: SITE_ENV === "staging" || SITE_ENV === "development" ? SITE_ENV : "production",
+      reportUri: CSP_REPORT_URI || undefined,
+    }),
+    localeRedirectIntegration({
+      locales: i18nConfig.locales,
+      defaultLocale: i18nConfig.defaultLocale,
+      homePaths: getLocalizedPaths("home"),
+    }),
+  ],
+
+  // Markdown content links like JSON content: `route:` hrefs become localized paths
+  markdown: {
+    remarkPlugins: [[remarkRouteLinks, { locales: i18nConfig.locales, resolveHref }]],
+  },
+
+  // Ship CSS and JS as files: no inline code to hash, so the CSP stays identical across pages
+  build: {
+    inlineStylesheets: "never",
+  },
+
   vite: {
     plugins: [tailwindcss()],
-    preview: {
-      allowedHosts: ["website.myhelix.io"],
+    build: {
+      assetsInlineLimit: 0,
     },
   },
 
-  // i18n configuration
+  // i18n configuration, derived from src/i18n/config.ts (EN has no prefix: /about, DE: /de/ueber-uns)
   i18n: {
-    defaultLocale: "en",
-    locales: ["en", "de"],
-    routing: {
-      prefixDefaultLocale: false, // EN has no prefix (/about), DE has prefix (/de/ueber-uns)
+    defaultLocale: i18nConfig.defaultLocale,
+    locales: i18nConfig.locales,
+    routing: i18nConfig.routing,
+  },
+
+  // Runtime configuration (read on the server, never shipped to the client)
+  env: {
+    schema: {
+      // Deployment environment: only "production" is open to crawlers (robots.txt), selects the security headers
+      // "secret" access is read at runtime instead of being inlined, so the same build serves every environment
+      SITE_ENV: envField.enum({
+        context: "server",
+        access: "secret",
+        values: ["production", "staging", "development"],
+        default: "production",
+      }),
+      // Optional endpoint for CSP violation reports (report-uri)
+      CSP_REPORT_URI: envField.string({ context: "server", access: "secret", optional: true, url: true }),
+
+      // Content adapter: "collections" reads src/content, "strapi" reads the Strapi REST API (build time)
+      CONTENT_SOURCE: envField.enum({
+        context: "server",
+        access: "secret",
+        values: ["collections", "strapi"],
+        default: "collections",
+      }),
+      STRAPI_URL: envField.string({ context: "server", access: "secret", optional: true, url: true }),
+      STRAPI_TOKEN: envField.string({ context: "server", access: "secret", optional: true }),
+
+      // Contact form delivery: "file" writes to CONTACT_OUTBOX_DIR (local dev), "smtp" sends mail (production)
+      // The default suits `astro dev` only: npm start refuses SITE_ENV=production with "file" (server/app.mjs)
+      CONTACT_TRANSPORT: envField.enum({
+        context: "server",
+        access: "secret",
+        values: ["file", "smtp"],
+        default: "file",
+      }),
+      CONTACT_OUTBOX_DIR: envField.string({ context: "server", access: "secret", default: ".outbox" }),
+      CONTACT_FROM: envField.string({ context: "server", access: "secret", optional: true }),
+      CONTACT_TO: envField.string({ context: "server", access: "secret", optional: true }),
+      SMTP_HOST: envField.string({ context: "server", access: "secret", optional: true }),
+      SMTP_PORT: envField.number({ context: "server", access: "secret", default: 587 }),
+      SMTP_SECURE: envField.boolean({ context: "server", access: "secret", default: false }),
+      SMTP_USER: envField.string({ context: "server", access: "secret", optional: true }),
+      SMTP_PASSWORD: envField.string({ context: "server", access: "secret", optional: true }),
     },
   },
 });
@@ -0,0 +1,93 @@
+/**
+ * Translation & content completeness check
+ *
+ * Compares UI translations and every localized content collection against the default locale.
+ * See src/i18n/completeness.ts for the rules.
+ *
+ * Usage:
+ *   npm run check:i18n             # human-readable report
+ *   npm run check:i18n -- --json   # machine-readable report
+ *   npm run check:i18n -- --strict # also fail on warnings (untranslated values)
+ *
+ * Exits with 1 when errors are found (warnings alone pass unless --strict).
+ */
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { createJiti } from "jiti";
+import { parse as parseYaml } from "yaml";
+
+const srcDir = fileURLToPath(new URL("../src", import.meta.url));
+const contentDir = join(srcDir, "content");
+
+// jiti runs the TypeScript sources directly and resolves the "@/" alias like tsconfig.json
+const jiti = createJiti(import.meta.url, { alias: { "@": srcDir } });
+const { translations } = await jiti.import("@/i18n/translations");
+const { i18nConfig } = await jiti.import("@/i18n/config");
+const { checkTranslations, checkContentCollection, createReport, formatReport } =
+  await jiti.import("@/i18n/completeness");
+
+const options = { locales: i18nConfig.locales, defaultLocale: i18nConfig.defaultLocale };
+
+async function readJson(path) {
+  return JSON.parse(await readFile(path, "utf-8"));
+}
+
+/** Markdown entries are compared as their frontmatter plus the body under "body" */
+async function readMarkdown(path) {
+  const [, frontmatter = "", body = ""] =
+    (await readFile(path, "utf-8")).match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/) ?? [];
+  return { ...parseYaml(frontmatter), body: body.trim() };
+}
+
+const ENTRY_FILE = /\.(json|md)$/;
+
+function readEntry(path) {
+  return path.endsWith(".md") ? readMarkdown(path) : readJson(path);
+}
+
+/**
+ * Load a collection as { locale: { entryId: data } }
+ * Supports per-page entries ({collection}/{locale}/{page}.json or .md)
+ * and single entries per locale ({collection}/{locale}.json, entry id "")
+ */
+async function loadCollection(collection) {
+  const entries = {};
+  let markdown = false;
+  const items = await readdir(join(contentDir, collection), { withFileTypes: true });
+
+  for (const item of items) {
+    if (item.isDirectory()) {
+      const files = (await readdir(join(contentDir, collection, item.name))).filter((file) => ENTRY_FILE.test(file));
+      entries[item.name] = {};
+      for (const file of files) {
+        markdown ||= file.endsWith(".md");
+        entries[item.name][file.replace(ENTRY_FILE, "")] = await readEntry(
+          join(contentDir, collection, item.name, file)
+        );
+      }
+    } else if (item.name.endsWith(".json")) {
+      entries[item.name.replace(/\.json$/, "")] = { "": await readJson(join(contentDir, collection, item.name)) };
+    }
+  }
+
+  return { entries, markdown };
+}
+
+// Content collections are the folders of src/content (folders starting with "_" hold schemas and definitions)
+const collections = (await readdir(contentDir, { withFileTypes: true }))
+  .filter((item) => item.isDirectory() && !item.name.startsWith("_"))
+  .map((item) => item.name);
+
+const issues = [...checkTranslations(translations, options)];
+for (const collection of collections) {
+  const { entries, markdown } = await loadCollection(collection);
+  // Markdown collections (insights) publish posts per locale: only posts that exist in both are compared
+  issues.push(...checkContentCollection(collection, entries, { ...options, perLocaleEntries: markdown }));
+}
+
+const report = createReport(issues);
+const strict = process.argv.includes("--strict");
+
+console.log(process.argv.includes("--json") ? JSON.stringify(report, null, 2) : formatReport(report));
+process.exitCode = report.errorCount > 0 || (strict && report.warningCount > 0) ? 1 : 0;
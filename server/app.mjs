@@ -0,0 +1,237 @@
+// @ts-check
+import http from "node:http";
+
+/**
+ * Production HTTP server around the Astro request handler
+ *
+ * Adds what `astro preview` lacks in production:
+ * - /healthz (liveness) and /readyz (readiness, 503 while draining)
+ * - Cache-Control per asset type (hashed assets are immutable, HTML revalidates)
+ * - security headers generated at build time (dist/security-headers.json), for the SITE_ENV set at runtime
+ * - the locale redirect of the prerendered default home page (dist/locale-redirect.mjs)
+ * - graceful shutdown: stop accepting, finish in-flight requests, then close
+ *
+ * Kept free of Astro imports so it can be tested with any handler (see tests/integration/server).
+ */
+
+/** Hashed build output (/_astro/*) never changes under the same URL */
+export const IMMUTABLE_CACHE = "public, max-age=31536000, immutable";
+/** HTML, sitemap, robots.txt and unhashed public files: cacheable, but always revalidated */
+export const REVALIDATE_CACHE = "public, max-age=0, must-revalidate";
+/** Health checks and on-demand API responses */
+export const NO_STORE = "no-store";
+
+/**
+ * Cache-Control default for a request path
+ * Route handlers may still override it by setting their own header
+ *
+ * @param {string} pathname
+ * @returns {string}
+ */
+export function getCacheControl(pathname) {
+  if (pathname.startsWith("/_astro/")) return IMMUTABLE_CACHE;
+  if (pathname.startsWith("/api/")) return NO_STORE;
+  return REVALIDATE_CACHE;
+}
+
+/**
+ * @typedef {(req: http.IncomingMessage, res: http.ServerResponse) => void} RequestHandler
+ *
+ * Security headers per route path ("/", "/de/ueber-uns"), "*" for every other path
+ * @typedef {Record<string, Record<string, string>>} SecurityHeadersMap
+ *
+ * One SecurityHeadersMap per SITE_ENV ("production", "staging", "development")
+ * @typedef {Record<string, SecurityHeadersMap>} SecurityHeadersProfiles
+ *
+ * Redirect of the default home page to the visitor's language
+ * @typedef {object} LocaleRedirect
+ * @property {string} path - The default locale's home path, the only path that is redirected
+ * @property {(req: http.IncomingMessage) => string | null} getTarget - Another locale's home path, or null to serve the page
+ *
+ * Contents of dist/locale-redirect.mjs (src/i18n/negotiation.ts plus the build's locales and home paths)
+ * @typedef {object} LocaleRedirectModule
+ * @property {string} LOCALE_COOKIE
+ * @property {(request: any) => string | null} getLocaleRedirect
+ * @property {{ locales: string[], defaultLocale: string, homePaths: Record<string, string> }} localeRedirectOptions
+ *
+ * @typedef {object} ProductionServerOptions
+ * @property {RequestHandler} handler - Astro request handler (static files + on-demand routes)
+ * @property {SecurityHeadersMap} [securityHeaders] - Output of the security-headers integration
+ * @property {LocaleRedirect} [localeRedirect] - Output of the locale-redirect integration (createLocaleRedirect)
+ * @property {number} [shutdownTimeoutMs] - Grace period for in-flight requests before connections are dropped
+ * @property {Pick<Console, "info" | "error">} [logger]
+ */
+
+/**
+ * The build's security headers for the environment the server runs in
+ * The build leaves report-uri out; it is appended here as the policy's last directive, like the build would.
+ *
+ * @param {SecurityHeadersProfiles} profiles - Contents of dist/security-headers.json
+ * @param {string} environment - SITE_ENV
+ * @param {string} [reportUri] - CSP_REPORT_URI
+ * @returns {SecurityHeadersMap}
+ */
+export function selectSecurityHeaders(profiles, environment, reportUri) {
+  const headersByPath = profiles[environment];
+  if (!headersByPath) {
+    throw new Error(`Unknown SITE_ENV "${environment}", expected one of: ${Object.keys(profiles).join(", ")}`);
+  }
+  if (!reportUri) return headersByPath;
+
+  /** @param {[string, string]} header */
+  const withReportUri = ([name, value]) =>
+    /^content-security-policy/i.test(name) ? [name, `${value}; report-uri ${reportUri}`] : [name, value];
+
+  return Object.fromEntries(
+    Object.entries(headersByPath).map(([path, headers]) => [
+      path,
+      Object.fromEntries(Object.entries(headers).map(withReportUri)),
+    ])
+  );
+}
+
+/**
+ * Refuses to serve production with the file transport: its outbox is not persisted in the container,
+ * so every lead would be lost while visitors are told their message was sent
+ *
+ * @param {string} environment - SITE_ENV
+ * @param {string} [transport] - CONTACT_TRANSPORT; unset resolves to the schema default "file"
+ */
+export function assertContactTransport(environment, transport) {
+  if (environment === "production" && (transport || "file") === "file") {
+    throw new Error('SITE_ENV=production requires CONTACT_TRANSPORT=smtp: the "file" transport loses every message');
+  }
+}
+
+/**
+ * Value of a cookie in a Cookie header
+ *
+ * @param {string | undefined} header
+ * @param {string} name
+ * @returns {string | undefined}
+ */
+function readCookie(header, name) {
+  for (const pair of header?.split(";") ?? []) {
+    const [key, ...value] = pair.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+/**
+ * The locale redirect for the prerendered default home page, which the Astro middleware never sees
+ * Same decision as src/middleware/localeRedirect.ts: cookie first, then Accept-Language; bots are never redirected
+ *
+ * @param {LocaleRedirectModule} module - dist/locale-redirect.mjs
+ * @returns {LocaleRedirect}
+ */
+export function createLocaleRedirect({ LOCALE_COOKIE, getLocaleRedirect, localeRedirectOptions }) {
+  const path = localeRedirectOptions.homePaths[localeRedirectOptions.defaultLocale];
+
+  return {
+    path,
+    getTarget: (req) =>
+      getLocaleRedirect({
+        ...localeRedirectOptions,
+        pathname: path,
+        acceptLanguage: req.headers["accept-language"] ?? null,
+        userAgent: req.headers["user-agent"] ?? null,
+        preferredLocale: readCookie(req.headers.cookie, LOCALE_COOKIE),
+      }),
+  };
+}
+
+/**
+ * Security headers for a request path: the page's own entry (with inline hashes) or the catch-all
+ *
+ * @param {SecurityHeadersMap} securityHeaders
+ * @param {string} pathname
+ * @returns {Record<string, string>}
+ */
+export function getSecurityHeadersForPath(securityHeaders, pathname) {
+  const routePath = pathname.replace(/\/index\.html$/, "").replace(/\/+$/, "") || "/";
+  return securityHeaders[routePath] ?? securityHeaders["*"] ?? {};
+}
+
+/**
+ * @param {http.ServerResponse} res
+ * @param {number} status
+ * @param {Record<string, string>} body
+ */
+function sendJson(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json", "Cache-Control": NO_STORE });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * @param {ProductionServerOptions} options
+ */
+export function createProductionServer({
+  handler,
+  securityHeaders = {},
+  localeRedirect,
+  shutdownTimeoutMs = 10_000,
+  logger = console,
+}) {
+  let draining = false;
+  /** @type {Promise<void> | undefined} */
+  let closing;
+
+  const server = http.createServer((req, res) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+
+    if (pathname === "/healthz") return sendJson(res, 200, { status: "ok" });
+    if (pathname === "/readyz") {
+      return draining ? sendJson(res, 503, { status: "draining" }) : sendJson(res, 200, { status: "ready" });
+    }
+
+    // Ask keep-alive clients to reconnect elsewhere while this instance drains
+    if (draining) res.setHeader("Connection", "close");
+
+    res.setHeader("Cache-Control", getCacheControl(pathname));
+    for (const [name, value] of Object.entries(getSecurityHeadersForPath(securityHeaders, pathname))) {
+      res.setHeader(name, value);
+    }
+
+    if (localeRedirect && pathname === localeRedirect.path) {
+      // The answer for the home page depends on these headers; keep shared caches from mixing languages
+      res.setHeader("Vary", "Accept-Language, Cookie");
+      const target = localeRedirect.getTarget(req);
+      if (target) return res.writeHead(302, { Location: target }).end();
+    }
+
+    handler(req, res);
+  });
+
+  /**
+   * Stop accepting connections and wait for in-flight requests
+   * Connections still open after the grace period are closed forcefully
+   *
+   * @returns {Promise<void>}
+   */
+  function shutdown() {
+    closing ??= new Promise((resolve) => {
+      draining = true;
+
+      const forceClose = setTimeout(() => {
+        logger.error(`Forcing shutdown after ${shutdownTimeoutMs}ms`);
+        server.closeAllConnections();
+      }, shutdownTimeoutMs);
+      forceClose.unref();
+
+      server.close(() => {
+        clearTimeout(forceClose);
+        resolve();
+      });
+      server.closeIdleConnections();
+    });
+
+    return closing;
+  }
+
+  return {
+    server,
+    shutdown,
+    isReady: () => server.listening && !draining,
+  };
+}
@@ -0,0 +1,58 @@
+// @ts-check
+/**
+ * Production entry point: `npm start` / Docker CMD
+ *
+ * Serves the Astro build (dist/) through the Node adapter's handler.
+ * Configuration comes from the environment, so one image runs in every environment:
+ *   HOST (default 0.0.0.0), PORT (default 8080), SHUTDOWN_TIMEOUT_MS (default 10000)
+ * plus the runtime variables in astro.config.mjs (SITE_ENV, CSP_REPORT_URI, CONTACT_*, SMTP_*, …).
+ * SITE_URL and the content are baked into the prerendered pages and need a rebuild.
+ * SITE_ENV=production (the default) requires CONTACT_TRANSPORT=smtp.
+ */
+import { existsSync, readFileSync } from "node:fs";
+import { assertContactTransport, createLocaleRedirect, createProductionServer, selectSecurityHeaders } from "./app.mjs";
+
+const environment = process.env.SITE_ENV || "production";
+// Checked before anything else so a misconfigured deploy never starts taking leads
+assertContactTransport(environment, process.env.CONTACT_TRANSPORT);
+
+// The adapter's entry would otherwise start its own server on import
+process.env.ASTRO_NODE_AUTOSTART = "disabled";
+// Resolved at runtime: dist/ only exists after `npm run build`
+const entry = new URL("../dist/server/entry.mjs", import.meta.url).href;
+const { handler } = await import(entry);
+
+const host = process.env.HOST || "0.0.0.0";
+const port = Number(process.env.PORT || 8080);
+const shutdownTimeoutMs = Number(process.env.SHUTDOWN_TIMEOUT_MS || 10_000);
+
+// Written by the security-headers integration during `astro build`, one map per SITE_ENV
+const securityHeadersFile = new URL("../dist/security-headers.json", import.meta.url);
+const securityHeaders = existsSync(securityHeadersFile)
+  ? selectSecurityHeaders(
+      JSON.parse(readFileSync(securityHeadersFile, "utf-8")),
+      environment,
+      process.env.CSP_REPORT_URI || undefined
+    )
+  : {};
+
+// Written by the locale-redirect integration during `astro build`: sends first-time visitors of / to their language
+const localeRedirectFile = new URL("../dist/locale-redirect.mjs", import.meta.url);
+const localeRedirect = existsSync(localeRedirectFile)
+  ? createLocaleRedirect(await import(localeRedirectFile.href))
+  : undefined;
+
+const { server, shutdown } = createProductionServer({ handler, securityHeaders, localeRedirect, shutdownTimeoutMs });
+
+server.listen(port, host, () => {
+  console.info(`Server listening on http://${host}:${port}`);
+});
+
+for (const signal of ["SIGTERM", "SIGINT"]) {
+  process.once(signal, async () => {
+    console.info(`${signal} received, draining connections`);
+    await shutdown();
+    console.info("Server closed");
+    process.exit(0);
+  });
+}
@@ -0,0 +1,19 @@
+import type { Locale } from "@/domain";
+
+export type ContentKind = "hero" | "seo" | "pageSections" | "service" | "industryDomain" | "insight" | "caseStudy";
+
+/**
+ * Thrown by use-cases when required content is missing for a page and locale
+ * Carries enough context to point editors at the missing entry
+ */
+export class ContentNotFoundError extends Error {
+  constructor(
+    readonly kind: ContentKind,
+    readonly locale: Locale,
+    /** Page id, or the slug of a service/industry domain/insight/case study */
+    readonly page: string
+  ) {
+    super(`Content not found: ${kind}/${locale}/${page}`);
+    this.name = "ContentNotFoundError";
+  }
+}
@@ -0,0 +1,2 @@
+export { ContentNotFoundError } from "./ContentNotFoundError";
+export type { ContentKind } from "./ContentNotFoundError";
@@ -0,0 +1,20 @@
+import type { CaseStudy, Locale, Slug } from "@/domain";
+
+/**
+ * Port (interface) for case studies
+ *
+ * Infrastructure layer provides concrete implementations:
+ * - ContentCollectionCaseStudyRepository (Content Collections)
+ * - StrapiCaseStudyRepository (Strapi REST API)
+ */
+export interface CaseStudyRepository {
+  /**
+   * Find all case studies for a given locale, in no particular order
+   */
+  findAll(locale: Locale): Promise<CaseStudy[]>;
+
+  /**
+   * Find a single case study by slug
+   */
+  findBySlug(locale: Locale, slug: Slug): Promise<CaseStudy | null>;
+}
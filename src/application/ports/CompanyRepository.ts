@@ -0,0 +1,16 @@
+import type { Company } from "@/content/_schemas/company";
+import type { Locale } from "@/domain";
+
+/**
+ * Port (interface) for site-wide company data
+ *
+ * Infrastructure layer provides concrete implementations:
+ * - ContentCollectionCompanyRepository (Content Collections)
+ * - StrapiCompanyRepository (Strapi REST API)
+ */
+export interface CompanyRepository {
+  /**
+   * Find the company data for a given locale
+   */
+  find(locale: Locale): Promise<Company | null>;
+}
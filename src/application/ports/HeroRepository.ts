@@ -0,0 +1,16 @@
+import type { Hero } from "@/content/_schemas/hero";
+import type { Locale } from "@/domain";
+
+/**
+ * Port (interface) for hero content
+ *
+ * Infrastructure layer provides concrete implementations:
+ * - ContentCollectionHeroRepository (Content Collections)
+ * - StrapiHeroRepository (Strapi REST API)
+ */
+export interface HeroRepository {
+  /**
+   * Find the hero of a page (e.g. "home") for a given locale
+   */
+  findByPage(locale: Locale, page: string): Promise<Hero | null>;
+}
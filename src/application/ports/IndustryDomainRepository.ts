@@ -0,0 +1,20 @@
+import type { IndustryDomain, Locale, Slug } from "@/domain";
+
+/**
+ * Port (interface) for industry domains
+ *
+ * Infrastructure layer provides concrete implementations:
+ * - ContentCollectionIndustryDomainRepository (Content Collections)
+ * - StrapiIndustryDomainRepository (Strapi REST API)
+ */
+export interface IndustryDomainRepository {
+  /**
+   * Find all industry domains for a given locale, in no particular order
+   */
+  findAll(locale: Locale): Promise<IndustryDomain[]>;
+
+  /**
+   * Find a single industry domain by slug
+   */
+  findBySlug(locale: Locale, slug: Slug): Promise<IndustryDomain | null>;
+}
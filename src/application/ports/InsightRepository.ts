@@ -0,0 +1,26 @@
+import type { Insight, Locale, Slug } from "@/domain";
+
+/** An insight with its body, ready to render */
+export interface InsightArticle {
+  insight: Insight;
+  /** Article body as HTML, rendered from the post's markdown */
+  html: string;
+}
+
+/**
+ * Port (interface) for insights (blog posts)
+ *
+ * Infrastructure layer provides concrete implementations:
+ * - ContentCollectionInsightRepository (Content Collections, markdown)
+ */
+export interface InsightRepository {
+  /**
+   * Find all insights for a given locale, in no particular order
+   */
+  findAll(locale: Locale): Promise<Insight[]>;
+
+  /**
+   * Find a single insight with its rendered body by slug
+   */
+  findBySlug(locale: Locale, slug: Slug): Promise<InsightArticle | null>;
+}
@@ -0,0 +1,16 @@
+import type { ContactMessage } from "@/domain";
+
+/**
+ * Port (interface) for delivering contact messages
+ *
+ * Infrastructure layer provides concrete implementations:
+ * - FileMessageSender (local development: writes to an outbox folder)
+ * - SmtpMessageSender (production: sends via SMTP)
+ */
+export interface MessageSender {
+  /**
+   * Deliver a validated contact message
+   * Rejects if the message could not be handed over
+   */
+  send(message: ContactMessage): Promise<void>;
+}
@@ -0,0 +1,16 @@
+import type { PageSections } from "@/content/_schemas/pageSections";
+import type { Locale } from "@/domain";
+
+/**
+ * Port (interface) for the ordered content sections of a page
+ *
+ * Infrastructure layer provides concrete implementations:
+ * - ContentCollectionPageSectionsRepository (Content Collections)
+ * - StrapiPageSectionsRepository (Strapi REST API)
+ */
+export interface PageSectionsRepository {
+  /**
+   * Find the sections of a page (e.g. "home") for a given locale
+   */
+  findByPage(locale: Locale, page: string): Promise<PageSections | null>;
+}
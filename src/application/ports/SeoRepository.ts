@@ -0,0 +1,21 @@
+import type { SeoDefaults, SeoMetadata } from "@/content/_schemas/seo";
+import type { Locale } from "@/domain";
+
+/**
+ * Port (interface) for page-level SEO metadata
+ *
+ * Infrastructure layer provides concrete implementations:
+ * - ContentCollectionSeoRepository (Content Collections)
+ * - StrapiSeoRepository (Strapi REST API)
+ */
+export interface SeoRepository {
+  /**
+   * Find the SEO metadata of a page (e.g. "home") for a given locale
+   */
+  findByPage(locale: Locale, page: string): Promise<SeoMetadata | null>;
+
+  /**
+   * Find the site-wide SEO defaults for a given locale
+   */
+  findDefaults(locale: Locale): Promise<SeoDefaults | null>;
+}
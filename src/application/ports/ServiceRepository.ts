@@ -0,0 +1,20 @@
+import type { Locale, Service, Slug } from "@/domain";
+
+/**
+ * Port (interface) for services (engagement formats)
+ *
+ * Infrastructure layer provides concrete implementations:
+ * - ContentCollectionServiceRepository (Content Collections)
+ * - StrapiServiceRepository (Strapi REST API)
+ */
+export interface ServiceRepository {
+  /**
+   * Find all services for a given locale, in no particular order
+   */
+  findAll(locale: Locale): Promise<Service[]>;
+
+  /**
+   * Find a single service by slug
+   */
+  findBySlug(locale: Locale, slug: Slug): Promise<Service | null>;
+}
@@ -0,0 +1,9 @@
+export type { MessageSender } from "./MessageSender";
+export type { HeroRepository } from "./HeroRepository";
+export type { SeoRepository } from "./SeoRepository";
+export type { PageSectionsRepository } from "./PageSectionsRepository";
+export type { CompanyRepository } from "./CompanyRepository";
+export type { ServiceRepository } from "./ServiceRepository";
+export type { IndustryDomainRepository } from "./IndustryDomainRepository";
+export type { InsightRepository, InsightArticle } from "./InsightRepository";
+export type { CaseStudyRepository } from "./CaseStudyRepository";
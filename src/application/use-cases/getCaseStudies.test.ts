@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from "vitest";
+import { getCaseStudies, getCaseStudyDetail, getCaseStudyListing } from "./getCaseStudies";
+import type { CaseStudy } from "@/domain";
+import { ContentNotFoundError } from "@/application/errors/ContentNotFoundError";
+import { domain, service } from "../../../tests/fixtures/entities";
+
+const caseStudy = (slug: string, order: number, services: string[], domains: string[]): CaseStudy => ({
+  slug,
+  title: slug,
+  summary: `${slug} summary`,
+  sector: "Utility",
+  challenge: `${slug} challenge`,
+  approach: `${slug} approach`,
+  outcomes: [{ value: "3 weeks", label: "to a decision" }],
+  services,
+  domains,
+  order,
+});
+
+const caseStudies = [
+  caseStudy("hospital-group", 2, ["steer-retainer"], ["health"]),
+  caseStudy("grid-operator", 1, ["model-validation", "frame-sprint"], ["energy-infrastructure"]),
+];
+const services = [service("steer-retainer", 4), service("frame-sprint", 1), service("model-validation", 3)];
+const domains = [domain("health", 5), domain("energy-infrastructure", 1), domain("esg", 6)];
+
+function createRepositories(studies: CaseStudy[] = caseStudies) {
+  return {
+    caseStudies: {
+      findAll: vi.fn().mockResolvedValue(studies),
+      findBySlug: vi.fn((_locale: string, slug: string) => studies.find((study) => study.slug === slug) ?? null),
+    },
+    services: { findAll: vi.fn().mockResolvedValue(services), findBySlug: vi.fn() },
+    industryDomains: { findAll: vi.fn().mockResolvedValue(domains), findBySlug: vi.fn() },
+  };
+}
+
+describe("getCaseStudies", () => {
+  it("returns the case studies of a locale in editor-defined order", async () => {
+    const repositories = createRepositories();
+
+    const result = await getCaseStudies(repositories, "de");
+
+    expect(result.map(({ slug }) => slug)).toEqual(["grid-operator", "hospital-group"]);
+    expect(repositories.caseStudies.findAll).toHaveBeenCalledWith("de");
+  });
+});
+
+describe("getCaseStudyListing", () => {
+  it("lists all studies with the formats and domains they use as filter options", async () => {
+    const listing = await getCaseStudyListing(createRepositories(), "en");
+
+    expect(listing.caseStudies.map(({ slug }) => slug)).toEqual(["grid-operator", "hospital-group"]);
+    expect(listing.services.map(({ slug }) => slug)).toEqual(["frame-sprint", "model-validation", "steer-retainer"]);
+    expect(listing.domains.map(({ slug }) => slug)).toEqual(["energy-infrastructure", "health"]);
+  });
+
+  it("keeps featured studies in the given order and only their references", async () => {
+    const listing = await getCaseStudyListing(createRepositories(), "en", ["hospital-group"]);
+
+    expect(listing.caseStudies.map(({ slug }) => slug)).toEqual(["hospital-group"]);
+    expect(listing.services.map(({ slug }) => slug)).toEqual(["steer-retainer"]);
+    expect(listing.domains.map(({ slug }) => slug)).toEqual(["health"]);
+  });
+
+  it("throws ContentNotFoundError for featured studies that do not exist", async () => {
+    await expect(getCaseStudyListing(createRepositories(), "de", ["grid-operator", "unknown"])).rejects.toThrow(
+      "Content not found: caseStudy/de/unknown"
+    );
+  });
+});
+
+describe("getCaseStudyDetail", () => {
+  it("returns the study with its formats and domains in order", async () => {
+    const detail = await getCaseStudyDetail(createRepositories(), "en", "grid-operator");
+
+    expect(detail.caseStudy).toBe(caseStudies[1]);
+    expect(detail.services.map(({ slug }) => slug)).toEqual(["frame-sprint", "model-validation"]);
+    expect(detail.domains.map(({ slug }) => slug)).toEqual(["energy-infrastructure"]);
+  });
+
+  it("throws ContentNotFoundError when the study is missing", async () => {
+    const promise = getCaseStudyDetail(createRepositories(), "de", "unknown");
+
+    await expect(promise).rejects.toBeInstanceOf(ContentNotFoundError);
+    await expect(promise).rejects.toMatchObject({ kind: "caseStudy", locale: "de", page: "unknown" });
+  });
+
+  it("throws ContentNotFoundError for services and domains that do not exist", async () => {
+    const repositories = createRepositories([
+      caseStudy("bank", 1, ["frame-sprint"], ["finance"]),
+      caseStudy("insurer", 2, ["audit-sprint"], ["health"]),
+    ]);
+
+    await expect(getCaseStudyDetail(repositories, "en", "bank")).rejects.toThrow(
+      "Content not found: industryDomain/en/finance"
+    );
+    await expect(getCaseStudyDetail(repositories, "en", "insurer")).rejects.toThrow(
+      "Content not found: service/en/audit-sprint"
+    );
+  });
+});
@@ -0,0 +1,115 @@
+import type { CaseStudy, IndustryDomain, Locale, Service, Slug } from "@/domain";
+import { findUnknownDomains, sortByOrder } from "@/domain";
+import type { CaseStudyRepository } from "@/application/ports/CaseStudyRepository";
+import type { ServiceRepositories } from "@/application/use-cases/getServices";
+import { ContentNotFoundError } from "@/application/errors/ContentNotFoundError";
+
+export interface CaseStudyRepositories extends ServiceRepositories {
+  caseStudies: CaseStudyRepository;
+}
+
+/**
+ * Case studies with the engagement formats and industry domains they reference, in editor-defined order
+ * `services` and `domains` are the filter options of a listing and the labels of a study's badges
+ */
+export interface CaseStudyListing {
+  caseStudies: CaseStudy[];
+  services: Service[];
+  domains: IndustryDomain[];
+}
+
+/** A case study with its engagement formats and industry domains, for its detail page */
+export interface CaseStudyDetail {
+  caseStudy: CaseStudy;
+  services: Service[];
+  domains: IndustryDomain[];
+}
+
+/**
+ * Resolves the formats and domains referenced by the studies
+ * @throws ContentNotFoundError for references to missing services or domains
+ */
+async function resolveReferences(
+  repositories: CaseStudyRepositories,
+  locale: Locale,
+  caseStudies: readonly CaseStudy[]
+): Promise<Omit<CaseStudyListing, "caseStudies">> {
+  const [services, domains] = await Promise.all([
+    repositories.services.findAll(locale),
+    repositories.industryDomains.findAll(locale),
+  ]);
+
+  const serviceSlugs = new Set(caseStudies.flatMap((study) => study.services));
+  const domainSlugs = new Set(caseStudies.flatMap((study) => study.domains));
+
+  const knownServices = new Set(services.map((service) => service.slug));
+  const unknownService = [...serviceSlugs].find((slug) => !knownServices.has(slug));
+  if (unknownService) throw new ContentNotFoundError("service", locale, unknownService);
+
+  const [unknownDomain] = findUnknownDomains(
+    [...domainSlugs],
+    domains.map((domain) => domain.slug)
+  );
+  if (unknownDomain) throw new ContentNotFoundError("industryDomain", locale, unknownDomain);
+
+  return {
+    services: sortByOrder(services.filter((service) => serviceSlugs.has(service.slug))),
+    domains: sortByOrder(domains.filter((domain) => domainSlugs.has(domain.slug))),
+  };
+}
+
+/**
+ * Lists all case studies of a locale in editor-defined order
+ *
+ * Use-case: As a prospect in a regulated industry, I want evidence that the formats work
+ */
+export async function getCaseStudies(
+  repositories: Pick<CaseStudyRepositories, "caseStudies">,
+  locale: Locale
+): Promise<CaseStudy[]> {
+  return sortByOrder(await repositories.caseStudies.findAll(locale));
+}
+
+/**
+ * Loads case studies with the formats and domains they reference
+ *
+ * Use-case: As a prospect, I want to narrow the case studies down to my industry or the format I consider
+ *
+ * @param slugs - Featured studies in display order; all studies in editor-defined order when omitted
+ * @throws ContentNotFoundError if a featured study or a referenced service/domain is missing
+ */
+export async function getCaseStudyListing(
+  repositories: CaseStudyRepositories,
+  locale: Locale,
+  slugs?: readonly Slug[]
+): Promise<CaseStudyListing> {
+  const all = await repositories.caseStudies.findAll(locale);
+
+  const caseStudies = slugs
+    ? slugs.map((slug) => {
+        const study = all.find((candidate) => candidate.slug === slug);
+        if (!study) throw new ContentNotFoundError("caseStudy", locale, slug);
+        return study;
+      })
+    : sortByOrder(all);
+
+  return { caseStudies, ...(await resolveReferences(repositories, locale, caseStudies)) };
+}
+
+/**
+ * Loads a case study and resolves its formats and domains
+ *
+ * Use-case: As a prospect, I want to read the challenge, approach and outcome of an engagement like mine
+ *
+ * @throws ContentNotFoundError if the study or one of its services/domains is missing
+ */
+export async function getCaseStudyDetail(
+  repositories: CaseStudyRepositories,
+  locale: Locale,
+  slug: Slug
+): Promise<CaseStudyDetail> {
+  const caseStudy = await repositories.caseStudies.findBySlug(locale, slug);
+  if (!caseStudy) throw new ContentNotFoundError("caseStudy", locale, slug);
+
+  return { caseStudy, ...(await resolveReferences(repositories, locale, [caseStudy])) };
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from "vitest";
+import { getIndustryDomainDetail, getIndustryDomains } from "./getIndustryDomains";
+import type { IndustryDomain } from "@/domain";
+import { ContentNotFoundError } from "@/application/errors/ContentNotFoundError";
+import { service } from "../../../tests/fixtures/entities";
+
+const finance: IndustryDomain = {
+  slug: "finance",
+  title: "Finance Resilience",
+  summary: "Decision-ready finance and risk architectures.",
+  description: "Numbers you can defend under stress.",
+  order: 3,
+};
+const health: IndustryDomain = { ...finance, slug: "health", title: "Regulated Operations / Health", order: 1 };
+
+const services = [
+  service("model-validation", 3, ["finance", "health"]),
+  service("steer-retainer", 4, ["esg"]),
+  service("architect-blueprint", 2, ["finance"]),
+];
+
+function createRepositories(found: IndustryDomain | null = finance) {
+  return {
+    services: { findAll: vi.fn().mockResolvedValue(services), findBySlug: vi.fn() },
+    industryDomains: {
+      findAll: vi.fn().mockResolvedValue([finance, health]),
+      findBySlug: vi.fn().mockResolvedValue(found),
+    },
+  };
+}
+
+describe("getIndustryDomains", () => {
+  it("returns the domains of a locale in editor-defined order", async () => {
+    const result = await getIndustryDomains(createRepositories(), "en");
+
+    expect(result.map(({ slug }) => slug)).toEqual(["health", "finance"]);
+  });
+});
+
+describe("getIndustryDomainDetail", () => {
+  it("returns the domain with the services that relate to it", async () => {
+    const repositories = createRepositories();
+
+    const detail = await getIndustryDomainDetail(repositories, "de", "finance");
+
+    expect(detail.domain).toBe(finance);
+    expect(detail.services.map(({ slug }) => slug)).toEqual(["architect-blueprint", "model-validation"]);
+    expect(repositories.industryDomains.findBySlug).toHaveBeenCalledWith("de", "finance");
+  });
+
+  it("throws ContentNotFoundError when the domain is missing", async () => {
+    const promise = getIndustryDomainDetail(createRepositories(null), "en", "space");
+
+    await expect(promise).rejects.toBeInstanceOf(ContentNotFoundError);
+    await expect(promise).rejects.toMatchObject({ kind: "industryDomain", locale: "en", page: "space" });
+  });
+});
@@ -0,0 +1,47 @@
+import type { IndustryDomain, Locale, Service, Slug } from "@/domain";
+import { servesDomain, sortByOrder } from "@/domain";
+import type { ServiceRepositories } from "@/application/use-cases/getServices";
+import { ContentNotFoundError } from "@/application/errors/ContentNotFoundError";
+
+/** An industry domain with the services used in it, for its detail page */
+export interface IndustryDomainDetail {
+  domain: IndustryDomain;
+  services: Service[];
+}
+
+/**
+ * Lists all industry domains of a locale in editor-defined order
+ *
+ * Use-case: As a visitor, I want to check whether my industry is covered
+ */
+export async function getIndustryDomains(
+  repositories: Pick<ServiceRepositories, "industryDomains">,
+  locale: Locale
+): Promise<IndustryDomain[]> {
+  return sortByOrder(await repositories.industryDomains.findAll(locale));
+}
+
+/**
+ * Loads an industry domain and the services that list it as related domain
+ *
+ * Use-case: As a visitor from an industry, I want to see which formats fit my situation
+ *
+ * @throws ContentNotFoundError if the domain is missing
+ */
+export async function getIndustryDomainDetail(
+  repositories: ServiceRepositories,
+  locale: Locale,
+  slug: Slug
+): Promise<IndustryDomainDetail> {
+  const [domain, services] = await Promise.all([
+    repositories.industryDomains.findBySlug(locale, slug),
+    repositories.services.findAll(locale),
+  ]);
+
+  if (!domain) throw new ContentNotFoundError("industryDomain", locale, slug);
+
+  return {
+    domain,
+    services: sortByOrder(services.filter((service) => servesDomain(service, slug))),
+  };
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  getInsightArticle,
+  getInsights,
+  getInsightTagArchives,
+  getLocalizedInsightsPages,
+  getLocalizedInsightTagArchives,
+  paginateInsights,
+} from "./getInsights";
+import type { Insight } from "@/domain";
+import type { InsightArticle } from "@/application/ports/InsightRepository";
+import { ContentNotFoundError } from "@/application/errors/ContentNotFoundError";
+
+const insight = (slug: string, publishedAt: string, tags: string[] = ["Resilience"]): Insight => ({
+  slug,
+  title: slug,
+  summary: `${slug} summary`,
+  author: { name: "Mara Lindqvist" },
+  tags,
+  publishedAt: new Date(publishedAt),
+  readingTime: 3,
+});
+
+const insights = [
+  insight("decision-logs", "2026-07-02", ["Governance"]),
+  insight("grid-stress-tests", "2026-09-14", ["Energy", "Supply chain"]),
+  insight("model-risk", "2026-05-18", ["Governance", "supply-chain"]),
+];
+
+function createRepositories(articles: Record<string, InsightArticle> = {}) {
+  return {
+    insights: {
+      findAll: vi.fn().mockResolvedValue(insights),
+      findBySlug: vi.fn(async (locale: string, slug: string) => articles[`${locale}/${slug}`] ?? null),
+    },
+  };
+}
+
+describe("getInsights", () => {
+  it("returns the insights of a locale, newest first", async () => {
+    const repositories = createRepositories();
+
+    const result = await getInsights(repositories, "de");
+
+    expect(result.map(({ slug }) => slug)).toEqual(["grid-stress-tests", "decision-logs", "model-risk"]);
+    expect(repositories.insights.findAll).toHaveBeenCalledWith("de");
+  });
+});
+
+describe("paginateInsights", () => {
+  it("splits a listing into pages of the given size", () => {
+    const pages = paginateInsights(insights, 2);
+
+    expect(pages).toHaveLength(2);
+    expect(pages[0]).toMatchObject({ page: 1, totalPages: 2 });
+    expect(pages[0]?.insights).toHaveLength(2);
+    expect(pages[1]?.insights.map(({ slug }) => slug)).toEqual(["model-risk"]);
+  });
+
+  it("keeps one empty page for an empty listing", () => {
+    expect(paginateInsights([])).toEqual([{ insights: [], page: 1, totalPages: 1 }]);
+  });
+});
+
+describe("getInsightTagArchives", () => {
+  it("groups posts by tag slug, largest archives first", () => {
+    const archives = getInsightTagArchives(insights);
+
+    expect(archives.map(({ slug, insights }) => [slug, insights.length])).toEqual([
+      ["governance", 2],
+      ["supply-chain", 2],
+      ["energy", 1],
+    ]);
+    expect(archives[1]?.tag).toBe("Supply chain");
+  });
+});
+
+// English has every post, German only the oldest one
+const createLocalizedRepositories = () => ({
+  insights: {
+    findAll: vi.fn(async (locale: string) => (locale === "en" ? insights : insights.slice(2))),
+    findBySlug: vi.fn(),
+  },
+});
+
+describe("getLocalizedInsightsPages", () => {
+  it("returns the pages of every locale with the locales that reach the same page number", async () => {
+    const pages = await getLocalizedInsightsPages(createLocalizedRepositories(), ["en", "de"]);
+
+    expect(pages.map(({ locale, page, locales }) => [locale, page, locales])).toEqual([
+      ["en", 1, ["en", "de"]],
+      ["de", 1, ["en", "de"]],
+    ]);
+    expect(pages[1]?.archives.map(({ slug }) => slug)).toEqual(["governance", "supply-chain"]);
+  });
+});
+
+describe("getLocalizedInsightTagArchives", () => {
+  it("returns the tag archives of every locale with the locales that share the topic", async () => {
+    const archives = await getLocalizedInsightTagArchives(createLocalizedRepositories(), ["en", "de"]);
+
+    expect(archives.map(({ locale, archive, locales }) => [locale, archive.slug, locales])).toEqual([
+      ["en", "governance", ["en", "de"]],
+      ["en", "supply-chain", ["en", "de"]],
+      ["en", "energy", ["en"]],
+      ["de", "governance", ["en", "de"]],
+      ["de", "supply-chain", ["en", "de"]],
+    ]);
+    expect(archives[0]?.archives).toHaveLength(3);
+  });
+});
+
+describe("getInsightArticle", () => {
+  const article = { insight: insights[1]!, html: "<p>Body</p>" };
+
+  it("returns the article with the locales it is published in", async () => {
+    const repositories = createRepositories({ "de/grid-stress-tests": article, "en/grid-stress-tests": article });
+
+    const detail = await getInsightArticle(repositories, "de", "grid-stress-tests", ["en", "de"]);
+
+    expect(detail.html).toBe("<p>Body</p>");
+    expect(detail.locales).toEqual(["en", "de"]);
+  });
+
+  it("leaves out locales without a translation", async () => {
+    const repositories = createRepositories({ "de/grid-stress-tests": article });
+
+    const detail = await getInsightArticle(repositories, "de", "grid-stress-tests", ["en", "de"]);
+
+    expect(detail.locales).toEqual(["de"]);
+  });
+
+  it("throws ContentNotFoundError when the post is missing", async () => {
+    const promise = getInsightArticle(createRepositories(), "en", "unknown", ["en", "de"]);
+
+    await expect(promise).rejects.toBeInstanceOf(ContentNotFoundError);
+    await expect(promise).rejects.toMatchObject({ kind: "insight", locale: "en", page: "unknown" });
+  });
+});
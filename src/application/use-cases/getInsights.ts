@@ -0,0 +1,174 @@
+import type { Insight, Locale, Slug, Tag } from "@/domain";
+import { sortByPublishedAt, toTagSlug } from "@/domain";
+import type { InsightArticle, InsightRepository } from "@/application/ports/InsightRepository";
+import { ContentNotFoundError } from "@/application/errors/ContentNotFoundError";
+
+/** Posts per listing page */
+export const INSIGHTS_PAGE_SIZE = 6;
+
+export interface InsightRepositories {
+  insights: InsightRepository;
+}
+
+/** One page of a listing; `page` starts at 1 */
+export interface InsightsPage {
+  insights: Insight[];
+  page: number;
+  totalPages: number;
+}
+
+/** All posts of a locale with one tag, newest first */
+export interface InsightTagArchive {
+  tag: Tag;
+  slug: Slug;
+  insights: Insight[];
+}
+
+/** A listing page of a locale with the locales that have a page with the same number, for hreflang */
+export interface LocalizedInsightsPage extends InsightsPage {
+  locale: Locale;
+  /** Tag archives of the whole listing, not just this page */
+  archives: InsightTagArchive[];
+  locales: Locale[];
+}
+
+/** A tag archive of a locale with the locales that have posts on the same topic, for hreflang */
+export interface LocalizedInsightTagArchive {
+  locale: Locale;
+  archive: InsightTagArchive;
+  /** All tag archives of the locale */
+  archives: InsightTagArchive[];
+  locales: Locale[];
+}
+
+/** A post with the locales it is published in (itself included), for hreflang and the language switcher */
+export interface InsightArticleDetail extends InsightArticle {
+  locales: Locale[];
+}
+
+/**
+ * Lists all insights of a locale, newest first
+ *
+ * Use-case: As a visitor, I want to read the latest thinking on resilience architecture in my language
+ */
+export async function getInsights(repositories: InsightRepositories, locale: Locale): Promise<Insight[]> {
+  return sortByPublishedAt(await repositories.insights.findAll(locale));
+}
+
+/**
+ * Splits a listing into pages, keeping the order
+ * An empty listing still has one (empty) page, so the index page always exists
+ */
+export function paginateInsights(insights: readonly Insight[], pageSize = INSIGHTS_PAGE_SIZE): InsightsPage[] {
+  const totalPages = Math.max(1, Math.ceil(insights.length / pageSize));
+
+  return Array.from({ length: totalPages }, (_, index) => ({
+    insights: insights.slice(index * pageSize, (index + 1) * pageSize),
+    page: index + 1,
+    totalPages,
+  }));
+}
+
+/**
+ * Groups a listing by tag, keeping the order of posts
+ * Tags spelled differently but sharing a slug ("Supply chain", "supply-chain") form one archive named after the first spelling
+ * Archives with the most posts come first, then alphabetically
+ */
+export function getInsightTagArchives(insights: readonly Insight[]): InsightTagArchive[] {
+  const archives = new Map<Slug, InsightTagArchive>();
+
+  for (const insight of insights) {
+    for (const tag of insight.tags) {
+      const slug = toTagSlug(tag);
+      const archive = archives.get(slug) ?? { tag, slug, insights: [] };
+      archive.insights.push(insight);
+      archives.set(slug, archive);
+    }
+  }
+
+  return [...archives.values()].sort((a, b) => b.insights.length - a.insights.length || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Paginates the listing of every locale
+ *
+ * Use-case: As a visitor, I want to browse all posts of my language and switch to the same page in another one
+ *
+ * @param locales - Locales to paginate; other locales may have fewer pages, so each page lists only those that reach it
+ */
+export async function getLocalizedInsightsPages(
+  repositories: InsightRepositories,
+  locales: readonly Locale[]
+): Promise<LocalizedInsightsPage[]> {
+  const listings = await Promise.all(
+    locales.map(async (locale) => {
+      const insights = await getInsights(repositories, locale);
+      return { locale, pages: paginateInsights(insights), archives: getInsightTagArchives(insights) };
+    })
+  );
+
+  return listings.flatMap(({ locale, pages, archives }) =>
+    pages.map((page) => ({
+      ...page,
+      locale,
+      archives,
+      locales: listings.filter((listing) => listing.pages.length >= page.page).map((listing) => listing.locale),
+    }))
+  );
+}
+
+/**
+ * Groups the listing of every locale by tag
+ *
+ * Use-case: As a visitor, I want to read all posts on a topic and switch to the same topic in another language
+ *
+ * @param locales - Locales to group; each archive lists only the locales with posts on the same topic (same tag slug)
+ */
+export async function getLocalizedInsightTagArchives(
+  repositories: InsightRepositories,
+  locales: readonly Locale[]
+): Promise<LocalizedInsightTagArchive[]> {
+  const archivesByLocale = await Promise.all(
+    locales.map(async (locale) => ({
+      locale,
+      archives: getInsightTagArchives(await getInsights(repositories, locale)),
+    }))
+  );
+
+  return archivesByLocale.flatMap(({ locale, archives }) =>
+    archives.map((archive) => ({
+      locale,
+      archive,
+      archives,
+      locales: archivesByLocale
+        .filter((candidate) => candidate.archives.some(({ slug }) => slug === archive.slug))
+        .map((candidate) => candidate.locale),
+    }))
+  );
+}
+
+/**
+ * Loads a post with its body and finds its translations
+ *
+ * Use-case: As a visitor, I want to read a post and switch to its translation if there is one
+ *
+ * @param locales - Locales to look for translations in (posts share the slug across locales)
+ * @throws ContentNotFoundError if the post does not exist in `locale`
+ */
+export async function getInsightArticle(
+  repositories: InsightRepositories,
+  locale: Locale,
+  slug: Slug,
+  locales: readonly Locale[]
+): Promise<InsightArticleDetail> {
+  const article = await repositories.insights.findBySlug(locale, slug);
+  if (!article) throw new ContentNotFoundError("insight", locale, slug);
+
+  const translations = await Promise.all(
+    locales.map(async (candidate) =>
+      candidate === locale || (await repositories.insights.findBySlug(candidate, slug)) ? candidate : null
+    )
+  );
+
+  return { ...article, locales: translations.filter((candidate): candidate is Locale => candidate !== null) };
+}
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi } from "vitest";
+import { getPage, getHomePage, isContentPage } from "./getPage";
+import type { PageRepositories } from "./getPage";
+import { ContentNotFoundError } from "@/application/errors/ContentNotFoundError";
+
+const hero = {
+  title: "Resilience Architecture for Critical Systems",
+  subtitle: "Independent consulting",
+  primaryCta: { label: "Book an Intro Call", href: "/contact" },
+};
+const seo = { title: "Globalcore", description: "Resilience Architecture", noIndex: false };
+const sections = [
+  { type: "oneLiner" as const, id: "fras", anchor: "fras", title: "How we work", oneLiner: "FRAS™" },
+  { type: "ctaStrip" as const, id: "home-cta", title: "Ready?", primary: { label: "Contact", href: "/contact" } },
+];
+
+function createRepositories(overrides: Partial<Record<keyof PageRepositories, unknown>> = {}) {
+  const value = (key: keyof PageRepositories, fallback: unknown) => (key in overrides ? overrides[key] : fallback);
+
+  return {
+    hero: { findByPage: vi.fn().mockResolvedValue(value("hero", hero)) },
+    seo: { findByPage: vi.fn().mockResolvedValue(value("seo", seo)) },
+    pageSections: { findByPage: vi.fn().mockResolvedValue(value("pageSections", { sections })) },
+    services: { findAll: vi.fn().mockResolvedValue(value("services", [])), findBySlug: vi.fn() },
+    industryDomains: { findAll: vi.fn().mockResolvedValue(value("industryDomains", [])), findBySlug: vi.fn() },
+    caseStudies: { findAll: vi.fn().mockResolvedValue(value("caseStudies", [])), findBySlug: vi.fn() },
+  } satisfies PageRepositories;
+}
+
+describe("getPage", () => {
+  it("returns the page aggregate for a locale", async () => {
+    const repositories = createRepositories();
+
+    const page = await getPage(repositories, "de", "services");
+
+    expect(page).toEqual({ page: "services", locale: "de", hero, sections, seo });
+    expect(repositories.hero.findByPage).toHaveBeenCalledWith("de", "services");
+    expect(repositories.pageSections.findByPage).toHaveBeenCalledWith("de", "services");
+    expect(repositories.seo.findByPage).toHaveBeenCalledWith("de", "services");
+  });
+
+  it("resolves collection cards into cards linking to the detail pages", async () => {
+    const collectionCards = {
+      type: "collectionCards" as const,
+      id: "domains",
+      anchor: "domains",
+      title: "Domains we cover",
+      intro: "If you operate in one of these domains, you're covered.",
+      collection: "industryDomains" as const,
+    };
+    const domain = { title: "Finance Resilience", summary: "Decision-ready finance.", description: "", order: 2 };
+    const repositories = createRepositories({
+      pageSections: { sections: [collectionCards] },
+      industryDomains: [
+        { ...domain, slug: "finance" },
+        { ...domain, slug: "health", title: "Regulated Operations / Health", order: 1 },
+      ],
+    });
+
+    const page = await getPage(repositories, "de", "home");
+
+    expect(page.sections).toEqual([
+      {
+        type: "cards",
+        id: "domains",
+        anchor: "domains",
+        title: "Domains we cover",
+        intro: "If you operate in one of these domains, you're covered.",
+        items: [
+          { title: "Regulated Operations / Health", text: "Decision-ready finance.", href: "route:domains/health" },
+          { title: "Finance Resilience", text: "Decision-ready finance.", href: "route:domains/finance" },
+        ],
+      },
+    ]);
+    expect(repositories.industryDomains.findAll).toHaveBeenCalledWith("de");
+    expect(repositories.services.findAll).not.toHaveBeenCalled();
+  });
+
+  it("resolves featured case studies with the services and domains they reference", async () => {
+    const caseStudiesSection = {
+      type: "caseStudies" as const,
+      id: "evidence",
+      anchor: "case-studies",
+      title: "Evidence",
+      studies: ["grid-operator"],
+      filterable: false,
+    };
+    const caseStudy = {
+      slug: "grid-operator",
+      title: "Grid operator",
+      summary: "Dependencies mapped.",
+      sector: "Utility",
+      challenge: "Unknown dependencies.",
+      approach: "FRAME Sprint.",
+      outcomes: [{ value: "3 weeks", label: "to a dependency map" }],
+      services: ["frame-sprint"],
+      domains: ["energy-infrastructure"],
+      order: 1,
+    };
+    const frameSprint = { slug: "frame-sprint", title: "FRAME Sprint", order: 1 };
+    const energy = { slug: "energy-infrastructure", title: "Energy", order: 1 };
+    const repositories = createRepositories({
+      pageSections: { sections: [caseStudiesSection] },
+      caseStudies: [caseStudy, { ...caseStudy, slug: "hospital-group" }],
+      services: [frameSprint, { slug: "steer-retainer", title: "STEER Retainer", order: 4 }],
+      industryDomains: [energy],
+    });
+
+    const page = await getPage(repositories, "en", "home");
+
+    expect(page.sections).toEqual([
+      {
+        type: "caseStudies",
+        id: "evidence",
+        anchor: "case-studies",
+        title: "Evidence",
+        filterable: false,
+        caseStudies: [caseStudy],
+        services: [frameSprint],
+        domains: [energy],
+      },
+    ]);
+  });
+
+  it("throws ContentNotFoundError for featured case studies that do not exist", async () => {
+    const repositories = createRepositories({
+      pageSections: {
+        sections: [
+          { type: "caseStudies", id: "evidence", anchor: "case-studies", title: "Evidence", studies: ["unknown"] },
+        ],
+      },
+    });
+
+    await expect(getPage(repositories, "de", "home")).rejects.toThrow("Content not found: caseStudy/de/unknown");
+  });
+
+  it("omits SEO metadata when none exists", async () => {
+    const page = await getPage(createRepositories({ seo: null }), "en", "about");
+
+    expect(page).not.toHaveProperty("seo");
+  });
+
+  it("throws ContentNotFoundError when the hero is missing", async () => {
+    const promise = getPage(createRepositories({ hero: null }), "de", "domains");
+
+    await expect(promise).rejects.toBeInstanceOf(ContentNotFoundError);
+    await expect(promise).rejects.toMatchObject({ kind: "hero", locale: "de", page: "domains" });
+  });
+
+  it("throws ContentNotFoundError when page sections are missing", async () => {
+    await expect(getPage(createRepositories({ pageSections: null }), "en", "about")).rejects.toThrow(
+      "Content not found: pageSections/en/about"
+    );
+  });
+});
+
+describe("getHomePage", () => {
+  it("loads the home page", async () => {
+    const repositories = createRepositories();
+
+    const page = await getHomePage(repositories, "de");
+
+    expect(page).toMatchObject({ page: "home", locale: "de" });
+    expect(repositories.hero.findByPage).toHaveBeenCalledWith("de", "home");
+  });
+});
+
+describe("isContentPage", () => {
+  it("accepts route keys rendered from content", () => {
+    expect(isContentPage("about")).toBe(true);
+    expect(isContentPage("domains")).toBe(true);
+    expect(isContentPage("caseStudies")).toBe(true);
+  });
+
+  it("rejects other route keys and non-strings", () => {
+    expect(isContentPage("contact")).toBe(false);
+    expect(isContentPage(undefined)).toBe(false);
+  });
+});
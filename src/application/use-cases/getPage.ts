@@ -0,0 +1,121 @@
+import type { Hero } from "@/content/_schemas/hero";
+import type { CollectionCardsSection, PageSection, RenderedPageSection } from "@/content/_schemas/pageSections";
+import type { SeoMetadata } from "@/content/_schemas/seo";
+import type { Locale } from "@/domain";
+import type { HeroRepository } from "@/application/ports/HeroRepository";
+import type { PageSectionsRepository } from "@/application/ports/PageSectionsRepository";
+import type { SeoRepository } from "@/application/ports/SeoRepository";
+import type { ServiceRepository } from "@/application/ports/ServiceRepository";
+import type { IndustryDomainRepository } from "@/application/ports/IndustryDomainRepository";
+import type { CaseStudyRepository } from "@/application/ports/CaseStudyRepository";
+import { ContentNotFoundError } from "@/application/errors/ContentNotFoundError";
+import { getServices } from "@/application/use-cases/getServices";
+import { getIndustryDomains } from "@/application/use-cases/getIndustryDomains";
+import { getCaseStudyListing } from "@/application/use-cases/getCaseStudies";
+
+/**
+ * Route keys (see translations.routes) whose pages are built entirely from content:
+ * hero + sections + SEO entries per locale in the hero/pageSections/seo collections.
+ */
+export const CONTENT_PAGES = ["home", "about", "services", "domains", "caseStudies"] as const;
+export type ContentPage = (typeof CONTENT_PAGES)[number];
+
+/** Type guard for route keys that are rendered from content */
+export function isContentPage(value: unknown): value is ContentPage {
+  return typeof value === "string" && (CONTENT_PAGES as readonly string[]).includes(value);
+}
+
+export interface PageRepositories {
+  hero: HeroRepository;
+  seo: SeoRepository;
+  pageSections: PageSectionsRepository;
+  services: ServiceRepository;
+  industryDomains: IndustryDomainRepository;
+  caseStudies: CaseStudyRepository;
+}
+
+/** Route key (see translations.routes) whose detail pages show the entries of each collection */
+const COLLECTION_ROUTES = {
+  services: "services",
+  industryDomains: "domains",
+} as const satisfies Record<CollectionCardsSection["collection"], ContentPage>;
+
+/** Everything needed to render a content page for one locale */
+export interface Page {
+  page: ContentPage;
+  locale: Locale;
+  hero: Hero;
+  /** Collection cards and case studies are already resolved */
+  sections: RenderedPageSection[];
+  /** Optional: Layout falls back to default metadata */
+  seo?: SeoMetadata;
+}
+
+/**
+ * Turns a collection cards section into a cards section with one card per entry,
+ * and loads the studies of a case studies section
+ * Card links are `route:` links to the detail pages, resolved per locale when rendered (see i18n/links.ts)
+ *
+ * @throws ContentNotFoundError for featured case studies that do not exist
+ */
+async function resolveSection(
+  repositories: PageRepositories,
+  locale: Locale,
+  section: PageSection
+): Promise<RenderedPageSection> {
+  if (section.type === "caseStudies") {
+    const { studies, ...fields } = section;
+    return { ...fields, ...(await getCaseStudyListing(repositories, locale, studies)) };
+  }
+  if (section.type !== "collectionCards") return section;
+
+  const { collection, ...fields } = section;
+  const entries =
+    collection === "services"
+      ? await getServices(repositories, locale)
+      : await getIndustryDomains(repositories, locale);
+
+  return {
+    ...fields,
+    type: "cards",
+    items: entries.map((entry) => ({
+      title: entry.title,
+      text: entry.summary,
+      href: `route:${COLLECTION_ROUTES[collection]}/${entry.slug}`,
+    })),
+  };
+}
+
+/**
+ * Loads hero, sections and SEO metadata of a content page
+ *
+ * Use-case: As a visitor, I want to see a page in my language
+ *
+ * @throws ContentNotFoundError if hero or page sections are missing, or a section references missing content
+ */
+export async function getPage(repositories: PageRepositories, locale: Locale, page: ContentPage): Promise<Page> {
+  const [hero, pageSections, seo] = await Promise.all([
+    repositories.hero.findByPage(locale, page),
+    repositories.pageSections.findByPage(locale, page),
+    repositories.seo.findByPage(locale, page),
+  ]);
+
+  if (!hero) throw new ContentNotFoundError("hero", locale, page);
+  if (!pageSections) throw new ContentNotFoundError("pageSections", locale, page);
+
+  return {
+    page,
+    locale,
+    hero,
+    sections: await Promise.all(pageSections.sections.map((section) => resolveSection(repositories, locale, section))),
+    ...(seo && { seo }),
+  };
+}
+
+/**
+ * Loads the home page
+ * Shortcut for `getPage(repositories, locale, "home")`
+ */
+export async function getHomePage(repositories: PageRepositories, locale: Locale): Promise<Page> {
+  return getPage(repositories, locale, "home");
+}
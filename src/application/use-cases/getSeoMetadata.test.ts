@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from "vitest";
+import { getSeoMetadata, resolveSeoMetadata } from "./getSeoMetadata";
+import type { SeoFallback } from "./getSeoMetadata";
+import type { SeoDefaults, SeoMetadata } from "@/content/_schemas/seo";
+
+const fallback: SeoFallback = { pageTitle: "Contact", siteName: "Fallback", description: "Fallback description" };
+
+const defaults: SeoDefaults = {
+  siteName: "Globalcore",
+  description: "Default description",
+  ogImage: "/og/default.png",
+  ogImageAlt: "Globalcore logo",
+  keywords: ["resilience"],
+  twitterSite: "@globalcore",
+};
+
+const page: SeoMetadata = { title: "About | Globalcore", description: "About us", noIndex: false };
+
+describe("resolveSeoMetadata", () => {
+  it("prefers the page entry", () => {
+    const seo = resolveSeoMetadata({ ...page, keywords: ["about"], ogType: "article" }, defaults, fallback);
+
+    expect(seo).toMatchObject({
+      title: "About | Globalcore",
+      description: "About us",
+      keywords: ["about"],
+      ogType: "article",
+    });
+  });
+
+  it("fills missing page fields from the site defaults", () => {
+    const seo = resolveSeoMetadata(page, defaults, fallback);
+
+    expect(seo).toMatchObject({
+      siteName: "Globalcore",
+      ogType: "website",
+      keywords: ["resilience"],
+      ogImage: "/og/default.png",
+      ogImageAlt: "Globalcore logo",
+      twitterSite: "@globalcore",
+    });
+  });
+
+  it("builds title and description for pages without entry", () => {
+    const seo = resolveSeoMetadata(null, defaults, fallback);
+
+    expect(seo.title).toBe("Globalcore | Contact");
+    expect(seo.description).toBe("Default description");
+  });
+
+  it("prefers the page's own description over the site defaults", () => {
+    const seo = resolveSeoMetadata(null, defaults, { ...fallback, pageDescription: "FRAME Sprint summary" });
+
+    expect(seo.description).toBe("FRAME Sprint summary");
+  });
+
+  it("keeps the SEO entry's description above the page's own", () => {
+    const seo = resolveSeoMetadata(page, defaults, { ...fallback, pageDescription: "FRAME Sprint summary" });
+
+    expect(seo.description).toBe("About us");
+  });
+
+  it("falls back to translations when no defaults exist", () => {
+    expect(resolveSeoMetadata(undefined, null, fallback)).toEqual({
+      title: "Fallback | Contact",
+      description: "Fallback description",
+      siteName: "Fallback",
+      noIndex: false,
+      ogType: "website",
+      keywords: [],
+    });
+  });
+
+  it("never pairs a page image with the default alt text", () => {
+    const seo = resolveSeoMetadata({ ...page, ogImage: "/og/about.png" }, defaults, fallback);
+
+    expect(seo.ogImage).toBe("/og/about.png");
+    expect(seo.ogImageAlt).toBeUndefined();
+  });
+
+  it("does not inherit canonical or noIndex", () => {
+    const seo = resolveSeoMetadata(null, defaults, fallback);
+
+    expect(seo.noIndex).toBe(false);
+    expect(seo).not.toHaveProperty("canonical");
+  });
+
+  it("describes articles with their own type and tags", () => {
+    const article = { publishedTime: new Date("2026-09-14"), author: "Mara Lindqvist", tags: ["Energy", "Grid"] };
+
+    const seo = resolveSeoMetadata(null, defaults, { ...fallback, article });
+
+    expect(seo).toMatchObject({ ogType: "article", keywords: ["Energy", "Grid"], article });
+    expect(resolveSeoMetadata(null, defaults, fallback)).not.toHaveProperty("article");
+  });
+});
+
+describe("getSeoMetadata", () => {
+  it("loads the defaults of the requested locale", async () => {
+    const repositories = {
+      seo: { findByPage: vi.fn(), findDefaults: vi.fn().mockResolvedValue(defaults) },
+    };
+
+    const seo = await getSeoMetadata(repositories, "de", null, fallback);
+
+    expect(repositories.seo.findDefaults).toHaveBeenCalledWith("de");
+    expect(seo.siteName).toBe("Globalcore");
+  });
+});
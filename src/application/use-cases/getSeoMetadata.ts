@@ -0,0 +1,92 @@
+import type { OgType, SeoDefaults, SeoMetadata } from "@/content/_schemas/seo";
+import type { Locale } from "@/domain";
+import type { SeoRepository } from "@/application/ports/SeoRepository";
+
+/** Open Graph article properties of a blog post (https://ogp.me/#type_article) */
+export interface ArticleMetadata {
+  publishedTime: Date;
+  modifiedTime?: Date;
+  author: string;
+  tags: readonly string[];
+}
+
+/** Values the page and translations provide where the page has no SEO entry */
+export interface SeoFallback {
+  /** Page title without site name, e.g. "Contact" */
+  pageTitle: string;
+  siteName: string;
+  /** The page's own description (e.g. a detail page's summary); ranks above the site-wide default */
+  pageDescription?: string;
+  /** Last resort, from translations */
+  description: string;
+  /** Set by article pages (insights): og:type becomes "article" and the tags become keywords */
+  article?: ArticleMetadata;
+}
+
+/** Complete SEO metadata: every tag the SEO component renders has a value */
+export interface ResolvedSeoMetadata {
+  title: string;
+  description: string;
+  siteName: string;
+  noIndex: boolean;
+  ogType: OgType;
+  keywords: string[];
+  canonical?: string;
+  ogImage?: string;
+  ogImageAlt?: string;
+  twitterSite?: string;
+  article?: ArticleMetadata;
+}
+
+export interface SeoRepositories {
+  seo: SeoRepository;
+}
+
+/**
+ * Resolves every SEO field through the chain: page entry → site-wide defaults → fallback
+ *
+ * - The title of pages without entry is "{siteName} | {pageTitle}"
+ * - A description passed by the page beats the site-wide default, which only fills in for pages without one
+ * - `ogImage` and `ogImageAlt` are taken from the same source so the alt text always matches the image
+ * - `canonical` and `noIndex` are page-specific and never inherited
+ */
+export function resolveSeoMetadata(
+  page: SeoMetadata | null | undefined,
+  defaults: SeoDefaults | null | undefined,
+  fallback: SeoFallback
+): ResolvedSeoMetadata {
+  const siteName = defaults?.siteName ?? fallback.siteName;
+  const imageSource = page?.ogImage ? page : defaults;
+  const twitterSite = page?.twitterSite ?? defaults?.twitterSite;
+
+  return {
+    title: page?.title ?? `${siteName} | ${fallback.pageTitle}`,
+    description: page?.description ?? fallback.pageDescription ?? defaults?.description ?? fallback.description,
+    siteName,
+    noIndex: page?.noIndex ?? false,
+    ogType: page?.ogType ?? (fallback.article ? "article" : (defaults?.ogType ?? "website")),
+    keywords: page?.keywords ?? (fallback.article && [...fallback.article.tags]) ?? defaults?.keywords ?? [],
+    ...(page?.canonical && { canonical: page.canonical }),
+    ...(imageSource?.ogImage && { ogImage: imageSource.ogImage, ogImageAlt: imageSource.ogImageAlt }),
+    ...(twitterSite && { twitterSite }),
+    ...(fallback.article && { article: fallback.article }),
+  };
+}
+
+/**
+ * Loads the site-wide SEO defaults and resolves the metadata of a page
+ *
+ * Use-case: As a search engine or social network, I want complete metadata on every page
+ *
+ * @param page - The page's own SEO entry, if any (e.g. from getPage)
+ */
+export async function getSeoMetadata(
+  repositories: SeoRepositories,
+  locale: Locale,
+  page: SeoMetadata | null | undefined,
+  fallback: SeoFallback
+): Promise<ResolvedSeoMetadata> {
+  const defaults = await repositories.seo.findDefaults(locale);
+
+  return resolveSeoMetadata(page, defaults, fallback);
+}
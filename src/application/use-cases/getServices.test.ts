@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from "vitest";
+import { getServiceDetail, getServices } from "./getServices";
+import type { Service } from "@/domain";
+import { ContentNotFoundError } from "@/application/errors/ContentNotFoundError";
+import { domain, service } from "../../../tests/fixtures/entities";
+
+const services = [service("steer-retainer", 4), service("frame-sprint", 1, ["health", "finance"])];
+const domains = [domain("health", 5), domain("finance", 3), domain("esg", 6)];
+
+function createRepositories(found: Service | null = services[1]) {
+  return {
+    services: { findAll: vi.fn().mockResolvedValue(services), findBySlug: vi.fn().mockResolvedValue(found) },
+    industryDomains: { findAll: vi.fn().mockResolvedValue(domains), findBySlug: vi.fn() },
+  };
+}
+
+describe("getServices", () => {
+  it("returns the services of a locale in editor-defined order", async () => {
+    const repositories = createRepositories();
+
+    const result = await getServices(repositories, "de");
+
+    expect(result.map(({ slug }) => slug)).toEqual(["frame-sprint", "steer-retainer"]);
+    expect(repositories.services.findAll).toHaveBeenCalledWith("de");
+  });
+});
+
+describe("getServiceDetail", () => {
+  it("returns the service with its related domains in order", async () => {
+    const repositories = createRepositories();
+
+    const detail = await getServiceDetail(repositories, "en", "frame-sprint");
+
+    expect(detail.service).toBe(services[1]);
+    expect(detail.relatedDomains.map(({ slug }) => slug)).toEqual(["finance", "health"]);
+    expect(repositories.services.findBySlug).toHaveBeenCalledWith("en", "frame-sprint");
+  });
+
+  it("throws ContentNotFoundError when the service is missing", async () => {
+    const promise = getServiceDetail(createRepositories(null), "de", "unknown");
+
+    await expect(promise).rejects.toBeInstanceOf(ContentNotFoundError);
+    await expect(promise).rejects.toMatchObject({ kind: "service", locale: "de", page: "unknown" });
+  });
+
+  it("throws ContentNotFoundError for related domains that do not exist", async () => {
+    const repositories = createRepositories(service("model-validation", 3, ["finance", "space"]));
+
+    await expect(getServiceDetail(repositories, "en", "model-validation")).rejects.toThrow(
+      "Content not found: industryDomain/en/space"
+    );
+  });
+});
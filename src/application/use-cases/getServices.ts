@@ -0,0 +1,59 @@
+import type { IndustryDomain, Locale, Service, Slug } from "@/domain";
+import { findUnknownDomains, sortByOrder } from "@/domain";
+import type { IndustryDomainRepository } from "@/application/ports/IndustryDomainRepository";
+import type { ServiceRepository } from "@/application/ports/ServiceRepository";
+import { ContentNotFoundError } from "@/application/errors/ContentNotFoundError";
+
+export interface ServiceRepositories {
+  services: ServiceRepository;
+  industryDomains: IndustryDomainRepository;
+}
+
+/** A service with the industry domains it relates to, for its detail page */
+export interface ServiceDetail {
+  service: Service;
+  relatedDomains: IndustryDomain[];
+}
+
+/**
+ * Lists all services of a locale in editor-defined order
+ *
+ * Use-case: As a visitor, I want to see every engagement format in my language
+ */
+export async function getServices(
+  repositories: Pick<ServiceRepositories, "services">,
+  locale: Locale
+): Promise<Service[]> {
+  return sortByOrder(await repositories.services.findAll(locale));
+}
+
+/**
+ * Loads a service and resolves its related domains
+ *
+ * Use-case: As a visitor, I want to read what a format delivers and where it applies
+ *
+ * @throws ContentNotFoundError if the service or one of its related domains is missing
+ */
+export async function getServiceDetail(
+  repositories: ServiceRepositories,
+  locale: Locale,
+  slug: Slug
+): Promise<ServiceDetail> {
+  const [service, domains] = await Promise.all([
+    repositories.services.findBySlug(locale, slug),
+    repositories.industryDomains.findAll(locale),
+  ]);
+
+  if (!service) throw new ContentNotFoundError("service", locale, slug);
+
+  const [unknownDomain] = findUnknownDomains(
+    service.relatedDomains,
+    domains.map((domain) => domain.slug)
+  );
+  if (unknownDomain) throw new ContentNotFoundError("industryDomain", locale, unknownDomain);
+
+  return {
+    service,
+    relatedDomains: sortByOrder(domains.filter((domain) => service.relatedDomains.includes(domain.slug))),
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from "vitest";
+import { getSitemapEntries } from "./getSitemapEntries";
+import type { LocalizedRoute } from "./getSitemapEntries";
+import type { SeoMetadata } from "@/content/_schemas/seo";
+
+const routes: LocalizedRoute[] = [
+  { key: "home", paths: { en: "/", de: "/de" } },
+  { key: "about", paths: { en: "/about", de: "/de/ueber-uns" } },
+];
+
+function createRepositories(entries: Record<string, SeoMetadata>) {
+  return {
+    seo: {
+      findByPage: vi.fn(async (locale: string, page: string) => entries[`${locale}/${page}`] ?? null),
+    },
+  };
+}
+
+const seo = (overrides: Partial<SeoMetadata> = {}): SeoMetadata => ({
+  title: "Title",
+  description: "Description",
+  noIndex: false,
+  ...overrides,
+});
+
+describe("getSitemapEntries", () => {
+  it("lists each route once per locale with all alternates", async () => {
+    const entries = await getSitemapEntries(createRepositories({}), routes, ["en", "de"]);
+
+    expect(entries.map((entry) => entry.path)).toEqual(["/", "/de", "/about", "/de/ueber-uns"]);
+    expect(entries[2]?.alternates).toEqual([
+      { locale: "en", path: "/about" },
+      { locale: "de", path: "/de/ueber-uns" },
+    ]);
+  });
+
+  it("skips noIndex pages as entries and as alternates", async () => {
+    const repositories = createRepositories({ "de/about": seo({ noIndex: true }) });
+
+    const entries = await getSitemapEntries(repositories, routes, ["en", "de"]);
+    const about = entries.filter((entry) => entry.path.includes("about") || entry.path.includes("ueber"));
+
+    expect(about).toHaveLength(1);
+    expect(about[0]?.alternates).toEqual([{ locale: "en", path: "/about" }]);
+  });
+
+  it("takes lastModified from the SEO entry", async () => {
+    const lastModified = new Date("2026-01-15");
+    const repositories = createRepositories({ "en/home": seo({ lastModified }) });
+
+    const [home, homeDe] = await getSitemapEntries(repositories, routes, ["en", "de"]);
+
+    expect(home?.lastModified).toEqual(lastModified);
+    expect(homeDe).not.toHaveProperty("lastModified");
+  });
+
+  it("lists pages that exist in some locales only, with their own lastModified", async () => {
+    const updated = new Date("2026-08-20");
+    const post: LocalizedRoute = {
+      key: "insights/kritis",
+      paths: { de: "/de/einblicke/kritis" },
+      lastModified: { de: updated },
+    };
+
+    const entries = await getSitemapEntries(createRepositories({}), [post], ["en", "de"]);
+
+    expect(entries).toEqual([
+      {
+        path: "/de/einblicke/kritis",
+        locale: "de",
+        alternates: [{ locale: "de", path: "/de/einblicke/kritis" }],
+        lastModified: updated,
+      },
+    ]);
+  });
+});
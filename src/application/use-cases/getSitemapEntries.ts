@@ -0,0 +1,64 @@
+import type { Locale } from "@/domain";
+import type { SeoRepository } from "@/application/ports/SeoRepository";
+
+/** A page with its path per locale (e.g. built from translations.routes) */
+export interface LocalizedRoute {
+  /** Route key, also the page id in the SEO collection */
+  key: string;
+  /** Locales without a path (e.g. untranslated insights) are left out */
+  paths: Partial<Record<Locale, string>>;
+  /** Used when the SEO entry has no lastModified (e.g. an insight's update date) */
+  lastModified?: Partial<Record<Locale, Date>>;
+}
+
+export interface SitemapAlternate {
+  locale: Locale;
+  path: string;
+}
+
+/** One localized URL in the sitemap */
+export interface SitemapEntry {
+  path: string;
+  locale: Locale;
+  /** Indexable versions of the same page, including this one */
+  alternates: SitemapAlternate[];
+  lastModified?: Date;
+}
+
+export interface SitemapRepositories {
+  seo: SeoRepository;
+}
+
+/**
+ * Lists every indexable page once per locale
+ *
+ * Use-case: As a search engine, I want to discover all localized pages and their translations
+ *
+ * Pages whose SEO entry sets `noIndex` are left out, both as entry and as alternate.
+ * Pages without SEO entry (e.g. contact, imprint) are indexable by default.
+ */
+export async function getSitemapEntries(
+  repositories: SitemapRepositories,
+  routes: LocalizedRoute[],
+  locales: readonly Locale[]
+): Promise<SitemapEntry[]> {
+  const entriesPerRoute = await Promise.all(
+    routes.map(async (route) => {
+      const localized = await Promise.all(
+        locales.flatMap((locale) => {
+          const path = route.paths[locale];
+          return path ? [repositories.seo.findByPage(locale, route.key).then((seo) => ({ locale, path, seo }))] : [];
+        })
+      );
+      const indexable = localized.filter(({ seo }) => !seo?.noIndex);
+      const alternates = indexable.map(({ locale, path }) => ({ locale, path }));
+
+      return indexable.map(({ locale, path, seo }) => {
+        const lastModified = seo?.lastModified ?? route.lastModified?.[locale];
+        return { path, locale, alternates, ...(lastModified && { lastModified }) };
+      });
+    })
+  );
+
+  return entriesPerRoute.flat();
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from "vitest";
+import { submitContactMessage } from "./submitContactMessage";
+import type { MessageSender } from "@/application/ports/MessageSender";
+
+const validInput = {
+  name: "Jane Doe",
+  email: "jane@example.com",
+  message: "We need help with our target architecture.",
+  consent: "on",
+  locale: "en",
+};
+
+describe("submitContactMessage", () => {
+  it("sends valid messages", async () => {
+    const sender: MessageSender = { send: vi.fn().mockResolvedValue(undefined) };
+
+    const result = await submitContactMessage(sender, validInput);
+
+    expect(result).toEqual({ status: "sent" });
+    expect(sender.send).toHaveBeenCalledWith({
+      name: "Jane Doe",
+      email: "jane@example.com",
+      message: "We need help with our target architecture.",
+      locale: "en",
+    });
+  });
+
+  it("returns field errors without sending invalid messages", async () => {
+    const sender: MessageSender = { send: vi.fn() };
+
+    const result = await submitContactMessage(sender, { ...validInput, email: "nope" });
+
+    expect(result).toEqual({ status: "invalid", errors: { email: "invalidEmail" } });
+    expect(sender.send).not.toHaveBeenCalled();
+  });
+
+  it("reports delivery failures instead of throwing", async () => {
+    const sender: MessageSender = { send: vi.fn().mockRejectedValue(new Error("SMTP down")) };
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const result = await submitContactMessage(sender, validInput);
+
+    expect(result).toEqual({ status: "failed" });
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
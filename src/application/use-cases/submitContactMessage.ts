@@ -0,0 +1,32 @@
+import type { ContactMessageErrors, ContactMessageInput } from "@/domain";
+import { validateContactMessage } from "@/domain";
+import type { MessageSender } from "@/application/ports/MessageSender";
+
+export type ContactSubmissionResult =
+  | { status: "sent" }
+  | { status: "invalid"; errors: ContactMessageErrors }
+  | { status: "failed" };
+
+/**
+ * Validates a contact form submission and hands it to the message sender
+ *
+ * Use-case: As a visitor, I want to send an enquiry and know whether it arrived
+ */
+export async function submitContactMessage(
+  sender: MessageSender,
+  input: ContactMessageInput
+): Promise<ContactSubmissionResult> {
+  const validation = validateContactMessage(input);
+
+  if (!validation.valid) {
+    return { status: "invalid", errors: validation.errors };
+  }
+
+  try {
+    await sender.send(validation.value);
+    return { status: "sent" };
+  } catch (error) {
+    console.error("Failed to send contact message:", error);
+    return { status: "failed" };
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * JsonLd component
+ *
+ * Import the component directly:
+ * import JsonLd from '@/components/common/JsonLd/JsonLd.astro'
+ *
+ * Structured data builders (plain TypeScript) can be imported from:
+ * import { getSectionsStructuredData } from '@/components/common/JsonLd/structuredData'
+ *
+ * Reason: Astro components don't support barrel exports.
+ */
@@ -0,0 +1,208 @@
+import { describe, it, expect } from "vitest";
+import {
+  getSectionsStructuredData,
+  getSiteStructuredData,
+  serializeJsonLd,
+  toArticle,
+  toFaqPage,
+  toOrganization,
+  toProfessionalService,
+  toServices,
+  toWebSite,
+} from "./structuredData";
+import type { StructuredDataContext } from "./structuredData";
+import type { Company } from "@/content/_schemas/company";
+import type { CardsSection, FaqSection, RenderedPageSection } from "@/content/_schemas/pageSections";
+import type { Insight } from "@/domain";
+
+const site = new URL("https://example.com");
+const en: StructuredDataContext = { locale: "en", site };
+const de: StructuredDataContext = { locale: "de", site };
+
+const company: Company = {
+  name: "GlobalCore",
+  legalName: "GlobalCore Consulting Group",
+  description: "Resilience Architecture for Critical Systems.",
+  logo: "/favicon.svg",
+  address: { streetAddress: "Musterstraße 1", postalCode: "10115", addressLocality: "Berlin", addressCountry: "DE" },
+  areaServed: ["DE", "EU"],
+  sameAs: [],
+};
+
+const services: CardsSection = {
+  type: "cards",
+  id: "services",
+  anchor: "services",
+  title: "Leistungen",
+  intro: "Vier Formate",
+  items: [
+    { title: "FRAME Sprint", text: "Schnelle Orientierung", href: "/de/dienstleistungen#frame-sprint" },
+    { title: "STEER Retainer", text: "Integritätssteuerung" },
+  ],
+};
+
+const faq: FaqSection = {
+  type: "faq",
+  id: "faq",
+  anchor: "faq",
+  title: "FAQ",
+  items: [{ question: "What is FRAS™?", answer: "Our framework." }],
+};
+
+const oneLiner: RenderedPageSection = {
+  type: "oneLiner",
+  id: "fras",
+  anchor: "fras",
+  title: "How we work",
+  oneLiner: "FRAS™",
+};
+
+describe("toFaqPage", () => {
+  it("maps questions and answers to FAQPage entities", () => {
+    expect(toFaqPage([faq])).toEqual({
+      "@context": "https://schema.org",
+      "@type": "FAQPage",
+      mainEntity: [
+        {
+          "@type": "Question",
+          name: "What is FRAS™?",
+          acceptedAnswer: { "@type": "Answer", text: "Our framework." },
+        },
+      ],
+    });
+  });
+});
+
+describe("toOrganization", () => {
+  it("builds an Organization node with absolute URLs", () => {
+    expect(toOrganization(company, site)).toMatchObject({
+      "@type": "Organization",
+      "@id": "https://example.com/#organization",
+      name: "GlobalCore",
+      legalName: "GlobalCore Consulting Group",
+      url: "https://example.com/",
+      logo: "https://example.com/favicon.svg",
+      address: { "@type": "PostalAddress", addressLocality: "Berlin", addressCountry: "DE" },
+    });
+  });
+
+  it("omits empty profile lists", () => {
+    expect(toOrganization(company, site).sameAs).toBeUndefined();
+  });
+});
+
+describe("toProfessionalService", () => {
+  it("links to the localized home page and the parent organization", () => {
+    expect(toProfessionalService(company, de)).toMatchObject({
+      "@type": "ProfessionalService",
+      "@id": "https://example.com/#professional-service-de",
+      url: "https://example.com/de",
+      areaServed: ["DE", "EU"],
+      parentOrganization: { "@id": "https://example.com/#organization" },
+    });
+  });
+});
+
+describe("toWebSite", () => {
+  it("declares the page language", () => {
+    expect(toWebSite(company, de)).toMatchObject({
+      "@type": "WebSite",
+      "@id": "https://example.com/#website-de",
+      url: "https://example.com/de",
+      inLanguage: "de",
+    });
+  });
+});
+
+describe("toServices", () => {
+  it("creates one Service per card with localized URLs", () => {
+    expect(toServices(services, de)).toEqual([
+      expect.objectContaining({
+        "@type": "Service",
+        name: "FRAME Sprint",
+        url: "https://example.com/de/dienstleistungen#frame-sprint",
+        provider: { "@id": "https://example.com/#organization" },
+      }),
+      expect.objectContaining({ name: "STEER Retainer", url: "https://example.com/de/dienstleistungen" }),
+    ]);
+  });
+});
+
+describe("toArticle", () => {
+  const insight: Insight = {
+    slug: "grid-stress-tests",
+    title: "Das Netz stresstesten",
+    summary: "Warum Abhängigkeitskarten mehr leisten.",
+    author: { name: "Mara Lindqvist", role: "Principal" },
+    tags: ["Energie", "Stresstests"],
+    publishedAt: new Date("2026-09-14T00:00:00Z"),
+    readingTime: 4,
+  };
+
+  it("maps an insight to a localized Article published by the organization", () => {
+    expect(toArticle(insight, de)).toMatchObject({
+      "@type": "Article",
+      headline: "Das Netz stresstesten",
+      url: "https://example.com/de/einblicke/grid-stress-tests",
+      inLanguage: "de",
+      datePublished: "2026-09-14T00:00:00.000Z",
+      dateModified: "2026-09-14T00:00:00.000Z",
+      author: { "@type": "Person", name: "Mara Lindqvist", jobTitle: "Principal" },
+      keywords: "Energie, Stresstests",
+      publisher: { "@id": "https://example.com/#organization" },
+      isPartOf: { "@id": "https://example.com/#website-de" },
+    });
+  });
+
+  it("uses the update date as dateModified", () => {
+    const updatedAt = new Date("2026-10-01T00:00:00Z");
+    expect(toArticle({ ...insight, updatedAt }, de).dateModified).toBe("2026-10-01T00:00:00.000Z");
+  });
+});
+
+describe("getSiteStructuredData", () => {
+  it("returns Organization, ProfessionalService and WebSite", () => {
+    expect(getSiteStructuredData(company, en).map((node) => node["@type"])).toEqual([
+      "Organization",
+      "ProfessionalService",
+      "WebSite",
+    ]);
+  });
+
+  it("shares only the organization node between locales", () => {
+    const ids = (context: StructuredDataContext) => getSiteStructuredData(company, context).map((node) => node["@id"]);
+
+    expect(ids(en).filter((id) => ids(de).includes(id))).toEqual(["https://example.com/#organization"]);
+  });
+});
+
+describe("getSectionsStructuredData", () => {
+  it("returns nothing for pages without FAQ or services sections", () => {
+    expect(getSectionsStructuredData([oneLiner], en)).toEqual([]);
+  });
+
+  it("merges all FAQ sections of a page into one FAQPage", () => {
+    const second = { ...faq, id: "faq-2", items: [{ question: "How long?", answer: "Two weeks." }] };
+
+    const [faqPage] = getSectionsStructuredData([faq, oneLiner, second], en);
+
+    expect(faqPage?.mainEntity).toHaveLength(2);
+  });
+
+  it("adds Service nodes for the services cards section only", () => {
+    const otherCards: CardsSection = { ...services, id: "domains", anchor: "domains" };
+
+    const nodes = getSectionsStructuredData([otherCards, services], de);
+
+    expect(nodes.map((node) => node["@type"])).toEqual(["Service", "Service"]);
+  });
+});
+
+describe("serializeJsonLd", () => {
+  it("escapes markup that could close the script tag", () => {
+    const json = serializeJsonLd({ "@type": "Thing", name: "</script><script>alert(1)</script>" });
+
+    expect(json).not.toContain("</script>");
+    expect(JSON.parse(json)).toMatchObject({ name: "</script><script>alert(1)</script>" });
+  });
+});
@@ -0,0 +1,182 @@
+import type { Company } from "@/content/_schemas/company";
+import type { CardsSection, FaqSection, RenderedPageSection } from "@/content/_schemas/pageSections";
+import type { Insight, Locale } from "@/domain";
+import { buildPath } from "@/i18n/translations";
+import { resolveHref } from "@/i18n/links";
+import { buildInsightPath } from "@/i18n/insights";
+
+/**
+ * A schema.org JSON-LD node
+ * Loosely typed on purpose: schema.org vocabularies are open-ended
+ */
+export interface JsonLd {
+  "@context"?: "https://schema.org";
+  "@type": string;
+  [property: string]: unknown;
+}
+
+/** Where the structured data is rendered: page locale and absolute site URL (Astro.site) */
+export interface StructuredDataContext {
+  locale: Locale;
+  site: URL | string;
+}
+
+/** Id of the cards section whose items are the services we offer (see pageSections/{locale}/home.json, resolved by getPage) */
+export const SERVICES_SECTION_ID = "services";
+
+const toUrl = (path: string, site: URL | string) => new URL(path, site).href;
+
+/**
+ * Stable node ids, so nodes on different pages can reference each other
+ * Only the organization is one node for the whole site; nodes with a localized url or inLanguage get one id per locale
+ */
+const nodeId = (site: URL | string, name: string) => toUrl(`/#${name}`, site);
+
+/** schema.org prefers absent properties over empty lists */
+const nonEmpty = <T>(items: T[]) => (items.length > 0 ? items : undefined);
+
+function toPostalAddress(company: Company) {
+  return company.address && { "@type": "PostalAddress", ...company.address };
+}
+
+/**
+ * Organization structured data
+ * https://developers.google.com/search/docs/appearance/structured-data/organization
+ */
+export function toOrganization(company: Company, site: URL | string): JsonLd {
+  return {
+    "@context": "https://schema.org",
+    "@type": "Organization",
+    "@id": nodeId(site, "organization"),
+    name: company.name,
+    legalName: company.legalName,
+    description: company.description,
+    url: toUrl("/", site),
+    logo: toUrl(company.logo, site),
+    email: company.email,
+    telephone: company.telephone,
+    address: toPostalAddress(company),
+    sameAs: nonEmpty(company.sameAs),
+  };
+}
+
+/** ProfessionalService structured data: the consulting practice, operated by the Organization */
+export function toProfessionalService(company: Company, { locale, site }: StructuredDataContext): JsonLd {
+  return {
+    "@context": "https://schema.org",
+    "@type": "ProfessionalService",
+    "@id": nodeId(site, `professional-service-${locale}`),
+    name: company.name,
+    description: company.description,
+    url: toUrl(buildPath("home", locale), site),
+    image: toUrl(company.logo, site),
+    email: company.email,
+    telephone: company.telephone,
+    address: toPostalAddress(company),
+    areaServed: nonEmpty(company.areaServed),
+    parentOrganization: { "@id": nodeId(site, "organization") },
+  };
+}
+
+/** WebSite structured data for the localized home page */
+export function toWebSite(company: Company, { locale, site }: StructuredDataContext): JsonLd {
+  return {
+    "@context": "https://schema.org",
+    "@type": "WebSite",
+    "@id": nodeId(site, `website-${locale}`),
+    name: company.name,
+    url: toUrl(buildPath("home", locale), site),
+    inLanguage: locale,
+    publisher: { "@id": nodeId(site, "organization") },
+  };
+}
+
+/**
+ * Service structured data, one node per card of the services section
+ * URLs point to the card's target (the service detail page), or to the localized services page
+ */
+export function toServices(section: CardsSection, { locale, site }: StructuredDataContext): JsonLd[] {
+  return section.items.map((item) => {
+    const path = item.href ? resolveHref(item.href, locale) : buildPath("services", locale);
+
+    return {
+      "@context": "https://schema.org",
+      "@type": "Service",
+      name: item.title,
+      description: item.text,
+      url: toUrl(path, site),
+      provider: { "@id": nodeId(site, "organization") },
+    };
+  });
+}
+
+/**
+ * FAQPage structured data for one or more FAQ sections
+ * https://developers.google.com/search/docs/appearance/structured-data/faqpage
+ */
+export function toFaqPage(sections: FaqSection[]): JsonLd {
+  return {
+    "@context": "https://schema.org",
+    "@type": "FAQPage",
+    mainEntity: sections.flatMap((section) =>
+      section.items.map((item) => ({
+        "@type": "Question",
+        name: item.question,
+        acceptedAnswer: { "@type": "Answer", text: item.answer },
+      }))
+    ),
+  };
+}
+
+/**
+ * Article structured data for an insight
+ * https://developers.google.com/search/docs/appearance/structured-data/article
+ */
+export function toArticle(insight: Insight, { locale, site }: StructuredDataContext): JsonLd {
+  const url = toUrl(buildInsightPath(locale, insight.slug), site);
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "Article",
+    headline: insight.title,
+    description: insight.summary,
+    url,
+    mainEntityOfPage: url,
+    inLanguage: locale,
+    datePublished: insight.publishedAt.toISOString(),
+    dateModified: (insight.updatedAt ?? insight.publishedAt).toISOString(),
+    author: { "@type": "Person", name: insight.author.name, jobTitle: insight.author.role },
+    keywords: insight.tags.join(", "),
+    publisher: { "@id": nodeId(site, "organization") },
+    isPartOf: { "@id": nodeId(site, `website-${locale}`) },
+  };
+}
+
+/** Site-wide structured data rendered on every page */
+export function getSiteStructuredData(company: Company, context: StructuredDataContext): JsonLd[] {
+  return [toOrganization(company, context.site), toProfessionalService(company, context), toWebSite(company, context)];
+}
+
+/**
+ * Structured data derived from the sections of a page
+ * Returns an empty list when no section has a structured data counterpart
+ */
+export function getSectionsStructuredData(sections: RenderedPageSection[], context: StructuredDataContext): JsonLd[] {
+  const faqSections = sections.filter((section): section is FaqSection => section.type === "faq");
+  const servicesSection = sections.find(
+    (section): section is CardsSection => section.type === "cards" && section.id === SERVICES_SECTION_ID
+  );
+
+  return [
+    ...(faqSections.length > 0 ? [toFaqPage(faqSections)] : []),
+    ...(servicesSection ? toServices(servicesSection, context) : []),
+  ];
+}
+
+/**
+ * Serializes JSON-LD for an inline <script> tag
+ * Escapes "<" so content can never close the script element early
+ */
+export function serializeJsonLd(data: JsonLd): string {
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+}
@@ -0,0 +1,8 @@
+/**
+ * LanguageSwitcher component
+ *
+ * Import the component directly:
+ * import LanguageSwitcher from '@/components/common/LanguageSwitcher/LanguageSwitcher.astro'
+ *
+ * Reason: Astro components don't support barrel exports.
+ */
@@ -0,0 +1,8 @@
+/**
+ * Pagination component
+ *
+ * Import the component directly:
+ * import Pagination from '@/components/common/Pagination/Pagination.astro'
+ *
+ * Reason: Astro components don't support barrel exports.
+ */
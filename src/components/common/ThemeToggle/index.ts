@@ -0,0 +1,12 @@
+/**
+ * ThemeToggle component
+ *
+ * Import the component directly:
+ * import ThemeToggle from '@/components/common/ThemeToggle/ThemeToggle.astro'
+ *
+ * Theme helpers (plain TypeScript) can be imported from:
+ * import { getThemeInitScript } from '@/components/common/ThemeToggle/theme'
+ * import { setThemePreference } from '@/components/common/ThemeToggle/themeController'
+ *
+ * Reason: Astro components don't support barrel exports.
+ */
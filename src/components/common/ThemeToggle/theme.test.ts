@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { THEME_STORAGE_KEY, getThemeInitScript, isThemePreference, resolveTheme } from "./theme";
+
+function mockPrefersDark(matches: boolean) {
+  vi.spyOn(window, "matchMedia").mockImplementation(
+    (query) => ({ matches, media: query, addEventListener: vi.fn() }) as unknown as MediaQueryList
+  );
+}
+
+const runInitScript = () => new Function(getThemeInitScript())();
+
+describe("theme", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    localStorage.clear();
+    document.documentElement.className = "";
+    delete document.documentElement.dataset.themePreference;
+  });
+
+  describe("isThemePreference", () => {
+    it("accepts the three preferences only", () => {
+      expect(["light", "dark", "system"].every(isThemePreference)).toBe(true);
+      expect(isThemePreference("sepia")).toBe(false);
+      expect(isThemePreference(null)).toBe(false);
+    });
+  });
+
+  describe("resolveTheme", () => {
+    it("keeps explicit preferences", () => {
+      expect(resolveTheme("light", true)).toBe("light");
+      expect(resolveTheme("dark", false)).toBe("dark");
+    });
+
+    it("follows the color scheme for system", () => {
+      expect(resolveTheme("system", true)).toBe("dark");
+      expect(resolveTheme("system", false)).toBe("light");
+    });
+  });
+
+  describe("getThemeInitScript", () => {
+    it("applies a stored dark preference", () => {
+      mockPrefersDark(false);
+      localStorage.setItem(THEME_STORAGE_KEY, "dark");
+
+      runInitScript();
+
+      expect(document.documentElement.classList.contains("dark")).toBe(true);
+      expect(document.documentElement.dataset.themePreference).toBe("dark");
+    });
+
+    it("keeps a stored light preference on a dark system", () => {
+      mockPrefersDark(true);
+      localStorage.setItem(THEME_STORAGE_KEY, "light");
+
+      runInitScript();
+
+      expect(document.documentElement.classList.contains("dark")).toBe(false);
+    });
+
+    it("follows the system without a valid stored preference", () => {
+      mockPrefersDark(true);
+      localStorage.setItem(THEME_STORAGE_KEY, "sepia");
+
+      runInitScript();
+
+      expect(document.documentElement.classList.contains("dark")).toBe(true);
+      expect(document.documentElement.dataset.themePreference).toBe("system");
+    });
+
+    it("follows the system when storage is blocked", () => {
+      mockPrefersDark(true);
+      vi.spyOn(Storage.prototype, "getItem").mockImplementation(() => {
+        throw new DOMException("Blocked", "SecurityError");
+      });
+
+      expect(runInitScript).not.toThrow();
+      expect(document.documentElement.classList.contains("dark")).toBe(true);
+    });
+  });
+});
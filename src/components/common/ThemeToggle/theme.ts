@@ -0,0 +1,52 @@
+/**
+ * Theme preference: "light", "dark" or "system" (follow prefers-color-scheme)
+ *
+ * The resolved theme is the `.dark` class on <html>, which starwind.css's `dark` variant and tokens key on.
+ * The preference is stored in localStorage and applied by an inline script in the <head> of Layout.astro,
+ * before first paint; see getThemeInitScript().
+ */
+
+export const THEME_PREFERENCES = ["light", "dark", "system"] as const;
+
+export type ThemePreference = (typeof THEME_PREFERENCES)[number];
+
+export type Theme = Exclude<ThemePreference, "system">;
+
+export const THEME_STORAGE_KEY = "theme";
+
+export const DARK_SCHEME_QUERY = "(prefers-color-scheme: dark)";
+
+export function isThemePreference(value: unknown): value is ThemePreference {
+  return THEME_PREFERENCES.includes(value as ThemePreference);
+}
+
+/**
+ * The theme a preference stands for
+ *
+ * @example
+ * resolveTheme("system", true) // "dark"
+ */
+export function resolveTheme(preference: ThemePreference, prefersDark: boolean): Theme {
+  if (preference === "system") return prefersDark ? "dark" : "light";
+  return preference;
+}
+
+/**
+ * Source of the inline <head> script that applies the stored preference before first paint
+ *
+ * Module scripts run after the page is parsed, too late to avoid a flash of the light theme, so this
+ * one is self-contained. It also sets data-theme-preference for the toggles and tolerates blocked storage.
+ * Its CSP hash is collected at build time like every other inline script.
+ */
+export function getThemeInitScript(): string {
+  return [
+    "(function () {",
+    '  var preference = "system";',
+    `  try { preference = localStorage.getItem(${JSON.stringify(THEME_STORAGE_KEY)}) || preference; } catch (error) {}`,
+    `  if (${JSON.stringify(THEME_PREFERENCES)}.indexOf(preference) === -1) preference = "system";`,
+    `  var dark = preference === "dark" || (preference === "system" && window.matchMedia(${JSON.stringify(DARK_SCHEME_QUERY)}).matches);`,
+    '  document.documentElement.classList.toggle("dark", dark);',
+    "  document.documentElement.dataset.themePreference = preference;",
+    "})();",
+  ].join("\n");
+}
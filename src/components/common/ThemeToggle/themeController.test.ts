@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { THEME_STORAGE_KEY } from "./theme";
+import { getStoredThemePreference, initThemeToggles, setThemePreference } from "./themeController";
+
+const TOGGLE = `
+  <div data-theme-toggle>
+    <button type="button" data-theme-option="light" aria-pressed="false">Light</button>
+    <button type="button" data-theme-option="dark" aria-pressed="false">Dark</button>
+    <button type="button" data-theme-option="system" aria-pressed="false">System</button>
+  </div>
+`;
+
+let prefersDark = false;
+const schemeListeners: (() => void)[] = [];
+
+const root = document.documentElement;
+const pressed = () =>
+  [...document.querySelectorAll<HTMLElement>("[data-theme-option]")]
+    .filter((option) => option.getAttribute("aria-pressed") === "true")
+    .map((option) => option.dataset.themeOption);
+const option = (preference: string, index = 0) =>
+  document.querySelectorAll<HTMLButtonElement>(`[data-theme-option="${preference}"]`)[index];
+
+describe("themeController", () => {
+  beforeEach(() => {
+    prefersDark = false;
+    vi.spyOn(window, "matchMedia").mockImplementation(
+      (query) =>
+        ({
+          get matches() {
+            return prefersDark;
+          },
+          media: query,
+          addEventListener: (_type: string, listener: () => void) => schemeListeners.push(listener),
+        }) as unknown as MediaQueryList
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    localStorage.clear();
+    document.body.innerHTML = "";
+    root.className = "";
+    delete root.dataset.themePreference;
+  });
+
+  describe("initThemeToggles", () => {
+    it("marks the preference applied by the head script", () => {
+      root.dataset.themePreference = "dark";
+      document.body.innerHTML = TOGGLE;
+
+      initThemeToggles();
+
+      expect(pressed()).toEqual(["dark"]);
+    });
+
+    it("falls back to the stored preference", () => {
+      localStorage.setItem(THEME_STORAGE_KEY, "light");
+      document.body.innerHTML = TOGGLE;
+
+      initThemeToggles();
+
+      expect(pressed()).toEqual(["light"]);
+    });
+  });
+
+  describe("choosing a theme", () => {
+    it("stores and applies the chosen theme and syncs every toggle", () => {
+      document.body.innerHTML = TOGGLE + TOGGLE;
+      initThemeToggles();
+
+      option("dark", 1).click();
+
+      expect(root.classList.contains("dark")).toBe(true);
+      expect(localStorage.getItem(THEME_STORAGE_KEY)).toBe("dark");
+      expect(pressed()).toEqual(["dark", "dark"]);
+    });
+
+    it("clears the stored preference for system", () => {
+      prefersDark = true;
+      document.body.innerHTML = TOGGLE;
+      initThemeToggles();
+      option("light").click();
+
+      option("system").click();
+
+      expect(localStorage.getItem(THEME_STORAGE_KEY)).toBeNull();
+      expect(root.classList.contains("dark")).toBe(true);
+      expect(root.dataset.themePreference).toBe("system");
+    });
+
+    it("follows color scheme changes only for system", () => {
+      document.body.innerHTML = TOGGLE;
+      initThemeToggles();
+      setThemePreference("system");
+
+      prefersDark = true;
+      schemeListeners.forEach((listener) => listener());
+      expect(root.classList.contains("dark")).toBe(true);
+
+      setThemePreference("light");
+      prefersDark = false;
+      schemeListeners.forEach((listener) => listener());
+      prefersDark = true;
+      schemeListeners.forEach((listener) => listener());
+      expect(root.classList.contains("dark")).toBe(false);
+    });
+
+    it("applies the theme when storage is blocked", () => {
+      vi.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+        throw new DOMException("Blocked", "SecurityError");
+      });
+
+      expect(() => setThemePreference("dark")).not.toThrow();
+      expect(root.classList.contains("dark")).toBe(true);
+    });
+  });
+
+  describe("getStoredThemePreference", () => {
+    it("ignores unknown values", () => {
+      localStorage.setItem(THEME_STORAGE_KEY, "sepia");
+
+      expect(getStoredThemePreference()).toBe("system");
+    });
+  });
+});
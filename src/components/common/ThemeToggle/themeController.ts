@@ -0,0 +1,77 @@
+/**
+ * Behaviour of ThemeToggle
+ *
+ * Every toggle on the page ([data-theme-toggle], e.g. in the navbar and in the mobile menu) shows the same
+ * preference. Choosing one stores it and applies it at once; "system" follows prefers-color-scheme while
+ * the page is open, and other tabs pick up changes through the storage event.
+ */
+
+import { DARK_SCHEME_QUERY, THEME_STORAGE_KEY, isThemePreference, resolveTheme } from "./theme";
+import type { ThemePreference } from "./theme";
+
+const TOGGLE_SELECTOR = "[data-theme-toggle]";
+
+/** The stored preference; "system" when there is none or storage is unavailable */
+export function getStoredThemePreference(): ThemePreference {
+  try {
+    const stored = localStorage.getItem(THEME_STORAGE_KEY);
+    return isThemePreference(stored) ? stored : "system";
+  } catch {
+    return "system";
+  }
+}
+
+/** Apply a preference to the page without storing it */
+export function applyThemePreference(preference: ThemePreference): void {
+  const root = document.documentElement;
+  const theme = resolveTheme(preference, window.matchMedia(DARK_SCHEME_QUERY).matches);
+
+  root.classList.toggle("dark", theme === "dark");
+  root.dataset.themePreference = preference;
+
+  document.querySelectorAll<HTMLElement>(`${TOGGLE_SELECTOR} [data-theme-option]`).forEach((option) => {
+    option.setAttribute("aria-pressed", String(option.dataset.themeOption === preference));
+  });
+}
+
+/** Store a preference and apply it; "system" clears the stored one */
+export function setThemePreference(preference: ThemePreference): void {
+  try {
+    if (preference === "system") localStorage.removeItem(THEME_STORAGE_KEY);
+    else localStorage.setItem(THEME_STORAGE_KEY, preference);
+  } catch {
+    // Storage blocked: the preference lasts until the next page load
+  }
+  applyThemePreference(preference);
+}
+
+function currentPreference(): ThemePreference {
+  const { themePreference } = document.documentElement.dataset;
+  return isThemePreference(themePreference) ? themePreference : getStoredThemePreference();
+}
+
+let listening = false;
+
+/** Wire every ThemeToggle on the page; safe to call more than once */
+export function initThemeToggles(scope: ParentNode = document): void {
+  scope.querySelectorAll<HTMLElement>(TOGGLE_SELECTOR).forEach((toggle) => {
+    if (toggle.hasAttribute("data-theme-toggle-ready")) return;
+    toggle.setAttribute("data-theme-toggle-ready", "");
+
+    toggle.addEventListener("click", (event) => {
+      const option = event.target instanceof Element ? event.target.closest<HTMLElement>("[data-theme-option]") : null;
+      if (option && isThemePreference(option.dataset.themeOption)) setThemePreference(option.dataset.themeOption);
+    });
+  });
+
+  applyThemePreference(currentPreference());
+  if (listening) return;
+  listening = true;
+
+  window.matchMedia(DARK_SCHEME_QUERY).addEventListener("change", () => {
+    if (currentPreference() === "system") applyThemePreference("system");
+  });
+  window.addEventListener("storage", (event) => {
+    if (event.key === THEME_STORAGE_KEY || event.key === null) applyThemePreference(getStoredThemePreference());
+  });
+}
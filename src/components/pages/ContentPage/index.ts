@@ -0,0 +1,9 @@
+/**
+ * ContentPage component
+ * About, services, domains and case studies: hero and sections of one page key from the content repositories
+ *
+ * Import the component directly:
+ * import ContentPage from '@/components/pages/ContentPage/ContentPage.astro'
+ *
+ * Reason: Astro components don't support barrel exports.
+ */
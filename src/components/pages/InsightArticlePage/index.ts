@@ -0,0 +1,9 @@
+/**
+ * InsightArticlePage component
+ * A post with its article metadata and hreflang links; loads the post itself from locale and slug
+ *
+ * Import the component directly:
+ * import InsightArticlePage from '@/components/pages/InsightArticlePage/InsightArticlePage.astro'
+ *
+ * Reason: Astro components don't support barrel exports.
+ */
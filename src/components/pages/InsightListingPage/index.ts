@@ -0,0 +1,9 @@
+/**
+ * InsightListingPage component
+ * Insights listing with topics and pagination, rendered by /insights/[...page] and its [lang] counterpart
+ *
+ * Import the component directly:
+ * import InsightListingPage from '@/components/pages/InsightListingPage/InsightListingPage.astro'
+ *
+ * Reason: Astro components don't support barrel exports.
+ */
@@ -0,0 +1,9 @@
+/**
+ * InsightTagPage component
+ * Posts on one topic, rendered by /insights/tags/[tag] in every locale
+ *
+ * Import the component directly:
+ * import InsightTagPage from '@/components/pages/InsightTagPage/InsightTagPage.astro'
+ *
+ * Reason: Astro components don't support barrel exports.
+ */
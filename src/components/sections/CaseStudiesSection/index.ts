@@ -0,0 +1,8 @@
+/**
+ * CaseStudiesSection component
+ *
+ * Import the component directly:
+ * import CaseStudiesSection from '@/components/sections/CaseStudiesSection/CaseStudiesSection.astro'
+ *
+ * Reason: Astro components don't support barrel exports.
+ */
@@ -0,0 +1,8 @@
+/**
+ * CaseStudyDetail component
+ *
+ * Import the component directly:
+ * import CaseStudyDetail from '@/components/sections/CaseStudyDetail/CaseStudyDetail.astro'
+ *
+ * Reason: Astro components don't support barrel exports.
+ */
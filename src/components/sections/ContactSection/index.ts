@@ -0,0 +1,8 @@
+/**
+ * ContactSection component
+ *
+ * Import the component directly:
+ * import ContactSection from '@/components/sections/ContactSection/ContactSection.astro'
+ *
+ * Reason: Astro components don't support barrel exports.
+ */
@@ -0,0 +1,8 @@
+/**
+ * FaqSection component
+ *
+ * Import the component directly:
+ * import FaqSection from '@/components/sections/FaqSection/FaqSection.astro'
+ *
+ * Reason: Astro components don't support barrel exports.
+ */
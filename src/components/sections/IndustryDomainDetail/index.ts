@@ -0,0 +1,8 @@
+/**
+ * IndustryDomainDetail component
+ *
+ * Import the component directly:
+ * import IndustryDomainDetail from '@/components/sections/IndustryDomainDetail/IndustryDomainDetail.astro'
+ *
+ * Reason: Astro components don't support barrel exports.
+ */
@@ -0,0 +1,8 @@
+/**
+ * InsightArticle component
+ *
+ * Import the component directly:
+ * import InsightArticle from '@/components/sections/InsightArticle/InsightArticle.astro'
+ *
+ * Reason: Astro components don't support barrel exports.
+ */
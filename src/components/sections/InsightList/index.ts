@@ -0,0 +1,8 @@
+/**
+ * InsightList component
+ *
+ * Import the component directly:
+ * import InsightList from '@/components/sections/InsightList/InsightList.astro'
+ *
+ * Reason: Astro components don't support barrel exports.
+ */
@@ -0,0 +1,8 @@
+/**
+ * InsightTopics component
+ *
+ * Import the component directly:
+ * import InsightTopics from '@/components/sections/InsightTopics/InsightTopics.astro'
+ *
+ * Reason: Astro components don't support barrel exports.
+ */
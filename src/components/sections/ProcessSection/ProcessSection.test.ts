@@ -0,0 +1,57 @@
+import { experimental_AstroContainer as AstroContainer } from "astro/container";
+import { describe, it, expect } from "vitest";
+import type { ProcessSection as ProcessSectionData } from "@/content/_schemas/pageSections";
+import ProcessSection from "./ProcessSection.astro";
+
+const section: ProcessSectionData = {
+  type: "process",
+  id: "engagement-path",
+  anchor: "how-we-engage",
+  title: "How we engage",
+  intro: "Three steps from first risk map to steady state.",
+  steps: [
+    {
+      title: "FRAME Sprint",
+      description: "Map the risks.",
+      duration: "2–3 weeks",
+      href: "route:services#frame-sprint",
+    },
+    { title: "ARCHITECT Blueprint", description: "Design the target state.", duration: "6–8 weeks" },
+    { title: "STEER Retainer", description: "Keep it running." },
+  ],
+};
+
+describe("ProcessSection Component", () => {
+  it("renders the steps in order as a numbered list", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(ProcessSection, { props: { section, locale: "en" } });
+
+    expect(result).toContain('id="how-we-engage"');
+    expect(result).toContain('data-section-id="engagement-path"');
+    expect(result.match(/<li/g)).toHaveLength(3);
+
+    const positions = section.steps.map((step) => result.indexOf(step.title));
+    expect(positions.every((position) => position > -1)).toBe(true);
+    expect(positions).toEqual([...positions].sort((a, b) => a - b));
+  });
+
+  it("renders durations only for steps that have one", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(ProcessSection, { props: { section, locale: "en" } });
+
+    expect(result).toContain("2–3 weeks");
+    expect(result).toContain("6–8 weeks");
+    expect(result.match(/text-sm font-medium text-primary/g)).toHaveLength(2);
+  });
+
+  it("resolves route: links for the page locale", async () => {
+    const container = await AstroContainer.create();
+
+    const en = await container.renderToString(ProcessSection, { props: { section, locale: "en" } });
+    expect(en).toContain('href="/services#frame-sprint"');
+
+    const de = await container.renderToString(ProcessSection, { props: { section, locale: "de" } });
+    expect(de).toContain('href="/de/dienstleistungen#frame-sprint"');
+    expect(de.match(/<a /g)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,8 @@
+/**
+ * ProcessSection component
+ *
+ * Import the component directly:
+ * import ProcessSection from '@/components/sections/ProcessSection/ProcessSection.astro'
+ *
+ * Reason: Astro components don't support barrel exports.
+ */
@@ -0,0 +1,8 @@
+/**
+ * SectionRenderer component
+ *
+ * Import the component directly:
+ * import SectionRenderer from '@/components/sections/SectionRenderer/SectionRenderer.astro'
+ *
+ * Reason: Astro components don't support barrel exports.
+ */
@@ -0,0 +1,8 @@
+/**
+ * ServiceDetail component
+ *
+ * Import the component directly:
+ * import ServiceDetail from '@/components/sections/ServiceDetail/ServiceDetail.astro'
+ *
+ * Reason: Astro components don't support barrel exports.
+ */
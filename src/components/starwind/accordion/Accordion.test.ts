@@ -0,0 +1,109 @@
+import { experimental_AstroContainer as AstroContainer } from "astro/container";
+import { expect, it, describe } from "vitest";
+import Accordion from "./Accordion.astro";
+import AccordionItem from "./AccordionItem.astro";
+import AccordionTrigger from "./AccordionTrigger.astro";
+import AccordionContent from "./AccordionContent.astro";
+
+describe("Accordion Components", () => {
+  describe("Accordion", () => {
+    it("renders a single, collapsible accordion by default", async () => {
+      const container = await AstroContainer.create();
+      const result = await container.renderToString(Accordion, {
+        slots: { default: "Items" },
+      });
+
+      expect(result).toContain('data-slot="accordion"');
+      expect(result).toContain("data-accordion");
+      expect(result).toContain('data-type="single"');
+      expect(result).toContain("data-collapsible");
+      expect(result).toContain("Items");
+    });
+
+    it("renders multiple and non-collapsible accordions", async () => {
+      const container = await AstroContainer.create();
+      const multiple = await container.renderToString(Accordion, {
+        props: { type: "multiple" },
+      });
+      const fixed = await container.renderToString(Accordion, {
+        props: { collapsible: false },
+      });
+
+      expect(multiple).toContain('data-type="multiple"');
+      expect(fixed).not.toContain("data-collapsible");
+    });
+  });
+
+  describe("AccordionItem", () => {
+    it("renders a native disclosure that is closed by default", async () => {
+      const container = await AstroContainer.create();
+      const result = await container.renderToString(AccordionItem, {
+        slots: { default: "Item" },
+      });
+
+      expect(result).toContain("<details");
+      expect(result).toContain("data-accordion-item");
+      expect(result).not.toMatch(/<details[^>]*\sopen/);
+    });
+
+    it("renders open items", async () => {
+      const container = await AstroContainer.create();
+      const result = await container.renderToString(AccordionItem, {
+        props: { open: true },
+        slots: { default: "Item" },
+      });
+
+      expect(result).toMatch(/<details[^>]*\sopen/);
+    });
+  });
+
+  describe("AccordionTrigger", () => {
+    it("renders a summary with a decorative chevron", async () => {
+      const container = await AstroContainer.create();
+      const result = await container.renderToString(AccordionTrigger, {
+        slots: { default: "What does an engagement cost?" },
+      });
+
+      expect(result).toContain("<summary");
+      expect(result).toContain('data-slot="accordion-trigger"');
+      expect(result).toContain("What does an engagement cost?");
+      expect(result).toContain('aria-hidden="true"');
+      expect(result).toContain("group-open:rotate-180");
+    });
+
+    it("renders sizes", async () => {
+      const container = await AstroContainer.create();
+      const result = await container.renderToString(AccordionTrigger, {
+        props: { size: "lg" },
+        slots: { default: "Question" },
+      });
+
+      expect(result).toContain("text-lg");
+    });
+  });
+
+  describe("AccordionContent", () => {
+    it("renders animated content", async () => {
+      const container = await AstroContainer.create();
+      const result = await container.renderToString(AccordionContent, {
+        slots: { default: "Answer" },
+      });
+
+      expect(result).toContain("data-accordion-content");
+      expect(result).toContain("data-[state=open]:animate-accordion-down");
+      expect(result).toContain("data-[state=closed]:animate-accordion-up");
+      expect(result).toContain("Answer");
+    });
+
+    it("merges custom classes", async () => {
+      const container = await AstroContainer.create();
+      const result = await container.renderToString(AccordionContent, {
+        props: { class: "text-foreground" },
+        slots: { default: "Answer" },
+      });
+
+      expect(result).toContain("text-foreground");
+      expect(result).not.toContain("text-muted-foreground");
+    });
+  });
+});
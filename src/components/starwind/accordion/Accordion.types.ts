@@ -0,0 +1,23 @@
+import type { HTMLAttributes } from "astro/types";
+import type { VariantProps } from "tailwind-variants";
+import type { accordionTrigger } from "./Accordion.variants";
+
+export type AccordionType = "single" | "multiple";
+
+export interface AccordionProps extends HTMLAttributes<"div"> {
+  /** "single": opening an item closes the others; "multiple": items open independently */
+  type?: AccordionType;
+  /** Whether the open item of a "single" accordion can be closed again */
+  collapsible?: boolean;
+}
+
+export interface AccordionItemProps extends HTMLAttributes<"details"> {
+  /** Initially open */
+  open?: boolean;
+}
+
+export interface AccordionTriggerProps extends HTMLAttributes<"summary">, VariantProps<typeof accordionTrigger> {}
+
+export type AccordionContentProps = HTMLAttributes<"div">;
+
+export type AccordionTriggerSize = VariantProps<typeof accordionTrigger>["size"];
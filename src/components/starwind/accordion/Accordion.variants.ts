@@ -0,0 +1,37 @@
+import { tv } from "tailwind-variants";
+
+export const accordion = tv({ base: "w-full" });
+
+export const accordionItem = tv({ base: "group border-border border-b last:border-b-0" });
+
+export const accordionTrigger = tv({
+  base: [
+    "text-foreground flex w-full cursor-pointer list-none items-center justify-between gap-4 rounded-sm py-4 text-left font-medium",
+    "transition-colors hover:text-primary [&::-webkit-details-marker]:hidden",
+    "outline-none focus-visible:ring-3 focus-visible:ring-outline/50",
+  ],
+  variants: {
+    size: {
+      sm: "text-sm",
+      md: "text-base",
+      lg: "text-lg",
+    },
+  },
+  defaultVariants: { size: "md" },
+});
+
+// The chevron follows data-state while enhanced, so it turns back as soon as the closing animation starts
+export const accordionChevron = tv({
+  base: [
+    "text-muted-foreground size-5 shrink-0 transition-transform",
+    "group-open:rotate-180 group-data-[state=closed]:rotate-0",
+  ],
+});
+
+// Height animations from starwind.css; the script sets --starwind-accordion-content-height before each one
+export const accordionContent = tv({
+  base: [
+    "text-muted-foreground overflow-hidden",
+    "data-[state=closed]:animate-accordion-up data-[state=open]:animate-accordion-down motion-reduce:animate-none",
+  ],
+});
@@ -0,0 +1,157 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { closeAccordionItem, initAccordions, openAccordionItem } from "./accordionController";
+
+function renderAccordion(attributes: string, openIndex?: number) {
+  const items = ["First", "Second", "Third"]
+    .map(
+      (label, index) => `
+        <details data-accordion-item ${index === openIndex ? "open" : ""}>
+          <summary>${label}</summary>
+          <div data-accordion-content><div>${label} answer</div></div>
+        </details>`
+    )
+    .join("");
+  document.body.innerHTML = `<div data-accordion ${attributes}>${items}</div>`;
+  initAccordions();
+
+  const details = [...document.querySelectorAll<HTMLDetailsElement>("details")];
+  const triggers = details.map((item) => item.querySelector("summary")!);
+  return { items: details, triggers };
+}
+
+const openStates = (items: HTMLDetailsElement[]) => items.map((item) => item.open);
+
+describe("accordionController", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  describe("initAccordions", () => {
+    it("marks items and their content with their state", () => {
+      const { items } = renderAccordion('data-type="single" data-collapsible', 1);
+
+      expect(items.map((item) => item.dataset.state)).toEqual(["closed", "open", "closed"]);
+      expect(items[1].querySelector<HTMLElement>("[data-accordion-content]")!.dataset.state).toBe("open");
+    });
+
+    it("wires each accordion once", () => {
+      const { items, triggers } = renderAccordion('data-type="multiple"');
+      initAccordions();
+
+      triggers[0].click();
+
+      expect(items[0].open).toBe(true);
+    });
+  });
+
+  describe("single", () => {
+    it("closes the open item when another opens", () => {
+      const { items, triggers } = renderAccordion('data-type="single" data-collapsible', 0);
+
+      triggers[2].click();
+
+      expect(openStates(items)).toEqual([false, false, true]);
+    });
+
+    it("closes the open item when collapsible", () => {
+      const { items, triggers } = renderAccordion('data-type="single" data-collapsible', 0);
+
+      triggers[0].click();
+
+      expect(openStates(items)).toEqual([false, false, false]);
+    });
+
+    it("keeps the open item open when not collapsible", () => {
+      const { items, triggers } = renderAccordion('data-type="single"', 0);
+
+      const event = new MouseEvent("click", { bubbles: true, cancelable: true });
+      triggers[0].dispatchEvent(event);
+
+      expect(event.defaultPrevented).toBe(true);
+      expect(openStates(items)).toEqual([true, false, false]);
+    });
+  });
+
+  describe("multiple", () => {
+    it("opens and closes items independently", () => {
+      const { items, triggers } = renderAccordion('data-type="multiple"');
+
+      triggers[0].click();
+      triggers[2].click();
+      expect(openStates(items)).toEqual([true, false, true]);
+
+      triggers[0].click();
+      expect(openStates(items)).toEqual([false, false, true]);
+    });
+  });
+
+  describe("openAccordionItem and closeAccordionItem", () => {
+    it("set the content height the animations run to", () => {
+      const { items } = renderAccordion('data-type="multiple"');
+      const content = items[0].querySelector<HTMLElement>("[data-accordion-content]")!;
+
+      openAccordionItem(items[0]);
+
+      expect(items[0].open).toBe(true);
+      expect(content.dataset.state).toBe("open");
+      expect(content.style.getPropertyValue("--starwind-accordion-content-height")).toMatch(/^\d+px$/);
+
+      closeAccordionItem(items[0]);
+
+      expect(items[0].open).toBe(false);
+      expect(content.dataset.state).toBe("closed");
+    });
+
+    it("keep a single accordion single", () => {
+      const { items } = renderAccordion('data-type="single" data-collapsible', 0);
+
+      openAccordionItem(items[1]);
+
+      expect(openStates(items)).toEqual([false, true, false]);
+    });
+  });
+
+  describe("keyboard", () => {
+    const press = (key: string) => {
+      const event = new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true });
+      document.activeElement!.dispatchEvent(event);
+      return event;
+    };
+
+    it("moves focus between triggers with the arrow keys, wrapping around", () => {
+      const { triggers } = renderAccordion('data-type="multiple"');
+      triggers[0].focus();
+
+      press("ArrowDown");
+      expect(document.activeElement).toBe(triggers[1]);
+
+      press("ArrowUp");
+      press("ArrowUp");
+      expect(document.activeElement).toBe(triggers[2]);
+
+      press("ArrowDown");
+      expect(document.activeElement).toBe(triggers[0]);
+    });
+
+    it("moves focus to the first and last trigger with Home and End", () => {
+      const { triggers } = renderAccordion('data-type="multiple"');
+      triggers[1].focus();
+
+      expect(press("End").defaultPrevented).toBe(true);
+      expect(document.activeElement).toBe(triggers[2]);
+
+      press("Home");
+      expect(document.activeElement).toBe(triggers[0]);
+    });
+
+    it("ignores keys inside the content", () => {
+      const { items } = renderAccordion('data-type="multiple"', 0);
+      const input = document.createElement("input");
+      items[0].querySelector("[data-accordion-content]")!.append(input);
+      input.focus();
+
+      expect(press("ArrowDown").defaultPrevented).toBe(false);
+      expect(document.activeElement).toBe(input);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Behaviour of Accordion
+ *
+ * Items are native <details>/<summary>, so without JavaScript every item opens and closes on its own.
+ * This module adds:
+ * - type="single": opening an item closes the others; without `collapsible` the open item stays open
+ * - the accordion-down/accordion-up animations from starwind.css, driven by --starwind-accordion-content-height
+ * - ArrowDown/ArrowUp/Home/End move focus between the triggers (WAI-ARIA accordion pattern)
+ */
+
+const ROOT_SELECTOR = "[data-accordion]";
+const ITEM_SELECTOR = "details[data-accordion-item]";
+
+type AccordionState = "open" | "closed";
+
+function getRoot(item: HTMLDetailsElement): HTMLElement | null {
+  return item.closest<HTMLElement>(ROOT_SELECTOR);
+}
+
+/** Items of `root`, not of an accordion nested inside one of them */
+function getItems(root: HTMLElement): HTMLDetailsElement[] {
+  return [...root.querySelectorAll<HTMLDetailsElement>(ITEM_SELECTOR)].filter((item) => getRoot(item) === root);
+}
+
+function getTrigger(item: HTMLDetailsElement): HTMLElement | null {
+  return item.querySelector<HTMLElement>(":scope > summary");
+}
+
+function getContent(item: HTMLDetailsElement): HTMLElement | null {
+  return item.querySelector<HTMLElement>(":scope > [data-accordion-content]");
+}
+
+function setState(item: HTMLDetailsElement, state: AccordionState): void {
+  item.dataset.state = state;
+
+  const content = getContent(item);
+  if (!content) return;
+  content.style.setProperty("--starwind-accordion-content-height", `${content.scrollHeight}px`);
+  content.dataset.state = state;
+}
+
+function isAnimated(content: HTMLElement): boolean {
+  if (window.matchMedia("(prefers-reduced-motion: reduce)").matches) return false;
+  const { animationName } = window.getComputedStyle(content);
+  return Boolean(animationName) && animationName !== "none";
+}
+
+/** Open an item; in a "single" accordion the other items close */
+export function openAccordionItem(item: HTMLDetailsElement): void {
+  const root = getRoot(item);
+  if (root?.dataset.type === "single") {
+    getItems(root)
+      .filter((other) => other !== item)
+      .forEach(closeAccordionItem);
+  }
+
+  if (item.open && item.dataset.state === "open") return;
+  item.open = true;
+  setState(item, "open");
+}
+
+/** Close an item once its closing animation has run */
+export function closeAccordionItem(item: HTMLDetailsElement): void {
+  if (!item.open || item.dataset.state === "closed") return;
+  setState(item, "closed");
+
+  const content = getContent(item);
+  if (!content || !isAnimated(content)) {
+    item.open = false;
+    return;
+  }
+
+  content.addEventListener(
+    "animationend",
+    () => {
+      // Reopened while the animation was running
+      if (item.dataset.state === "closed") item.open = false;
+    },
+    { once: true }
+  );
+}
+
+function canClose(item: HTMLDetailsElement): boolean {
+  const root = getRoot(item);
+  return !root || root.dataset.type !== "single" || root.hasAttribute("data-collapsible");
+}
+
+function handleTriggerClick(item: HTMLDetailsElement, event: MouseEvent): void {
+  // The script decides instead of the browser, so closing can be animated and single accordions stay single
+  event.preventDefault();
+
+  if (item.open && item.dataset.state !== "closed") {
+    if (canClose(item)) closeAccordionItem(item);
+  } else {
+    openAccordionItem(item);
+  }
+}
+
+/** Opened or closed by the browser, e.g. by find-in-page or a fragment link */
+function handleToggle(item: HTMLDetailsElement): void {
+  if (item.open && item.dataset.state !== "open") openAccordionItem(item);
+  else if (!item.open && item.dataset.state !== "closed") setState(item, "closed");
+}
+
+function handleKeydown(root: HTMLElement, event: KeyboardEvent): void {
+  const triggers = getItems(root)
+    .map(getTrigger)
+    .filter((trigger): trigger is HTMLElement => trigger !== null);
+  const index = triggers.indexOf(event.target as HTMLElement);
+  if (index === -1) return;
+
+  const targets: Record<string, number> = {
+    ArrowDown: (index + 1) % triggers.length,
+    ArrowUp: (index - 1 + triggers.length) % triggers.length,
+    Home: 0,
+    End: triggers.length - 1,
+  };
+  if (!(event.key in targets)) return;
+
+  event.preventDefault();
+  triggers[targets[event.key]].focus();
+}
+
+/** Wire one Accordion; safe to call more than once */
+export function initAccordion(root: HTMLElement): void {
+  if (root.hasAttribute("data-accordion-ready")) return;
+  root.setAttribute("data-accordion-ready", "");
+
+  getItems(root).forEach((item) => {
+    item.dataset.state = item.open ? "open" : "closed";
+    const content = getContent(item);
+    if (content) content.dataset.state = item.dataset.state;
+
+    getTrigger(item)?.addEventListener("click", (event) => handleTriggerClick(item, event));
+    item.addEventListener("toggle", () => handleToggle(item));
+  });
+
+  root.addEventListener("keydown", (event) => handleKeydown(root, event));
+}
+
+/** Wire every Accordion on the page */
+export function initAccordions(scope: ParentNode = document): void {
+  scope.querySelectorAll<HTMLElement>(ROOT_SELECTOR).forEach(initAccordion);
+}
@@ -0,0 +1,23 @@
+/**
+ * Accordion component utilities
+ *
+ * Import the components directly:
+ * import Accordion from '@/components/starwind/accordion/Accordion.astro'
+ * import AccordionItem from '@/components/starwind/accordion/AccordionItem.astro'
+ * import AccordionTrigger from '@/components/starwind/accordion/AccordionTrigger.astro'
+ * import AccordionContent from '@/components/starwind/accordion/AccordionContent.astro'
+ *
+ * This file exports variants, types and the client-side controller (not the components).
+ * Reason: Astro components don't support barrel exports.
+ */
+
+export { accordion, accordionItem, accordionTrigger, accordionChevron, accordionContent } from "./Accordion.variants";
+export type {
+  AccordionProps,
+  AccordionItemProps,
+  AccordionTriggerProps,
+  AccordionContentProps,
+  AccordionType,
+  AccordionTriggerSize,
+} from "./Accordion.types";
+export { openAccordionItem, closeAccordionItem, initAccordion, initAccordions } from "./accordionController";
@@ -0,0 +1,80 @@
+import { experimental_AstroContainer as AstroContainer } from "astro/container";
+import { expect, it, describe } from "vitest";
+import Checkbox from "./Checkbox.astro";
+
+describe("Checkbox Component", () => {
+  it("renders a bare checkbox input without slot content", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Checkbox, {
+      props: { id: "consent", name: "consent" },
+    });
+
+    expect(result).toContain('type="checkbox"');
+    expect(result).toContain('id="consent"');
+    expect(result).toContain('data-slot="checkbox"');
+    expect(result).not.toContain("<label");
+  });
+
+  it("wraps the input in a label when given slot content", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Checkbox, {
+      props: { name: "consent" },
+      slots: { default: "I agree to the privacy policy" },
+    });
+
+    expect(result).toMatch(/<label[^>]*data-slot="checkbox-root"[^>]*>\s*<input[^>]*type="checkbox"/);
+    expect(result).toContain('data-slot="checkbox-label"');
+    expect(result).toContain("I agree to the privacy policy");
+  });
+
+  it("applies default, small and large sizes", async () => {
+    const container = await AstroContainer.create();
+
+    const mdResult = await container.renderToString(Checkbox);
+    expect(mdResult).toContain("size-5");
+
+    const smResult = await container.renderToString(Checkbox, {
+      props: { size: "sm" },
+      slots: { default: "Small" },
+    });
+    expect(smResult).toContain("size-4");
+    expect(smResult).toContain("text-sm");
+
+    const lgResult = await container.renderToString(Checkbox, { props: { size: "lg" } });
+    expect(lgResult).toContain("size-6");
+  });
+
+  it("wires aria-invalid and aria-describedby when invalid", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Checkbox, {
+      props: { id: "consent", invalid: true },
+      slots: { default: "I agree" },
+    });
+
+    expect(result).toContain('aria-invalid="true"');
+    expect(result).toContain('aria-describedby="consent-error"');
+  });
+
+  it("includes invalid and disabled state styles", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Checkbox, {
+      props: { disabled: true },
+      slots: { default: "Disabled" },
+    });
+
+    expect(result).toContain("aria-invalid:border-error");
+    expect(result).toContain("disabled:opacity-50");
+    expect(result).toContain("peer-disabled:opacity-50");
+    expect(result).toContain("disabled");
+  });
+
+  it("applies custom className to the input", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Checkbox, {
+      props: { class: "custom-class" },
+      slots: { default: "Custom" },
+    });
+
+    expect(result).toMatch(/<input[^>]*class="[^"]*custom-class/);
+  });
+});
@@ -0,0 +1,9 @@
+import type { HTMLAttributes } from "astro/types";
+import type { VariantProps } from "tailwind-variants";
+import type { FieldControlProps } from "../field-error/fieldAria";
+import type { checkbox } from "./Checkbox.variants";
+
+export interface CheckboxProps
+  extends Omit<HTMLAttributes<"input">, "type" | "size">, VariantProps<typeof checkbox>, FieldControlProps {}
+
+export type CheckboxSize = VariantProps<typeof checkbox>["size"];
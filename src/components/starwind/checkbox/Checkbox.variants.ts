@@ -0,0 +1,23 @@
+import { tv } from "tailwind-variants";
+
+export const checkbox = tv({
+  slots: {
+    // Wrapper rendered when the checkbox has label content: <Checkbox>I agree</Checkbox>
+    root: "flex items-start",
+    control: [
+      "peer border-input bg-background text-primary mt-0.5 shrink-0 rounded border shadow-xs dark:bg-input/30",
+      "transition-[color,box-shadow] outline-none focus-visible:ring-3 focus-visible:ring-outline/50 focus-visible:ring-offset-0",
+      "aria-invalid:border-error aria-invalid:focus-visible:ring-error/40",
+      "disabled:cursor-not-allowed disabled:opacity-50",
+    ],
+    label: "text-muted-foreground peer-disabled:cursor-not-allowed peer-disabled:opacity-50",
+  },
+  variants: {
+    size: {
+      sm: { root: "gap-2", control: "size-4", label: "text-sm" },
+      md: { root: "gap-3", control: "size-5", label: "text-base" },
+      lg: { root: "gap-3", control: "size-6", label: "text-lg" },
+    },
+  },
+  defaultVariants: { size: "md" },
+});
@@ -0,0 +1,12 @@
+/**
+ * Checkbox component utilities
+ *
+ * Import the component directly:
+ * import Checkbox from '@/components/starwind/checkbox/Checkbox.astro'
+ *
+ * This file exports variants and types only (not the component).
+ * Reason: Astro components don't support barrel exports.
+ */
+
+export { checkbox } from "./Checkbox.variants";
+export type { CheckboxProps, CheckboxSize } from "./Checkbox.types";
@@ -0,0 +1,150 @@
+import { experimental_AstroContainer as AstroContainer } from "astro/container";
+import { expect, it, describe } from "vitest";
+import Dialog from "./Dialog.astro";
+import DialogTrigger from "./DialogTrigger.astro";
+import DialogContent from "./DialogContent.astro";
+import DialogTitle from "./DialogTitle.astro";
+import DialogDescription from "./DialogDescription.astro";
+import DialogHeader from "./DialogHeader.astro";
+import DialogFooter from "./DialogFooter.astro";
+import DialogClose from "./DialogClose.astro";
+
+describe("Dialog Components", () => {
+  it("renders the root the controller looks for", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Dialog, {
+      slots: { default: "Content" },
+    });
+
+    expect(result).toContain('data-slot="dialog"');
+    expect(result).toContain("data-dialog-root");
+    expect(result).toContain("Content");
+  });
+
+  describe("DialogTrigger", () => {
+    it("renders a collapsed button announcing a dialog", async () => {
+      const container = await AstroContainer.create();
+      const result = await container.renderToString(DialogTrigger, {
+        slots: { default: "Open" },
+      });
+
+      expect(result).toContain("<button");
+      expect(result).toContain('type="button"');
+      expect(result).toContain("data-dialog-trigger");
+      expect(result).toContain('aria-haspopup="dialog"');
+      expect(result).toContain('aria-expanded="false"');
+      expect(result).not.toContain("aria-controls");
+    });
+
+    it("controls the dialog named by for", async () => {
+      const container = await AstroContainer.create();
+      const result = await container.renderToString(DialogTrigger, {
+        props: { for: "terms-dialog" },
+        slots: { default: "Terms" },
+      });
+
+      expect(result).toContain('aria-controls="terms-dialog"');
+    });
+
+    it("accepts button variants", async () => {
+      const container = await AstroContainer.create();
+      const result = await container.renderToString(DialogTrigger, {
+        props: { variant: "ghost", size: "icon" },
+        slots: { default: "Menu" },
+      });
+
+      expect(result).toContain("hover:bg-muted");
+      expect(result).toContain("size-11");
+    });
+  });
+
+  describe("DialogContent", () => {
+    it("renders a modal native dialog with a panel", async () => {
+      const container = await AstroContainer.create();
+      const result = await container.renderToString(DialogContent, {
+        slots: { default: "Body" },
+      });
+
+      expect(result).toContain("<dialog");
+      expect(result).toContain("data-dialog-content");
+      expect(result).toContain('aria-modal="true"');
+      expect(result).toContain('data-slot="dialog-panel"');
+      expect(result).toContain("backdrop:bg-black/50");
+      expect(result).toContain("Body");
+    });
+
+    it("renders a labelled close button by default", async () => {
+      const container = await AstroContainer.create();
+      const result = await container.renderToString(DialogContent, {
+        props: { closeLabel: "Schließen" },
+      });
+
+      expect(result).toMatch(/<button[^>]*data-dialog-close[^>]*aria-label="Schließen"/);
+    });
+
+    it("can omit the close button", async () => {
+      const container = await AstroContainer.create();
+      const result = await container.renderToString(DialogContent, {
+        props: { showCloseButton: false },
+      });
+
+      expect(result).not.toContain("data-dialog-close");
+    });
+
+    it("marks content that closes on navigation", async () => {
+      const container = await AstroContainer.create();
+
+      const defaultResult = await container.renderToString(DialogContent);
+      expect(defaultResult).not.toContain("data-close-on-navigate");
+
+      const navResult = await container.renderToString(DialogContent, { props: { closeOnNavigate: true } });
+      expect(navResult).toContain("data-close-on-navigate");
+    });
+
+    it("accepts custom className and attributes", async () => {
+      const container = await AstroContainer.create();
+      const result = await container.renderToString(DialogContent, {
+        props: { class: "custom-class", id: "terms-dialog" },
+      });
+
+      expect(result).toContain("custom-class");
+      expect(result).toContain('id="terms-dialog"');
+    });
+  });
+
+  it("marks title and description for aria-labelledby/aria-describedby", async () => {
+    const container = await AstroContainer.create();
+
+    const title = await container.renderToString(DialogTitle, { slots: { default: "Settings" } });
+    expect(title).toContain("<h2");
+    expect(title).toContain("data-dialog-title");
+
+    const description = await container.renderToString(DialogDescription, { slots: { default: "Details" } });
+    expect(description).toContain("<p");
+    expect(description).toContain("data-dialog-description");
+  });
+
+  it("renders header and footer layout", async () => {
+    const container = await AstroContainer.create();
+
+    const header = await container.renderToString(DialogHeader, { slots: { default: "Header" } });
+    expect(header).toContain('data-slot="dialog-header"');
+
+    const footer = await container.renderToString(DialogFooter, { slots: { default: "Footer" } });
+    expect(footer).toContain('data-slot="dialog-footer"');
+    expect(footer).toContain("sm:justify-end");
+  });
+
+  it("renders a close button for custom actions", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(DialogClose, {
+      props: { variant: "outline" },
+      slots: { default: "Cancel" },
+    });
+
+    expect(result).toContain('type="button"');
+    expect(result).toContain("data-dialog-close");
+    expect(result).toContain("bg-background");
+    expect(result).toContain("Cancel");
+  });
+});
@@ -0,0 +1,28 @@
+import type { HTMLAttributes } from "astro/types";
+import type { ButtonProps } from "../button/Button.types";
+
+export type DialogProps = HTMLAttributes<"div">;
+
+export interface DialogTriggerProps extends ButtonProps {
+  /** Id of a DialogContent outside this Dialog; triggers inside a Dialog are wired automatically */
+  for?: string;
+}
+
+export interface DialogContentProps extends HTMLAttributes<"dialog"> {
+  /** Render the close button (✕) in the top right corner */
+  showCloseButton?: boolean;
+  /** Accessible name of the close button */
+  closeLabel?: string;
+  /** Close when a link inside is followed (navigation menus) */
+  closeOnNavigate?: boolean;
+}
+
+export type DialogCloseProps = ButtonProps;
+
+export type DialogHeaderProps = HTMLAttributes<"div">;
+
+export type DialogFooterProps = HTMLAttributes<"div">;
+
+export type DialogTitleProps = HTMLAttributes<"h2">;
+
+export type DialogDescriptionProps = HTMLAttributes<"p">;
@@ -0,0 +1,29 @@
+import { tv } from "tailwind-variants";
+
+// Native <dialog> opened with showModal(): the browser renders it in the top layer above a ::backdrop
+export const dialogContent = tv({
+  base: [
+    "bg-background text-foreground m-auto w-full max-w-[calc(100%-2rem)] rounded-lg border p-0 shadow-lg sm:max-w-lg",
+    "backdrop:bg-black/50 open:animate-in open:fade-in-0 open:zoom-in-95 backdrop:animate-in backdrop:fade-in-0",
+    "motion-reduce:open:animate-none",
+  ],
+});
+
+// Inner panel: clicks outside it land on the <dialog> element itself, i.e. on the backdrop
+export const dialogPanel = tv({ base: "relative flex max-h-full flex-col gap-4 overflow-y-auto p-6" });
+
+export const dialogCloseButton = tv({
+  base: [
+    "text-muted-foreground absolute top-4 right-4 rounded-sm p-1 opacity-70 transition-opacity",
+    "hover:opacity-100 outline-none focus-visible:ring-3 focus-visible:ring-outline/50",
+    "[&_svg]:pointer-events-none [&_svg]:size-4",
+  ],
+});
+
+export const dialogHeader = tv({ base: "flex flex-col gap-2 pr-8 text-center sm:text-left" });
+
+export const dialogFooter = tv({ base: "flex flex-col-reverse gap-2 sm:flex-row sm:justify-end" });
+
+export const dialogTitle = tv({ base: "text-lg leading-none font-semibold" });
+
+export const dialogDescription = tv({ base: "text-muted-foreground text-sm" });
@@ -0,0 +1,252 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { closeDialog, getFocusableElements, initDialogs, openDialog } from "./dialogController";
+
+function renderDialog(html: string) {
+  document.body.innerHTML = html;
+  initDialogs();
+
+  const dialog = document.querySelector<HTMLDialogElement>("dialog")!;
+  const trigger = document.querySelector<HTMLButtonElement>("[data-dialog-trigger]")!;
+  return { dialog, trigger };
+}
+
+/** Wait for the "close" event, which the browser queues as a task */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const BASIC_DIALOG = `
+  <button id="outside">Outside</button>
+  <div data-dialog-root>
+    <button type="button" data-dialog-trigger aria-expanded="false">Open</button>
+    <dialog data-dialog-content>
+      <div data-slot="dialog-panel">
+        <h2 data-dialog-title>Settings</h2>
+        <p data-dialog-description>Change your preferences.</p>
+        <a href="/first">First</a>
+        <input type="text" />
+        <button type="button" data-dialog-close>Close</button>
+      </div>
+    </dialog>
+  </div>
+`;
+
+describe("dialogController", () => {
+  beforeEach(() => {
+    document.documentElement.removeAttribute("style");
+    document.documentElement.removeAttribute("data-scroll-locked");
+  });
+
+  afterEach(() => {
+    document.querySelectorAll("dialog").forEach((dialog) => dialog.open && dialog.close());
+    document.body.innerHTML = "";
+  });
+
+  describe("initDialogs", () => {
+    it("wires the trigger to the dialog with aria-controls", () => {
+      const { dialog, trigger } = renderDialog(BASIC_DIALOG);
+
+      expect(dialog.id).toMatch(/^dialog-\d+$/);
+      expect(trigger.getAttribute("aria-controls")).toBe(dialog.id);
+    });
+
+    it("labels the dialog by its title and describes it by its description", () => {
+      const { dialog } = renderDialog(BASIC_DIALOG);
+
+      const title = document.querySelector("[data-dialog-title]")!;
+      const description = document.querySelector("[data-dialog-description]")!;
+      expect(dialog.getAttribute("aria-labelledby")).toBe(title.id);
+      expect(dialog.getAttribute("aria-describedby")).toBe(description.id);
+    });
+
+    it("keeps ids and labels set in the markup", () => {
+      const { dialog, trigger } = renderDialog(`
+        <div data-dialog-root>
+          <button data-dialog-trigger aria-controls="mobile-nav">Open</button>
+          <dialog id="mobile-nav" aria-label="Menu" data-dialog-content><h2 data-dialog-title>Title</h2></dialog>
+        </div>
+      `);
+
+      expect(dialog.id).toBe("mobile-nav");
+      expect(trigger.getAttribute("aria-controls")).toBe("mobile-nav");
+      expect(dialog.hasAttribute("aria-labelledby")).toBe(false);
+    });
+
+    it("wires every root separately", () => {
+      document.body.innerHTML = BASIC_DIALOG + BASIC_DIALOG;
+      initDialogs();
+
+      const [first, second] = document.querySelectorAll("dialog");
+      const [firstTrigger, secondTrigger] = document.querySelectorAll("[data-dialog-trigger]");
+      expect(first.id).not.toBe(second.id);
+      expect(firstTrigger.getAttribute("aria-controls")).toBe(first.id);
+      expect(secondTrigger.getAttribute("aria-controls")).toBe(second.id);
+    });
+
+    it("opens the dialog from a trigger outside the root that names it", () => {
+      document.body.innerHTML = `
+        <button data-dialog-trigger aria-controls="terms">Terms</button>
+        <div data-dialog-root><dialog id="terms" data-dialog-content><button>OK</button></dialog></div>
+      `;
+      initDialogs();
+
+      document.querySelector<HTMLButtonElement>("[data-dialog-trigger]")!.click();
+
+      expect(document.querySelector("dialog")!.open).toBe(true);
+    });
+  });
+
+  describe("opening", () => {
+    it("opens modally, expands the trigger and focuses the first focusable element", () => {
+      const { dialog, trigger } = renderDialog(BASIC_DIALOG);
+
+      trigger.click();
+
+      expect(dialog.open).toBe(true);
+      expect(trigger.getAttribute("aria-expanded")).toBe("true");
+      expect(document.activeElement).toBe(document.querySelector("a[href='/first']"));
+    });
+
+    it("prefers an autofocus element", () => {
+      const { dialog } = renderDialog(`
+        <div data-dialog-root>
+          <dialog data-dialog-content><button>First</button><input autofocus /></dialog>
+        </div>
+      `);
+
+      openDialog(dialog);
+
+      expect(document.activeElement).toBe(dialog.querySelector("input"));
+    });
+
+    it("locks page scrolling", () => {
+      const { dialog } = renderDialog(BASIC_DIALOG);
+
+      openDialog(dialog);
+
+      expect(document.documentElement.hasAttribute("data-scroll-locked")).toBe(true);
+      expect(document.documentElement.style.overflow).toBe("hidden");
+    });
+  });
+
+  describe("closing", () => {
+    it("closes from a close button, collapses the trigger and unlocks scrolling", async () => {
+      const { dialog, trigger } = renderDialog(BASIC_DIALOG);
+      trigger.focus();
+      trigger.click();
+
+      document.querySelector<HTMLButtonElement>("[data-dialog-close]")!.click();
+      await flush();
+
+      expect(dialog.open).toBe(false);
+      expect(trigger.getAttribute("aria-expanded")).toBe("false");
+      expect(document.documentElement.hasAttribute("data-scroll-locked")).toBe(false);
+      expect(document.documentElement.style.overflow).toBe("");
+    });
+
+    it("returns focus to the element that opened the dialog", async () => {
+      const { dialog, trigger } = renderDialog(BASIC_DIALOG);
+      trigger.focus();
+      trigger.click();
+
+      closeDialog(dialog);
+      await flush();
+
+      expect(document.activeElement).toBe(trigger);
+    });
+
+    it("closes on a click on the backdrop, not on the panel", () => {
+      const { dialog } = renderDialog(BASIC_DIALOG);
+      openDialog(dialog);
+
+      dialog.querySelector<HTMLElement>("[data-slot='dialog-panel']")!.click();
+      expect(dialog.open).toBe(true);
+
+      dialog.click();
+      expect(dialog.open).toBe(false);
+    });
+
+    it("closes when a link is followed only with data-close-on-navigate", () => {
+      const { dialog } = renderDialog(BASIC_DIALOG);
+      const link = dialog.querySelector<HTMLAnchorElement>("a")!;
+      link.addEventListener("click", (event) => event.preventDefault());
+      openDialog(dialog);
+
+      link.click();
+      expect(dialog.open).toBe(true);
+
+      dialog.setAttribute("data-close-on-navigate", "");
+      link.click();
+      expect(dialog.open).toBe(false);
+    });
+
+    it("keeps scrolling locked while another dialog is open", async () => {
+      document.body.innerHTML = BASIC_DIALOG + BASIC_DIALOG;
+      initDialogs();
+      const [first, second] = document.querySelectorAll("dialog");
+
+      openDialog(first);
+      openDialog(second);
+      closeDialog(second);
+      await flush();
+
+      expect(document.documentElement.hasAttribute("data-scroll-locked")).toBe(true);
+    });
+  });
+
+  describe("focus wrapping", () => {
+    const pressTab = (shiftKey = false) => {
+      const event = new KeyboardEvent("keydown", { key: "Tab", shiftKey, bubbles: true, cancelable: true });
+      document.activeElement!.dispatchEvent(event);
+      return event;
+    };
+
+    it("moves from the last focusable element to the first", () => {
+      const { dialog } = renderDialog(BASIC_DIALOG);
+      openDialog(dialog);
+      dialog.querySelector<HTMLButtonElement>("[data-dialog-close]")!.focus();
+
+      const event = pressTab();
+
+      expect(event.defaultPrevented).toBe(true);
+      expect(document.activeElement).toBe(dialog.querySelector("a"));
+    });
+
+    it("moves from the first focusable element to the last with Shift+Tab", () => {
+      const { dialog } = renderDialog(BASIC_DIALOG);
+      openDialog(dialog);
+
+      const event = pressTab(true);
+
+      expect(event.defaultPrevented).toBe(true);
+      expect(document.activeElement).toBe(dialog.querySelector("[data-dialog-close]"));
+    });
+
+    it("leaves Tab alone between the first and the last element", () => {
+      const { dialog } = renderDialog(BASIC_DIALOG);
+      openDialog(dialog);
+      dialog.querySelector("input")!.focus();
+
+      expect(pressTab().defaultPrevented).toBe(false);
+    });
+  });
+
+  describe("getFocusableElements", () => {
+    it("skips disabled, hidden and inert elements", () => {
+      document.body.innerHTML = `
+        <div id="container">
+          <button>Enabled</button>
+          <button disabled>Disabled</button>
+          <input type="hidden" />
+          <div hidden><a href="/hidden">Hidden</a></div>
+          <div inert><a href="/inert">Inert</a></div>
+          <a>No href</a>
+          <span tabindex="0">Focusable span</span>
+          <span tabindex="-1">Programmatic only</span>
+        </div>
+      `;
+
+      const labels = getFocusableElements(document.getElementById("container")!).map((el) => el.textContent);
+
+      expect(labels).toEqual(["Enabled", "Focusable span"]);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Behaviour of Dialog and Sheet
+ *
+ * Both render a native <dialog> opened with showModal(): the browser makes the rest of the page inert,
+ * exposes the dialog as modal and closes it on Escape. This module adds what the element does not:
+ * - triggers get aria-controls/aria-expanded and open their dialog; [data-dialog-close] closes it
+ * - the dialog is labelled by its title and described by its description
+ * - Tab and Shift+Tab wrap inside the dialog; focus returns to the opener on close
+ * - the page behind does not scroll while a dialog is open
+ * - clicking the backdrop closes, as does following a link when the content has data-close-on-navigate
+ */
+
+const ROOT_SELECTOR = "[data-dialog-root]";
+const CONTENT_SELECTOR = "dialog[data-dialog-content]";
+
+const FOCUSABLE_SELECTOR = [
+  "a[href]",
+  "button:not([disabled])",
+  "input:not([disabled]):not([type='hidden'])",
+  "select:not([disabled])",
+  "textarea:not([disabled])",
+  "summary",
+  "[tabindex]:not([tabindex='-1'])",
+].join(", ");
+
+const openers = new WeakMap<HTMLDialogElement, HTMLElement | null>();
+const openDialogs = new Set<HTMLDialogElement>();
+let generatedIds = 0;
+
+function ensureId(element: Element, prefix: string): string {
+  if (!element.id) element.id = `${prefix}-${++generatedIds}`;
+  return element.id;
+}
+
+/** Elements of `root` that belong to it and not to a dialog nested inside it */
+function ownElements<T extends Element>(root: Element, selector: string): T[] {
+  return [...root.querySelectorAll<T>(selector)].filter((element) => element.closest(ROOT_SELECTOR) === root);
+}
+
+function getTriggers(dialog: HTMLDialogElement): HTMLElement[] {
+  return [...document.querySelectorAll<HTMLElement>("[data-dialog-trigger]")].filter(
+    (trigger) => trigger.getAttribute("aria-controls") === dialog.id
+  );
+}
+
+/** Visible, enabled elements that take focus with Tab, in document order */
+export function getFocusableElements(container: HTMLElement): HTMLElement[] {
+  return [...container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)].filter(
+    (element) =>
+      !element.closest("[hidden], [inert]") &&
+      (typeof element.checkVisibility !== "function" || element.checkVisibility())
+  );
+}
+
+function lockScroll(): void {
+  const root = document.documentElement;
+  if (root.hasAttribute("data-scroll-locked")) return;
+
+  // Keep the layout from shifting when the scrollbar disappears
+  const scrollbarWidth = window.innerWidth - root.clientWidth;
+  root.setAttribute("data-scroll-locked", "");
+  root.style.overflow = "hidden";
+  if (scrollbarWidth > 0) root.style.paddingRight = `${scrollbarWidth}px`;
+}
+
+function unlockScroll(): void {
+  const root = document.documentElement;
+  root.removeAttribute("data-scroll-locked");
+  root.style.removeProperty("overflow");
+  root.style.removeProperty("padding-right");
+}
+
+function setExpanded(dialog: HTMLDialogElement, expanded: boolean): void {
+  getTriggers(dialog).forEach((trigger) => trigger.setAttribute("aria-expanded", String(expanded)));
+}
+
+/** Open a dialog as modal and move focus into it */
+export function openDialog(dialog: HTMLDialogElement): void {
+  if (dialog.open) return;
+
+  openers.set(dialog, document.activeElement instanceof HTMLElement ? document.activeElement : null);
+  openDialogs.add(dialog);
+  lockScroll();
+  dialog.showModal();
+  setExpanded(dialog, true);
+
+  // Browsers differ in what showModal() focuses; an autofocus element or the first focusable one wins
+  if (!dialog.contains(document.activeElement)) {
+    const target = dialog.querySelector<HTMLElement>("[autofocus]") ?? getFocusableElements(dialog)[0];
+    target?.focus();
+  }
+}
+
+/** Close a dialog; cleanup runs in the "close" event, which Escape triggers as well */
+export function closeDialog(dialog: HTMLDialogElement): void {
+  if (dialog.open) dialog.close();
+}
+
+function handleClose(dialog: HTMLDialogElement): void {
+  openDialogs.delete(dialog);
+  setExpanded(dialog, false);
+  if (openDialogs.size === 0) unlockScroll();
+
+  const opener = openers.get(dialog);
+  openers.delete(dialog);
+  if (opener?.isConnected) opener.focus();
+}
+
+function wrapFocus(dialog: HTMLDialogElement, event: KeyboardEvent): void {
+  if (event.key !== "Tab") return;
+
+  const focusable = getFocusableElements(dialog);
+  const first = focusable[0];
+  const last = focusable[focusable.length - 1];
+
+  if (!first) {
+    event.preventDefault();
+  } else if (event.shiftKey && (document.activeElement === first || document.activeElement === dialog)) {
+    event.preventDefault();
+    last.focus();
+  } else if (!event.shiftKey && document.activeElement === last) {
+    event.preventDefault();
+    first.focus();
+  }
+}
+
+/** Wire one Dialog/Sheet root; safe to call more than once */
+export function initDialog(root: HTMLElement): void {
+  if (root.hasAttribute("data-dialog-ready")) return;
+
+  const [dialog] = ownElements<HTMLDialogElement>(root, CONTENT_SELECTOR);
+  if (!dialog) return;
+  root.setAttribute("data-dialog-ready", "");
+
+  const dialogId = ensureId(dialog, "dialog");
+  const [title] = ownElements(root, "[data-dialog-title]");
+  const [description] = ownElements(root, "[data-dialog-description]");
+  if (title && !dialog.hasAttribute("aria-labelledby") && !dialog.hasAttribute("aria-label")) {
+    dialog.setAttribute("aria-labelledby", ensureId(title, `${dialogId}-title`));
+  }
+  if (description && !dialog.hasAttribute("aria-describedby")) {
+    dialog.setAttribute("aria-describedby", ensureId(description, `${dialogId}-description`));
+  }
+
+  ownElements<HTMLElement>(root, "[data-dialog-trigger]").forEach((trigger) => {
+    if (!trigger.hasAttribute("aria-controls")) trigger.setAttribute("aria-controls", dialogId);
+  });
+  getTriggers(dialog).forEach((trigger) => trigger.addEventListener("click", () => openDialog(dialog)));
+
+  dialog.addEventListener("close", () => handleClose(dialog));
+  dialog.addEventListener("keydown", (event) => wrapFocus(dialog, event));
+  dialog.addEventListener("click", (event) => {
+    const target = event.target instanceof Element ? event.target : null;
+    if (!target || target.closest(CONTENT_SELECTOR) !== dialog) return;
+
+    // The panel fills the dialog, so a click on the <dialog> element itself is a click on the backdrop
+    if (target === dialog || target.closest("[data-dialog-close]")) closeDialog(dialog);
+    else if (dialog.hasAttribute("data-close-on-navigate") && target.closest("a[href]")) closeDialog(dialog);
+  });
+}
+
+/** Wire every Dialog/Sheet on the page */
+export function initDialogs(scope: ParentNode = document): void {
+  scope.querySelectorAll<HTMLElement>(ROOT_SELECTOR).forEach(initDialog);
+}
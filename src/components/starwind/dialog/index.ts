@@ -0,0 +1,37 @@
+/**
+ * Dialog component utilities
+ *
+ * Import the components directly:
+ * import Dialog from '@/components/starwind/dialog/Dialog.astro'
+ * import DialogTrigger from '@/components/starwind/dialog/DialogTrigger.astro'
+ * import DialogContent from '@/components/starwind/dialog/DialogContent.astro'
+ * import DialogHeader from '@/components/starwind/dialog/DialogHeader.astro'
+ * import DialogTitle from '@/components/starwind/dialog/DialogTitle.astro'
+ * import DialogDescription from '@/components/starwind/dialog/DialogDescription.astro'
+ * import DialogFooter from '@/components/starwind/dialog/DialogFooter.astro'
+ * import DialogClose from '@/components/starwind/dialog/DialogClose.astro'
+ *
+ * This file exports variants, types and the client-side controller (not the components).
+ * Reason: Astro components don't support barrel exports.
+ */
+
+export {
+  dialogContent,
+  dialogPanel,
+  dialogCloseButton,
+  dialogHeader,
+  dialogFooter,
+  dialogTitle,
+  dialogDescription,
+} from "./Dialog.variants";
+export type {
+  DialogProps,
+  DialogTriggerProps,
+  DialogContentProps,
+  DialogCloseProps,
+  DialogHeaderProps,
+  DialogFooterProps,
+  DialogTitleProps,
+  DialogDescriptionProps,
+} from "./Dialog.types";
+export { openDialog, closeDialog, initDialog, initDialogs, getFocusableElements } from "./dialogController";
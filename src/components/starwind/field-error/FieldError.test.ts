@@ -0,0 +1,60 @@
+import { experimental_AstroContainer as AstroContainer } from "astro/container";
+import { expect, it, describe } from "vitest";
+import FieldError from "./FieldError.astro";
+
+describe("FieldError Component", () => {
+  it("renders the message with the id the control points at", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(FieldError, {
+      props: { for: "contact-email" },
+      slots: { default: "Please enter a valid email address." },
+    });
+
+    expect(result).toContain("<p");
+    expect(result).toContain('id="contact-email-error"');
+    expect(result).toContain('data-slot="field-error"');
+    expect(result).toContain("Please enter a valid email address.");
+  });
+
+  it("renders an empty container for messages filled in on the client", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(FieldError, {
+      props: { for: "contact-email", "data-field-error": "email" },
+    });
+
+    expect(result).toMatch(/<p[^>]*><\/p>/);
+    expect(result).toContain('data-field-error="email"');
+    expect(result).toContain("empty:hidden");
+  });
+
+  it("applies error styles and default size", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(FieldError, {
+      props: { for: "name" },
+      slots: { default: "Required" },
+    });
+
+    expect(result).toContain("text-error");
+    expect(result).toContain("mt-2");
+    expect(result).toContain("text-sm");
+  });
+
+  it("applies small and large sizes", async () => {
+    const container = await AstroContainer.create();
+
+    const smResult = await container.renderToString(FieldError, { props: { for: "name", size: "sm" } });
+    expect(smResult).toContain("text-xs");
+
+    const lgResult = await container.renderToString(FieldError, { props: { for: "name", size: "lg" } });
+    expect(lgResult).toContain("text-base");
+  });
+
+  it("accepts custom className", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(FieldError, {
+      props: { for: "name", class: "custom-class" },
+    });
+
+    expect(result).toContain("custom-class");
+  });
+});
@@ -0,0 +1,10 @@
+import type { HTMLAttributes } from "astro/types";
+import type { VariantProps } from "tailwind-variants";
+import type { fieldError } from "./FieldError.variants";
+
+export interface FieldErrorProps extends Omit<HTMLAttributes<"p">, "id">, VariantProps<typeof fieldError> {
+  /** Id of the control the message belongs to; the message gets the id the control's aria-describedby points at */
+  for: string;
+}
+
+export type FieldErrorSize = VariantProps<typeof fieldError>["size"];
@@ -0,0 +1,14 @@
+import { tv } from "tailwind-variants";
+
+export const fieldError = tv({
+  // Empty until a message is rendered or filled in by a script
+  base: "text-error font-medium empty:hidden",
+  variants: {
+    size: {
+      sm: "mt-1.5 text-xs",
+      md: "mt-2 text-sm",
+      lg: "mt-2 text-base",
+    },
+  },
+  defaultVariants: { size: "md" },
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { getFieldAria, getFieldErrorId } from "./fieldAria";
+
+describe("getFieldErrorId", () => {
+  it("derives the error id from the control id", () => {
+    expect(getFieldErrorId("contact-email")).toBe("contact-email-error");
+  });
+});
+
+describe("getFieldAria", () => {
+  it("renders nothing for a valid control", () => {
+    expect(getFieldAria({ id: "email" })).toEqual({ "aria-invalid": undefined, "aria-describedby": undefined });
+  });
+
+  it("marks an invalid control and points it at its error", () => {
+    expect(getFieldAria({ id: "email", invalid: true })).toEqual({
+      "aria-invalid": "true",
+      "aria-describedby": "email-error",
+    });
+  });
+
+  it("points at the error without marking the control when withError is set", () => {
+    expect(getFieldAria({ id: "email", withError: true })).toEqual({
+      "aria-invalid": undefined,
+      "aria-describedby": "email-error",
+    });
+  });
+
+  it("can leave an invalid control undescribed", () => {
+    expect(getFieldAria({ id: "email", invalid: true, withError: false })["aria-describedby"]).toBeUndefined();
+  });
+
+  it("keeps the caller's aria-describedby in front of the error", () => {
+    expect(getFieldAria({ id: "email", invalid: true, describedBy: "email-hint" })["aria-describedby"]).toBe(
+      "email-hint email-error"
+    );
+  });
+
+  it("cannot reference an error without a control id", () => {
+    expect(getFieldAria({ invalid: true })).toEqual({ "aria-invalid": "true", "aria-describedby": undefined });
+  });
+});
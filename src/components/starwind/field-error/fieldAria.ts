@@ -0,0 +1,50 @@
+/**
+ * ARIA wiring shared by the form controls
+ *
+ * A control with an `id` is described by the FieldError rendered with `for={id}`.
+ * A control without an `id` cannot be described: render it inside a Field, which passes the id
+ * its Label and FieldError point at (field/Field.astro).
+ */
+
+/** Props every form control (Input, Textarea, Select, Checkbox) accepts on top of its HTML attributes */
+export interface FieldControlProps {
+  /** Marks the value as invalid: sets aria-invalid, which the error styles key on */
+  invalid?: boolean;
+  /**
+   * Describe the control by its FieldError (`<id>-error`)
+   * Defaults to `invalid`; set it when the message is filled in later on the client
+   */
+  withError?: boolean;
+}
+
+export interface FieldAriaOptions extends FieldControlProps {
+  id?: string | null;
+  /** aria-describedby passed by the caller (e.g. a hint), kept in front of the error */
+  describedBy?: string | null;
+}
+
+export interface FieldAria {
+  "aria-invalid": "true" | undefined;
+  "aria-describedby": string | undefined;
+}
+
+/** Id of the FieldError describing the control with the given id */
+export function getFieldErrorId(controlId: string): string {
+  return `${controlId}-error`;
+}
+
+/**
+ * ARIA attributes of a form control; undefined values are not rendered
+ *
+ * @example
+ * getFieldAria({ id: "email", invalid: true }) // { "aria-invalid": "true", "aria-describedby": "email-error" }
+ * getFieldAria({ id: "email" })                // { "aria-invalid": undefined, "aria-describedby": undefined }
+ */
+export function getFieldAria({ id, invalid = false, withError = invalid, describedBy }: FieldAriaOptions): FieldAria {
+  const describedByIds = [describedBy, id && withError ? getFieldErrorId(id) : undefined].filter(Boolean);
+
+  return {
+    "aria-invalid": invalid ? "true" : undefined,
+    "aria-describedby": describedByIds.length > 0 ? describedByIds.join(" ") : undefined,
+  };
+}
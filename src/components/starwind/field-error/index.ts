@@ -0,0 +1,14 @@
+/**
+ * FieldError component utilities
+ *
+ * Import the component directly:
+ * import FieldError from '@/components/starwind/field-error/FieldError.astro'
+ *
+ * This file exports variants, types and the ARIA helpers shared by the form controls (not the component).
+ * Reason: Astro components don't support barrel exports.
+ */
+
+export { fieldError } from "./FieldError.variants";
+export type { FieldErrorProps, FieldErrorSize } from "./FieldError.types";
+export { getFieldAria, getFieldErrorId } from "./fieldAria";
+export type { FieldAria, FieldAriaOptions, FieldControlProps } from "./fieldAria";
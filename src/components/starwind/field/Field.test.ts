@@ -0,0 +1,55 @@
+import { experimental_AstroContainer as AstroContainer } from "astro/container";
+import { expect, it, describe } from "vitest";
+import FieldWithInput from "../../../../tests/fixtures/components/FieldWithInput.astro";
+
+/** Opening tag of the element with `id` */
+const openingTag = (html: string, id: string) => html.match(new RegExp(`<[a-z]+[^>]*\\sid="${id}"[^>]*>`))?.[0] ?? "";
+
+describe("Field Component", () => {
+  it("connects the label, the control and the error by the field id", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(FieldWithInput, {
+      props: { id: "contact-email", label: "Email", error: "Please enter a valid email address." },
+    });
+
+    expect(result).toContain('data-slot="field"');
+    expect(result).toMatch(/<label[^>]*for="contact-email"[^>]*>\s*Email/);
+    expect(openingTag(result, "contact-email")).toContain('aria-invalid="true"');
+    expect(openingTag(result, "contact-email")).toContain('aria-describedby="contact-email-error"');
+    expect(openingTag(result, "contact-email")).toContain('name="email"');
+    expect(result).toMatch(/<p id="contact-email-error"[^>]*>Please enter a valid email address.<\/p>/);
+  });
+
+  it("leaves a valid control undescribed and the error empty", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(FieldWithInput, { props: { id: "email", label: "Email" } });
+
+    expect(openingTag(result, "email")).not.toContain("aria-invalid=");
+    expect(openingTag(result, "email")).not.toContain("aria-describedby=");
+    expect(result).toMatch(/<p id="email-error"[^>]*><\/p>/);
+  });
+
+  it("describes a valid control by its error for messages filled in on the client", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(FieldWithInput, {
+      props: { id: "email", label: "Email", withError: true, errorProps: { "data-field-error": "email" } },
+    });
+
+    expect(openingTag(result, "email")).toContain('aria-describedby="email-error"');
+    expect(openingTag(result, "email")).not.toContain("aria-invalid=");
+    expect(openingTag(result, "email-error")).toContain('data-field-error="email"');
+  });
+
+  it("renders the label hint and size, and no label when the control labels itself", async () => {
+    const container = await AstroContainer.create();
+
+    const withHint = await container.renderToString(FieldWithInput, {
+      props: { id: "company", label: "Company", hint: "(optional)", size: "sm" },
+    });
+    expect(withHint).toContain("(optional)");
+    expect(withHint).toContain("text-sm");
+
+    const unlabelled = await container.renderToString(FieldWithInput, { props: { id: "company" } });
+    expect(unlabelled).not.toContain("<label");
+  });
+});
@@ -0,0 +1,29 @@
+import type { HTMLAttributes } from "astro/types";
+import type { FieldErrorProps } from "../field-error/FieldError.types";
+import type { LabelSize } from "../label/Label.types";
+
+/** Props a Field passes to its control (the function child) */
+export interface FieldControl {
+  id: string;
+  invalid: boolean;
+  withError: boolean;
+}
+
+export interface FieldProps extends Omit<HTMLAttributes<"div">, "id"> {
+  /** Id of the control; the label's `for` and the error's id are derived from it */
+  id: string;
+  /** Label text; omit it for controls that label themselves (Checkbox with slot content) */
+  label?: string;
+  /** Muted hint after the label text, e.g. "(optional)" */
+  hint?: string;
+  /** Message rendered by the FieldError */
+  error?: string;
+  /** Defaults to whether there is an error */
+  invalid?: boolean;
+  /** Describe the control by its FieldError even when valid (messages filled in on the client); defaults to `invalid` */
+  withError?: boolean;
+  /** Size of the label */
+  size?: LabelSize;
+  /** Attributes of the FieldError, e.g. the `data-field-error` hook of a client-side script */
+  errorProps?: Omit<FieldErrorProps, "for">;
+}
@@ -0,0 +1,11 @@
+/**
+ * Field component utilities
+ *
+ * Import the component directly:
+ * import Field from '@/components/starwind/field/Field.astro'
+ *
+ * This file exports types only (not the component).
+ * Reason: Astro components don't support barrel exports.
+ */
+
+export type { FieldControl, FieldProps } from "./Field.types";
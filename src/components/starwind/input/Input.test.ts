@@ -0,0 +1,95 @@
+import { experimental_AstroContainer as AstroContainer } from "astro/container";
+import { expect, it, describe } from "vitest";
+import Input from "./Input.astro";
+
+describe("Input Component", () => {
+  it("renders an input element", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Input, {
+      props: { id: "contact-email", name: "email", type: "email" },
+    });
+
+    expect(result).toContain("<input");
+    expect(result).toContain('id="contact-email"');
+    expect(result).toContain('name="email"');
+    expect(result).toContain('type="email"');
+    expect(result).toContain('data-slot="input"');
+  });
+
+  it("applies default size", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Input);
+
+    expect(result).toContain("h-11");
+    expect(result).toContain("px-3");
+    expect(result).toContain("text-base");
+  });
+
+  it("applies small and large sizes", async () => {
+    const container = await AstroContainer.create();
+
+    const smResult = await container.renderToString(Input, { props: { size: "sm" } });
+    expect(smResult).toContain("h-9");
+    expect(smResult).toContain("text-sm");
+
+    const lgResult = await container.renderToString(Input, { props: { size: "lg" } });
+    expect(lgResult).toContain("h-12");
+    expect(lgResult).toContain("text-lg");
+  });
+
+  it("is valid and undescribed by default", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Input, { props: { id: "name" } });
+
+    expect(result).not.toContain("aria-invalid=");
+    expect(result).not.toContain("aria-describedby=");
+  });
+
+  it("wires aria-invalid and aria-describedby when invalid", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Input, { props: { id: "name", invalid: true } });
+
+    expect(result).toContain('aria-invalid="true"');
+    expect(result).toContain('aria-describedby="name-error"');
+  });
+
+  it("points at its error ahead of time with withError", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Input, {
+      props: { id: "name", withError: true, "aria-describedby": "name-hint" },
+    });
+
+    expect(result).not.toContain("aria-invalid=");
+    expect(result).toContain('aria-describedby="name-hint name-error"');
+  });
+
+  it("includes invalid and disabled state styles", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Input, { props: { disabled: true } });
+
+    expect(result).toContain("aria-invalid:border-error");
+    expect(result).toContain("disabled:cursor-not-allowed");
+    expect(result).toContain("disabled:opacity-50");
+    expect(result).toContain("disabled");
+  });
+
+  it("applies base styles for accessibility", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Input);
+
+    expect(result).toContain("focus-visible:ring-3");
+    expect(result).toContain("outline-none");
+  });
+
+  it("accepts custom className and passes through attributes", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Input, {
+      props: { class: "custom-class", required: true, autocomplete: "email", "data-testid": "email-input" },
+    });
+
+    expect(result).toContain("custom-class");
+    expect(result).toContain("required");
+    expect(result).toContain('autocomplete="email"');
+    expect(result).toContain('data-testid="email-input"');
+  });
+});
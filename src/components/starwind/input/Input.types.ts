@@ -0,0 +1,10 @@
+import type { HTMLAttributes } from "astro/types";
+import type { VariantProps } from "tailwind-variants";
+import type { FieldControlProps } from "../field-error/fieldAria";
+import type { input } from "./Input.variants";
+
+// The native `size` attribute (width in characters) gives way to the size variant
+export interface InputProps
+  extends Omit<HTMLAttributes<"input">, "size">, VariantProps<typeof input>, FieldControlProps {}
+
+export type InputSize = VariantProps<typeof input>["size"];
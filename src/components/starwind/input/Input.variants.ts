@@ -0,0 +1,19 @@
+import { tv } from "tailwind-variants";
+
+export const input = tv({
+  base: [
+    "border-input bg-background text-foreground block w-full rounded-md border shadow-xs",
+    "placeholder:text-muted-foreground dark:bg-input/30",
+    "transition-[color,box-shadow] outline-none focus-visible:border-outline focus-visible:ring-3 focus-visible:ring-outline/50",
+    "aria-invalid:border-error aria-invalid:focus-visible:ring-error/40",
+    "disabled:cursor-not-allowed disabled:opacity-50",
+  ],
+  variants: {
+    size: {
+      sm: "h-9 px-2.5 text-sm",
+      md: "h-11 px-3 text-base",
+      lg: "h-12 px-4 text-lg",
+    },
+  },
+  defaultVariants: { size: "md" },
+});
@@ -0,0 +1,12 @@
+/**
+ * Input component utilities
+ *
+ * Import the component directly:
+ * import Input from '@/components/starwind/input/Input.astro'
+ *
+ * This file exports variants and types only (not the component).
+ * Reason: Astro components don't support barrel exports.
+ */
+
+export { input } from "./Input.variants";
+export type { InputProps, InputSize } from "./Input.types";
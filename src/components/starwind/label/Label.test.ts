@@ -0,0 +1,60 @@
+import { experimental_AstroContainer as AstroContainer } from "astro/container";
+import { expect, it, describe } from "vitest";
+import Label from "./Label.astro";
+
+describe("Label Component", () => {
+  it("renders a label for the control", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Label, {
+      props: { for: "contact-name" },
+      slots: { default: "Name" },
+    });
+
+    expect(result).toContain("<label");
+    expect(result).toContain('for="contact-name"');
+    expect(result).toContain('data-slot="label"');
+    expect(result).toContain("Name");
+  });
+
+  it("applies default size", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Label, {
+      props: { for: "name" },
+      slots: { default: "Name" },
+    });
+
+    expect(result).toContain("font-medium");
+    expect(result).toContain("text-base");
+    expect(result).toContain("mb-2");
+  });
+
+  it("applies small and large sizes", async () => {
+    const container = await AstroContainer.create();
+
+    const smResult = await container.renderToString(Label, { props: { for: "name", size: "sm" } });
+    expect(smResult).toContain("text-sm");
+    expect(smResult).toContain("mb-1.5");
+
+    const lgResult = await container.renderToString(Label, { props: { for: "name", size: "lg" } });
+    expect(lgResult).toContain("text-lg");
+  });
+
+  it("renders a muted hint after the text", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Label, {
+      props: { for: "company", hint: "(optional)" },
+      slots: { default: "Company" },
+    });
+
+    expect(result).toMatch(/Company\s*<span class="text-muted-foreground font-normal"[^>]*>\(optional\)<\/span>/);
+  });
+
+  it("accepts custom className", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Label, {
+      props: { for: "name", class: "custom-class" },
+    });
+
+    expect(result).toContain("custom-class");
+  });
+});
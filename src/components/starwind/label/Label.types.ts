@@ -0,0 +1,12 @@
+import type { HTMLAttributes } from "astro/types";
+import type { VariantProps } from "tailwind-variants";
+import type { label } from "./Label.variants";
+
+export interface LabelProps extends HTMLAttributes<"label">, VariantProps<typeof label> {
+  /** Id of the labelled control */
+  for: string;
+  /** Muted hint after the label text, e.g. "(optional)" */
+  hint?: string;
+}
+
+export type LabelSize = VariantProps<typeof label>["size"];
@@ -0,0 +1,13 @@
+import { tv } from "tailwind-variants";
+
+export const label = tv({
+  base: "text-foreground block font-medium",
+  variants: {
+    size: {
+      sm: "mb-1.5 text-sm",
+      md: "mb-2 text-base",
+      lg: "mb-2 text-lg",
+    },
+  },
+  defaultVariants: { size: "md" },
+});
@@ -0,0 +1,12 @@
+/**
+ * Label component utilities
+ *
+ * Import the component directly:
+ * import Label from '@/components/starwind/label/Label.astro'
+ *
+ * This file exports variants and types only (not the component).
+ * Reason: Astro components don't support barrel exports.
+ */
+
+export { label } from "./Label.variants";
+export type { LabelProps, LabelSize } from "./Label.types";
@@ -0,0 +1,64 @@
+import { experimental_AstroContainer as AstroContainer } from "astro/container";
+import { expect, it, describe } from "vitest";
+import Select from "./Select.astro";
+
+describe("Select Component", () => {
+  it("renders a select element with its options", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Select, {
+      props: { id: "filter-service", name: "service" },
+      slots: { default: '<option value="">All formats</option><option value="frame-sprint">FRAME Sprint</option>' },
+    });
+
+    expect(result).toContain("<select");
+    expect(result).toContain('id="filter-service"');
+    expect(result).toContain('name="service"');
+    expect(result).toContain('data-slot="select"');
+    expect(result).toContain('<option value="frame-sprint">FRAME Sprint</option>');
+  });
+
+  it("applies default size with room for the chevron", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Select);
+
+    expect(result).toContain("h-11");
+    expect(result).toContain("pr-10");
+    expect(result).toContain("text-base");
+  });
+
+  it("applies small and large sizes", async () => {
+    const container = await AstroContainer.create();
+
+    const smResult = await container.renderToString(Select, { props: { size: "sm" } });
+    expect(smResult).toContain("h-9");
+    expect(smResult).toContain("pr-8");
+
+    const lgResult = await container.renderToString(Select, { props: { size: "lg" } });
+    expect(lgResult).toContain("h-12");
+    expect(lgResult).toContain("text-lg");
+  });
+
+  it("wires aria-invalid and aria-describedby when invalid", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Select, { props: { id: "topic", invalid: true } });
+
+    expect(result).toContain('aria-invalid="true"');
+    expect(result).toContain('aria-describedby="topic-error"');
+  });
+
+  it("includes invalid and disabled state styles", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Select, { props: { disabled: true } });
+
+    expect(result).toContain("aria-invalid:border-error");
+    expect(result).toContain("disabled:opacity-50");
+    expect(result).toContain("disabled");
+  });
+
+  it("accepts custom className", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Select, { props: { class: "custom-class" } });
+
+    expect(result).toContain("custom-class");
+  });
+});
@@ -0,0 +1,10 @@
+import type { HTMLAttributes } from "astro/types";
+import type { VariantProps } from "tailwind-variants";
+import type { FieldControlProps } from "../field-error/fieldAria";
+import type { select } from "./Select.variants";
+
+// The native `size` attribute (number of visible options) gives way to the size variant
+export interface SelectProps
+  extends Omit<HTMLAttributes<"select">, "size">, VariantProps<typeof select>, FieldControlProps {}
+
+export type SelectSize = VariantProps<typeof select>["size"];
@@ -0,0 +1,19 @@
+import { tv } from "tailwind-variants";
+
+// Native <select>: the chevron comes from @tailwindcss/forms, so the right padding leaves room for it
+export const select = tv({
+  base: [
+    "border-input bg-background text-foreground block w-full rounded-md border shadow-xs dark:bg-input/30",
+    "transition-[color,box-shadow] outline-none focus-visible:border-outline focus-visible:ring-3 focus-visible:ring-outline/50",
+    "aria-invalid:border-error aria-invalid:focus-visible:ring-error/40",
+    "disabled:cursor-not-allowed disabled:opacity-50",
+  ],
+  variants: {
+    size: {
+      sm: "h-9 pr-8 pl-2.5 text-sm",
+      md: "h-11 pr-10 pl-3 text-base",
+      lg: "h-12 pr-10 pl-4 text-lg",
+    },
+  },
+  defaultVariants: { size: "md" },
+});
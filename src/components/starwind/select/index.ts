@@ -0,0 +1,12 @@
+/**
+ * Select component utilities
+ *
+ * Import the component directly:
+ * import Select from '@/components/starwind/select/Select.astro'
+ *
+ * This file exports variants and types only (not the component).
+ * Reason: Astro components don't support barrel exports.
+ */
+
+export { select } from "./Select.variants";
+export type { SelectProps, SelectSize } from "./Select.types";
@@ -0,0 +1,107 @@
+import { experimental_AstroContainer as AstroContainer } from "astro/container";
+import { expect, it, describe } from "vitest";
+import Sheet from "./Sheet.astro";
+import SheetTrigger from "./SheetTrigger.astro";
+import SheetContent from "./SheetContent.astro";
+import SheetTitle from "./SheetTitle.astro";
+import SheetDescription from "./SheetDescription.astro";
+import SheetClose from "./SheetClose.astro";
+
+describe("Sheet Components", () => {
+  it("renders a dialog root", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Sheet, {
+      props: { class: "md:hidden" },
+      slots: { default: "Content" },
+    });
+
+    expect(result).toContain('data-slot="sheet"');
+    expect(result).not.toContain('data-slot="dialog"');
+    expect(result).toContain("data-dialog-root");
+    expect(result).toContain("md:hidden");
+  });
+
+  it("renders a dialog trigger", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(SheetTrigger, {
+      slots: { default: "Menu" },
+    });
+
+    expect(result).toContain('data-slot="sheet-trigger"');
+    expect(result).toContain("data-dialog-trigger");
+    expect(result).toContain('aria-expanded="false"');
+  });
+
+  describe("SheetContent", () => {
+    it("renders a modal native dialog docked to the right by default", async () => {
+      const container = await AstroContainer.create();
+      const result = await container.renderToString(SheetContent, {
+        slots: { default: "Links" },
+      });
+
+      expect(result).toContain("<dialog");
+      expect(result).toContain("data-dialog-content");
+      expect(result).toContain('aria-modal="true"');
+      expect(result).toContain('data-side="right"');
+      expect(result).toContain("ml-auto");
+      expect(result).toContain("border-l");
+      expect(result).toContain("open:slide-in-from-right");
+    });
+
+    it("applies the other sides", async () => {
+      const container = await AstroContainer.create();
+
+      const left = await container.renderToString(SheetContent, { props: { side: "left" } });
+      expect(left).toContain('data-side="left"');
+      expect(left).toContain("mr-auto");
+      expect(left).toContain("open:slide-in-from-left");
+
+      const top = await container.renderToString(SheetContent, { props: { side: "top" } });
+      expect(top).toContain("mb-auto");
+      expect(top).toContain("border-b");
+
+      const bottom = await container.renderToString(SheetContent, { props: { side: "bottom" } });
+      expect(bottom).toContain("mt-auto");
+      expect(bottom).toContain("border-t");
+    });
+
+    it("renders a labelled close button and closes on navigation when asked", async () => {
+      const container = await AstroContainer.create();
+      const result = await container.renderToString(SheetContent, {
+        props: { closeLabel: "Close main menu", closeOnNavigate: true },
+      });
+
+      expect(result).toMatch(/<button[^>]*data-dialog-close[^>]*aria-label="Close main menu"/);
+      expect(result).toContain("data-close-on-navigate");
+    });
+
+    it("passes through additional HTML attributes", async () => {
+      const container = await AstroContainer.create();
+      const result = await container.renderToString(SheetContent, {
+        props: { "data-mobile-nav": true, class: "custom-class" },
+      });
+
+      expect(result).toContain("data-mobile-nav");
+      expect(result).toContain("custom-class");
+    });
+  });
+
+  it("marks title and description for the controller", async () => {
+    const container = await AstroContainer.create();
+
+    const title = await container.renderToString(SheetTitle, { slots: { default: "Menu" } });
+    expect(title).toContain('data-slot="sheet-title"');
+    expect(title).toContain("data-dialog-title");
+
+    const description = await container.renderToString(SheetDescription, { slots: { default: "Pages" } });
+    expect(description).toContain("data-dialog-description");
+  });
+
+  it("renders a close button", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(SheetClose, { slots: { default: "Done" } });
+
+    expect(result).toContain('data-slot="sheet-close"');
+    expect(result).toContain("data-dialog-close");
+  });
+});
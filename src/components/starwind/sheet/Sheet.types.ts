@@ -0,0 +1,22 @@
+import type { HTMLAttributes } from "astro/types";
+import type { VariantProps } from "tailwind-variants";
+import type { DialogContentProps, DialogTriggerProps, DialogCloseProps, DialogProps } from "../dialog/Dialog.types";
+import type { sheetContent } from "./Sheet.variants";
+
+export type SheetProps = DialogProps;
+
+export type SheetTriggerProps = DialogTriggerProps;
+
+export interface SheetContentProps extends DialogContentProps, VariantProps<typeof sheetContent> {}
+
+export type SheetCloseProps = DialogCloseProps;
+
+export type SheetHeaderProps = HTMLAttributes<"div">;
+
+export type SheetFooterProps = HTMLAttributes<"div">;
+
+export type SheetTitleProps = HTMLAttributes<"h2">;
+
+export type SheetDescriptionProps = HTMLAttributes<"p">;
+
+export type SheetSide = VariantProps<typeof sheetContent>["side"];
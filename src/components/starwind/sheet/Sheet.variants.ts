@@ -0,0 +1,29 @@
+import { tv } from "tailwind-variants";
+
+// A Dialog docked to an edge of the viewport
+export const sheetContent = tv({
+  base: [
+    "bg-background text-foreground m-0 max-h-none max-w-none border-0 p-0 shadow-lg",
+    "backdrop:bg-black/50 open:animate-in backdrop:animate-in backdrop:fade-in-0",
+    "motion-reduce:open:animate-none",
+  ],
+  variants: {
+    side: {
+      top: "mb-auto w-full border-b open:slide-in-from-top",
+      right: "ml-auto h-dvh w-3/4 border-l open:slide-in-from-right sm:max-w-sm",
+      bottom: "mt-auto w-full border-t open:slide-in-from-bottom",
+      left: "mr-auto h-dvh w-3/4 border-r open:slide-in-from-left sm:max-w-sm",
+    },
+  },
+  defaultVariants: { side: "right" },
+});
+
+export const sheetPanel = tv({ base: "relative flex h-full flex-col gap-4 overflow-y-auto p-6" });
+
+export const sheetHeader = tv({ base: "flex flex-col gap-1.5 pr-8" });
+
+export const sheetFooter = tv({ base: "mt-auto flex flex-col gap-2" });
+
+export const sheetTitle = tv({ base: "text-foreground text-lg font-semibold" });
+
+export const sheetDescription = tv({ base: "text-muted-foreground text-sm" });
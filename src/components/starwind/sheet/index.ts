@@ -0,0 +1,31 @@
+/**
+ * Sheet component utilities
+ *
+ * A Dialog docked to an edge of the viewport; it shares the Dialog controller (see ../dialog/dialogController.ts).
+ *
+ * Import the components directly:
+ * import Sheet from '@/components/starwind/sheet/Sheet.astro'
+ * import SheetTrigger from '@/components/starwind/sheet/SheetTrigger.astro'
+ * import SheetContent from '@/components/starwind/sheet/SheetContent.astro'
+ * import SheetHeader from '@/components/starwind/sheet/SheetHeader.astro'
+ * import SheetTitle from '@/components/starwind/sheet/SheetTitle.astro'
+ * import SheetDescription from '@/components/starwind/sheet/SheetDescription.astro'
+ * import SheetFooter from '@/components/starwind/sheet/SheetFooter.astro'
+ * import SheetClose from '@/components/starwind/sheet/SheetClose.astro'
+ *
+ * This file exports variants and types only (not the components).
+ * Reason: Astro components don't support barrel exports.
+ */
+
+export { sheetContent, sheetPanel, sheetHeader, sheetFooter, sheetTitle, sheetDescription } from "./Sheet.variants";
+export type {
+  SheetProps,
+  SheetTriggerProps,
+  SheetContentProps,
+  SheetCloseProps,
+  SheetHeaderProps,
+  SheetFooterProps,
+  SheetTitleProps,
+  SheetDescriptionProps,
+  SheetSide,
+} from "./Sheet.types";
@@ -0,0 +1,73 @@
+import { experimental_AstroContainer as AstroContainer } from "astro/container";
+import { expect, it, describe } from "vitest";
+import Tabs from "./Tabs.astro";
+import TabsList from "./TabsList.astro";
+import TabsTrigger from "./TabsTrigger.astro";
+import TabsContent from "./TabsContent.astro";
+
+describe("Tabs Components", () => {
+  it("renders the root with its default value", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Tabs, {
+      props: { id: "study", defaultValue: "approach" },
+      slots: { default: "Tabs" },
+    });
+
+    expect(result).toContain('id="study"');
+    expect(result).toContain('data-slot="tabs"');
+    expect(result).toContain("data-tabs");
+    expect(result).toContain('data-default-value="approach"');
+  });
+
+  it("renders the list without a role until enhanced", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(TabsList, {
+      slots: { default: "Triggers" },
+    });
+
+    expect(result).toContain("data-tabs-list");
+    expect(result).not.toContain("role=");
+  });
+
+  describe("TabsTrigger", () => {
+    it("renders a link to its panel, with ids prefixed by the Tabs id", async () => {
+      const container = await AstroContainer.create();
+      const result = await container.renderToString(TabsTrigger, {
+        props: { tabsId: "study", value: "challenge" },
+        slots: { default: "Challenge" },
+      });
+
+      expect(result).toMatch(/<a[^>]*href="#study-challenge"/);
+      expect(result).toContain('id="study-challenge-tab"');
+      expect(result).toContain("data-tabs-trigger");
+      expect(result).toContain('data-value="challenge"');
+      expect(result).toContain("aria-selected:bg-background");
+    });
+
+    it("renders sizes", async () => {
+      const container = await AstroContainer.create();
+      const result = await container.renderToString(TabsTrigger, {
+        props: { tabsId: "study", value: "challenge", size: "lg" },
+        slots: { default: "Challenge" },
+      });
+
+      expect(result).toContain("h-11");
+    });
+  });
+
+  describe("TabsContent", () => {
+    it("renders a visible panel identified by its Tabs id and value", async () => {
+      const container = await AstroContainer.create();
+      const result = await container.renderToString(TabsContent, {
+        props: { tabsId: "study", value: "challenge" },
+        slots: { default: "Panel" },
+      });
+
+      expect(result).toContain('id="study-challenge"');
+      expect(result).toContain('data-value="challenge"');
+      expect(result).toContain("data-tabs-content");
+      expect(result).not.toContain("hidden");
+      expect(result).toContain("Panel");
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import type { HTMLAttributes } from "astro/types";
+import type { VariantProps } from "tailwind-variants";
+import type { tabsTrigger } from "./Tabs.variants";
+
+export interface TabsProps extends Omit<HTMLAttributes<"div">, "id"> {
+  /** Unique on the page; prefixes the ids of the triggers and panels, which pass it as `tabsId` */
+  id: string;
+  /** Value of the tab selected on load, unless the URL fragment names another one; defaults to the first tab */
+  defaultValue?: string;
+}
+
+export type TabsListProps = HTMLAttributes<"div">;
+
+export interface TabsTriggerProps extends Omit<HTMLAttributes<"a">, "id">, VariantProps<typeof tabsTrigger> {
+  /** Id of the Tabs the trigger belongs to */
+  tabsId: string;
+  /** Value of the TabsContent this trigger shows */
+  value: string;
+}
+
+export interface TabsContentProps extends Omit<HTMLAttributes<"div">, "id"> {
+  /** Id of the Tabs the panel belongs to */
+  tabsId: string;
+  /** Identifies the panel within its Tabs; the panel's id is `<tabsId>-<value>` */
+  value: string;
+}
+
+export type TabsTriggerSize = VariantProps<typeof tabsTrigger>["size"];
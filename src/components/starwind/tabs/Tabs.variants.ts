@@ -0,0 +1,28 @@
+import { tv } from "tailwind-variants";
+
+export const tabs = tv({ base: "flex flex-col gap-4" });
+
+export const tabsList = tv({
+  base: "bg-muted text-muted-foreground inline-flex w-fit max-w-full items-center gap-1 overflow-x-auto rounded-lg p-1",
+});
+
+// Without JavaScript the triggers are in-page links and no tab is selected
+export const tabsTrigger = tv({
+  base: [
+    "inline-flex items-center justify-center rounded-md font-medium whitespace-nowrap transition-colors",
+    "hover:text-foreground outline-none focus-visible:ring-3 focus-visible:ring-outline/50",
+    "aria-selected:bg-background aria-selected:text-foreground aria-selected:shadow-sm",
+  ],
+  variants: {
+    size: {
+      sm: "h-8 px-3 text-sm",
+      md: "h-9 px-4 text-sm",
+      lg: "h-11 px-5 text-base",
+    },
+  },
+  defaultVariants: { size: "md" },
+});
+
+export const tabsContent = tv({
+  base: "rounded-sm outline-none focus-visible:ring-3 focus-visible:ring-outline/50",
+});
@@ -0,0 +1,17 @@
+/**
+ * Tabs component utilities
+ *
+ * Import the components directly:
+ * import Tabs from '@/components/starwind/tabs/Tabs.astro'
+ * import TabsList from '@/components/starwind/tabs/TabsList.astro'
+ * import TabsTrigger from '@/components/starwind/tabs/TabsTrigger.astro'
+ * import TabsContent from '@/components/starwind/tabs/TabsContent.astro'
+ *
+ * This file exports variants, types, id helpers and the client-side controller (not the components).
+ * Reason: Astro components don't support barrel exports.
+ */
+
+export { tabs, tabsList, tabsTrigger, tabsContent } from "./Tabs.variants";
+export type { TabsProps, TabsListProps, TabsTriggerProps, TabsContentProps, TabsTriggerSize } from "./Tabs.types";
+export { selectTab, initTabs, initAllTabs } from "./tabsController";
+export { getTabsPanelId, getTabsTriggerId } from "./tabsIds";
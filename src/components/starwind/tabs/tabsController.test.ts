@@ -0,0 +1,152 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { initAllTabs, selectTab } from "./tabsController";
+
+const TABS = `
+  <div id="study" data-tabs>
+    <div data-tabs-list>
+      <a id="study-challenge-tab" href="#study-challenge" data-tabs-trigger data-value="challenge">Challenge</a>
+      <a id="study-approach-tab" href="#study-approach" data-tabs-trigger data-value="approach">Approach</a>
+      <a id="study-result-tab" href="#study-result" data-tabs-trigger data-value="result">Result</a>
+    </div>
+    <div id="study-challenge" data-tabs-content data-value="challenge">Challenge panel</div>
+    <div id="study-approach" data-tabs-content data-value="approach">Approach panel</div>
+    <div id="study-result" data-tabs-content data-value="result">Result panel</div>
+  </div>
+`;
+
+function renderTabs(html = TABS) {
+  document.body.innerHTML = html;
+  initAllTabs();
+
+  const root = document.querySelector<HTMLElement>("[data-tabs]")!;
+  const triggers = [...document.querySelectorAll<HTMLElement>("[data-tabs-trigger]")];
+  const panels = [...document.querySelectorAll<HTMLElement>("[data-tabs-content]")];
+  return { root, triggers, panels };
+}
+
+const selected = (triggers: HTMLElement[]) => triggers.map((trigger) => trigger.getAttribute("aria-selected"));
+const visible = (panels: HTMLElement[]) => panels.map((panel) => !panel.hidden);
+
+describe("tabsController", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    window.location.hash = "";
+  });
+
+  describe("initAllTabs", () => {
+    it("applies the tabs roles and relationships", () => {
+      const { triggers, panels } = renderTabs();
+
+      expect(document.querySelector("[data-tabs-list]")!.getAttribute("role")).toBe("tablist");
+      expect(triggers[0].getAttribute("role")).toBe("tab");
+      expect(triggers[0].getAttribute("aria-controls")).toBe("study-challenge");
+      expect(panels[0].getAttribute("role")).toBe("tabpanel");
+      expect(panels[0].getAttribute("aria-labelledby")).toBe("study-challenge-tab");
+      expect(panels[0].tabIndex).toBe(0);
+    });
+
+    it("selects the first tab and hides the other panels", () => {
+      const { triggers, panels } = renderTabs();
+
+      expect(selected(triggers)).toEqual(["true", "false", "false"]);
+      expect(triggers.map((trigger) => trigger.tabIndex)).toEqual([0, -1, -1]);
+      expect(visible(panels)).toEqual([true, false, false]);
+      expect(panels[0].dataset.state).toBe("active");
+    });
+
+    it("selects the default value", () => {
+      const { panels } = renderTabs(TABS.replace(" data-tabs>", ' data-tabs data-default-value="result">'));
+
+      expect(visible(panels)).toEqual([false, false, true]);
+    });
+
+    it("prefers the tab whose panel the URL fragment names", () => {
+      window.location.hash = "#study-approach";
+      const { panels } = renderTabs(TABS.replace(" data-tabs>", ' data-tabs data-default-value="result">'));
+
+      expect(visible(panels)).toEqual([false, true, false]);
+    });
+
+    it("ignores a fragment that is a value rather than a panel id", () => {
+      window.location.hash = "#approach";
+      const { panels } = renderTabs();
+
+      expect(visible(panels)).toEqual([true, false, false]);
+    });
+
+    it("names triggers without an id after their panel", () => {
+      const { triggers, panels } = renderTabs(TABS.replace(' id="study-challenge-tab"', ""));
+
+      expect(triggers[0].id).toBe("study-challenge-tab");
+      expect(panels[0].getAttribute("aria-labelledby")).toBe("study-challenge-tab");
+    });
+
+    it("leaves nested tabs to their own root", () => {
+      const nested = TABS.replace("Result panel", TABS.replaceAll('"study', '"inner').replaceAll("#study", "#inner"));
+      document.body.innerHTML = nested;
+      initAllTabs();
+
+      const outer = document.querySelector<HTMLElement>("[data-tabs]")!;
+      selectTab(outer, "result");
+
+      expect(document.getElementById("inner-challenge")!.hidden).toBe(false);
+    });
+  });
+
+  describe("selecting", () => {
+    it("selects a tab on click instead of following the link", () => {
+      const { triggers, panels } = renderTabs();
+
+      const event = new MouseEvent("click", { bubbles: true, cancelable: true });
+      triggers[1].dispatchEvent(event);
+
+      expect(event.defaultPrevented).toBe(true);
+      expect(selected(triggers)).toEqual(["false", "true", "false"]);
+      expect(visible(panels)).toEqual([false, true, false]);
+    });
+
+    it("ignores unknown values", () => {
+      const { root, panels } = renderTabs();
+
+      expect(selectTab(root, "missing")).toBe(false);
+      expect(visible(panels)).toEqual([true, false, false]);
+    });
+  });
+
+  describe("keyboard", () => {
+    const press = (key: string) => {
+      const event = new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true });
+      document.activeElement!.dispatchEvent(event);
+      return event;
+    };
+
+    it("selects and focuses the next and previous tab, wrapping around", () => {
+      const { triggers, panels } = renderTabs();
+      triggers[0].focus();
+
+      expect(press("ArrowRight").defaultPrevented).toBe(true);
+      expect(document.activeElement).toBe(triggers[1]);
+      expect(visible(panels)).toEqual([false, true, false]);
+
+      press("ArrowLeft");
+      press("ArrowLeft");
+      expect(document.activeElement).toBe(triggers[2]);
+      expect(selected(triggers)).toEqual(["false", "false", "true"]);
+
+      press("ArrowRight");
+      expect(document.activeElement).toBe(triggers[0]);
+    });
+
+    it("selects the first and last tab with Home and End", () => {
+      const { triggers } = renderTabs();
+      triggers[0].focus();
+
+      press("End");
+      expect(document.activeElement).toBe(triggers[2]);
+
+      press("Home");
+      expect(document.activeElement).toBe(triggers[0]);
+      expect(selected(triggers)).toEqual(["true", "false", "false"]);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Behaviour of Tabs
+ *
+ * Without JavaScript the triggers are links to panels that are all visible. This module turns them into
+ * the WAI-ARIA tabs pattern:
+ * - tablist/tab/tabpanel roles, aria-selected, aria-controls and aria-labelledby
+ * - one tab in the Tab sequence (roving tabindex); ArrowLeft/ArrowRight/Home/End select and focus a tab
+ * - unselected panels are hidden; the panel named by the URL fragment, then data-default-value, picks the tab
+ *   selected on load
+ */
+
+const ROOT_SELECTOR = "[data-tabs]";
+
+type TabsState = "active" | "inactive";
+
+/** Elements of `root`, not of a Tabs nested inside one of its panels */
+function ownElements(root: HTMLElement, selector: string): HTMLElement[] {
+  return [...root.querySelectorAll<HTMLElement>(selector)].filter((element) => element.closest(ROOT_SELECTOR) === root);
+}
+
+function getTriggers(root: HTMLElement): HTMLElement[] {
+  return ownElements(root, "[data-tabs-trigger]");
+}
+
+function getPanels(root: HTMLElement): HTMLElement[] {
+  return ownElements(root, "[data-tabs-content]");
+}
+
+function setState(element: HTMLElement, state: TabsState): void {
+  element.dataset.state = state;
+}
+
+/** Select the tab with `value`; returns false when there is none */
+export function selectTab(root: HTMLElement, value: string): boolean {
+  const triggers = getTriggers(root);
+  if (!triggers.some((trigger) => trigger.dataset.value === value)) return false;
+
+  triggers.forEach((trigger) => {
+    const selected = trigger.dataset.value === value;
+    trigger.setAttribute("aria-selected", String(selected));
+    trigger.tabIndex = selected ? 0 : -1;
+    setState(trigger, selected ? "active" : "inactive");
+  });
+  getPanels(root).forEach((panel) => {
+    const selected = panel.dataset.value === value;
+    panel.hidden = !selected;
+    setState(panel, selected ? "active" : "inactive");
+  });
+  return true;
+}
+
+function handleKeydown(root: HTMLElement, event: KeyboardEvent): void {
+  const triggers = getTriggers(root);
+  const index = triggers.indexOf(event.target as HTMLElement);
+  if (index === -1) return;
+
+  const targets: Record<string, number> = {
+    ArrowRight: (index + 1) % triggers.length,
+    ArrowLeft: (index - 1 + triggers.length) % triggers.length,
+    Home: 0,
+    End: triggers.length - 1,
+  };
+  if (!(event.key in targets)) return;
+
+  // Automatic activation: moving focus selects the tab
+  event.preventDefault();
+  const target = triggers[targets[event.key]];
+  selectTab(root, target.dataset.value ?? "");
+  target.focus();
+}
+
+function getInitialValue(root: HTMLElement, triggers: HTMLElement[], panels: HTMLElement[]): string | undefined {
+  const values = triggers.map((trigger) => trigger.dataset.value);
+  // The fragment is a panel id (the trigger's link target), not a value
+  const hash = decodeURIComponent(window.location.hash.slice(1));
+  const fromHash = panels.find((panel) => hash && panel.id === hash)?.dataset.value;
+
+  if (fromHash && values.includes(fromHash)) return fromHash;
+  if (root.dataset.defaultValue && values.includes(root.dataset.defaultValue)) return root.dataset.defaultValue;
+  return values[0];
+}
+
+/** Wire one Tabs root; safe to call more than once */
+export function initTabs(root: HTMLElement): void {
+  if (root.hasAttribute("data-tabs-ready")) return;
+
+  const triggers = getTriggers(root);
+  if (triggers.length === 0) return;
+  root.setAttribute("data-tabs-ready", "");
+
+  ownElements(root, "[data-tabs-list]").forEach((list) => {
+    list.setAttribute("role", "tablist");
+    list.addEventListener("keydown", (event) => handleKeydown(root, event));
+  });
+
+  const panels = getPanels(root);
+  triggers.forEach((trigger) => {
+    const value = trigger.dataset.value ?? "";
+    const panel = panels.find((candidate) => candidate.dataset.value === value);
+
+    trigger.setAttribute("role", "tab");
+    if (!trigger.id) trigger.id = `${panel?.id ?? value}-tab`;
+    if (panel) {
+      trigger.setAttribute("aria-controls", panel.id);
+      panel.setAttribute("role", "tabpanel");
+      panel.setAttribute("aria-labelledby", trigger.id);
+      // Lets keyboard users reach panels without focusable content
+      if (!panel.hasAttribute("tabindex")) panel.tabIndex = 0;
+    }
+
+    trigger.addEventListener("click", (event) => {
+      // Select instead of jumping to the panel
+      event.preventDefault();
+      selectTab(root, value);
+    });
+  });
+
+  const initialValue = getInitialValue(root, triggers, panels);
+  if (initialValue) selectTab(root, initialValue);
+}
+
+/** Wire every Tabs on the page */
+export function initAllTabs(scope: ParentNode = document): void {
+  scope.querySelectorAll<HTMLElement>(ROOT_SELECTOR).forEach(initTabs);
+}
@@ -0,0 +1,16 @@
+/**
+ * Ids of Tabs triggers and panels
+ *
+ * Values only need to be unique within one Tabs; the Tabs id prefixes them,
+ * so two Tabs on a page can both have an "overview" tab.
+ */
+
+/** Id of the panel with `value`, the fragment its trigger links to */
+export function getTabsPanelId(tabsId: string, value: string): string {
+  return `${tabsId}-${value}`;
+}
+
+/** Id of the trigger with `value`, which labels its panel */
+export function getTabsTriggerId(tabsId: string, value: string): string {
+  return `${getTabsPanelId(tabsId, value)}-tab`;
+}
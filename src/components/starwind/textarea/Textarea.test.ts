@@ -0,0 +1,67 @@
+import { experimental_AstroContainer as AstroContainer } from "astro/container";
+import { expect, it, describe } from "vitest";
+import Textarea from "./Textarea.astro";
+
+describe("Textarea Component", () => {
+  it("renders a textarea element", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Textarea, {
+      props: { id: "contact-message", name: "message", rows: 6 },
+    });
+
+    expect(result).toContain("<textarea");
+    expect(result).toContain('id="contact-message"');
+    expect(result).toContain('rows="6"');
+    expect(result).toContain('data-slot="textarea"');
+  });
+
+  it("renders the value as escaped text content", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Textarea, {
+      props: { value: "Hello <b>team</b>" },
+    });
+
+    expect(result).toMatch(/<textarea[^>]*>Hello &lt;b&gt;team&lt;\/b&gt;<\/textarea>/);
+    expect(result).not.toContain('value="');
+  });
+
+  it("applies default, small and large sizes", async () => {
+    const container = await AstroContainer.create();
+
+    const mdResult = await container.renderToString(Textarea);
+    expect(mdResult).toContain("min-h-20");
+    expect(mdResult).toContain("text-base");
+
+    const smResult = await container.renderToString(Textarea, { props: { size: "sm" } });
+    expect(smResult).toContain("min-h-16");
+    expect(smResult).toContain("text-sm");
+
+    const lgResult = await container.renderToString(Textarea, { props: { size: "lg" } });
+    expect(lgResult).toContain("min-h-24");
+    expect(lgResult).toContain("text-lg");
+  });
+
+  it("wires aria-invalid and aria-describedby when invalid", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Textarea, { props: { id: "message", invalid: true } });
+
+    expect(result).toContain('aria-invalid="true"');
+    expect(result).toContain('aria-describedby="message-error"');
+  });
+
+  it("includes invalid and disabled state styles", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Textarea, { props: { disabled: true } });
+
+    expect(result).toContain("aria-invalid:border-error");
+    expect(result).toContain("disabled:opacity-50");
+    expect(result).toContain("disabled");
+  });
+
+  it("accepts custom className", async () => {
+    const container = await AstroContainer.create();
+    const result = await container.renderToString(Textarea, { props: { class: "custom-class" } });
+
+    expect(result).toContain("custom-class");
+  });
+});
@@ -0,0 +1,8 @@
+import type { HTMLAttributes } from "astro/types";
+import type { VariantProps } from "tailwind-variants";
+import type { FieldControlProps } from "../field-error/fieldAria";
+import type { textarea } from "./Textarea.variants";
+
+export interface TextareaProps extends HTMLAttributes<"textarea">, VariantProps<typeof textarea>, FieldControlProps {}
+
+export type TextareaSize = VariantProps<typeof textarea>["size"];
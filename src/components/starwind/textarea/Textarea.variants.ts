@@ -0,0 +1,19 @@
+import { tv } from "tailwind-variants";
+
+export const textarea = tv({
+  base: [
+    "border-input bg-background text-foreground block w-full rounded-md border shadow-xs",
+    "placeholder:text-muted-foreground dark:bg-input/30",
+    "transition-[color,box-shadow] outline-none focus-visible:border-outline focus-visible:ring-3 focus-visible:ring-outline/50",
+    "aria-invalid:border-error aria-invalid:focus-visible:ring-error/40",
+    "disabled:cursor-not-allowed disabled:opacity-50",
+  ],
+  variants: {
+    size: {
+      sm: "min-h-16 px-2.5 py-1.5 text-sm",
+      md: "min-h-20 px-3 py-2 text-base",
+      lg: "min-h-24 px-4 py-3 text-lg",
+    },
+  },
+  defaultVariants: { size: "md" },
+});
@@ -0,0 +1,12 @@
+/**
+ * Textarea component utilities
+ *
+ * Import the component directly:
+ * import Textarea from '@/components/starwind/textarea/Textarea.astro'
+ *
+ * This file exports variants and types only (not the component).
+ * Reason: Astro components don't support barrel exports.
+ */
+
+export { textarea } from "./Textarea.variants";
+export type { TextareaProps, TextareaSize } from "./Textarea.types";
@@ -0,0 +1,11 @@
+import { defineCollection } from "astro:content";
+import { caseStudySchema } from "../_schemas/caseStudy";
+
+/**
+ * Case studies collection
+ * Client engagements as evidence, one entry per study and locale (src/content/caseStudies/{locale}/{slug}.json)
+ */
+export const caseStudiesCollection = defineCollection({
+  type: "data",
+  schema: caseStudySchema,
+});
@@ -0,0 +1,11 @@
+import { defineCollection } from "astro:content";
+import { companySchema } from "../_schemas/company";
+
+/**
+ * Company collection
+ * Site-wide company data, one entry per locale (src/content/company/{locale}.json)
+ */
+export const companyCollection = defineCollection({
+  type: "data",
+  schema: companySchema,
+});
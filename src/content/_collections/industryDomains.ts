@@ -0,0 +1,11 @@
+import { defineCollection } from "astro:content";
+import { industryDomainSchema } from "../_schemas/industryDomain";
+
+/**
+ * Industry domains collection
+ * Industries we work in, one entry per domain and locale (src/content/industryDomains/{locale}/{slug}.json)
+ */
+export const industryDomainsCollection = defineCollection({
+  type: "data",
+  schema: industryDomainSchema,
+});
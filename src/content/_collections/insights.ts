@@ -0,0 +1,11 @@
+import { defineCollection } from "astro:content";
+import { insightSchema } from "../_schemas/insight";
+
+/**
+ * Insights collection
+ * Blog posts as markdown, one file per post and locale (src/content/insights/{locale}/{slug}.md)
+ */
+export const insightsCollection = defineCollection({
+  type: "content",
+  schema: insightSchema,
+});
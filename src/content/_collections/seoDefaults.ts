@@ -0,0 +1,11 @@
+import { defineCollection } from "astro:content";
+import { seoDefaultsSchema } from "../_schemas/seo";
+
+/**
+ * SEO defaults collection
+ * Site-wide SEO fallbacks, one entry per locale (src/content/seoDefaults/{locale}.json)
+ */
+export const seoDefaultsCollection = defineCollection({
+  type: "data",
+  schema: seoDefaultsSchema,
+});
@@ -0,0 +1,11 @@
+import { defineCollection } from "astro:content";
+import { serviceSchema } from "../_schemas/service";
+
+/**
+ * Services collection
+ * Engagement formats, one entry per service and locale (src/content/services/{locale}/{slug}.json)
+ */
+export const servicesCollection = defineCollection({
+  type: "data",
+  schema: serviceSchema,
+});
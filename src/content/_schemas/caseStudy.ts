@@ -0,0 +1,35 @@
+import { z } from "astro/zod";
+import { isUniqueSlugList } from "@/domain";
+import { summarySchema } from "./shared";
+
+/** Slugs of entries in another collection; at least one, each once */
+const slugListSchema = (collection: string) =>
+  z
+    .array(z.string())
+    .min(1, `List at least one ${collection} slug`)
+    .refine(isUniqueSlugList, `Use unique ${collection} slugs`);
+
+/**
+ * Case study schema
+ * One engagement per file: src/content/caseStudies/{locale}/{slug}.json
+ * The file name is the slug and must be the same in every locale
+ */
+export const caseStudySchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  summary: summarySchema,
+  /** Client sector; clients stay anonymous */
+  sector: z.string().min(1, "Sector is required"),
+  challenge: z.string().min(1, "Challenge is required"),
+  approach: z.string().min(1, "Approach is required"),
+  outcomes: z
+    .array(z.object({ value: z.string().trim().min(1), label: z.string().trim().min(1) }))
+    .min(1, "List at least one outcome metric"),
+  /** Slugs of entries in the services collection (engagement formats used) */
+  services: slugListSchema("services"),
+  /** Slugs of entries in the industryDomains collection */
+  domains: slugListSchema("industryDomains"),
+  /** Position in listings, ascending */
+  order: z.number().int(),
+});
+
+export type CaseStudyEntry = z.infer<typeof caseStudySchema>;
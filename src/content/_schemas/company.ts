@@ -0,0 +1,34 @@
+import { z } from "astro/zod";
+
+/**
+ * Postal address schema
+ * Field names follow schema.org PostalAddress
+ */
+const postalAddressSchema = z.object({
+  streetAddress: z.string().min(1),
+  postalCode: z.string().min(1),
+  addressLocality: z.string().min(1),
+  addressCountry: z.string().length(2, "Use an ISO 3166-1 alpha-2 country code"),
+});
+
+/**
+ * Company schema
+ * Site-wide company data (one entry per locale), used for structured data
+ */
+export const companySchema = z.object({
+  name: z.string().min(1, "Company name is required"),
+  legalName: z.string().optional(),
+  description: z.string().min(1, "Company description is required"),
+  /** Path or absolute URL of the logo */
+  logo: z.string().min(1),
+  email: z.string().email().optional(),
+  telephone: z.string().optional(),
+  address: postalAddressSchema.optional(),
+  /** Regions served, e.g. ["DE", "AT", "CH"] */
+  areaServed: z.array(z.string().min(1)).default([]),
+  /** Profiles on other sites (LinkedIn, etc.) */
+  sameAs: z.array(z.string().url()).default([]),
+});
+
+export type Company = z.infer<typeof companySchema>;
+export type PostalAddress = z.infer<typeof postalAddressSchema>;
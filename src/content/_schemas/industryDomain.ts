@@ -0,0 +1,17 @@
+import { z } from "astro/zod";
+import { summarySchema } from "./shared";
+
+/**
+ * Industry domain schema
+ * One domain per file: src/content/industryDomains/{locale}/{slug}.json
+ * The file name is the slug and must be the same in every locale
+ */
+export const industryDomainSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  summary: summarySchema,
+  description: z.string().min(1, "Description is required"),
+  /** Position in listings, ascending */
+  order: z.number().int(),
+});
+
+export type IndustryDomainEntry = z.infer<typeof industryDomainSchema>;
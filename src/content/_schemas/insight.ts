@@ -0,0 +1,23 @@
+import { z } from "astro/zod";
+import { isValidTags } from "@/domain";
+import { summarySchema } from "./shared";
+
+/**
+ * Insight frontmatter schema
+ * One post per file: src/content/insights/{locale}/{slug}.md
+ * A translation uses the same file name in the other locale's folder; reading time is computed from the body
+ */
+export const insightSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  summary: summarySchema,
+  author: z.object({
+    name: z.string().min(1, "Author name is required"),
+    role: z.string().min(1).optional(),
+  }),
+  tags: z.array(z.string()).refine(isValidTags, "List at least one tag, each with a distinct slug"),
+  /** Calendar day, e.g. 2026-09-14 */
+  publishedAt: z.coerce.date(),
+  updatedAt: z.coerce.date().optional(),
+});
+
+export type InsightEntry = z.infer<typeof insightSchema>;
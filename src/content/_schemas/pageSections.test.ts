@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { pageSectionsSchema } from "./pageSections";
+
+const processSection = {
+  type: "process",
+  id: "engagement-path",
+  anchor: "how-we-engage",
+  title: "How we engage",
+  steps: [
+    {
+      title: "FRAME Sprint",
+      description: "Map the risks.",
+      duration: "2–3 weeks",
+      href: "route:services#frame-sprint",
+    },
+    { title: "STEER Retainer", description: "Keep it running." },
+  ],
+};
+
+const parse = (section: Record<string, unknown>) => pageSectionsSchema.safeParse({ sections: [section] });
+
+describe("pageSectionsSchema", () => {
+  describe("process sections", () => {
+    it("should accept steps with optional duration and href", () => {
+      const result = parse(processSection);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.sections[0]).toEqual(processSection);
+    });
+
+    it("should require at least one step", () => {
+      expect(parse({ ...processSection, steps: [] }).success).toBe(false);
+    });
+
+    it("should require a title and description per step", () => {
+      expect(parse({ ...processSection, steps: [{ title: "FRAME Sprint", description: "" }] }).success).toBe(false);
+      expect(parse({ ...processSection, steps: [{ description: "Map the risks." }] }).success).toBe(false);
+    });
+
+    it("should reject unknown route keys in step links", () => {
+      const steps = [{ title: "FRAME Sprint", description: "Map the risks.", href: "route:unknown#frame-sprint" }];
+
+      expect(parse({ ...processSection, steps }).success).toBe(false);
+    });
+  });
+});
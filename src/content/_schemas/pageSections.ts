@@ -1,5 +1,6 @@
-import { z } from "astro:content";
-import { ctaSchema } from "./shared";
+import { z } from "astro/zod";
+import type { CaseStudy, IndustryDomain, Service } from "@/domain";
+import { ctaSchema, hrefSchema } from "./shared";
 
 /**
  * Card item schema
@@ -8,7 +9,7 @@ import { ctaSchema } from "./shared";
 const cardItemSchema = z.object({
   title: z.string().min(1),
   text: z.string().min(1),
-  href: z.string().optional(),
+  href: hrefSchema.optional(),
 });
 
 /**
@@ -49,16 +50,122 @@ const ctaStripSectionSchema = z.object({
   secondary: ctaSchema.optional(),
 });
 
+/**
+ * FAQ item schema
+ * Used in faq-type sections; answers are plain text so they can be reused in FAQPage structured data
+ */
+const faqItemSchema = z.object({
+  question: z.string().min(1),
+  answer: z.string().min(1),
+});
+
+/**
+ * FAQ section schema
+ * Displays questions as an expandable disclosure list
+ */
+const faqSectionSchema = z.object({
+  type: z.literal("faq"),
+  id: z.string().min(1),
+  anchor: z.string().min(1),
+  title: z.string().min(1),
+  intro: z.string().optional(),
+  items: z.array(faqItemSchema).min(1),
+});
+
+/**
+ * Process step schema
+ * One stage of a process section; `href` typically points to the matching service anchor
+ */
+const processStepSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().min(1),
+  duration: z.string().optional(),
+  href: hrefSchema.optional(),
+});
+
+/**
+ * Process section schema
+ * Displays ordered steps as a timeline (vertical on mobile, horizontal on large screens)
+ */
+const processSectionSchema = z.object({
+  type: z.literal("process"),
+  id: z.string().min(1),
+  anchor: z.string().min(1),
+  title: z.string().min(1),
+  intro: z.string().optional(),
+  steps: z.array(processStepSchema).min(1),
+});
+
+/**
+ * Collection cards section schema
+ * Like a cards section, but the items are generated from a collection (one card per entry, linking to its detail page)
+ * getPage turns it into a regular cards section
+ */
+const collectionCardsSectionSchema = z.object({
+  type: z.literal("collectionCards"),
+  id: z.string().min(1),
+  anchor: z.string().min(1),
+  title: z.string().min(1),
+  intro: z.string().min(1),
+  collection: z.enum(["services", "industryDomains"]),
+});
+
+/**
+ * Case studies section schema
+ * Features selected entries of the caseStudies collection, or all of them with filters (case studies page)
+ * getPage resolves the slugs to the studies and the services/domains they reference
+ */
+const caseStudiesSectionSchema = z.object({
+  type: z.literal("caseStudies"),
+  id: z.string().min(1),
+  anchor: z.string().min(1),
+  title: z.string().min(1),
+  intro: z.string().optional(),
+  /** Slugs of the featured studies in display order; all studies when omitted */
+  studies: z.array(z.string().min(1)).min(1).optional(),
+  /** Filter by engagement format and industry domain */
+  filterable: z.boolean().default(false),
+});
+
 /**
  * Page sections schema
  * Discriminated union of all section types
+ *
+ * `id` identifies a section across locales (e.g. "services"), `anchor` is the localized URL fragment
  */
 export const pageSectionsSchema = z.object({
-  sections: z.array(z.discriminatedUnion("type", [cardsSectionSchema, oneLinerSectionSchema, ctaStripSectionSchema])),
+  sections: z.array(
+    z.discriminatedUnion("type", [
+      cardsSectionSchema,
+      oneLinerSectionSchema,
+      ctaStripSectionSchema,
+      faqSectionSchema,
+      processSectionSchema,
+      collectionCardsSectionSchema,
+      caseStudiesSectionSchema,
+    ])
+  ),
 });
 
 export type PageSections = z.infer<typeof pageSectionsSchema>;
+export type PageSection = PageSections["sections"][number];
 export type CardsSection = z.infer<typeof cardsSectionSchema>;
 export type OneLinerSection = z.infer<typeof oneLinerSectionSchema>;
 export type CtaStripSection = z.infer<typeof ctaStripSectionSchema>;
+export type FaqSection = z.infer<typeof faqSectionSchema>;
+export type ProcessSection = z.infer<typeof processSectionSchema>;
+export type CollectionCardsSection = z.infer<typeof collectionCardsSectionSchema>;
+export type CaseStudiesSection = z.infer<typeof caseStudiesSectionSchema>;
+/** Case studies section as rendered: the studies with the services and domains they reference (filters, badges) */
+export type ResolvedCaseStudiesSection = Omit<CaseStudiesSection, "studies"> & {
+  caseStudies: CaseStudy[];
+  services: Service[];
+  domains: IndustryDomain[];
+};
+/** Sections as rendered: collection cards are resolved to cards, case studies to their entries by getPage */
+export type RenderedPageSection =
+  | Exclude<PageSection, CollectionCardsSection | CaseStudiesSection>
+  | ResolvedCaseStudiesSection;
 export type CardItem = z.infer<typeof cardItemSchema>;
+export type FaqItem = z.infer<typeof faqItemSchema>;
+export type ProcessStep = z.infer<typeof processStepSchema>;
@@ -1,4 +1,24 @@
-import { z } from "astro:content";
+import { z } from "astro/zod";
+
+/** Open Graph object types used on this site */
+export const OG_TYPES = ["website", "article"] as const;
+
+/**
+ * Social sharing fields
+ * Shared by page entries and the site-wide defaults
+ */
+const socialFields = {
+  /** Path or absolute URL, ideally 1200×630 */
+  ogImage: z.string().min(1).optional(),
+  ogImageAlt: z.string().min(1).optional(),
+  ogType: z.enum(OG_TYPES).optional(),
+  keywords: z.array(z.string().min(1)).optional(),
+  /** Twitter/X handle of the site, e.g. "@globalcore" */
+  twitterSite: z
+    .string()
+    .regex(/^@\w+$/, "Twitter handle must start with @")
+    .optional(),
+};
 
 /**
  * SEO metadata schema
@@ -8,6 +28,23 @@ export const seoSchema = z.object({
   title: z.string().min(1, "SEO title is required"),
   description: z.string().min(1, "SEO description is required"),
   noIndex: z.boolean().default(false),
+  /** Last content change, used as sitemap lastmod */
+  lastModified: z.coerce.date().optional(),
+  /** Overrides the computed canonical URL (path or absolute URL) */
+  canonical: z.string().min(1).optional(),
+  ...socialFields,
+});
+
+/**
+ * Site-wide SEO defaults schema (one entry per locale)
+ * Fills every field a page entry leaves empty
+ */
+export const seoDefaultsSchema = z.object({
+  siteName: z.string().min(1, "Site name is required"),
+  description: z.string().min(1).optional(),
+  ...socialFields,
 });
 
 export type SeoMetadata = z.infer<typeof seoSchema>;
+export type SeoDefaults = z.infer<typeof seoDefaultsSchema>;
+export type OgType = (typeof OG_TYPES)[number];
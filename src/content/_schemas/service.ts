@@ -0,0 +1,33 @@
+import { z } from "astro/zod";
+import { isValidDeliverables, isValidDuration, isValidRelatedDomains } from "@/domain";
+import { summarySchema } from "./shared";
+
+/**
+ * Duration schema
+ * A range of weeks or an open-ended engagement; validated by the Duration value object
+ */
+const durationSchema = z
+  .discriminatedUnion("kind", [
+    z.object({ kind: z.literal("weeks"), min: z.number().int().positive(), max: z.number().int().positive() }),
+    z.object({ kind: z.literal("ongoing") }),
+  ])
+  .refine(isValidDuration, "Duration min must not exceed max");
+
+/**
+ * Service schema
+ * One engagement format per file: src/content/services/{locale}/{slug}.json
+ * The file name is the slug and must be the same in every locale
+ */
+export const serviceSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  summary: summarySchema,
+  description: z.string().min(1, "Description is required"),
+  deliverables: z.array(z.string().min(1)).refine(isValidDeliverables, "List at least one deliverable, each once"),
+  duration: durationSchema,
+  /** Slugs of entries in the industryDomains collection */
+  relatedDomains: z.array(z.string()).default([]).refine(isValidRelatedDomains, "Use unique industry domain slugs"),
+  /** Position in listings, ascending */
+  order: z.number().int(),
+});
+
+export type ServiceEntry = z.infer<typeof serviceSchema>;
@@ -1,4 +1,16 @@
-import { z } from "astro:content";
+import { z } from "astro/zod";
+import { SUMMARY_MAX_LENGTH, isValidSummary } from "@/domain";
+import { isContentHref } from "@/i18n/links";
+
+/**
+ * Link target in content
+ * Prefer `route:{routeKey}#{anchor}` for pages of this site (resolved per locale at render time);
+ * plain internal paths and absolute http(s) URLs are accepted as well
+ */
+export const hrefSchema = z
+  .string()
+  .min(1, "href is required")
+  .refine(isContentHref, 'Use "route:{routeKey}#{anchor}" with a known route key, an internal path or an http(s) URL');
 
 /**
  * Shared CTA button schema
@@ -6,7 +18,14 @@ import { z } from "astro:content";
  */
 export const ctaSchema = z.object({
   label: z.string().min(1, "CTA label is required"),
-  href: z.string().min(1, "CTA href is required"),
+  href: hrefSchema,
 });
 
 export type Cta = z.infer<typeof ctaSchema>;
+
+/**
+ * Short description of a service, industry domain or insight (see the Summary value object)
+ */
+export const summarySchema = z
+  .string()
+  .refine(isValidSummary, `Summary must be a single trimmed line of at most ${SUMMARY_MAX_LENGTH} characters`);
@@ -6,10 +6,22 @@
  */
 import { heroCollection } from "./_collections/hero";
 import { seoCollection } from "./_collections/seo";
+import { seoDefaultsCollection } from "./_collections/seoDefaults";
 import { pageSectionsCollection } from "./_collections/pageSections";
+import { companyCollection } from "./_collections/company";
+import { servicesCollection } from "./_collections/services";
+import { industryDomainsCollection } from "./_collections/industryDomains";
+import { insightsCollection } from "./_collections/insights";
+import { caseStudiesCollection } from "./_collections/caseStudies";
 
 export const collections = {
   hero: heroCollection,
   seo: seoCollection,
+  seoDefaults: seoDefaultsCollection,
   pageSections: pageSectionsCollection,
+  company: companyCollection,
+  services: servicesCollection,
+  industryDomains: industryDomainsCollection,
+  insights: insightsCollection,
+  caseStudies: caseStudiesCollection,
 };
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { isCaseStudy, matchesCaseStudyFilter } from "./CaseStudy";
+import type { CaseStudy } from "./CaseStudy";
+
+const study: CaseStudy = {
+  slug: "grid-operator-stress-test",
+  title: "Stress-testing a transmission grid's control architecture",
+  summary: "A grid operator mapped its hidden dependencies before the regulator's resilience review.",
+  sector: "Transmission system operator",
+  challenge: "Nobody could say which control systems failed together.",
+  approach: "A FRAME Sprint mapped dependencies, a MODEL Validation tested the critical slices.",
+  outcomes: [{ value: "3 weeks", label: "to a board-ready dependency map" }],
+  services: ["frame-sprint", "model-validation"],
+  domains: ["energy-infrastructure", "digital-cyber"],
+  order: 1,
+};
+
+describe("CaseStudy entity", () => {
+  it("accepts a complete case study", () => {
+    expect(isCaseStudy(study)).toBe(true);
+  });
+
+  it("rejects case studies with invalid fields", () => {
+    expect(isCaseStudy({ ...study, slug: "Grid Operator" })).toBe(false);
+    expect(isCaseStudy({ ...study, sector: "" })).toBe(false);
+    expect(isCaseStudy({ ...study, outcomes: [] })).toBe(false);
+    expect(isCaseStudy({ ...study, services: [] })).toBe(false);
+    expect(isCaseStudy({ ...study, domains: ["finance", "finance"] })).toBe(false);
+    expect(isCaseStudy({ ...study, order: "1" })).toBe(false);
+    expect(isCaseStudy(null)).toBe(false);
+  });
+});
+
+describe("matchesCaseStudyFilter", () => {
+  it("matches everything without criteria", () => {
+    expect(matchesCaseStudyFilter(study, {})).toBe(true);
+  });
+
+  it("requires every given criterion", () => {
+    expect(matchesCaseStudyFilter(study, { service: "frame-sprint" })).toBe(true);
+    expect(matchesCaseStudyFilter(study, { service: "frame-sprint", domain: "digital-cyber" })).toBe(true);
+    expect(matchesCaseStudyFilter(study, { service: "steer-retainer" })).toBe(false);
+    expect(matchesCaseStudyFilter(study, { service: "frame-sprint", domain: "health" })).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * CaseStudy entity.
+ * Evidence from a client engagement: the challenge, our approach and the measured outcome.
+ *
+ * Identity is the slug: it is shared by all locales, like services and industry domains.
+ * Clients stay anonymous; `sector` describes them (e.g. "Transmission system operator").
+ */
+import type { OutcomeMetrics } from "../../value-objects/OutcomeMetrics";
+import { isValidOutcomeMetrics } from "../../value-objects/OutcomeMetrics";
+import type { RelatedDomains } from "../../value-objects/RelatedDomains";
+import type { Slug } from "../../value-objects/Slug";
+import { isUniqueSlugList, isValidSlug } from "../../value-objects/Slug";
+import type { Summary } from "../../value-objects/Summary";
+import { isValidSummary } from "../../value-objects/Summary";
+
+export interface CaseStudy {
+  slug: Slug;
+  title: string;
+  summary: Summary;
+  /** Client sector, e.g. "Regional hospital group" */
+  sector: string;
+  challenge: string;
+  approach: string;
+  outcomes: OutcomeMetrics;
+  /** Slugs of the engagement formats (services) used, at least one */
+  services: readonly Slug[];
+  /** Slugs of the industry domains touched, at least one */
+  domains: RelatedDomains;
+  /** Position in listings, ascending */
+  order: number;
+}
+
+/** Narrows a listing to one engagement format and/or one industry domain; empty criteria match everything */
+export interface CaseStudyFilter {
+  service?: Slug;
+  domain?: Slug;
+}
+
+const isText = (value: unknown): value is string => typeof value === "string" && value.length > 0;
+
+const isNonEmptySlugList = (value: unknown): value is readonly Slug[] => isUniqueSlugList(value) && value.length > 0;
+
+export function isCaseStudy(value: unknown): value is CaseStudy {
+  if (typeof value !== "object" || value === null) return false;
+  const study = value as Record<keyof CaseStudy, unknown>;
+
+  return (
+    isValidSlug(study.slug) &&
+    isText(study.title) &&
+    isValidSummary(study.summary) &&
+    isText(study.sector) &&
+    isText(study.challenge) &&
+    isText(study.approach) &&
+    isValidOutcomeMetrics(study.outcomes) &&
+    isNonEmptySlugList(study.services) &&
+    isNonEmptySlugList(study.domains) &&
+    typeof study.order === "number"
+  );
+}
+
+/**
+ * True if the case study used the format and touched the domain given in the filter
+ * Takes only the slug lists, so the same rule can run on data attributes in the browser
+ */
+export function matchesCaseStudyFilter(
+  study: Pick<CaseStudy, "services" | "domains">,
+  { service, domain }: CaseStudyFilter
+): boolean {
+  return (!service || study.services.includes(service)) && (!domain || study.domains.includes(domain));
+}
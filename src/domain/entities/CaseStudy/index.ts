@@ -0,0 +1,2 @@
+export type { CaseStudy, CaseStudyFilter } from "./CaseStudy";
+export { isCaseStudy, matchesCaseStudyFilter } from "./CaseStudy";
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { isIndustryDomain } from "./IndustryDomain";
+import type { IndustryDomain } from "./IndustryDomain";
+
+const domain: IndustryDomain = {
+  slug: "energy-infrastructure",
+  title: "Energy & Infrastructure",
+  summary: "Grid operators, utilities and the supply chains that keep them running.",
+  description: "Where a single dependency can take down a region, we map it before it fails.",
+  order: 1,
+};
+
+describe("IndustryDomain entity", () => {
+  it("accepts a complete industry domain", () => {
+    expect(isIndustryDomain(domain)).toBe(true);
+  });
+
+  it("rejects industry domains with invalid value objects", () => {
+    expect(isIndustryDomain({ ...domain, slug: "Energy Infrastructure" })).toBe(false);
+    expect(isIndustryDomain({ ...domain, title: "" })).toBe(false);
+    expect(isIndustryDomain({ ...domain, summary: "" })).toBe(false);
+    expect(isIndustryDomain({ ...domain, order: "1" })).toBe(false);
+    expect(isIndustryDomain(null)).toBe(false);
+  });
+});
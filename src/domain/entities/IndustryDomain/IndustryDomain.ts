@@ -0,0 +1,35 @@
+/**
+ * IndustryDomain entity.
+ * An industry we work in (Energy & Infrastructure, Finance, …).
+ *
+ * Named IndustryDomain to keep it apart from the domain layer itself.
+ * Identity is the slug, shared by all locales (/domains/finance, /de/domaenen/finance).
+ */
+import type { Slug } from "../../value-objects/Slug";
+import { isValidSlug } from "../../value-objects/Slug";
+import type { Summary } from "../../value-objects/Summary";
+import { isValidSummary } from "../../value-objects/Summary";
+
+export interface IndustryDomain {
+  slug: Slug;
+  title: string;
+  summary: Summary;
+  /** Longer introduction for the detail page */
+  description: string;
+  /** Position in listings, ascending */
+  order: number;
+}
+
+export function isIndustryDomain(value: unknown): value is IndustryDomain {
+  if (typeof value !== "object" || value === null) return false;
+  const domain = value as Record<keyof IndustryDomain, unknown>;
+
+  return (
+    isValidSlug(domain.slug) &&
+    typeof domain.title === "string" &&
+    domain.title.length > 0 &&
+    isValidSummary(domain.summary) &&
+    typeof domain.description === "string" &&
+    typeof domain.order === "number"
+  );
+}
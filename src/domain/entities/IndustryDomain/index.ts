@@ -0,0 +1,2 @@
+export type { IndustryDomain } from "./IndustryDomain";
+export { isIndustryDomain } from "./IndustryDomain";
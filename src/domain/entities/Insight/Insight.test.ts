@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { hasTag, isInsight, sortByPublishedAt } from "./Insight";
+import type { Insight } from "./Insight";
+
+const insight: Insight = {
+  slug: "grid-stress-tests",
+  title: "Stress-testing the grid before the regulator does",
+  summary: "Why dependency maps beat scenario decks when energy assets are under pressure.",
+  author: { name: "Mara Lindqvist", role: "Principal, Energy & Infrastructure" },
+  tags: ["Energy", "Stress testing"],
+  publishedAt: new Date("2026-09-14"),
+  readingTime: 4,
+};
+
+describe("Insight entity", () => {
+  it("accepts a complete insight", () => {
+    expect(isInsight(insight)).toBe(true);
+    expect(isInsight({ ...insight, updatedAt: new Date("2026-10-01"), author: { name: "Mara Lindqvist" } })).toBe(true);
+  });
+
+  it("rejects insights with invalid fields", () => {
+    expect(isInsight({ ...insight, slug: "Grid Stress Tests" })).toBe(false);
+    expect(isInsight({ ...insight, tags: [] })).toBe(false);
+    expect(isInsight({ ...insight, author: { name: "" } })).toBe(false);
+    expect(isInsight({ ...insight, publishedAt: new Date("not a date") })).toBe(false);
+    expect(isInsight({ ...insight, publishedAt: "2026-09-14" })).toBe(false);
+    expect(isInsight({ ...insight, readingTime: 0 })).toBe(false);
+    expect(isInsight(null)).toBe(false);
+  });
+
+  it("matches tags by archive slug", () => {
+    expect(hasTag(insight, "stress-testing")).toBe(true);
+    expect(hasTag(insight, "finance")).toBe(false);
+  });
+});
+
+describe("sortByPublishedAt", () => {
+  it("sorts newest first, then by slug, without mutating the input", () => {
+    const items = [
+      { slug: "older", publishedAt: new Date("2026-01-10") },
+      { slug: "newest-b", publishedAt: new Date("2026-09-14") },
+      { slug: "newest-a", publishedAt: new Date("2026-09-14") },
+    ];
+
+    expect(sortByPublishedAt(items).map(({ slug }) => slug)).toEqual(["newest-a", "newest-b", "older"]);
+    expect(items[0].slug).toBe("older");
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Insight entity.
+ * A thought-leadership article on resilience architecture, written in one locale.
+ *
+ * Identity is the slug within a locale; a translation of a post uses the same slug
+ * (/insights/grid-stress-tests, /de/einblicke/grid-stress-tests), posts without translation exist in one locale only.
+ * The article body is not part of the entity: repositories return it rendered, next to the entity.
+ */
+import type { ReadingTime } from "../../value-objects/ReadingTime";
+import { isValidReadingTime } from "../../value-objects/ReadingTime";
+import type { Slug } from "../../value-objects/Slug";
+import { isValidSlug } from "../../value-objects/Slug";
+import type { Summary } from "../../value-objects/Summary";
+import { isValidSummary } from "../../value-objects/Summary";
+import type { Tags } from "../../value-objects/Tags";
+import { isValidTags, toTagSlug } from "../../value-objects/Tags";
+
+export interface InsightAuthor {
+  name: string;
+  /** Job title, e.g. "Principal, Energy & Infrastructure" */
+  role?: string;
+}
+
+export interface Insight {
+  slug: Slug;
+  title: string;
+  summary: Summary;
+  author: InsightAuthor;
+  tags: Tags;
+  publishedAt: Date;
+  /** Last substantial revision, if any */
+  updatedAt?: Date;
+  readingTime: ReadingTime;
+}
+
+const isValidDate = (value: unknown): value is Date => value instanceof Date && !Number.isNaN(value.getTime());
+
+function isInsightAuthor(value: unknown): value is InsightAuthor {
+  if (typeof value !== "object" || value === null) return false;
+  const author = value as Record<keyof InsightAuthor, unknown>;
+
+  return (
+    typeof author.name === "string" &&
+    author.name.length > 0 &&
+    (author.role === undefined || typeof author.role === "string")
+  );
+}
+
+export function isInsight(value: unknown): value is Insight {
+  if (typeof value !== "object" || value === null) return false;
+  const insight = value as Record<keyof Insight, unknown>;
+
+  return (
+    isValidSlug(insight.slug) &&
+    typeof insight.title === "string" &&
+    insight.title.length > 0 &&
+    isValidSummary(insight.summary) &&
+    isInsightAuthor(insight.author) &&
+    isValidTags(insight.tags) &&
+    isValidDate(insight.publishedAt) &&
+    (insight.updatedAt === undefined || isValidDate(insight.updatedAt)) &&
+    isValidReadingTime(insight.readingTime)
+  );
+}
+
+/** True if one of the insight's tags has the given archive slug */
+export function hasTag(insight: Insight, tagSlug: Slug): boolean {
+  return insight.tags.some((tag) => toTagSlug(tag) === tagSlug);
+}
+
+/**
+ * Newest first; posts published on the same day are ordered by slug
+ * Returns a new array
+ */
+export function sortByPublishedAt<T extends Pick<Insight, "slug" | "publishedAt">>(insights: readonly T[]): T[] {
+  return [...insights].sort(
+    (a, b) => b.publishedAt.getTime() - a.publishedAt.getTime() || a.slug.localeCompare(b.slug)
+  );
+}
@@ -0,0 +1,2 @@
+export type { Insight, InsightAuthor } from "./Insight";
+export { isInsight, hasTag, sortByPublishedAt } from "./Insight";
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { isService, servesDomain } from "./Service";
+import type { Service } from "./Service";
+import { sortByOrder } from "../ordering";
+
+const service: Service = {
+  slug: "frame-sprint",
+  title: "FRAME Sprint",
+  summary: "Fast orientation: dependencies, constraints, priorities, and decision context.",
+  description: "A short, focused sprint that maps what matters before anyone commits budget.",
+  deliverables: ["Dependency map", "Decision log"],
+  duration: { kind: "weeks", min: 2, max: 3 },
+  relatedDomains: ["energy-infrastructure", "finance"],
+  order: 1,
+};
+
+describe("Service entity", () => {
+  it("accepts a complete service", () => {
+    expect(isService(service)).toBe(true);
+  });
+
+  it("rejects services with invalid value objects", () => {
+    expect(isService({ ...service, slug: "Frame Sprint" })).toBe(false);
+    expect(isService({ ...service, deliverables: [] })).toBe(false);
+    expect(isService({ ...service, duration: { kind: "weeks", min: 3, max: 2 } })).toBe(false);
+    expect(isService({ ...service, relatedDomains: ["finance", "finance"] })).toBe(false);
+    expect(isService(null)).toBe(false);
+  });
+
+  it("knows which domains it serves", () => {
+    expect(servesDomain(service, "finance")).toBe(true);
+    expect(servesDomain(service, "health")).toBe(false);
+  });
+});
+
+describe("sortByOrder", () => {
+  it("sorts by order, then slug, without mutating the input", () => {
+    const items = [
+      { slug: "steer-retainer", order: 4 },
+      { slug: "model-validation", order: 1 },
+      { slug: "frame-sprint", order: 1 },
+    ];
+
+    expect(sortByOrder(items).map(({ slug }) => slug)).toEqual(["frame-sprint", "model-validation", "steer-retainer"]);
+    expect(items[0].slug).toBe("steer-retainer");
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Service entity.
+ * One of the productized engagement formats (FRAME Sprint, ARCHITECT Blueprint, …).
+ *
+ * Identity is the slug: it is shared by all locales, so /services/frame-sprint and
+ * /de/dienstleistungen/frame-sprint are the same service.
+ */
+import type { Deliverables } from "../../value-objects/Deliverables";
+import { isValidDeliverables } from "../../value-objects/Deliverables";
+import type { Duration } from "../../value-objects/Duration";
+import { isValidDuration } from "../../value-objects/Duration";
+import type { RelatedDomains } from "../../value-objects/RelatedDomains";
+import { isValidRelatedDomains } from "../../value-objects/RelatedDomains";
+import type { Slug } from "../../value-objects/Slug";
+import { isValidSlug } from "../../value-objects/Slug";
+import type { Summary } from "../../value-objects/Summary";
+import { isValidSummary } from "../../value-objects/Summary";
+
+export interface Service {
+  slug: Slug;
+  title: string;
+  summary: Summary;
+  /** Longer introduction for the detail page */
+  description: string;
+  deliverables: Deliverables;
+  duration: Duration;
+  /** Industry domains this format is typically used in */
+  relatedDomains: RelatedDomains;
+  /** Position in listings, ascending */
+  order: number;
+}
+
+export function isService(value: unknown): value is Service {
+  if (typeof value !== "object" || value === null) return false;
+  const service = value as Record<keyof Service, unknown>;
+
+  return (
+    isValidSlug(service.slug) &&
+    typeof service.title === "string" &&
+    service.title.length > 0 &&
+    isValidSummary(service.summary) &&
+    typeof service.description === "string" &&
+    isValidDeliverables(service.deliverables) &&
+    isValidDuration(service.duration) &&
+    isValidRelatedDomains(service.relatedDomains) &&
+    typeof service.order === "number"
+  );
+}
+
+/** True if the service lists the domain among its related domains */
+export function servesDomain(service: Service, domainSlug: Slug): boolean {
+  return service.relatedDomains.includes(domainSlug);
+}
@@ -0,0 +1,2 @@
+export type { Service } from "./Service";
+export { isService, servesDomain } from "./Service";
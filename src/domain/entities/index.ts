@@ -0,0 +1,6 @@
+export * from "./Service";
+export * from "./IndustryDomain";
+export * from "./Insight";
+export * from "./CaseStudy";
+export { sortByOrder } from "./ordering";
+export type { Ordered } from "./ordering";
@@ -0,0 +1,16 @@
+import type { Slug } from "../value-objects/Slug";
+
+/** Entities listed in an editor-defined order */
+export interface Ordered {
+  slug: Slug;
+  /** Position in listings, ascending */
+  order: number;
+}
+
+/**
+ * Sort by `order`, then by slug so equal positions stay stable across locales
+ * Returns a new array
+ */
+export function sortByOrder<T extends Ordered>(items: readonly T[]): T[] {
+  return [...items].sort((a, b) => a.order - b.order || a.slug.localeCompare(b.slug));
+}
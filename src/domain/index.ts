@@ -1,3 +1,3 @@
 export * from "./value-objects";
-// export * from "./entities";
+export * from "./entities";
 // export * from "./models";
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { validateContactMessage, CONTACT_MESSAGE_LIMITS } from "./ContactMessage";
+
+const validInput = {
+  name: "Jane Doe",
+  email: "jane@example.com",
+  company: "ACME Energy",
+  message: "We need help with our target architecture.",
+  consent: "on",
+  locale: "de",
+};
+
+describe("ContactMessage value object", () => {
+  it("accepts valid input and trims values", () => {
+    const result = validateContactMessage({ ...validInput, name: "  Jane Doe  " });
+
+    expect(result).toEqual({
+      valid: true,
+      value: {
+        name: "Jane Doe",
+        email: "jane@example.com",
+        company: "ACME Energy",
+        message: "We need help with our target architecture.",
+        locale: "de",
+      },
+    });
+  });
+
+  it("omits empty optional company and falls back to default locale", () => {
+    const result = validateContactMessage({ ...validInput, company: "   ", locale: "es" });
+
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(result.value).not.toHaveProperty("company");
+      expect(result.value.locale).toBe("en");
+    }
+  });
+
+  it("reports all missing required fields at once", () => {
+    const result = validateContactMessage({});
+
+    expect(result).toEqual({
+      valid: false,
+      errors: { name: "required", email: "required", message: "required", consent: "required" },
+    });
+  });
+
+  it("reports format and length errors", () => {
+    const result = validateContactMessage({
+      ...validInput,
+      name: "x".repeat(CONTACT_MESSAGE_LIMITS.name.max + 1),
+      email: "jane@example",
+      company: "x".repeat(CONTACT_MESSAGE_LIMITS.company.max + 1),
+      message: "Too short",
+    });
+
+    expect(result).toEqual({
+      valid: false,
+      errors: { name: "tooLong", email: "invalidEmail", company: "tooLong", message: "tooShort" },
+    });
+  });
+
+  it("rejects messages above the maximum length", () => {
+    const result = validateContactMessage({
+      ...validInput,
+      message: "x".repeat(CONTACT_MESSAGE_LIMITS.message.max + 1),
+    });
+
+    expect(result).toEqual({ valid: false, errors: { message: "tooLong" } });
+  });
+
+  it("requires explicit consent", () => {
+    expect(validateContactMessage({ ...validInput, consent: "off" }).valid).toBe(false);
+    expect(validateContactMessage({ ...validInput, consent: true }).valid).toBe(true);
+    expect(validateContactMessage({ ...validInput, consent: "true" }).valid).toBe(true);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * ContactMessage value object.
+ * A visitor enquiry from the contact form, validated before it leaves the site.
+ *
+ * Validation returns error codes (not texts) so the UI layer can localize them.
+ */
+import type { Email } from "../Email";
+import { isValidEmail } from "../Email";
+import type { Locale } from "../Locale";
+import { getLocaleOrDefault } from "../Locale";
+
+export interface ContactMessage {
+  name: string;
+  email: Email;
+  company?: string;
+  message: string;
+  locale: Locale;
+}
+
+/** Raw, untrusted form input (e.g. from FormData) */
+export interface ContactMessageInput {
+  name?: unknown;
+  email?: unknown;
+  company?: unknown;
+  message?: unknown;
+  consent?: unknown;
+  locale?: unknown;
+}
+
+export type ContactMessageField = "name" | "email" | "company" | "message" | "consent";
+export type ContactMessageError = "required" | "invalidEmail" | "tooShort" | "tooLong";
+export type ContactMessageErrors = Partial<Record<ContactMessageField, ContactMessageError>>;
+
+export type ContactMessageValidation =
+  | { valid: true; value: ContactMessage }
+  | { valid: false; errors: ContactMessageErrors };
+
+/** Shared with the form markup so client-side hints match server rules */
+export const CONTACT_MESSAGE_LIMITS = {
+  name: { max: 100 },
+  company: { max: 150 },
+  message: { min: 10, max: 5000 },
+} as const;
+
+const CONSENT_VALUES: ReadonlySet<unknown> = new Set([true, "true", "on", "1"]);
+
+function toTrimmedString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+/**
+ * Validate raw contact form input.
+ * Collects every field error at once so the form can show them together.
+ */
+export function validateContactMessage(input: ContactMessageInput): ContactMessageValidation {
+  const name = toTrimmedString(input.name);
+  const email = toTrimmedString(input.email);
+  const company = toTrimmedString(input.company);
+  const message = toTrimmedString(input.message);
+  const errors: ContactMessageErrors = {};
+
+  if (!name) errors.name = "required";
+  else if (name.length > CONTACT_MESSAGE_LIMITS.name.max) errors.name = "tooLong";
+
+  if (!email) errors.email = "required";
+  else if (!isValidEmail(email)) errors.email = "invalidEmail";
+
+  if (company.length > CONTACT_MESSAGE_LIMITS.company.max) errors.company = "tooLong";
+
+  if (!message) errors.message = "required";
+  else if (message.length < CONTACT_MESSAGE_LIMITS.message.min) errors.message = "tooShort";
+  else if (message.length > CONTACT_MESSAGE_LIMITS.message.max) errors.message = "tooLong";
+
+  if (!CONSENT_VALUES.has(input.consent)) errors.consent = "required";
+
+  if (Object.keys(errors).length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    value: {
+      name,
+      email,
+      ...(company && { company }),
+      message,
+      locale: getLocaleOrDefault(input.locale),
+    },
+  };
+}
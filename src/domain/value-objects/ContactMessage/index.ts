@@ -0,0 +1,9 @@
+export type {
+  ContactMessage,
+  ContactMessageInput,
+  ContactMessageField,
+  ContactMessageError,
+  ContactMessageErrors,
+  ContactMessageValidation,
+} from "./ContactMessage";
+export { CONTACT_MESSAGE_LIMITS, validateContactMessage } from "./ContactMessage";
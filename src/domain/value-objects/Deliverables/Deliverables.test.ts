@@ -0,0 +1,17 @@
+import { describe, it, expect } from "vitest";
+import { assertDeliverables, isValidDeliverables } from "./Deliverables";
+
+describe("Deliverables value object", () => {
+  it("validates non-empty lists of unique entries", () => {
+    expect(isValidDeliverables(["Dependency map", "Decision log"])).toBe(true);
+
+    expect(isValidDeliverables([])).toBe(false);
+    expect(isValidDeliverables(["Dependency map", "  "])).toBe(false);
+    expect(isValidDeliverables(["Decision log", "Decision log"])).toBe(false);
+    expect(isValidDeliverables("Decision log")).toBe(false);
+  });
+
+  it("fails fast on invalid input", () => {
+    expect(() => assertDeliverables([])).toThrow("Invalid deliverables");
+  });
+});
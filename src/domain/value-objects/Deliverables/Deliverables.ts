@@ -0,0 +1,22 @@
+/**
+ * Deliverables value object.
+ * What a client receives at the end of an engagement, e.g. ["Dependency map", "Decision log"].
+ * At least one entry; entries are non-empty and unique.
+ */
+export type Deliverable = string;
+export type Deliverables = readonly Deliverable[];
+
+const isDeliverable = (value: unknown): value is Deliverable => typeof value === "string" && value.trim().length > 0;
+
+export function isValidDeliverables(value: unknown): value is Deliverables {
+  return Array.isArray(value) && value.length > 0 && value.every(isDeliverable) && new Set(value).size === value.length;
+}
+
+/**
+ * Returns valid deliverables or throws (fail-fast).
+ * Useful at boundaries (mappers/adapters).
+ */
+export function assertDeliverables(value: unknown, errorMessage = "Invalid deliverables"): Deliverables {
+  if (!isValidDeliverables(value)) throw new Error(errorMessage);
+  return value;
+}
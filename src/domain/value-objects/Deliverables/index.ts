@@ -0,0 +1,2 @@
+export type { Deliverable, Deliverables } from "./Deliverables";
+export { isValidDeliverables, assertDeliverables } from "./Deliverables";
@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { assertDuration, isValidDuration } from "./Duration";
+
+describe("Duration value object", () => {
+  it("validates week ranges and ongoing engagements", () => {
+    expect(isValidDuration({ kind: "weeks", min: 2, max: 3 })).toBe(true);
+    expect(isValidDuration({ kind: "weeks", min: 4, max: 4 })).toBe(true);
+    expect(isValidDuration({ kind: "ongoing" })).toBe(true);
+
+    expect(isValidDuration({ kind: "weeks", min: 3, max: 2 })).toBe(false); // inverted range
+    expect(isValidDuration({ kind: "weeks", min: 0, max: 2 })).toBe(false);
+    expect(isValidDuration({ kind: "weeks", min: 1.5, max: 2 })).toBe(false);
+    expect(isValidDuration({ kind: "weeks", min: 2 })).toBe(false);
+    expect(isValidDuration({ kind: "months", min: 1, max: 2 })).toBe(false);
+    expect(isValidDuration("2–3 weeks")).toBe(false);
+    expect(isValidDuration(null)).toBe(false);
+  });
+
+  it("fails fast on invalid input", () => {
+    expect(() => assertDuration({ kind: "weeks", min: 3, max: 2 })).toThrow("Invalid duration");
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Duration value object.
+ * Length of an engagement: a range of weeks ("2–3 weeks") or open-ended ("ongoing").
+ *
+ * Stored as numbers, not text, so every locale formats it the same way (see i18n formatDuration).
+ */
+export type Duration = { kind: "weeks"; min: number; max: number } | { kind: "ongoing" };
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value > 0;
+
+export function isValidDuration(value: unknown): value is Duration {
+  if (typeof value !== "object" || value === null || !("kind" in value)) return false;
+
+  if (value.kind === "ongoing") return true;
+  if (value.kind !== "weeks" || !("min" in value) || !("max" in value)) return false;
+
+  return isPositiveInteger(value.min) && isPositiveInteger(value.max) && value.min <= value.max;
+}
+
+/**
+ * Returns a valid duration or throws (fail-fast).
+ * Useful at boundaries (mappers/adapters).
+ */
+export function assertDuration(value: unknown, errorMessage = "Invalid duration"): Duration {
+  if (!isValidDuration(value)) throw new Error(errorMessage);
+  return value;
+}
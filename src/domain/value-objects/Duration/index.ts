@@ -0,0 +1,2 @@
+export type { Duration } from "./Duration";
+export { isValidDuration, assertDuration } from "./Duration";
@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { isValidEmail, assertEmail } from "./Email";
+
+describe("Email value object", () => {
+  it("validates common email formats", () => {
+    expect(isValidEmail("jane@example.com")).toBe(true);
+    expect(isValidEmail("jane.doe+contact@mail.example.co.uk")).toBe(true);
+
+    expect(isValidEmail("jane@example")).toBe(false);
+    expect(isValidEmail("jane example@example.com")).toBe(false);
+    expect(isValidEmail("@example.com")).toBe(false);
+    expect(isValidEmail("")).toBe(false);
+    expect(isValidEmail(null)).toBe(false);
+    expect(isValidEmail(`${"a".repeat(250)}@example.com`)).toBe(false); // longer than 254 chars
+  });
+
+  it("asserts valid emails and throws otherwise", () => {
+    expect(assertEmail("jane@example.com")).toBe("jane@example.com");
+    expect(() => assertEmail("not-an-email")).toThrow("Invalid email");
+  });
+});
@@ -0,0 +1,20 @@
+/**
+ * Email value object.
+ * Intentionally simple (local@domain.tld) — deliverability is the mail server's job.
+ */
+export type Email = string;
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_EMAIL_LENGTH = 254; // RFC 5321 path limit
+
+export function isValidEmail(value: unknown): value is Email {
+  return typeof value === "string" && value.length <= MAX_EMAIL_LENGTH && EMAIL_RE.test(value);
+}
+
+/**
+ * Fail-fast email assertion for boundary validation (mappers/adapters).
+ */
+export function assertEmail(value: unknown, errorMessage = "Invalid email"): Email {
+  if (!isValidEmail(value)) throw new Error(errorMessage);
+  return value;
+}
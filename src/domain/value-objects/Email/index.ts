@@ -0,0 +1,2 @@
+export type { Email } from "./Email";
+export { isValidEmail, assertEmail } from "./Email";
@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { assertOutcomeMetrics, isValidOutcomeMetrics } from "./OutcomeMetrics";
+
+describe("OutcomeMetrics value object", () => {
+  it("accepts a non-empty list of metrics", () => {
+    expect(isValidOutcomeMetrics([{ value: "−40 %", label: "time to a board decision" }])).toBe(true);
+  });
+
+  it("rejects empty lists and incomplete metrics", () => {
+    expect(isValidOutcomeMetrics([])).toBe(false);
+    expect(isValidOutcomeMetrics([{ value: "3 weeks", label: " " }])).toBe(false);
+    expect(isValidOutcomeMetrics([{ value: 3, label: "weeks" }])).toBe(false);
+    expect(isValidOutcomeMetrics([null])).toBe(false);
+    expect(isValidOutcomeMetrics("3 weeks")).toBe(false);
+  });
+
+  it("assertOutcomeMetrics throws for invalid input", () => {
+    expect(() => assertOutcomeMetrics([])).toThrow("Invalid outcome metrics");
+  });
+});
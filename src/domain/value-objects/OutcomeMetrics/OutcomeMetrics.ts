@@ -0,0 +1,34 @@
+/**
+ * OutcomeMetrics value object.
+ * Measured results of an engagement, e.g. [{ value: "−40 %", label: "time to a board decision" }].
+ * At least one metric; values and labels are non-empty text (values are shown as written, not formatted).
+ */
+export interface OutcomeMetric {
+  /** The figure, e.g. "3 weeks" or "−40 %" */
+  value: string;
+  /** What was measured */
+  label: string;
+}
+
+export type OutcomeMetrics = readonly OutcomeMetric[];
+
+const isText = (value: unknown): value is string => typeof value === "string" && value.trim().length > 0;
+
+function isOutcomeMetric(value: unknown): value is OutcomeMetric {
+  if (typeof value !== "object" || value === null) return false;
+  const metric = value as Record<keyof OutcomeMetric, unknown>;
+  return isText(metric.value) && isText(metric.label);
+}
+
+export function isValidOutcomeMetrics(value: unknown): value is OutcomeMetrics {
+  return Array.isArray(value) && value.length > 0 && value.every(isOutcomeMetric);
+}
+
+/**
+ * Returns valid outcome metrics or throws (fail-fast).
+ * Useful at boundaries (mappers/adapters).
+ */
+export function assertOutcomeMetrics(value: unknown, errorMessage = "Invalid outcome metrics"): OutcomeMetrics {
+  if (!isValidOutcomeMetrics(value)) throw new Error(errorMessage);
+  return value;
+}
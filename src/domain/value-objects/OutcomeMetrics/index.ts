@@ -0,0 +1,2 @@
+export type { OutcomeMetric, OutcomeMetrics } from "./OutcomeMetrics";
+export { isValidOutcomeMetrics, assertOutcomeMetrics } from "./OutcomeMetrics";
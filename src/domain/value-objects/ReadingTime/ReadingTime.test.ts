@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { assertReadingTime, estimateReadingTime, isValidReadingTime } from "./ReadingTime";
+
+describe("ReadingTime value object", () => {
+  it("accepts whole minutes from 1", () => {
+    expect(isValidReadingTime(1)).toBe(true);
+    expect(isValidReadingTime(12)).toBe(true);
+
+    expect(isValidReadingTime(0)).toBe(false);
+    expect(isValidReadingTime(2.5)).toBe(false);
+    expect(isValidReadingTime("3")).toBe(false);
+  });
+
+  it("estimates minutes from the word count, rounded up", () => {
+    expect(estimateReadingTime("word ".repeat(200))).toBe(1);
+    expect(estimateReadingTime("word ".repeat(201))).toBe(2);
+    expect(estimateReadingTime("word\n".repeat(450), 150)).toBe(3);
+  });
+
+  it("never estimates less than one minute", () => {
+    expect(estimateReadingTime("")).toBe(1);
+    expect(estimateReadingTime("Short note.")).toBe(1);
+  });
+
+  it("asserts reading times at boundaries", () => {
+    expect(assertReadingTime(4)).toBe(4);
+    expect(() => assertReadingTime(-1)).toThrow("Invalid reading time");
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * ReadingTime value object.
+ * Estimated minutes to read an article, shown next to its publish date.
+ * Whole minutes, at least 1.
+ */
+export type ReadingTime = number;
+
+/** Average silent reading speed for non-fiction */
+export const WORDS_PER_MINUTE = 200;
+
+export function isValidReadingTime(value: unknown): value is ReadingTime {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1;
+}
+
+/**
+ * Estimate the reading time of a text from its word count, rounded up.
+ * Markdown syntax counts as words, which is close enough for an estimate.
+ *
+ * @example
+ * estimateReadingTime("word ".repeat(450)) // 3
+ */
+export function estimateReadingTime(text: string, wordsPerMinute = WORDS_PER_MINUTE): ReadingTime {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return Math.max(1, Math.ceil(words / wordsPerMinute));
+}
+
+/**
+ * Returns a valid reading time or throws (fail-fast).
+ * Useful at boundaries (mappers/adapters).
+ */
+export function assertReadingTime(value: unknown, errorMessage = "Invalid reading time"): ReadingTime {
+  if (!isValidReadingTime(value)) throw new Error(errorMessage);
+  return value;
+}
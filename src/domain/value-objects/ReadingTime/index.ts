@@ -0,0 +1,2 @@
+export type { ReadingTime } from "./ReadingTime";
+export { WORDS_PER_MINUTE, isValidReadingTime, estimateReadingTime, assertReadingTime } from "./ReadingTime";
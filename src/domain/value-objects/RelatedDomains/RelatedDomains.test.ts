@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { assertRelatedDomains, findUnknownDomains, isValidRelatedDomains } from "./RelatedDomains";
+
+describe("RelatedDomains value object", () => {
+  it("validates lists of unique slugs", () => {
+    expect(isValidRelatedDomains(["energy-infrastructure", "finance"])).toBe(true);
+    expect(isValidRelatedDomains([])).toBe(true);
+
+    expect(isValidRelatedDomains(["Finance"])).toBe(false);
+    expect(isValidRelatedDomains(["finance", "finance"])).toBe(false);
+    expect(isValidRelatedDomains("finance")).toBe(false);
+  });
+
+  it("finds references to unknown domains", () => {
+    expect(findUnknownDomains(["finance", "space"], ["finance", "health"])).toEqual(["space"]);
+    expect(findUnknownDomains(["finance"], new Set(["finance"]))).toEqual([]);
+  });
+
+  it("fails fast on invalid input", () => {
+    expect(() => assertRelatedDomains(["Finance"])).toThrow("Invalid related domains");
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * RelatedDomains value object.
+ * Slugs of the industry domains a service applies to, e.g. ["energy-infrastructure", "finance"].
+ * May be empty; entries are valid slugs and unique.
+ */
+import type { Slug } from "../Slug";
+import { isUniqueSlugList } from "../Slug";
+
+export type RelatedDomains = readonly Slug[];
+
+export function isValidRelatedDomains(value: unknown): value is RelatedDomains {
+  return isUniqueSlugList(value);
+}
+
+/**
+ * Slugs that do not name one of the known domains
+ * Used to catch references to domains that were renamed or removed
+ */
+export function findUnknownDomains(related: RelatedDomains, knownSlugs: Iterable<Slug>): Slug[] {
+  const known = new Set(knownSlugs);
+  return related.filter((slug) => !known.has(slug));
+}
+
+/**
+ * Returns valid related domains or throws (fail-fast).
+ * Useful at boundaries (mappers/adapters).
+ */
+export function assertRelatedDomains(value: unknown, errorMessage = "Invalid related domains"): RelatedDomains {
+  if (!isValidRelatedDomains(value)) throw new Error(errorMessage);
+  return value;
+}
@@ -0,0 +1,2 @@
+export type { RelatedDomains } from "./RelatedDomains";
+export { isValidRelatedDomains, findUnknownDomains, assertRelatedDomains } from "./RelatedDomains";
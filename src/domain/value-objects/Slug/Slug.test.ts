@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { isValidSlug, toSlug } from "./Slug";
+import { isUniqueSlugList, isValidSlug, toSlug } from "./Slug";
 
 describe("Slug value object", () => {
   it("validates common slug formats", () => {
@@ -16,10 +16,25 @@ describe("Slug value object", () => {
     expect(isValidSlug("underscore_inside")).toBe(false);
   });
 
+  it("validates lists of unique slugs", () => {
+    expect(isUniqueSlugList([])).toBe(true);
+    expect(isUniqueSlugList(["frame-sprint", "steer-retainer"])).toBe(true);
+
+    expect(isUniqueSlugList(["frame-sprint", "frame-sprint"])).toBe(false);
+    expect(isUniqueSlugList(["Frame Sprint"])).toBe(false);
+    expect(isUniqueSlugList("frame-sprint")).toBe(false);
+  });
+
   it("normalizes strings into slugs", () => {
     expect(toSlug(" How we Work ")).toBe("how-we-work");
     expect(toSlug("Hello_world!!")).toBe("hello-world");
     expect(toSlug("a---b")).toBe("a-b");
     expect(toSlug("  ---  ")).toBe("");
   });
+
+  it("transliterates umlauts and drops accents", () => {
+    expect(toSlug("Energiemärkte & Übertragungsnetze")).toBe("energiemaerkte-uebertragungsnetze");
+    expect(toSlug("Straße")).toBe("strasse");
+    expect(toSlug("Café résumé")).toBe("cafe-resume");
+  });
 });
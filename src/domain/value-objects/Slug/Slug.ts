@@ -11,14 +11,29 @@ export function isValidSlug(value: unknown): value is Slug {
   return typeof value === "string" && SLUG_RE.test(value);
 }
 
+/**
+ * List of slugs referencing entries of one collection, each at most once; may be empty
+ * Examples: ["frame-sprint", "steer-retainer"]
+ */
+export function isUniqueSlugList(value: unknown): value is readonly Slug[] {
+  return Array.isArray(value) && value.every(isValidSlug) && new Set(value).size === value.length;
+}
+
+/** German transliteration, matching the localized route slugs ("ueber-uns", "domaenen") */
+const TRANSLITERATIONS: Record<string, string> = { ä: "ae", ö: "oe", ü: "ue", ß: "ss" };
+
 /**
  * Normalize an input into a slug (best-effort).
- * Useful when generating slugs from titles.
+ * Useful when generating slugs from titles and tags.
+ * Umlauts are transliterated, other accents dropped ("Café Märkte" → "cafe-maerkte").
  */
 export function toSlug(value: string): Slug {
   return value
     .trim()
     .toLowerCase()
+    .replace(/[äöüß]/g, (char) => TRANSLITERATIONS[char] ?? char)
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
     .replace(/[\s_]+/g, "-")
     .replace(/[^a-z0-9-]/g, "")
     .replace(/-+/g, "-")
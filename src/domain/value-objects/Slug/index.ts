@@ -1,2 +1,2 @@
 export type { Slug } from "./Slug";
-export { isValidSlug, toSlug, assertSlug } from "./Slug";
+export { isValidSlug, isUniqueSlugList, toSlug, assertSlug } from "./Slug";
@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { SUMMARY_MAX_LENGTH, assertSummary, isValidSummary } from "./Summary";
+
+describe("Summary value object", () => {
+  it("validates short single-line text", () => {
+    expect(isValidSummary("Fast orientation: dependencies, constraints, priorities.")).toBe(true);
+    expect(isValidSummary("x".repeat(SUMMARY_MAX_LENGTH))).toBe(true);
+
+    expect(isValidSummary("")).toBe(false);
+    expect(isValidSummary(" padded ")).toBe(false);
+    expect(isValidSummary("two\nlines")).toBe(false);
+    expect(isValidSummary("x".repeat(SUMMARY_MAX_LENGTH + 1))).toBe(false);
+    expect(isValidSummary(42)).toBe(false);
+  });
+
+  it("fails fast on invalid input", () => {
+    expect(() => assertSummary("", "Summary required")).toThrow("Summary required");
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Summary value object.
+ * One or two plain-text sentences describing a service, industry domain or insight.
+ * Shown on cards and used as meta description, so it stays short and on one line.
+ */
+export type Summary = string;
+
+/** Fits a meta description without truncation */
+export const SUMMARY_MAX_LENGTH = 200;
+
+export function isValidSummary(value: unknown): value is Summary {
+  return (
+    typeof value === "string" &&
+    value.trim() === value &&
+    value.length > 0 &&
+    value.length <= SUMMARY_MAX_LENGTH &&
+    !/[\r\n]/.test(value)
+  );
+}
+
+/**
+ * Returns a valid summary or throws (fail-fast).
+ * Useful at boundaries (mappers/adapters).
+ */
+export function assertSummary(value: unknown, errorMessage = "Invalid summary"): Summary {
+  if (!isValidSummary(value)) throw new Error(errorMessage);
+  return value;
+}
@@ -0,0 +1,2 @@
+export type { Summary } from "./Summary";
+export { SUMMARY_MAX_LENGTH, isValidSummary, assertSummary } from "./Summary";
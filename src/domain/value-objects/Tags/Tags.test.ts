@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { assertTags, isValidTags, toTagSlug } from "./Tags";
+
+describe("Tags value object", () => {
+  it("derives archive slugs from tags", () => {
+    expect(toTagSlug("Supply chain")).toBe("supply-chain");
+    expect(toTagSlug("Energiemärkte")).toBe("energiemaerkte");
+    expect(toTagSlug("ESG & Audit")).toBe("esg-audit");
+  });
+
+  it("accepts a non-empty list of distinct tags", () => {
+    expect(isValidTags(["Resilience", "Supply chain"])).toBe(true);
+
+    expect(isValidTags([])).toBe(false);
+    expect(isValidTags(["Resilience", ""])).toBe(false);
+    expect(isValidTags([" Resilience"])).toBe(false);
+    expect(isValidTags(["!!!"])).toBe(false);
+    expect(isValidTags("Resilience")).toBe(false);
+  });
+
+  it("rejects tags that share an archive slug", () => {
+    expect(isValidTags(["Supply chain", "supply-chain"])).toBe(false);
+  });
+
+  it("asserts tags at boundaries", () => {
+    expect(assertTags(["Energy"])).toEqual(["Energy"]);
+    expect(() => assertTags([])).toThrow("Invalid tags");
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Tags value object.
+ * Topics of an insight in the language of the post, e.g. ["Supply chain", "Energiemärkte"].
+ * Tag archives are addressed by the slug of a tag, so two tags of a post must not share a slug.
+ */
+import type { Slug } from "../Slug";
+import { toSlug } from "../Slug";
+
+export type Tag = string;
+export type Tags = readonly Tag[];
+
+/**
+ * URL slug of a tag archive
+ *
+ * @example
+ * toTagSlug("Energiemärkte") // "energiemaerkte"
+ */
+export function toTagSlug(tag: Tag): Slug {
+  return toSlug(tag);
+}
+
+const isTag = (value: unknown): value is Tag =>
+  typeof value === "string" && value.trim() === value && toTagSlug(value).length > 0;
+
+export function isValidTags(value: unknown): value is Tags {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(isTag) &&
+    new Set(value.map(toTagSlug)).size === value.length
+  );
+}
+
+/**
+ * Returns valid tags or throws (fail-fast).
+ * Useful at boundaries (mappers/adapters).
+ */
+export function assertTags(value: unknown, errorMessage = "Invalid tags"): Tags {
+  if (!isValidTags(value)) throw new Error(errorMessage);
+  return value;
+}
@@ -0,0 +1,2 @@
+export type { Tag, Tags } from "./Tags";
+export { toTagSlug, isValidTags, assertTags } from "./Tags";
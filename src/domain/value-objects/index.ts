@@ -1,3 +1,12 @@
 export * from "./Locale";
 export * from "./Slug";
 export * from "./Url";
+export * from "./Email";
+export * from "./ContactMessage";
+export * from "./Summary";
+export * from "./Duration";
+export * from "./Deliverables";
+export * from "./RelatedDomains";
+export * from "./OutcomeMetrics";
+export * from "./ReadingTime";
+export * from "./Tags";
@@ -1,2 +1,12 @@
 /// <reference path="../.astro/types.d.ts" />
 /// <reference types="astro/client" />
+
+declare namespace App {
+  interface Locals {
+    /** A contact form post rejected by validation, handed from /api/contact to the contact form page */
+    contactForm?: {
+      values: Partial<Record<import("@/domain").ContactMessageField, string>>;
+      errors: import("@/i18n/contact").LocalizedContactErrors;
+    };
+  }
+}
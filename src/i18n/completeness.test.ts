@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import { checkTranslations, checkContentCollection, createReport, formatReport } from "./completeness";
+
+const options = { locales: ["en", "de", "fr"], defaultLocale: "en" };
+
+describe("checkTranslations", () => {
+  it("should report nothing for complete translations", () => {
+    const translations = {
+      en: { nav: { home: "Home" } },
+      de: { nav: { home: "Startseite" } },
+      fr: { nav: { home: "Accueil" } },
+    };
+
+    expect(checkTranslations(translations, options)).toEqual([]);
+  });
+
+  it("should report missing and extra keys", () => {
+    const translations = {
+      en: { nav: { home: "Home", about: "About" } },
+      de: { nav: { home: "Startseite", team: "Team" } },
+      fr: { nav: { home: "Accueil", about: "À propos" } },
+    };
+
+    expect(checkTranslations(translations, options)).toEqual([
+      expect.objectContaining({ severity: "error", kind: "missing-key", locale: "de", path: "nav.about" }),
+      expect.objectContaining({ severity: "error", kind: "extra-key", locale: "de", path: "nav.team" }),
+    ]);
+  });
+
+  it("should report locales without translations", () => {
+    const issues = checkTranslations({ en: {}, de: {} }, options);
+
+    expect(issues).toEqual([expect.objectContaining({ kind: "missing-entry", locale: "fr" })]);
+  });
+
+  it("should report messages with different ICU arguments", () => {
+    const translations = {
+      en: { footer: { copyright: "© {year} GlobalCore" } },
+      de: { footer: { copyright: "© {jahr} GlobalCore" } },
+      fr: { footer: { copyright: "© {year} GlobalCore" } },
+    };
+
+    expect(checkTranslations(translations, options)).toEqual([
+      expect.objectContaining({
+        severity: "error",
+        kind: "argument-mismatch",
+        locale: "de",
+        message: "Message arguments: jahr, en has year",
+      }),
+      expect.objectContaining({ kind: "untranslated", locale: "fr" }),
+    ]);
+  });
+
+  it("should warn about values identical to the default locale", () => {
+    const translations = {
+      en: { ui: { loading: "Loading..." } },
+      de: { ui: { loading: "Wird geladen..." } },
+      fr: { ui: { loading: "Loading..." } },
+    };
+
+    expect(checkTranslations(translations, options)).toEqual([
+      expect.objectContaining({ severity: "warning", kind: "untranslated", locale: "fr", path: "ui.loading" }),
+    ]);
+  });
+});
+
+describe("checkContentCollection", () => {
+  const home = {
+    sections: [
+      { type: "cards", id: "services", title: "Services", items: [{ title: "A" }, { title: "B" }] },
+      { type: "ctaStrip", id: "cta", title: "Ready?", primary: { label: "Contact", href: "/contact" } },
+    ],
+  };
+
+  it("should report missing locale files", () => {
+    const issues = checkContentCollection("hero", { en: { home: {}, about: {} }, de: { home: {} } }, options);
+
+    expect(issues).toEqual([
+      expect.objectContaining({
+        kind: "missing-entry",
+        locale: "de",
+        path: "about",
+        message: expect.stringContaining("hero/de/about"),
+      }),
+      expect.objectContaining({ kind: "missing-entry", locale: "fr", path: "home" }),
+      expect.objectContaining({ kind: "missing-entry", locale: "fr", path: "about" }),
+    ]);
+  });
+
+  it("should report structural drift in arrays", () => {
+    const de = {
+      sections: [
+        { type: "cards", id: "services", title: "Leistungen", items: [{ title: "A1" }] },
+        { type: "ctaStrip", id: "cta", title: "Bereit?", primary: { label: "Kontakt", href: "/de/kontakt" } },
+      ],
+    };
+
+    const issues = checkContentCollection(
+      "pageSections",
+      { en: { home }, de: { home: de } },
+      { ...options, locales: ["en", "de"] }
+    );
+
+    expect(issues).toEqual([
+      expect.objectContaining({ severity: "error", kind: "length-mismatch", path: "home.sections[0].items" }),
+    ]);
+  });
+
+  it("should report type mismatches", () => {
+    const issues = checkContentCollection(
+      "seo",
+      { en: { home: { title: "Home" } }, de: { home: { title: ["Start"] } } },
+      { ...options, locales: ["en", "de"] }
+    );
+
+    expect(issues).toEqual([expect.objectContaining({ kind: "type-mismatch", path: "home.title" })]);
+  });
+
+  it("should not treat identifiers and URLs as untranslated", () => {
+    const issues = checkContentCollection(
+      "pageSections",
+      { en: { home }, de: { home } },
+      { ...options, locales: ["en", "de"] }
+    );
+
+    expect(issues.map((entry) => entry.path)).toEqual([
+      "home.sections[0].title",
+      "home.sections[0].items[0].title",
+      "home.sections[0].items[1].title",
+      "home.sections[1].title",
+      "home.sections[1].primary.label",
+    ]);
+  });
+
+  it("should only compare shared entries of collections published per locale", () => {
+    const issues = checkContentCollection(
+      "insights",
+      {
+        en: { "decision-logs": { title: "Decision logs", body: "Text" }, "en-only": { title: "Only in English" } },
+        de: { "decision-logs": { title: "Entscheidungsprotokolle" }, "de-only": { title: "Nur auf Deutsch" } },
+      },
+      { ...options, locales: ["en", "de"], perLocaleEntries: true }
+    );
+
+    expect(issues).toEqual([expect.objectContaining({ kind: "missing-key", path: "decision-logs.body" })]);
+  });
+
+  it("should compare single-entry collections", () => {
+    const issues = checkContentCollection(
+      "company",
+      { en: { "": { name: "GlobalCore", description: "Consulting" } }, de: { "": { name: "GlobalCore" } } },
+      { ...options, locales: ["en", "de"] }
+    );
+
+    expect(issues).toEqual([
+      expect.objectContaining({ kind: "untranslated", path: "name" }),
+      expect.objectContaining({ kind: "missing-key", path: "description" }),
+    ]);
+  });
+});
+
+describe("report", () => {
+  it("should count errors and warnings", () => {
+    const issues = checkTranslations({ en: { a: "A", b: "B" }, de: { a: "A" }, fr: { a: "Á", b: "Ḃ" } }, options);
+
+    expect(createReport(issues)).toMatchObject({ errorCount: 1, warningCount: 1 });
+  });
+
+  it("should format issues grouped by source and locale", () => {
+    const report = createReport(checkTranslations({ en: { a: "A" }, de: {}, fr: { a: "Á" } }, options));
+
+    expect(formatReport(report)).toBe(
+      ["translations [de]", "  ✗ a: Missing key (present in en)", "", "1 error(s), 0 warning(s)"].join("\n")
+    );
+  });
+
+  it("should confirm complete locales", () => {
+    expect(formatReport(createReport([]))).toBe("✓ All locales are complete.");
+  });
+});
@@ -0,0 +1,356 @@
+import { getMessageArguments, MessageSyntaxError } from "./message";
+
+/**
+ * Translation & content completeness checks
+ *
+ * Compares every locale against the default locale:
+ * - missing keys / locale files (error)
+ * - structural drift: different value types or array lengths, extra keys (error)
+ * - UI messages whose ICU arguments differ from the default locale (error)
+ * - untranslated values: strings identical to the default locale (warning)
+ *
+ * Pure functions over plain data; `scripts/check-i18n.mjs` loads translations and content and prints the report.
+ */
+
+export type IssueSeverity = "error" | "warning";
+
+export type IssueKind =
+  | "missing-key"
+  | "extra-key"
+  | "missing-entry"
+  | "extra-entry"
+  | "type-mismatch"
+  | "length-mismatch"
+  | "argument-mismatch"
+  | "untranslated";
+
+export interface CompletenessIssue {
+  severity: IssueSeverity;
+  kind: IssueKind;
+  /** "translations" or the content collection name */
+  source: string;
+  locale: string;
+  /** Key path, e.g. "nav.home" or "home.sections[1].items" */
+  path: string;
+  message: string;
+}
+
+export interface CompletenessReport {
+  issues: CompletenessIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+export interface LocaleOptions {
+  locales: readonly string[];
+  defaultLocale: string;
+}
+
+export interface CollectionOptions extends LocaleOptions {
+  /**
+   * Entries are published per locale (markdown posts): an entry missing in a locale is not an issue,
+   * entries that exist in both locales are still compared
+   */
+  perLocaleEntries?: boolean;
+}
+
+/** Entries of a content collection per locale, keyed by entry id ("home" or "" for single-entry collections) */
+export type LocalizedEntries = Record<string, Record<string, unknown>>;
+
+/**
+ * Keys whose values are identifiers, URLs or data rather than copy
+ * Identical values across locales are expected here and not reported as untranslated
+ */
+const NON_TRANSLATABLE_KEYS = new Set([
+  "id",
+  "type",
+  "anchor",
+  "href",
+  "collection",
+  "kind",
+  "relatedDomains",
+  // Slug references to other collections (case studies)
+  "services",
+  "domains",
+  "studies",
+  "canonical",
+  "ogType",
+  "ogImage",
+  "logo",
+  "email",
+  "telephone",
+  "twitterSite",
+  "lastModified",
+  "publishedAt",
+  "updatedAt",
+  "noIndex",
+  "sameAs",
+  "areaServed",
+  "postalCode",
+  "addressCountry",
+]);
+
+const SEVERITY: Record<IssueKind, IssueSeverity> = {
+  "missing-key": "error",
+  "extra-key": "error",
+  "missing-entry": "error",
+  "extra-entry": "error",
+  "type-mismatch": "error",
+  "length-mismatch": "error",
+  "argument-mismatch": "error",
+  untranslated: "warning",
+};
+
+function valueType(value: unknown): string {
+  if (Array.isArray(value)) return "array";
+  if (value === null) return "null";
+  return typeof value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return valueType(value) === "object";
+}
+
+function joinPath(parent: string, key: string | number): string {
+  if (typeof key === "number") return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+/** Name of the closest object key in a path ("items[2].href" → "href", "sameAs[0]" → "sameAs") */
+function lastKey(path: string): string {
+  return (
+    path
+      .replace(/\[\d+\]/g, "")
+      .split(".")
+      .pop() ?? ""
+  );
+}
+
+/** Argument names of a message, or the syntax error */
+function messageArguments(message: string): string {
+  try {
+    return getMessageArguments(message).join(", ") || "none";
+  } catch (error) {
+    return error instanceof MessageSyntaxError ? "invalid syntax" : "unknown";
+  }
+}
+
+function issue(kind: IssueKind, source: string, locale: string, path: string, message: string): CompletenessIssue {
+  return { severity: SEVERITY[kind], kind, source, locale, path, message };
+}
+
+/**
+ * Recursively compare a locale value with the default locale value
+ */
+function compareValues(
+  expected: unknown,
+  actual: unknown,
+  context: { source: string; locale: string; defaultLocale: string; path: string; messages?: boolean }
+): CompletenessIssue[] {
+  const { source, locale, defaultLocale, path } = context;
+  const expectedType = valueType(expected);
+  const actualType = valueType(actual);
+
+  if (expectedType !== actualType) {
+    return [
+      issue(
+        "type-mismatch",
+        source,
+        locale,
+        path,
+        `Expected ${expectedType} (as in ${defaultLocale}), got ${actualType}`
+      ),
+    ];
+  }
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const issues: CompletenessIssue[] = [];
+
+    if (expected.length !== actual.length) {
+      issues.push(
+        issue(
+          "length-mismatch",
+          source,
+          locale,
+          path,
+          `Has ${actual.length} items, ${defaultLocale} has ${expected.length}`
+        )
+      );
+    }
+
+    const length = Math.min(expected.length, actual.length);
+    for (let index = 0; index < length; index++) {
+      issues.push(...compareValues(expected[index], actual[index], { ...context, path: joinPath(path, index) }));
+    }
+
+    return issues;
+  }
+
+  if (isRecord(expected) && isRecord(actual)) {
+    const issues: CompletenessIssue[] = [];
+
+    for (const key of Object.keys(expected)) {
+      const keyPath = joinPath(path, key);
+      if (!(key in actual)) {
+        issues.push(issue("missing-key", source, locale, keyPath, `Missing key (present in ${defaultLocale})`));
+        continue;
+      }
+      issues.push(...compareValues(expected[key], actual[key], { ...context, path: keyPath }));
+    }
+
+    for (const key of Object.keys(actual)) {
+      if (!(key in expected)) {
+        issues.push(
+          issue("extra-key", source, locale, joinPath(path, key), `Unexpected key (not in ${defaultLocale})`)
+        );
+      }
+    }
+
+    return issues;
+  }
+
+  if (context.messages && typeof expected === "string" && typeof actual === "string") {
+    const expectedArguments = messageArguments(expected);
+    const actualArguments = messageArguments(actual);
+
+    if (expectedArguments !== actualArguments) {
+      return [
+        issue(
+          "argument-mismatch",
+          source,
+          locale,
+          path,
+          `Message arguments: ${actualArguments}, ${defaultLocale} has ${expectedArguments}`
+        ),
+      ];
+    }
+  }
+
+  if (typeof expected === "string" && expected === actual && expected.trim() !== "") {
+    if (!NON_TRANSLATABLE_KEYS.has(lastKey(path))) {
+      return [issue("untranslated", source, locale, path, `Identical to ${defaultLocale}: "${expected}"`)];
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Compare the UI translations of every locale with the default locale
+ * Messages must also use the same ICU arguments ({year}, {count, plural, …})
+ *
+ * @example
+ * checkTranslations(translations, { locales: ["en", "de"], defaultLocale: "en" })
+ */
+export function checkTranslations(
+  translations: Record<string, unknown>,
+  { locales, defaultLocale }: LocaleOptions
+): CompletenessIssue[] {
+  const source = "translations";
+
+  return locales
+    .filter((locale) => locale !== defaultLocale)
+    .flatMap((locale) =>
+      locale in translations
+        ? compareValues(translations[defaultLocale], translations[locale], {
+            source,
+            locale,
+            defaultLocale,
+            path: "",
+            messages: true,
+          })
+        : [issue("missing-entry", source, locale, "", `No translations for locale "${locale}"`)]
+    );
+}
+
+/**
+ * Compare the entries of a content collection across locales
+ * Every entry of the default locale must exist in every locale with the same structure
+ * (unless `perLocaleEntries` is set)
+ *
+ * @param collection - Collection name (used in issue reports)
+ * @param entries - Entries per locale, e.g. { en: { home: {...} }, de: { home: {...} } }
+ */
+export function checkContentCollection(
+  collection: string,
+  entries: LocalizedEntries,
+  { locales, defaultLocale, perLocaleEntries = false }: CollectionOptions
+): CompletenessIssue[] {
+  const defaultEntries = entries[defaultLocale] ?? {};
+  const entryLabel = (locale: string, id: string) => [collection, locale, id].filter(Boolean).join("/");
+
+  return locales
+    .filter((target) => target !== defaultLocale)
+    .flatMap((target) => {
+      const targetEntries = entries[target] ?? {};
+      const issues: CompletenessIssue[] = [];
+
+      for (const [id, expected] of Object.entries(defaultEntries)) {
+        if (!(id in targetEntries)) {
+          if (perLocaleEntries) continue;
+          issues.push(
+            issue(
+              "missing-entry",
+              collection,
+              target,
+              id,
+              `Missing ${entryLabel(target, id)} (present in ${defaultLocale})`
+            )
+          );
+          continue;
+        }
+        issues.push(
+          ...compareValues(expected, targetEntries[id], { source: collection, locale: target, defaultLocale, path: id })
+        );
+      }
+
+      for (const id of Object.keys(targetEntries)) {
+        if (!(id in defaultEntries) && !perLocaleEntries) {
+          issues.push(
+            issue(
+              "extra-entry",
+              collection,
+              target,
+              id,
+              `Unexpected ${entryLabel(target, id)} (not in ${defaultLocale})`
+            )
+          );
+        }
+      }
+
+      return issues;
+    });
+}
+
+/**
+ * Summarize issues into a report
+ */
+export function createReport(issues: CompletenessIssue[]): CompletenessReport {
+  return {
+    issues,
+    errorCount: issues.filter((entry) => entry.severity === "error").length,
+    warningCount: issues.filter((entry) => entry.severity === "warning").length,
+  };
+}
+
+/**
+ * Human-readable report, grouped by source and locale
+ */
+export function formatReport(report: CompletenessReport): string {
+  if (report.issues.length === 0) return "✓ All locales are complete.";
+
+  const groups = new Map<string, CompletenessIssue[]>();
+  for (const entry of report.issues) {
+    const key = `${entry.source} [${entry.locale}]`;
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+
+  const lines = [...groups].flatMap(([heading, issues]) => [
+    heading,
+    ...issues.map((entry) => `  ${entry.severity === "error" ? "✗" : "!"} ${entry.path || "(root)"}: ${entry.message}`),
+    "",
+  ]);
+
+  lines.push(`${report.errorCount} error(s), ${report.warningCount} warning(s)`);
+  return lines.join("\n");
+}
@@ -1,6 +1,11 @@
-import type { Locale } from "@/domain";
-import { DEFAULT_LOCALE, SUPPORTED_LOCALES } from "@/domain";
+// Relative import: astro.config.mjs loads this file before the "@/" path alias is available
+import type { Locale } from "../domain/value-objects/Locale";
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES } from "../domain/value-objects/Locale";
 
+/**
+ * Single source of truth for locales
+ * Adding a language: extend SUPPORTED_LOCALES (domain), the maps below and translations.ts
+ */
 export const i18nConfig = {
   defaultLocale: DEFAULT_LOCALE,
   locales: [...SUPPORTED_LOCALES],
@@ -10,15 +15,28 @@ export const i18nConfig = {
     prefixDefaultLocale: false, // EN has no prefix
   },
 
-  // Locale display names
+  // Locale display names (in their own language, for the language switcher)
   localeNames: {
     en: "English",
     de: "Deutsch",
   } satisfies Record<Locale, string>,
 
-  // Date formatting
+  // Open Graph locales (og:locale, og:locale:alternate)
+  ogLocales: {
+    en: "en_US",
+    de: "de_DE",
+  } satisfies Record<Locale, string>,
+
+  // Date formatting: BCP 47 tags for Intl, also used for numbers, relative time and plural rules (see ./formatters.ts)
   dateFormats: {
     en: "en-US",
     de: "de-DE",
   } satisfies Record<Locale, string>,
+
+  // Named date formats for formatDate(), shared by all locales (Intl applies the locale's conventions)
+  // Content dates are calendar days parsed as UTC midnight, so they are formatted in UTC
+  namedDateFormats: {
+    short: { dateStyle: "medium", timeZone: "UTC" }, // "Oct 19, 2026" / "19.10.2026"
+    long: { dateStyle: "long", timeZone: "UTC" }, // "October 19, 2026" / "19. Oktober 2026"
+  } satisfies Record<string, Intl.DateTimeFormatOptions>,
 } as const;
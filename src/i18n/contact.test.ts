@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { localizeContactErrors } from "./contact";
+
+describe("localizeContactErrors", () => {
+  it("should localize each field error", () => {
+    expect(localizeContactErrors("en", { name: "required", email: "invalidEmail" })).toEqual({
+      name: "This field is required.",
+      email: "Please enter a valid email address.",
+    });
+    expect(localizeContactErrors("de", { email: "invalidEmail" })).toEqual({
+      email: "Bitte geben Sie eine gültige E-Mail-Adresse ein.",
+    });
+  });
+
+  it("should use the consent message for the consent field", () => {
+    expect(localizeContactErrors("en", { consent: "required" })).toEqual({
+      consent: "Please confirm that we may use your details.",
+    });
+  });
+});
@@ -0,0 +1,32 @@
+import type {
+  ContactMessageError,
+  ContactMessageErrors,
+  ContactMessageField,
+} from "../domain/value-objects/ContactMessage";
+import type { Locale } from "../domain/value-objects/Locale";
+import { t } from "./translations";
+
+/** Localized message per rejected contact form field */
+export type LocalizedContactErrors = Partial<Record<ContactMessageField, string>>;
+
+const ERROR_MESSAGE_KEYS = {
+  required: "errorRequired",
+  invalidEmail: "errorInvalidEmail",
+  tooShort: "errorTooShort",
+  tooLong: "errorTooLong",
+} as const satisfies Record<ContactMessageError, string>;
+
+/**
+ * Localized messages for the contact form's validation errors
+ *
+ * @example
+ * localizeContactErrors("en", { email: "invalidEmail" }) // { email: "Please enter a valid email address." }
+ */
+export function localizeContactErrors(locale: Locale, errors: ContactMessageErrors): LocalizedContactErrors {
+  return Object.fromEntries(
+    Object.entries(errors).map(([field, error]) => [
+      field,
+      field === "consent" ? t(locale, "contact", "errorConsent") : t(locale, "contact", ERROR_MESSAGE_KEYS[error]),
+    ])
+  );
+}
@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { formatDuration } from "./duration";
+
+describe("formatDuration", () => {
+  it("should format week ranges", () => {
+    expect(formatDuration("en", { kind: "weeks", min: 2, max: 3 })).toBe("2–3 weeks");
+    expect(formatDuration("de", { kind: "weeks", min: 6, max: 8 })).toBe("6–8 Wochen");
+  });
+
+  it("should use the plural form for a fixed number of weeks", () => {
+    expect(formatDuration("en", { kind: "weeks", min: 1, max: 1 })).toBe("1 week");
+    expect(formatDuration("de", { kind: "weeks", min: 4, max: 4 })).toBe("4 Wochen");
+  });
+
+  it("should format open-ended engagements", () => {
+    expect(formatDuration("en", { kind: "ongoing" })).toBe("Ongoing");
+    expect(formatDuration("de", { kind: "ongoing" })).toBe("Fortlaufend");
+  });
+});
@@ -0,0 +1,17 @@
+import type { Duration } from "../domain/value-objects/Duration";
+import type { Locale } from "../domain/value-objects/Locale";
+import { t } from "./translations";
+
+/**
+ * Localized text for a Duration value object
+ *
+ * @example
+ * formatDuration("en", { kind: "weeks", min: 2, max: 3 }) // "2–3 weeks"
+ * formatDuration("de", { kind: "weeks", min: 1, max: 1 }) // "1 Woche"
+ * formatDuration("de", { kind: "ongoing" })               // "Fortlaufend"
+ */
+export function formatDuration(locale: Locale, duration: Duration): string {
+  if (duration.kind === "ongoing") return t(locale, "detail", "durationOngoing");
+  if (duration.min === duration.max) return t(locale, "detail", "durationWeeks", { weeks: duration.min });
+  return t(locale, "detail", "durationWeekRange", { min: duration.min, max: duration.max });
+}
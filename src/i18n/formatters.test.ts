@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { formatDate, formatNumber, formatRelativeTime, getIntlLocale } from "./formatters";
+
+const date = new Date("2026-10-19T12:00:00Z");
+
+describe("formatters", () => {
+  it("should map locales to Intl locale tags", () => {
+    expect(getIntlLocale("en")).toBe("en-US");
+    expect(getIntlLocale("de")).toBe("de-DE");
+  });
+
+  describe("formatDate", () => {
+    it("should format dates per locale", () => {
+      expect(formatDate("en", date, { dateStyle: "long", timeZone: "UTC" })).toBe("October 19, 2026");
+      expect(formatDate("de", date, { dateStyle: "long", timeZone: "UTC" })).toBe("19. Oktober 2026");
+    });
+
+    it("should use the named formats of i18nConfig.namedDateFormats", () => {
+      expect(formatDate("en", date, "long")).toBe("October 19, 2026");
+      expect(formatDate("de", date, "short")).toBe("19.10.2026");
+      // Calendar days from content are not shifted by the build machine's time zone
+      expect(formatDate("en", new Date("2026-10-19"), "short")).toBe("Oct 19, 2026");
+    });
+
+    it("should accept ISO strings", () => {
+      expect(formatDate("de", "2026-10-19", { timeZone: "UTC" })).toBe("19.10.2026");
+    });
+  });
+
+  describe("formatNumber", () => {
+    it("should format numbers per locale", () => {
+      expect(formatNumber("en", 1234.5)).toBe("1,234.5");
+      expect(formatNumber("de", 1234.5)).toBe("1.234,5");
+      expect(formatNumber("en", 0.25, { style: "percent" })).toBe("25%");
+    });
+  });
+
+  describe("formatRelativeTime", () => {
+    it("should pick the largest fitting unit", () => {
+      expect(formatRelativeTime("en", new Date("2026-10-16T12:00:00Z"), date)).toBe("3 days ago");
+      expect(formatRelativeTime("en", new Date("2026-10-19T14:30:00Z"), date)).toBe("in 3 hours");
+      expect(formatRelativeTime("de", new Date("2026-10-20T12:00:00Z"), date)).toBe("morgen");
+    });
+
+    it("should handle the current moment", () => {
+      expect(formatRelativeTime("en", date, date)).toBe("now");
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import type { Locale } from "../domain/value-objects/Locale";
+import { i18nConfig } from "./config";
+
+/**
+ * Locale-aware formatting helpers
+ * Thin wrappers around Intl using the BCP 47 tag from i18nConfig.dateFormats
+ */
+
+/** Name of a date format in i18nConfig.namedDateFormats */
+export type DateFormat = keyof typeof i18nConfig.namedDateFormats;
+
+/** BCP 47 tag for Intl APIs */
+export function getIntlLocale(locale: Locale): string {
+  return i18nConfig.dateFormats[locale];
+}
+
+/**
+ * Format a date with a named format from i18nConfig.namedDateFormats or explicit Intl options
+ *
+ * @example
+ * formatDate("de", new Date("2026-10-19"), "long")                 // "19. Oktober 2026"
+ * formatDate("en", new Date("2026-10-19"), { dateStyle: "short" }) // "10/19/26"
+ */
+export function formatDate(
+  locale: Locale,
+  date: Date | string | number,
+  format: DateFormat | Intl.DateTimeFormatOptions = { dateStyle: "medium" }
+): string {
+  const options = typeof format === "string" ? i18nConfig.namedDateFormats[format] : format;
+  return new Intl.DateTimeFormat(getIntlLocale(locale), options).format(new Date(date));
+}
+
+/**
+ * Format a number
+ *
+ * @example
+ * formatNumber("de", 1234.5)                                        // "1.234,5"
+ * formatNumber("en", 0.25, { style: "percent" })                    // "25%"
+ * formatNumber("de", 1500, { style: "currency", currency: "EUR" }) // "1.500,00 €"
+ */
+export function formatNumber(locale: Locale, value: number, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(getIntlLocale(locale), options).format(value);
+}
+
+const RELATIVE_TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["year", 365 * 24 * 60 * 60],
+  ["month", 30 * 24 * 60 * 60],
+  ["week", 7 * 24 * 60 * 60],
+  ["day", 24 * 60 * 60],
+  ["hour", 60 * 60],
+  ["minute", 60],
+  ["second", 1],
+];
+
+/**
+ * Format a date relative to now, picking the largest fitting unit
+ *
+ * @example
+ * formatRelativeTime("en", new Date(Date.now() - 3 * 86_400_000)) // "3 days ago"
+ * formatRelativeTime("de", tomorrow)                                // "morgen"
+ */
+export function formatRelativeTime(
+  locale: Locale,
+  date: Date | string | number,
+  now: Date = new Date(),
+  options: Intl.RelativeTimeFormatOptions = { numeric: "auto" }
+): string {
+  const seconds = (new Date(date).getTime() - now.getTime()) / 1000;
+  const [unit, unitSeconds] =
+    RELATIVE_TIME_UNITS.find(([, size]) => Math.abs(seconds) >= size) ?? (["second", 1] as const);
+
+  return new Intl.RelativeTimeFormat(getIntlLocale(locale), options).format(Math.round(seconds / unitSeconds), unit);
+}
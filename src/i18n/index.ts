@@ -1,2 +1,7 @@
 export * from "./config";
 export * from "./translations";
+export * from "./seo";
+export * from "./links";
+export * from "./duration";
+export * from "./insights";
+export * from "./contact";
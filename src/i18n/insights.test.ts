@@ -0,0 +1,17 @@
+import { describe, it, expect } from "vitest";
+import { buildInsightPath, buildInsightsFeedPath, buildInsightsPath, buildInsightTagPath } from "./insights";
+
+describe("insight paths", () => {
+  it("should build listing pages, page 1 being the route itself", () => {
+    expect(buildInsightsPath("en")).toBe("/insights");
+    expect(buildInsightsPath("en", 1)).toBe("/insights");
+    expect(buildInsightsPath("de", 3)).toBe("/de/einblicke/page/3");
+  });
+
+  it("should build post, tag archive and feed paths below the localized route", () => {
+    expect(buildInsightPath("de", "grid-stress-tests")).toBe("/de/einblicke/grid-stress-tests");
+    expect(buildInsightTagPath("en", "supply-chain")).toBe("/insights/tags/supply-chain");
+    expect(buildInsightsFeedPath("en")).toBe("/insights/rss.xml");
+    expect(buildInsightsFeedPath("de")).toBe("/de/einblicke/rss.xml");
+  });
+});
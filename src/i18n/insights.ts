@@ -0,0 +1,50 @@
+import type { Locale } from "../domain/value-objects/Locale";
+import type { Slug } from "../domain/value-objects/Slug";
+import { buildPath } from "./translations";
+
+/**
+ * Paths of the insights blog, all below the localized `insights` route
+ *
+ * The extra segments ("page", "tags") are the same in every locale, like detail slugs.
+ */
+
+/**
+ * Listing page; page 1 is the route itself
+ *
+ * @example
+ * buildInsightsPath("en")    // "/insights"
+ * buildInsightsPath("de", 2) // "/de/einblicke/page/2"
+ */
+export function buildInsightsPath(locale: Locale, page = 1): string {
+  return page > 1 ? buildPath("insights", locale, `page/${page}`) : buildPath("insights", locale);
+}
+
+/**
+ * Post page
+ *
+ * @example
+ * buildInsightPath("de", "grid-stress-tests") // "/de/einblicke/grid-stress-tests"
+ */
+export function buildInsightPath(locale: Locale, slug: Slug): string {
+  return buildPath("insights", locale, slug);
+}
+
+/**
+ * Tag archive, addressed by the tag's slug (see toTagSlug)
+ *
+ * @example
+ * buildInsightTagPath("en", "supply-chain") // "/insights/tags/supply-chain"
+ */
+export function buildInsightTagPath(locale: Locale, tagSlug: Slug): string {
+  return buildPath("insights", locale, `tags/${tagSlug}`);
+}
+
+/**
+ * RSS feed of the locale's posts
+ *
+ * @example
+ * buildInsightsFeedPath("de") // "/de/einblicke/rss.xml"
+ */
+export function buildInsightsFeedPath(locale: Locale): string {
+  return buildPath("insights", locale, "rss.xml");
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { isContentHref, parseRouteLink, resolveHref } from "./links";
+
+describe("parseRouteLink", () => {
+  it("should read the route key and anchor", () => {
+    expect(parseRouteLink("route:services#frame-sprint")).toEqual({ routeKey: "services", anchor: "frame-sprint" });
+  });
+
+  it("should omit an empty anchor", () => {
+    expect(parseRouteLink("route:home")).toEqual({ routeKey: "home" });
+    expect(parseRouteLink("route:about#")).toEqual({ routeKey: "about" });
+  });
+
+  it("should read a detail slug", () => {
+    expect(parseRouteLink("route:services/frame-sprint#deliverables")).toEqual({
+      routeKey: "services",
+      child: "frame-sprint",
+      anchor: "deliverables",
+    });
+  });
+
+  it("should return null for invalid detail slugs", () => {
+    expect(parseRouteLink("route:services/Frame Sprint")).toBeNull();
+    expect(parseRouteLink("route:services/a/b")).toBeNull();
+  });
+
+  it("should return null for unknown routes and other hrefs", () => {
+    expect(parseRouteLink("route:servics")).toBeNull();
+    expect(parseRouteLink("/services")).toBeNull();
+    expect(parseRouteLink("https://example.com")).toBeNull();
+  });
+});
+
+describe("isContentHref", () => {
+  it.each(["route:contact", "route:domains#health", "/services", "https://example.com/page"])(
+    "should accept %s",
+    (href) => {
+      expect(isContentHref(href)).toBe(true);
+    }
+  );
+
+  it.each(["route:unknown", "javascript:alert(1)", "//evil.com", "services", "https://example.com/with space"])(
+    "should reject %s",
+    (href) => {
+      expect(isContentHref(href)).toBe(false);
+    }
+  );
+});
+
+describe("resolveHref", () => {
+  it("should build the localized path with the anchor", () => {
+    expect(resolveHref("route:services#frame-sprint", "en")).toBe("/services#frame-sprint");
+    expect(resolveHref("route:services#frame-sprint", "de")).toBe("/de/dienstleistungen#frame-sprint");
+  });
+
+  it("should resolve detail pages", () => {
+    expect(resolveHref("route:domains/finance", "en")).toBe("/domains/finance");
+    expect(resolveHref("route:domains/finance", "de")).toBe("/de/domaenen/finance");
+  });
+
+  it("should resolve the home route", () => {
+    expect(resolveHref("route:home", "en")).toBe("/");
+    expect(resolveHref("route:home", "de")).toBe("/de");
+  });
+
+  it("should return other hrefs unchanged", () => {
+    expect(resolveHref("https://example.com", "de")).toBe("https://example.com");
+    expect(resolveHref("/de/kontakt", "de")).toBe("/de/kontakt");
+  });
+
+  it("should throw for unknown routes", () => {
+    expect(() => resolveHref("route:servics", "en")).toThrow('Invalid route link "route:servics"');
+  });
+});
@@ -0,0 +1,81 @@
+import type { Locale } from "../domain/value-objects/Locale";
+import { isValidSlug } from "../domain/value-objects/Slug";
+import { isValidUrl } from "../domain/value-objects/Url";
+import { buildPath, getRouteKeys } from "./translations";
+import type { RouteKey } from "./translations";
+
+/**
+ * Locale-independent links for content
+ *
+ * Content refers to pages by route key instead of localized path: `route:services#frame-sprint`
+ * renders as /services#frame-sprint (EN) and /de/dienstleistungen#frame-sprint (DE),
+ * so renaming a slug in `translations.routes` cannot break content.
+ * Detail pages add their slug after the route key: `route:services/frame-sprint`.
+ */
+
+export const ROUTE_LINK_PREFIX = "route:";
+
+export interface RouteLink {
+  routeKey: RouteKey;
+  /** Slug of a detail page below the route */
+  child?: string;
+  /** Fragment without "#" */
+  anchor?: string;
+}
+
+/**
+ * Parse a symbolic link
+ *
+ * @returns The parts of the link, or null when href is not a `route:` link, names an unknown route
+ * or has an invalid detail slug
+ *
+ * @example
+ * parseRouteLink("route:services#frame-sprint") // { routeKey: "services", anchor: "frame-sprint" }
+ * parseRouteLink("route:services/frame-sprint") // { routeKey: "services", child: "frame-sprint" }
+ * parseRouteLink("route:home")                  // { routeKey: "home" }
+ * parseRouteLink("/services")                   // null
+ */
+export function parseRouteLink(href: string): RouteLink | null {
+  if (!href.startsWith(ROUTE_LINK_PREFIX)) return null;
+
+  const [target, anchor] = href.slice(ROUTE_LINK_PREFIX.length).split("#", 2);
+  const [routeKey, child, ...rest] = target.split("/");
+
+  if (!getRouteKeys().includes(routeKey as RouteKey)) return null;
+  if (rest.length > 0 || (child !== undefined && !isValidSlug(child))) return null;
+
+  return {
+    routeKey: routeKey as RouteKey,
+    ...(child && { child }),
+    ...(anchor && { anchor }),
+  };
+}
+
+/**
+ * True for hrefs content may use: a `route:` link to a known route, an internal path or an absolute http(s) URL
+ * Unknown `route:` keys fail here, so typos surface when content is loaded
+ */
+export function isContentHref(href: string): boolean {
+  return href.startsWith(ROUTE_LINK_PREFIX) ? parseRouteLink(href) !== null : isValidUrl(href);
+}
+
+/**
+ * Resolve a content href for a locale
+ * `route:` links become localized paths; other hrefs are returned unchanged
+ *
+ * @throws Error for `route:` links to unknown routes (content validation rejects them earlier)
+ *
+ * @example
+ * resolveHref("route:services#frame-sprint", "de") // "/de/dienstleistungen#frame-sprint"
+ * resolveHref("route:domains/finance", "de")       // "/de/domaenen/finance"
+ * resolveHref("https://example.com", "de")         // "https://example.com"
+ */
+export function resolveHref(href: string, locale: Locale): string {
+  if (!href.startsWith(ROUTE_LINK_PREFIX)) return href;
+
+  const link = parseRouteLink(href);
+  if (!link) throw new Error(`Invalid route link "${href}"`);
+
+  const path = buildPath(link.routeKey, locale, link.child);
+  return link.anchor ? `${path}#${link.anchor}` : path;
+}
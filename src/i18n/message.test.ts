@@ -0,0 +1,86 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { formatMessage, getMessageArguments, MessageSyntaxError } from "./message";
+import type { MessageParams, ParamValue } from "./message";
+
+const steps = "{count, plural, =0 {No steps} one {# step} other {# steps}}";
+
+describe("formatMessage", () => {
+  it("should return static messages unchanged", () => {
+    expect(formatMessage("en-US", "Home")).toBe("Home");
+  });
+
+  it("should interpolate arguments", () => {
+    expect(formatMessage("en-US", "© {year} GlobalCore", { year: "2026" })).toBe("© 2026 GlobalCore");
+  });
+
+  it("should format number arguments for the locale", () => {
+    expect(formatMessage("de-DE", "{total} Projekte", { total: 1234 })).toBe("1.234 Projekte");
+  });
+
+  it("should pick plural branches with Intl.PluralRules", () => {
+    expect(formatMessage("en-US", steps, { count: 0 })).toBe("No steps");
+    expect(formatMessage("en-US", steps, { count: 1 })).toBe("1 step");
+    expect(formatMessage("en-US", steps, { count: 1200 })).toBe("1,200 steps");
+    expect(formatMessage("de-DE", "{count, plural, one {# Schritt} other {# Schritte}}", { count: 1200 })).toBe(
+      "1.200 Schritte"
+    );
+  });
+
+  it("should use locale-specific plural categories", () => {
+    const message = "{count, plural, one {one} few {few} many {many} other {other}}";
+
+    expect(formatMessage("pl-PL", message, { count: 3 })).toBe("few");
+    expect(formatMessage("pl-PL", message, { count: 5 })).toBe("many");
+    expect(formatMessage("en-US", message, { count: 3 })).toBe("other");
+  });
+
+  it("should select branches and fall back to other", () => {
+    const message = "{kind, select, article {Read article} other {Open page}}";
+
+    expect(formatMessage("en-US", message, { kind: "article" })).toBe("Read article");
+    expect(formatMessage("en-US", message, { kind: "video" })).toBe("Open page");
+  });
+
+  it("should support arguments nested in branches", () => {
+    const message = "{count, plural, one {# step for {client}} other {# steps for {client}}}";
+
+    expect(formatMessage("en-US", message, { count: 2, client: "ACME" })).toBe("2 steps for ACME");
+  });
+
+  it("should throw on missing parameters at runtime", () => {
+    const params = {} as { year: string };
+
+    expect(() => formatMessage("en-US", "© {year}", params)).toThrow('Missing message parameter "year"');
+  });
+
+  it("should reject invalid syntax", () => {
+    expect(() => formatMessage("en-US", "{count, plural, one {# step}}", { count: 1 })).toThrow(MessageSyntaxError);
+    expect(() => formatMessage("en-US", "{count, ordinal, other {#}}", { count: 1 })).toThrow(
+      'unsupported argument type "ordinal"'
+    );
+    expect(() => formatMessage("en-US", "{name}}" as string, { name: "x" })).toThrow(MessageSyntaxError);
+  });
+});
+
+describe("getMessageArguments", () => {
+  it("should list top-level and nested argument names", () => {
+    expect(getMessageArguments("Home")).toEqual([]);
+    expect(getMessageArguments("{count, plural, one {# in {year}} other {# in {year}}} by {name}")).toEqual([
+      "count",
+      "name",
+      "year",
+    ]);
+  });
+});
+
+describe("MessageParams", () => {
+  it("should derive parameter types from message literals", () => {
+    expectTypeOf<MessageParams<"Home">>().toEqualTypeOf<Record<never, never>>();
+    expectTypeOf<MessageParams<"© {year} GlobalCore">>().toEqualTypeOf<{ year: ParamValue }>();
+    expectTypeOf<MessageParams<typeof steps>>().toEqualTypeOf<{ count: number }>();
+    expectTypeOf<MessageParams<"{kind, select, a {A {name}} other {B}}">>().toEqualTypeOf<{
+      kind: string;
+      name: ParamValue;
+    }>();
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * ICU-style message formatting (subset)
+ *
+ * Supported syntax:
+ * - Arguments:  "© {year} GlobalCore"
+ * - Plural:     "{count, plural, =0 {No steps} one {# step} other {# steps}}"
+ * - Select:     "{kind, select, article {Article} other {Page}}"
+ *
+ * `#` inside a plural branch is the locale-formatted number. Plural categories come from Intl.PluralRules.
+ * Number and Date arguments are formatted for the locale (like ICU), so pass years and IDs as strings.
+ * MessageParams<"..."> derives the parameter object from a message literal, so t() can type-check parameters.
+ */
+
+// ===== Types =====
+
+export type ParamValue = string | number | Date;
+
+type ArgumentPart = { type: "argument"; name: string };
+type PluralPart = { type: "plural"; name: string; options: Record<string, MessagePart[]> };
+type SelectPart = { type: "select"; name: string; options: Record<string, MessagePart[]> };
+type MessagePart = string | ArgumentPart | PluralPart | SelectPart;
+
+type Trim<S extends string> = S extends ` ${infer T}` | `${infer T} ` ? Trim<T> : S;
+
+type ArgumentValue<Kind extends string> = Kind extends "plural" ? number : Kind extends "select" ? string : ParamValue;
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+/** Parser state: "text" (message or branch text) or "options" (between the branches of plural/select) */
+type Mode = "text" | "options";
+
+/** Read an argument after "{": `name}` or `name, kind, options…}` */
+type ParseArgument<S extends string, Stack extends Mode[], Params> = S extends `${infer Head}}${infer After}`
+  ? Head extends `${string},${string}`
+    ? S extends `${infer Name},${infer Kind},${infer Options}`
+      ? ParseMessage<Options, [...Stack, "options"], Params & Record<Trim<Name>, ArgumentValue<Trim<Kind>>>>
+      : Params
+    : ParseMessage<After, Stack, Params & Record<Trim<Head>, ParamValue>>
+  : Params;
+
+type ParseMessage<S extends string, Stack extends Mode[], Params> = S extends `${infer Char}${infer Rest}`
+  ? Stack extends [...infer Outer extends Mode[], infer Top]
+    ? Top extends "text"
+      ? Char extends "{"
+        ? ParseArgument<Rest, Stack, Params>
+        : Char extends "}"
+          ? ParseMessage<Rest, Outer, Params>
+          : ParseMessage<Rest, Stack, Params>
+      : Char extends "{"
+        ? ParseMessage<Rest, [...Stack, "text"], Params>
+        : Char extends "}"
+          ? ParseMessage<Rest, Outer, Params>
+          : ParseMessage<Rest, Stack, Params>
+    : Params
+  : Params;
+
+/**
+ * Parameters of a message literal
+ *
+ * @example
+ * MessageParams<"© {year} GlobalCore">                         // { year: ParamValue }
+ * MessageParams<"{count, plural, one {# step} other {# steps}}"> // { count: number }
+ * MessageParams<"Home">                                         // Record<never, never>
+ */
+export type MessageParams<S extends string> = string extends S
+  ? Record<string, ParamValue>
+  : S extends `${string}{${string}`
+    ? Simplify<ParseMessage<S, ["text"], unknown>>
+    : Record<never, never>;
+
+/** Rest arguments of a formatting function: none for static messages, the params object otherwise */
+export type MessageArgs<S extends string> = keyof MessageParams<S> extends never ? [] : [params: MessageParams<S>];
+
+// ===== Parser =====
+
+export class MessageSyntaxError extends Error {
+  constructor(
+    public readonly source: string,
+    reason: string
+  ) {
+    super(`Invalid message "${source}": ${reason}`);
+    this.name = "MessageSyntaxError";
+  }
+}
+
+const parsedMessages = new Map<string, MessagePart[]>();
+
+function parse(source: string): MessagePart[] {
+  let position = 0;
+
+  const fail = (reason: string): never => {
+    throw new MessageSyntaxError(source, reason);
+  };
+
+  const readUntil = (stops: string): string => {
+    const start = position;
+    while (position < source.length && !stops.includes(source[position])) position++;
+    return source.slice(start, position).trim();
+  };
+
+  function parseText(): MessagePart[] {
+    const parts: MessagePart[] = [];
+    let text = "";
+
+    while (position < source.length && source[position] !== "}") {
+      if (source[position] === "{") {
+        if (text) parts.push(text);
+        text = "";
+        position++;
+        parts.push(parseArgument());
+      } else {
+        text += source[position++];
+      }
+    }
+
+    if (text) parts.push(text);
+    return parts;
+  }
+
+  function parseArgument(): MessagePart {
+    const name = readUntil(",}");
+    if (!name) fail("empty argument");
+
+    if (source[position] === "}") {
+      position++;
+      return { type: "argument", name };
+    }
+
+    position++; // ","
+    const kind = readUntil(",}");
+    if (kind !== "plural" && kind !== "select") return fail(`unsupported argument type "${kind}"`);
+    if (source[position] !== ",") fail(`${kind} argument "${name}" has no options`);
+    position++;
+
+    const options: Record<string, MessagePart[]> = {};
+    for (;;) {
+      const selector = readUntil("{}");
+      if (source[position] === "}") break;
+      if (!selector) fail(`missing selector in "${name}"`);
+      position++; // "{"
+      options[selector] = parseText();
+      if (source[position] !== "}") fail(`unclosed branch "${selector}" in "${name}"`);
+      position++;
+    }
+    position++; // "}" closing the argument
+
+    if (!("other" in options)) fail(`${kind} argument "${name}" needs an "other" branch`);
+    return { type: kind, name, options };
+  }
+
+  const parts = parseText();
+  if (position < source.length) fail(`unexpected "}" at ${position}`);
+  return parts;
+}
+
+function parseCached(source: string): MessagePart[] {
+  let parts = parsedMessages.get(source);
+  if (!parts) {
+    parts = parse(source);
+    parsedMessages.set(source, parts);
+  }
+  return parts;
+}
+
+// ===== Formatting =====
+
+function formatValue(value: ParamValue, locale: string): string {
+  if (typeof value === "number") return new Intl.NumberFormat(locale).format(value);
+  if (value instanceof Date) return new Intl.DateTimeFormat(locale).format(value);
+  return value;
+}
+
+function formatParts(
+  parts: MessagePart[],
+  locale: string,
+  params: Record<string, ParamValue>,
+  pluralValue?: number
+): string {
+  return parts
+    .map((part) => {
+      if (typeof part === "string") {
+        return pluralValue === undefined ? part : part.replaceAll("#", formatValue(pluralValue, locale));
+      }
+
+      if (!(part.name in params)) throw new Error(`Missing message parameter "${part.name}"`);
+      const value = params[part.name];
+
+      if (part.type === "argument") return formatValue(value, locale);
+
+      if (part.type === "plural") {
+        const count = Number(value);
+        const branch = part.options[`=${count}`] ?? part.options[new Intl.PluralRules(locale).select(count)];
+        return formatParts(branch ?? part.options.other, locale, params, count);
+      }
+
+      return formatParts(part.options[String(value)] ?? part.options.other, locale, params, pluralValue);
+    })
+    .join("");
+}
+
+/**
+ * Format an ICU-style message
+ *
+ * @param locale - BCP 47 tag used for plural rules and number/date formatting (e.g. "de-DE")
+ *
+ * @example
+ * formatMessage("en-US", "{count, plural, one {# step} other {# steps}}", { count: 1200 }) // "1,200 steps"
+ */
+export function formatMessage<S extends string>(locale: string, message: S, ...[params]: MessageArgs<S>): string {
+  if (!message.includes("{")) return message;
+  return formatParts(parseCached(message), locale, (params ?? {}) as Record<string, ParamValue>);
+}
+
+/**
+ * Names of the top-level and nested arguments of a message, sorted
+ * Used to check that translations of a message take the same parameters
+ */
+export function getMessageArguments(message: string): string[] {
+  if (!message.includes("{")) return [];
+
+  const names = new Set<string>();
+  const collect = (parts: MessagePart[]) =>
+    parts.forEach((part) => {
+      if (typeof part === "string") return;
+      names.add(part.name);
+      if (part.type !== "argument") Object.values(part.options).forEach(collect);
+    });
+
+  collect(parseCached(message));
+  return [...names].sort();
+}
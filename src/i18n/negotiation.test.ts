@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { parseAcceptLanguage, negotiateLocale, isBot, getLocaleRedirect } from "./negotiation";
+import type { LocaleRedirectRequest } from "./negotiation";
+
+const locales = ["en", "de", "fr"] as const;
+const browser = "Mozilla/5.0 (Macintosh; Intel Mac OS X 14_5) AppleWebKit/605.1.15 (KHTML, like Gecko) Safari/605.1.15";
+
+describe("parseAcceptLanguage", () => {
+  it("should sort ranges by quality and keep header order for ties", () => {
+    expect(parseAcceptLanguage("en;q=0.5, de-AT, de;q=0.9, fr")).toEqual([
+      { tag: "de-at", quality: 1 },
+      { tag: "fr", quality: 1 },
+      { tag: "de", quality: 0.9 },
+      { tag: "en", quality: 0.5 },
+    ]);
+  });
+
+  it("should drop q=0 and malformed ranges", () => {
+    expect(parseAcceptLanguage("de;q=0, en;q=abc, ???, fr;q=0.3")).toEqual([{ tag: "fr", quality: 0.3 }]);
+  });
+
+  it("should handle missing headers", () => {
+    expect(parseAcceptLanguage(null)).toEqual([]);
+    expect(parseAcceptLanguage("")).toEqual([]);
+  });
+});
+
+describe("negotiateLocale", () => {
+  it("should match regional tags to their language", () => {
+    expect(negotiateLocale("de-CH,en;q=0.5", locales, "en")).toBe("de");
+  });
+
+  it("should skip unsupported languages", () => {
+    expect(negotiateLocale("es-ES,fr;q=0.8,en;q=0.5", locales, "en")).toBe("fr");
+  });
+
+  it("should map the wildcard to the default locale", () => {
+    expect(negotiateLocale("es, *;q=0.1", locales, "en")).toBe("en");
+  });
+
+  it("should return undefined when nothing matches", () => {
+    expect(negotiateLocale("es, pt", locales, "en")).toBeUndefined();
+    expect(negotiateLocale(null, locales, "en")).toBeUndefined();
+  });
+});
+
+describe("isBot", () => {
+  it("should detect crawlers and tools", () => {
+    expect(isBot("Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)")).toBe(true);
+    expect(isBot("facebookexternalhit/1.1")).toBe(true);
+    expect(isBot("curl/8.5.0")).toBe(true);
+    expect(isBot(null)).toBe(true);
+  });
+
+  it("should accept regular browsers", () => {
+    expect(isBot(browser)).toBe(false);
+  });
+});
+
+describe("getLocaleRedirect", () => {
+  const request = (overrides: Partial<LocaleRedirectRequest<(typeof locales)[number]>> = {}) =>
+    getLocaleRedirect({
+      pathname: "/",
+      acceptLanguage: "de-DE,de;q=0.9,en;q=0.8",
+      userAgent: browser,
+      preferredLocale: undefined,
+      locales,
+      defaultLocale: "en",
+      homePaths: { en: "/", de: "/de", fr: "/fr" },
+      ...overrides,
+    });
+
+  it("should redirect first visits to the negotiated home page", () => {
+    expect(request()).toBe("/de");
+    expect(request({ acceptLanguage: "fr-CA" })).toBe("/fr");
+  });
+
+  it("should not redirect when the default locale is preferred or nothing matches", () => {
+    expect(request({ acceptLanguage: "en-GB,de;q=0.5" })).toBeNull();
+    expect(request({ acceptLanguage: "ja" })).toBeNull();
+  });
+
+  it("should prefer the remembered choice over Accept-Language", () => {
+    expect(request({ preferredLocale: "en" })).toBeNull();
+    expect(request({ acceptLanguage: "en", preferredLocale: "fr" })).toBe("/fr");
+  });
+
+  it("should ignore unknown cookie values", () => {
+    expect(request({ preferredLocale: "xx" })).toBe("/de");
+  });
+
+  it("should never redirect deep links or bots", () => {
+    expect(request({ pathname: "/about" })).toBeNull();
+    expect(request({ pathname: "/de" })).toBeNull();
+    expect(request({ userAgent: "Googlebot/2.1" })).toBeNull();
+  });
+});
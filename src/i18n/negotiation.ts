@@ -0,0 +1,109 @@
+/**
+ * Locale negotiation for first visits
+ *
+ * Pure functions used by src/middleware/localeRedirect.ts: parse Accept-Language, pick a supported locale
+ * and decide whether a request for the default home page should be redirected.
+ */
+
+/** Cookie holding an explicit language choice (set by the language switcher) */
+export const LOCALE_COOKIE = "preferred-locale";
+
+/** One year; the choice only changes when the visitor switches again */
+export const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/** Crawlers, link previews and audit tools must see the page they asked for */
+const BOT_PATTERN =
+  /bot|crawl|spider|slurp|archiver|facebookexternalhit|embedly|preview|whatsapp|lighthouse|headless|curl|wget/i;
+
+export interface LanguageRange {
+  /** Lowercased language tag, e.g. "de-at" or "*" */
+  tag: string;
+  quality: number;
+}
+
+/**
+ * Parse an Accept-Language header, highest quality first
+ * Ranges with q=0 ("not acceptable") and malformed entries are dropped
+ *
+ * @example
+ * parseAcceptLanguage("de-AT,de;q=0.9,en;q=0.8")
+ * // [{ tag: "de-at", quality: 1 }, { tag: "de", quality: 0.9 }, { tag: "en", quality: 0.8 }]
+ */
+export function parseAcceptLanguage(header: string | null | undefined): LanguageRange[] {
+  if (!header) return [];
+
+  return header
+    .split(",")
+    .map((range, index) => {
+      const [tag, ...params] = range.trim().split(";");
+      const qualityParam = params.map((param) => param.trim()).find((param) => param.startsWith("q="));
+      const quality = qualityParam ? Number(qualityParam.slice(2)) : 1;
+
+      return { tag: tag.trim().toLowerCase(), quality, index };
+    })
+    .filter(({ tag, quality }) => /^([a-z]{1,8}(-[a-z0-9]{1,8})*|\*)$/.test(tag) && quality > 0 && quality <= 1)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ tag, quality }) => ({ tag, quality }));
+}
+
+/**
+ * Pick the best supported locale for an Accept-Language header
+ * Regional tags match their language ("de-CH" → "de"); "*" matches the default locale
+ *
+ * @returns The negotiated locale, or undefined when nothing matches
+ *
+ * @example
+ * negotiateLocale("fr-FR,de;q=0.8,en;q=0.5", ["en", "de"], "en") // "de"
+ */
+export function negotiateLocale<L extends string>(
+  header: string | null | undefined,
+  locales: readonly L[],
+  defaultLocale: L
+): L | undefined {
+  for (const { tag } of parseAcceptLanguage(header)) {
+    if (tag === "*") return defaultLocale;
+
+    const language = tag.split("-")[0];
+    const match = locales.find((locale) => locale.toLowerCase() === tag || locale.toLowerCase() === language);
+    if (match) return match;
+  }
+
+  return undefined;
+}
+
+/** Heuristic bot detection from the User-Agent header; requests without one are treated as bots */
+export function isBot(userAgent: string | null | undefined): boolean {
+  return !userAgent || BOT_PATTERN.test(userAgent);
+}
+
+export interface LocaleRedirectRequest<L extends string> {
+  pathname: string;
+  acceptLanguage: string | null;
+  userAgent: string | null;
+  /** Value of the LOCALE_COOKIE cookie, if any */
+  preferredLocale: string | undefined;
+  locales: readonly L[];
+  defaultLocale: L;
+  /** Home path per locale, e.g. { en: "/", de: "/de" } */
+  homePaths: Record<L, string>;
+}
+
+/**
+ * Decide whether a request should be redirected to another locale's home page
+ *
+ * Only the default locale's home page is redirected; deep links and bots never are.
+ * An explicit choice (cookie) wins over Accept-Language.
+ *
+ * @returns The redirect target, or null to serve the request as is
+ */
+export function getLocaleRedirect<L extends string>(request: LocaleRedirectRequest<L>): string | null {
+  const { pathname, acceptLanguage, userAgent, preferredLocale, locales, defaultLocale, homePaths } = request;
+
+  if (pathname !== homePaths[defaultLocale]) return null;
+  if (isBot(userAgent)) return null;
+
+  const preferred = locales.find((locale) => locale === preferredLocale);
+  const locale = preferred ?? negotiateLocale(acceptLanguage, locales, defaultLocale) ?? defaultLocale;
+
+  return locale === defaultLocale ? null : homePaths[locale];
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import { createRouting } from "./routing";
+
+// A third locale must work without code changes: only the config differs
+const routing = createRouting({
+  locales: ["en", "de", "fr"] as const,
+  defaultLocale: "en",
+  prefixDefaultLocale: false,
+  routes: {
+    en: { home: "", about: "about", contact: "contact" },
+    de: { home: "", about: "ueber-uns", contact: "kontakt" },
+    fr: { home: "", about: "a-propos", contact: "contact" },
+  },
+});
+
+const site = new URL("https://example.com");
+
+describe("createRouting (three locales)", () => {
+  describe("buildPath", () => {
+    it("should prefix every non-default locale", () => {
+      expect(routing.buildPath("about", "en")).toBe("/about");
+      expect(routing.buildPath("about", "de")).toBe("/de/ueber-uns");
+      expect(routing.buildPath("about", "fr")).toBe("/fr/a-propos");
+    });
+
+    it("should build home paths", () => {
+      expect(routing.buildPath("home", "en")).toBe("/");
+      expect(routing.buildPath("home", "fr")).toBe("/fr");
+    });
+
+    it("should append a detail slug", () => {
+      expect(routing.buildPath("about", "de", "team")).toBe("/de/ueber-uns/team");
+      expect(routing.buildPath("home", "en", "team")).toBe("/team");
+    });
+
+    it("should prefix the default locale when configured", () => {
+      const prefixed = createRouting({
+        locales: ["en", "fr"] as const,
+        defaultLocale: "en",
+        prefixDefaultLocale: true,
+        routes: { en: { home: "", about: "about" }, fr: { home: "", about: "a-propos" } },
+      });
+
+      expect(prefixed.buildPath("home", "en")).toBe("/en");
+      expect(prefixed.buildPath("about", "en")).toBe("/en/about");
+      expect(prefixed.getRouteKeyFromPath("/en/about")).toBe("about");
+    });
+  });
+
+  describe("getLocaleFromPath", () => {
+    it("should detect prefixed locales and fall back to the default", () => {
+      expect(routing.getLocaleFromPath("/fr/a-propos")).toBe("fr");
+      expect(routing.getLocaleFromPath("/fr")).toBe("fr");
+      expect(routing.getLocaleFromPath("/about")).toBe("en");
+      expect(routing.getLocaleFromPath("/")).toBe("en");
+    });
+  });
+
+  describe("getRouteKeyFromPath", () => {
+    it("should resolve paths of every locale", () => {
+      expect(routing.getRouteKeyFromPath("/fr/a-propos")).toBe("about");
+      expect(routing.getRouteKeyFromPath("/de/kontakt")).toBe("contact");
+      expect(routing.getRouteKeyFromPath("/fr/contact")).toBe("contact");
+      expect(routing.getRouteKeyFromPath("/fr")).toBe("home");
+      expect(routing.getRouteKeyFromPath("/fr/")).toBe("home");
+    });
+
+    it("should return undefined for unknown or nested paths", () => {
+      expect(routing.getRouteKeyFromPath("/fr/unknown")).toBeUndefined();
+      expect(routing.getRouteKeyFromPath("/fr/a-propos/team")).toBeUndefined();
+    });
+  });
+
+  describe("getRouteSlugs", () => {
+    it("should return the slugs of a locale without home", () => {
+      expect(routing.getRouteSlugs("fr")).toEqual(["a-propos", "contact"]);
+    });
+  });
+
+  describe("getLanguageSwitchPaths", () => {
+    it("should link the current page in every locale", () => {
+      expect(routing.getLanguageSwitchPaths("/de/ueber-uns", "de")).toEqual({
+        en: "/about",
+        de: "/de/ueber-uns",
+        fr: "/fr/a-propos",
+      });
+    });
+
+    it("should keep the detail slug below a route", () => {
+      expect(routing.getLanguageSwitchPaths("/fr/a-propos/team", "fr")).toEqual({
+        en: "/about/team",
+        de: "/de/ueber-uns/team",
+        fr: "/fr/a-propos/team",
+      });
+    });
+
+    it("should fall back to each locale's home page for unknown paths", () => {
+      expect(routing.getLanguageSwitchPaths("/fr/unknown", "fr")).toEqual({ en: "/", de: "/de", fr: "/fr" });
+    });
+
+    it("should use the page's own paths and send missing locales home", () => {
+      expect(
+        routing.getLanguageSwitchPaths("/de/blog/page/2", "de", { de: "/de/blog/page/2", fr: "/fr/blog/page/2" })
+      ).toEqual({ en: "/", de: "/de/blog/page/2", fr: "/fr/blog/page/2" });
+    });
+  });
+
+  describe("getLocalizedUrls", () => {
+    it("should list every locale plus x-default as alternates", () => {
+      const { canonical, alternates } = routing.getLocalizedUrls("/fr/a-propos", "fr", site);
+
+      expect(canonical).toBe("https://example.com/fr/a-propos");
+      expect(alternates).toEqual([
+        { hreflang: "en", href: "https://example.com/about" },
+        { hreflang: "de", href: "https://example.com/de/ueber-uns" },
+        { hreflang: "fr", href: "https://example.com/fr/a-propos" },
+        { hreflang: "x-default", href: "https://example.com/about" },
+      ]);
+    });
+
+    it("should list alternates of detail pages", () => {
+      const { canonical, alternates } = routing.getLocalizedUrls("/de/ueber-uns/team", "de", site);
+
+      expect(canonical).toBe("https://example.com/de/ueber-uns/team");
+      expect(alternates[0]).toEqual({ hreflang: "en", href: "https://example.com/about/team" });
+    });
+
+    it("should not guess alternates for slugs of another locale", () => {
+      expect(routing.getLocalizedUrls("/fr/about", "fr", site)).toEqual({
+        canonical: "https://example.com/fr/about",
+        alternates: [],
+      });
+    });
+
+    it("should only list the page's own paths as alternates", () => {
+      expect(
+        routing.getLocalizedUrls("/de/blog/post", "de", site, { de: "/de/blog/post", fr: "/fr/blog/post" })
+      ).toEqual({
+        canonical: "https://example.com/de/blog/post",
+        alternates: [
+          { hreflang: "de", href: "https://example.com/de/blog/post" },
+          { hreflang: "fr", href: "https://example.com/fr/blog/post" },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Locale-aware routing built from configuration only
+ *
+ * Nothing here knows about specific locales: prefixes, slugs and alternates are derived
+ * from the locale list and the route table, so adding a language needs no code changes.
+ * translations.ts creates the site's instance; tests create their own (e.g. with three locales).
+ */
+
+export interface RoutingConfig<L extends string, K extends string> {
+  locales: readonly L[];
+  defaultLocale: L;
+  /** false: the default locale has no prefix (/about), other locales do (/de/ueber-uns) */
+  prefixDefaultLocale: boolean;
+  /** Route slug per locale and route key; the home route has an empty slug */
+  routes: Record<L, Record<K, string>>;
+}
+
+export interface AlternateLink<L extends string = string> {
+  hreflang: L | "x-default";
+  href: string;
+}
+
+export interface LocalizedUrls<L extends string = string> {
+  canonical: string;
+  /** One link per locale plus x-default; empty for pages outside the route table */
+  alternates: AlternateLink<L>[];
+}
+
+/** Removes the trailing slash, except for the root path */
+function normalizePath(path: string): string {
+  return path === "/" ? "/" : path.replace(/\/+$/, "") || "/";
+}
+
+export function createRouting<L extends string, K extends string>(config: RoutingConfig<L, K>) {
+  const { locales, defaultLocale, prefixDefaultLocale, routes } = config;
+  const routeKeys = Object.keys(routes[defaultLocale]) as K[];
+
+  const isLocale = (value: string | undefined): value is L => locales.includes(value as L);
+
+  /** "/de" for prefixed locales, "" for the unprefixed default locale */
+  function getLocalePrefix(locale: L): string {
+    return locale === defaultLocale && !prefixDefaultLocale ? "" : `/${locale}`;
+  }
+
+  /**
+   * Build full path from route key for given locale
+   * `child` addresses a detail page below the route; it is the same in every locale
+   *
+   * @example
+   * buildPath("about", "de")                     // "/de/ueber-uns"
+   * buildPath("home", "en")                      // "/"
+   * buildPath("services", "de", "frame-sprint") // "/de/dienstleistungen/frame-sprint"
+   */
+  function buildPath(routeKey: K, locale: L, child?: string): string {
+    const slug = routes[locale][routeKey];
+    const prefix = getLocalePrefix(locale);
+    const path = slug ? `${prefix}/${slug}` : prefix || "/";
+
+    if (!child) return path;
+    return path === "/" ? `/${child}` : `${path}/${child}`;
+  }
+
+  /**
+   * Detect the locale of a path from its first segment
+   * Unprefixed paths belong to the default locale
+   *
+   * @example
+   * getLocaleFromPath("/de/ueber-uns") // "de"
+   * getLocaleFromPath("/about")        // "en"
+   */
+  function getLocaleFromPath(path: string): L {
+    const [firstSegment] = normalizePath(path).split("/").filter(Boolean);
+    return isLocale(firstSegment) ? firstSegment : defaultLocale;
+  }
+
+  /**
+   * Extract route key from any localized path
+   * Slugs of the path's own locale win; slugs of other locales are matched as a fallback
+   *
+   * @example
+   * getRouteKeyFromPath("/de/ueber-uns") // "about"
+   * getRouteKeyFromPath("/de")           // "home"
+   */
+  function getRouteKeyFromPath(path: string): K | undefined {
+    const locale = getLocaleFromPath(path);
+    const segments = normalizePath(path).split("/").filter(Boolean);
+    const slugSegments = segments[0] === locale && getLocalePrefix(locale) ? segments.slice(1) : segments;
+
+    if (slugSegments.length === 0) return routeKeys.find((key) => routes[locale][key] === "");
+    if (slugSegments.length > 1) return undefined;
+
+    const [slug] = slugSegments;
+    const searchOrder = [locale, ...locales.filter((candidate) => candidate !== locale)];
+
+    for (const candidate of searchOrder) {
+      const routeKey = routeKeys.find((key) => routes[candidate][key] === slug);
+      if (routeKey) return routeKey;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get all route slugs for a given locale, excluding home
+   * Useful for generating static paths in getStaticPaths()
+   */
+  function getRouteSlugs(locale: L): string[] {
+    return routeKeys.map((key) => routes[locale][key]).filter(Boolean);
+  }
+
+  /** Get all route keys, including home */
+  function getRouteKeys(): K[] {
+    return [...routeKeys];
+  }
+
+  /**
+   * Get the path of a route (or of a detail page below it) in every locale
+   *
+   * @example
+   * getLocalizedPaths("about")                    // { en: "/about", de: "/de/ueber-uns" }
+   * getLocalizedPaths("services", "frame-sprint") // { en: "/services/frame-sprint", de: "/de/dienstleistungen/frame-sprint" }
+   */
+  function getLocalizedPaths(routeKey: K, child?: string): Record<L, string> {
+    return Object.fromEntries(locales.map((locale) => [locale, buildPath(routeKey, locale, child)])) as Record<
+      L,
+      string
+    >;
+  }
+
+  /**
+   * Resolve the route key of a path, but only if the path is exactly that route in `locale`
+   * (so "/de/about" is not mistaken for "/de/ueber-uns")
+   * One extra segment is read as a detail page below a route other than home ("/de/dienstleistungen/frame-sprint")
+   */
+  function matchRoute(pathname: string, locale: L): { routeKey: K; child?: string } | undefined {
+    const normalizedPath = normalizePath(pathname);
+    const routeKey = getRouteKeyFromPath(normalizedPath);
+
+    if (routeKey && buildPath(routeKey, locale) === normalizedPath) return { routeKey };
+
+    const separator = normalizedPath.lastIndexOf("/");
+    const child = normalizedPath.slice(separator + 1);
+    const parentKey = separator > 0 ? getRouteKeyFromPath(normalizedPath.slice(0, separator)) : undefined;
+
+    // Top-level pages are not detail pages of home
+    return parentKey && child && routes[locale][parentKey] && buildPath(parentKey, locale, child) === normalizedPath
+      ? { routeKey: parentKey, child }
+      : undefined;
+  }
+
+  /**
+   * Target of the language switcher for every locale
+   * The same page in each locale, or the locale's home page for paths outside the route table
+   *
+   * @param paths - The page's own paths per locale, for pages the route table cannot map
+   *   (e.g. blog posts that exist in some locales only); locales without a path switch to their home page
+   */
+  function getLanguageSwitchPaths(pathname: string, locale: L, paths?: Partial<Record<L, string>>): Record<L, string> {
+    const match = paths ? undefined : matchRoute(pathname, locale);
+    const homeKey = routeKeys.find((key) => routes[defaultLocale][key] === "");
+    const homePath = (target: L) => (homeKey ? buildPath(homeKey, target) : getLocalePrefix(target) || "/");
+
+    if (match) return getLocalizedPaths(match.routeKey, match.child);
+    return Object.fromEntries(locales.map((target) => [target, paths?.[target] ?? homePath(target)])) as Record<
+      L,
+      string
+    >;
+  }
+
+  /**
+   * Build canonical and hreflang alternate URLs for a page
+   * `x-default` points to the default locale
+   *
+   * @param site - Absolute site URL (Astro.site)
+   * @param paths - The page's own paths per locale (see getLanguageSwitchPaths); only these become alternates
+   */
+  function getLocalizedUrls(
+    pathname: string,
+    locale: L,
+    site: URL | string,
+    paths?: Partial<Record<L, string>>
+  ): LocalizedUrls<L> {
+    const toUrl = (path: string) => new URL(path, site).href;
+    const match = paths ? undefined : matchRoute(pathname, locale);
+    const localizedPaths: Partial<Record<L, string>> | undefined = match
+      ? getLocalizedPaths(match.routeKey, match.child)
+      : paths;
+    const ownPath = localizedPaths?.[locale];
+
+    if (!localizedPaths || !ownPath) {
+      return { canonical: toUrl(normalizePath(pathname)), alternates: [] };
+    }
+
+    const defaultPath = localizedPaths[defaultLocale];
+
+    return {
+      canonical: toUrl(ownPath),
+      alternates: [
+        ...locales.flatMap((alternate) => {
+          const path = localizedPaths[alternate];
+          return path ? [{ hreflang: alternate, href: toUrl(path) }] : [];
+        }),
+        ...(defaultPath ? [{ hreflang: "x-default" as const, href: toUrl(defaultPath) }] : []),
+      ],
+    };
+  }
+
+  return {
+    buildPath,
+    getLocaleFromPath,
+    getRouteKeyFromPath,
+    getRouteSlugs,
+    getRouteKeys,
+    getLocalizedPaths,
+    getLanguageSwitchPaths,
+    getLocalizedUrls,
+  };
+}
+
+export type Routing<L extends string, K extends string> = ReturnType<typeof createRouting<L, K>>;
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { getLocalizedPaths, getLocalizedUrls, getOgLocale } from "./seo";
+
+const site = new URL("https://example.com");
+
+describe("SEO URL helpers", () => {
+  describe("getLocalizedPaths", () => {
+    it("should return the translated path for every locale", () => {
+      expect(getLocalizedPaths("about")).toEqual({ en: "/about", de: "/de/ueber-uns" });
+      expect(getLocalizedPaths("home")).toEqual({ en: "/", de: "/de" });
+    });
+  });
+
+  describe("getLocalizedUrls", () => {
+    it("should advertise translated slugs as alternates", () => {
+      const { canonical, alternates } = getLocalizedUrls("/about", "en", site);
+
+      expect(canonical).toBe("https://example.com/about");
+      expect(alternates).toEqual([
+        { hreflang: "en", href: "https://example.com/about" },
+        { hreflang: "de", href: "https://example.com/de/ueber-uns" },
+        { hreflang: "x-default", href: "https://example.com/about" },
+      ]);
+    });
+
+    it("should resolve DE pages and ignore trailing slashes", () => {
+      const { canonical, alternates } = getLocalizedUrls("/de/dienstleistungen/", "de", site);
+
+      expect(canonical).toBe("https://example.com/de/dienstleistungen");
+      expect(alternates.find((link) => link.hreflang === "en")?.href).toBe("https://example.com/services");
+    });
+
+    it("should handle home routes", () => {
+      const { canonical, alternates } = getLocalizedUrls("/de", "de", site);
+
+      expect(canonical).toBe("https://example.com/de");
+      expect(alternates.find((link) => link.hreflang === "x-default")?.href).toBe("https://example.com/");
+    });
+
+    it("should not produce double slashes when the site has a trailing slash", () => {
+      const { canonical } = getLocalizedUrls("/about", "en", "https://example.com/");
+
+      expect(canonical).toBe("https://example.com/about");
+    });
+
+    it("should return no alternates for paths outside the route table", () => {
+      expect(getLocalizedUrls("/404", "en", site)).toEqual({ canonical: "https://example.com/404", alternates: [] });
+    });
+
+    it("should return no alternates when the slug belongs to another locale", () => {
+      expect(getLocalizedUrls("/de/about", "de", site).alternates).toEqual([]);
+    });
+  });
+
+  describe("getOgLocale", () => {
+    it("should map locales to Open Graph locales from config", () => {
+      expect(getOgLocale("en")).toBe("en_US");
+      expect(getOgLocale("de")).toBe("de_DE");
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import type { Locale } from "@/domain";
+import { i18nConfig } from "./config";
+import { routing } from "./translations";
+
+export type { AlternateLink, LocalizedUrls } from "./routing";
+
+/**
+ * Get the path of a route in every supported locale
+ *
+ * @example
+ * getLocalizedPaths("about") // { en: "/about", de: "/de/ueber-uns" }
+ */
+export const getLocalizedPaths = routing.getLocalizedPaths;
+
+/**
+ * Build canonical and hreflang alternate URLs for a page
+ *
+ * Alternates are resolved through the route table, so `/about` points to `/de/ueber-uns`
+ * (not `/de/about`). Paths that are not a known route of `locale` (e.g. 404) only get a canonical URL.
+ * Pages outside the route table pass their own paths per locale (e.g. insights that are not translated).
+ *
+ * @example
+ * getLocalizedUrls("/about", "en", new URL("https://example.com"))
+ * // canonical: "https://example.com/about"
+ * // alternates: en → /about, de → /de/ueber-uns, x-default → /about
+ */
+export const getLocalizedUrls = routing.getLocalizedUrls;
+
+/**
+ * Open Graph locale of a locale
+ *
+ * @example
+ * getOgLocale("de") // "de_DE"
+ */
+export function getOgLocale(locale: Locale): string {
+  return i18nConfig.ogLocales[locale];
+}
@@ -40,15 +40,23 @@ describe("Translation Functions", () => {
       expect(t("de", "footer", "privacyPolicy")).toBe("Datenschutz");
       expect(t("en", "footer", "imprint")).toBe("Imprint");
       expect(t("de", "footer", "imprint")).toBe("Impressum");
-      expect(t("en", "footer", "allRightsReserved")).toBe("All rights reserved.");
-      expect(t("de", "footer", "allRightsReserved")).toBe("Alle Rechte vorbehalten.");
+      expect(t("en", "footer", "copyright", { year: "2026" })).toBe(
+        "© 2026 GlobalCore Consulting Group. All rights reserved."
+      );
+      expect(t("de", "footer", "copyright", { year: "2026" })).toBe(
+        "© 2026 GlobalCore Consulting Group. Alle Rechte vorbehalten."
+      );
     });
 
     it("should return correct translations for sections namespace", () => {
       expect(t("en", "sections", "howWeWork")).toBe("How We Work");
       expect(t("de", "sections", "howWeWork")).toBe("So arbeiten wir");
-      expect(t("en", "sections", "frameSprint")).toBe("FRAME Sprint");
-      expect(t("de", "sections", "frameSprint")).toBe("FRAME Sprint");
+      expect(t("en", "sections", "howWeWorkContent")).toBe("FRAS™ content coming soon.");
+    });
+
+    it("should format plural messages of the detail namespace", () => {
+      expect(t("en", "detail", "durationWeeks", { weeks: 1 })).toBe("1 week");
+      expect(t("de", "detail", "durationWeeks", { weeks: 4 })).toBe("4 Wochen");
     });
   });
 
@@ -61,6 +69,8 @@ describe("Translation Functions", () => {
         services: "Services",
         contact: "Contact",
         domains: "Domains",
+        insights: "Insights",
+        caseStudies: "Case Studies",
       });
     });
 
@@ -72,6 +82,8 @@ describe("Translation Functions", () => {
         services: "Dienstleistungen",
         contact: "Kontakt",
         domains: "Domänen",
+        insights: "Einblicke",
+        caseStudies: "Fallstudien",
       });
     });
 
@@ -115,6 +127,18 @@ describe("Translation Functions", () => {
       expect(enFooterKeys).toEqual(deFooterKeys);
     });
 
+    it("should have the same contact keys across all locales", () => {
+      const enContactKeys = Object.keys(translations.en.contact);
+      const deContactKeys = Object.keys(translations.de.contact);
+      expect(enContactKeys).toEqual(deContactKeys);
+    });
+
+    it("should have the same seo keys across all locales", () => {
+      const enSeoKeys = Object.keys(translations.en.seo);
+      const deSeoKeys = Object.keys(translations.de.seo);
+      expect(enSeoKeys).toEqual(deSeoKeys);
+    });
+
     it("should have the same routes keys across all locales", () => {
       const enRoutesKeys = Object.keys(translations.en.routes);
       const deRoutesKeys = Object.keys(translations.de.routes);
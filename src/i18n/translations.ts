@@ -1,4 +1,11 @@
-import type { Locale } from "@/domain";
+// Relative imports: astro.config.mjs resolves content links through ./links.ts before the "@/" alias is available
+import type { Locale } from "../domain/value-objects/Locale";
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES } from "../domain/value-objects/Locale";
+import { i18nConfig } from "./config";
+import { createRouting } from "./routing";
+import { formatMessage } from "./message";
+import type { MessageArgs } from "./message";
+import { getIntlLocale } from "./formatters";
 
 /**
  * UI-level translations (buttons, navigation, states)
@@ -12,6 +19,8 @@ export const translations = {
       services: "Services",
       contact: "Contact",
       domains: "Domains",
+      insights: "Insights",
+      caseStudies: "Case Studies",
     },
     ui: {
       // Actions
@@ -27,38 +36,113 @@ export const translations = {
       contentComingSoon: "Content coming soon.",
       // Aria labels
       openMenu: "Open main menu",
+      closeMenu: "Close main menu",
+      menu: "Menu",
+      mainNavigation: "Main navigation",
+      changeLanguage: "Change language",
+      theme: "Color theme",
+      themeLight: "Light",
+      themeDark: "Dark",
+      themeSystem: "System",
     },
     footer: {
       navigation: "Navigation",
       legal: "Legal",
       privacyPolicy: "Privacy Policy",
       imprint: "Imprint",
-      allRightsReserved: "All rights reserved.",
+      copyright: "© {year} GlobalCore Consulting Group. All rights reserved.",
       companyDescription:
         "Resilience Architecture for Critical Systems. Independent consulting for decision-ready architecture.",
     },
+    contact: {
+      intro: "Tell us about your situation. We usually reply within two business days.",
+      nameLabel: "Name",
+      emailLabel: "Email",
+      companyLabel: "Company",
+      messageLabel: "Message",
+      optional: "optional",
+      consentLabel: "I agree that my details will be used to answer my enquiry.",
+      submit: "Send message",
+      sending: "Sending...",
+      sent: "Thank you! Your message has been sent. We will get back to you shortly.",
+      invalid: "Please check the highlighted fields.",
+      failed: "Your message could not be sent. Please try again later or email us directly.",
+      errorRequired: "This field is required.",
+      errorInvalidEmail: "Please enter a valid email address.",
+      errorTooShort: "Please tell us a little more.",
+      errorTooLong: "This text is too long.",
+      errorConsent: "Please confirm that we may use your details.",
+    },
+    seo: {
+      // Last step of the SEO fallback chain: page entry → seoDefaults entry → these values
+      siteName: "Globalcore",
+      defaultDescription:
+        "Resilience Architecture for Critical Systems. Independent consulting for decision-ready architecture.",
+    },
     routes: {
       home: "",
       about: "about",
       services: "services",
       contact: "contact",
       domains: "domains",
+      insights: "insights",
+      caseStudies: "case-studies",
       privacy: "privacy",
       imprint: "imprint",
     },
     sections: {
       howWeWork: "How We Work",
       howWeWorkContent: "FRAS™ content coming soon.",
-      frameSprint: "FRAME Sprint",
-      architectBlueprint: "ARCHITECT Blueprint",
-      modelValidation: "MODEL Validation",
-      steerRetainer: "STEER Retainer",
-      energyInfrastructure: "Energy & Infrastructure Resilience",
-      digitalCyber: "Digital & Cyber Resilience",
-      financeResilience: "Finance Resilience",
-      customerValue: "Customer Value & Revenue Resilience",
-      regulatedHealth: "Regulated Operations / Health",
-      esgData: "ESG Data Resilience & Auditability",
+    },
+    // Service and industry domain detail pages (names and texts come from the services/industryDomains collections)
+    detail: {
+      deliverables: "Deliverables",
+      duration: "Duration",
+      durationWeeks: "{weeks, plural, one {# week} other {# weeks}}",
+      durationWeekRange: "{min}–{max} weeks",
+      durationOngoing: "Ongoing",
+      relatedDomains: "Where it applies",
+      relatedServices: "Formats for this domain",
+      allServices: "All services",
+      allDomains: "All domains",
+    },
+    // Insights blog (posts come from the insights collection; dates are formatted before they are passed in)
+    insights: {
+      title: "Insights",
+      intro: "Thought leadership on resilience architecture for critical systems.",
+      byAuthor: "By {name}",
+      publishedOn: "Published {date}",
+      updatedOn: "Updated {date}",
+      readingTime: "{minutes} min read",
+      topics: "Topics",
+      tagArchive: "Insights on {tag}",
+      tagArchiveIntro: "{count, plural, one {# article} other {# articles}} on this topic.",
+      allInsights: "All insights",
+      pagination: "Pagination",
+      newerPosts: "Newer posts",
+      olderPosts: "Older posts",
+      pageOf: "Page {page} of {total}",
+      rssFeed: "RSS feed",
+      feedTitle: "GlobalCore Insights",
+    },
+    // Case study sections and detail pages (studies come from the caseStudies collection)
+    caseStudies: {
+      sector: "Sector",
+      challenge: "Challenge",
+      approach: "Approach",
+      outcomes: "Outcome",
+      formatsUsed: "Formats used",
+      domainsTouched: "Domains",
+      filters: "Filter case studies",
+      filterByService: "Engagement format",
+      filterByDomain: "Industry domain",
+      anyService: "All formats",
+      anyDomain: "All domains",
+      applyFilters: "Apply filters",
+      resultCount:
+        "{count, plural, =0 {No case studies match these filters.} one {# case study} other {# case studies}}",
+      readCaseStudy: "Read case study",
+      allCaseStudies: "All case studies",
     },
   },
   de: {
@@ -68,6 +152,8 @@ export const translations = {
       services: "Dienstleistungen",
       contact: "Kontakt",
       domains: "Domänen",
+      insights: "Einblicke",
+      caseStudies: "Fallstudien",
     },
     ui: {
       // Actions
@@ -83,38 +169,110 @@ export const translations = {
       contentComingSoon: "Inhalte kommen bald.",
       // Aria labels
       openMenu: "Hauptmenü öffnen",
+      closeMenu: "Hauptmenü schließen",
+      menu: "Menü",
+      mainNavigation: "Hauptnavigation",
+      changeLanguage: "Sprache wechseln",
+      theme: "Farbschema",
+      themeLight: "Hell",
+      themeDark: "Dunkel",
+      themeSystem: "System",
     },
     footer: {
       navigation: "Navigation",
       legal: "Rechtliches",
       privacyPolicy: "Datenschutz",
       imprint: "Impressum",
-      allRightsReserved: "Alle Rechte vorbehalten.",
+      copyright: "© {year} GlobalCore Consulting Group. Alle Rechte vorbehalten.",
       companyDescription:
         "Resilienz Architektur für kritische Systeme. Unabhängige Beratung für entscheidungsreife Architektur.",
     },
+    contact: {
+      intro: "Erzählen Sie uns von Ihrer Situation. Wir antworten in der Regel innerhalb von zwei Werktagen.",
+      nameLabel: "Name",
+      emailLabel: "E-Mail",
+      companyLabel: "Unternehmen",
+      messageLabel: "Nachricht",
+      optional: "optional",
+      consentLabel: "Ich bin einverstanden, dass meine Angaben zur Beantwortung meiner Anfrage verwendet werden.",
+      submit: "Nachricht senden",
+      sending: "Wird gesendet...",
+      sent: "Vielen Dank! Ihre Nachricht wurde gesendet. Wir melden uns in Kürze bei Ihnen.",
+      invalid: "Bitte prüfen Sie die markierten Felder.",
+      failed:
+        "Ihre Nachricht konnte nicht gesendet werden. Bitte versuchen Sie es später erneut oder schreiben Sie uns direkt.",
+      errorRequired: "Dieses Feld ist erforderlich.",
+      errorInvalidEmail: "Bitte geben Sie eine gültige E-Mail-Adresse ein.",
+      errorTooShort: "Bitte erzählen Sie uns etwas mehr.",
+      errorTooLong: "Dieser Text ist zu lang.",
+      errorConsent: "Bitte bestätigen Sie, dass wir Ihre Angaben verwenden dürfen.",
+    },
+    seo: {
+      siteName: "Globalcore",
+      defaultDescription:
+        "Resilienz Architektur für kritische Systeme. Unabhängige Beratung für entscheidungsreife Architektur.",
+    },
     routes: {
       home: "",
       about: "ueber-uns",
       services: "dienstleistungen",
       contact: "kontakt",
       domains: "domaenen",
+      insights: "einblicke",
+      caseStudies: "fallstudien",
       privacy: "datenschutz",
       imprint: "impressum",
     },
     sections: {
       howWeWork: "So arbeiten wir",
       howWeWorkContent: "FRAS™ Inhalte kommen bald.",
-      frameSprint: "FRAME Sprint",
-      architectBlueprint: "ARCHITECT Blueprint",
-      modelValidation: "MODEL Validierung",
-      steerRetainer: "STEER Retainer",
-      energyInfrastructure: "Energy & Infrastructure Resilience",
-      digitalCyber: "Digital & Cyber Resilience",
-      financeResilience: "Finance Resilience",
-      customerValue: "Customer Value & Revenue Resilience",
-      regulatedHealth: "Regulated Operations / Health",
-      esgData: "ESG Data Resilience & Auditability",
+    },
+    detail: {
+      deliverables: "Ergebnisse",
+      duration: "Dauer",
+      durationWeeks: "{weeks, plural, one {# Woche} other {# Wochen}}",
+      durationWeekRange: "{min}–{max} Wochen",
+      durationOngoing: "Fortlaufend",
+      relatedDomains: "Einsatzfelder",
+      relatedServices: "Formate für diese Domäne",
+      allServices: "Alle Leistungen",
+      allDomains: "Alle Domänen",
+    },
+    insights: {
+      title: "Einblicke",
+      intro: "Fachbeiträge zur Resilienz-Architektur kritischer Systeme.",
+      byAuthor: "Von {name}",
+      publishedOn: "Veröffentlicht am {date}",
+      updatedOn: "Aktualisiert am {date}",
+      readingTime: "{minutes} Min. Lesezeit",
+      topics: "Themen",
+      tagArchive: "Einblicke zum Thema {tag}",
+      tagArchiveIntro: "{count, plural, one {# Beitrag} other {# Beiträge}} zu diesem Thema.",
+      allInsights: "Alle Einblicke",
+      pagination: "Seitennavigation",
+      newerPosts: "Neuere Beiträge",
+      olderPosts: "Ältere Beiträge",
+      pageOf: "Seite {page} von {total}",
+      rssFeed: "RSS-Feed",
+      feedTitle: "GlobalCore Einblicke",
+    },
+    caseStudies: {
+      sector: "Branche",
+      challenge: "Ausgangslage",
+      approach: "Vorgehen",
+      outcomes: "Ergebnis",
+      formatsUsed: "Eingesetzte Formate",
+      domainsTouched: "Domänen",
+      filters: "Fallstudien filtern",
+      filterByService: "Format",
+      filterByDomain: "Domäne",
+      anyService: "Alle Formate",
+      anyDomain: "Alle Domänen",
+      applyFilters: "Filter anwenden",
+      resultCount:
+        "{count, plural, =0 {Keine Fallstudie passt zu diesen Filtern.} one {# Fallstudie} other {# Fallstudien}}",
+      readCaseStudy: "Fallstudie lesen",
+      allCaseStudies: "Alle Fallstudien",
     },
   },
 } as const satisfies Record<Locale, unknown>;
@@ -122,18 +280,28 @@ export const translations = {
 type TranslationSchema = typeof translations.en;
 type NamespaceKey = keyof TranslationSchema;
 type TranslationKey<N extends NamespaceKey> = keyof TranslationSchema[N];
+type TranslationMessage<N extends NamespaceKey, K extends TranslationKey<N>> = TranslationSchema[N][K] & string;
 
 /**
  * Type-safe translation helper with full autocompletion
+ * Messages with ICU-style arguments (see ./message.ts) require exactly their parameters
  *
  * @example
  * t("en", "nav", "home") // "Home"
  * t("de", "ui", "loading") // "Wird geladen..."
+ * t("en", "footer", "copyright", { year: "2026" }) // "© 2026 GlobalCore Consulting Group. All rights reserved."
  */
-export function t<N extends NamespaceKey>(locale: Locale, namespace: N, key: TranslationKey<N>): string {
+export function t<N extends NamespaceKey, K extends TranslationKey<N>>(
+  locale: Locale,
+  namespace: N,
+  key: K,
+  ...params: MessageArgs<TranslationMessage<N, K>>
+): string {
   const localeData = translations[locale];
   const namespaceData = localeData[namespace];
-  return namespaceData[key as keyof typeof namespaceData] as string;
+  const message = namespaceData[key as unknown as keyof typeof namespaceData] as string;
+
+  return formatMessage(getIntlLocale(locale), message, ...(params as MessageArgs<string>));
 }
 
 /**
@@ -149,96 +317,78 @@ export function getNamespace<N extends NamespaceKey>(locale: Locale, namespace:
 
 // ===== Route Helpers =====
 
-type RouteKey = keyof typeof translations.en.routes;
+export type RouteKey = keyof typeof translations.en.routes;
+
+/**
+ * Routing for the configured locales (see ./routing.ts)
+ * The route table is assembled from each locale's `routes` namespace
+ */
+export const routing = createRouting<Locale, RouteKey>({
+  locales: SUPPORTED_LOCALES,
+  defaultLocale: DEFAULT_LOCALE,
+  prefixDefaultLocale: i18nConfig.routing.prefixDefaultLocale,
+  routes: Object.fromEntries(SUPPORTED_LOCALES.map((locale) => [locale, translations[locale].routes])) as Record<
+    Locale,
+    Record<RouteKey, string>
+  >,
+});
 
 /**
  * Build full path from route key for given locale
  * Handles locale prefix and route slug translation
  *
- * @param routeKey - Route key from translations.routes (e.g., "about", "services")
- * @param locale - Target locale
- * @returns Full path with locale prefix if needed
- *
  * @example
  * buildPath("about", "en") // "/about"
  * buildPath("about", "de") // "/de/ueber-uns"
  * buildPath("home", "en")  // "/"
  * buildPath("home", "de")  // "/de"
  */
-export function buildPath(routeKey: RouteKey, locale: Locale): string {
-  const routeSlug = translations[locale].routes[routeKey];
-
-  // Handle home route
-  if (routeKey === "home") {
-    return locale === "en" ? "/" : `/${locale}`;
-  }
-
-  // Handle other routes
-  if (locale === "en") {
-    return `/${routeSlug}`;
-  } else {
-    return `/${locale}/${routeSlug}`;
-  }
-}
+export const buildPath = routing.buildPath;
 
 /**
  * Extract route key from any localized path
  * Works with all supported locales
  *
- * @param path - URL pathname (e.g., "/about", "/de/ueber-uns")
- * @returns Route key or undefined if not found
- *
  * @example
  * getRouteKeyFromPath("/about")        // "about"
  * getRouteKeyFromPath("/de/ueber-uns") // "about"
  * getRouteKeyFromPath("/")             // "home"
  * getRouteKeyFromPath("/de")           // "home"
  */
-export function getRouteKeyFromPath(path: string): RouteKey | undefined {
-  // Normalize path (remove trailing slash except for root)
-  const normalizedPath = path === "/" ? "/" : path.replace(/\/$/, "");
+export const getRouteKeyFromPath = routing.getRouteKeyFromPath;
 
-  // Handle home routes
-  if (normalizedPath === "/" || normalizedPath === "/de") {
-    return "home";
-  }
-
-  // Extract slug from path
-  // For EN: "/about" -> "about"
-  // For DE: "/de/ueber-uns" -> "ueber-uns"
-  const segments = normalizedPath.split("/").filter(Boolean);
-  const slug = segments.length === 1 ? segments[0] : segments[1];
-
-  if (!slug) return undefined;
-
-  // Find matching route key across all locales
-  const routeKeys = Object.keys(translations.en.routes) as RouteKey[];
-
-  for (const routeKey of routeKeys) {
-    for (const locale of ["en", "de"] as const) {
-      if (translations[locale].routes[routeKey] === slug) {
-        return routeKey;
-      }
-    }
-  }
-
-  return undefined;
-}
+/**
+ * Detect the locale of a path from its prefix
+ *
+ * @example
+ * getLocaleFromPath("/de/kontakt") // "de"
+ * getLocaleFromPath("/contact")    // "en"
+ */
+export const getLocaleFromPath = routing.getLocaleFromPath;
 
 /**
  * Get all route slugs for a given locale
  * Useful for generating static paths in getStaticPaths()
  *
- * @param locale - Locale to get route slugs for
- * @returns Array of route slugs (excluding home)
+ * @example
+ * getRouteSlugs("de") // ["ueber-uns", "dienstleistungen", "kontakt", "domaenen", "einblicke", "datenschutz", "impressum"]
+ * getRouteSlugs("en") // ["about", "services", "contact", "domains", "insights", "privacy", "imprint"]
+ */
+export const getRouteSlugs = routing.getRouteSlugs;
+
+/**
+ * Get all route keys, including home
+ * Useful for iterating every page of the site (e.g. sitemap generation)
  *
  * @example
- * getRouteSlugs("de") // ["ueber-uns", "dienstleistungen", "kontakt", "domaenen", "datenschutz", "impressum"]
- * getRouteSlugs("en") // ["about", "services", "contact", "domains", "privacy", "impressum"]
+ * getRouteKeys() // ["home", "about", "services", "contact", "domains", "insights", "privacy", "imprint"]
  */
-export function getRouteSlugs(locale: Locale): string[] {
-  const routeKeys = Object.keys(translations[locale].routes) as RouteKey[];
-  return routeKeys
-    .filter((key) => key !== "home") // Exclude home route (which has empty slug)
-    .map((key) => translations[locale].routes[key]);
-}
+export const getRouteKeys = routing.getRouteKeys;
+
+/**
+ * Language switcher targets: the current page in every locale
+ *
+ * @example
+ * getLanguageSwitchPaths("/about", "en") // { en: "/about", de: "/de/ueber-uns" }
+ */
+export const getLanguageSwitchPaths = routing.getLanguageSwitchPaths;
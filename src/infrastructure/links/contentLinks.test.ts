@@ -0,0 +1,176 @@
+import { describe, it, expect } from "vitest";
+import type { BuiltSite, ContentLink, SiteEntry } from "./contentLinks";
+import {
+  collectContentLinks,
+  collectMarkdownLinks,
+  extractIds,
+  formatLinkIssues,
+  toInternalUrl,
+  validateContentLinks,
+} from "./contentLinks";
+
+const site = new URL("https://example.com");
+const options = { locales: ["en", "de"], defaultLocale: "en", site };
+
+const pages: Record<string, SiteEntry> = {
+  "/": { kind: "page", html: '<main id="main"><section id="services"></section></main>' },
+  "/services": { kind: "page", html: "<h2 id='frame-sprint'>Frame Sprint</h2>" },
+  "/de": { kind: "page", html: '<main id="main"></main>' },
+  "/de/dienstleistungen": { kind: "page", html: '<h2 id="frame-sprint">Frame Sprint</h2>' },
+  "/robots.txt": { kind: "file" },
+};
+const builtSite: BuiltSite = { resolve: (pathname) => pages[pathname] ?? null };
+
+const link = (href: string, locale = "en"): ContentLink => ({
+  file: "src/content/hero/en/home.json",
+  field: "href",
+  href,
+  locale,
+});
+
+describe("collectContentLinks", () => {
+  it("should find href fields in nested objects and arrays", () => {
+    const data = {
+      title: "Home",
+      primary: { label: "Contact", href: "/contact" },
+      sections: [{ items: [{ href: "/services#frame-sprint" }, { label: "No link" }] }],
+    };
+
+    expect(collectContentLinks(data, { file: "hero/en/home.json", locale: "en" })).toEqual([
+      { file: "hero/en/home.json", locale: "en", field: "primary.href", href: "/contact" },
+      { file: "hero/en/home.json", locale: "en", field: "sections[0].items[0].href", href: "/services#frame-sprint" },
+    ]);
+  });
+
+  it("should ignore non-string href values", () => {
+    expect(collectContentLinks({ href: null }, { file: "a.json", locale: "en" })).toEqual([]);
+  });
+});
+
+describe("collectMarkdownLinks", () => {
+  const entry = { file: "insights/en/post.md", locale: "en" };
+
+  it("should find inline links and reference definitions with their line", () => {
+    const markdown = [
+      "---",
+      "title: Post",
+      "---",
+      "",
+      'See the [FRAME Sprint](route:services/frame-sprint "Details") and [us](/contact).',
+      "",
+      "[blueprint]: route:services/architect-blueprint",
+    ].join("\n");
+
+    expect(collectMarkdownLinks(markdown, entry)).toEqual([
+      { ...entry, field: "line 5", href: "route:services/frame-sprint" },
+      { ...entry, field: "line 5", href: "/contact" },
+      { ...entry, field: "line 7", href: "route:services/architect-blueprint" },
+    ]);
+  });
+
+  it("should skip images, frontmatter and fenced code", () => {
+    const markdown = [
+      "---",
+      "cover: '[x](/not-a-link)'",
+      "---",
+      "![Diagram](/images/diagram.svg)",
+      "```md",
+      "[example](/services)",
+      "```",
+    ].join("\n");
+
+    expect(collectMarkdownLinks(markdown, entry)).toEqual([]);
+  });
+});
+
+describe("toInternalUrl", () => {
+  it("should resolve root-relative links", () => {
+    expect(toInternalUrl("/services#frame-sprint")?.pathname).toBe("/services");
+  });
+
+  it("should treat absolute URLs on the site origin as internal", () => {
+    expect(toInternalUrl("https://example.com/de", site)?.pathname).toBe("/de");
+  });
+
+  it.each(["https://other.com/", "mailto:hello@example.com", "tel:+4912345", "//cdn.example.com/x", "#main"])(
+    "should skip %s",
+    (href) => {
+      expect(toInternalUrl(href, site)).toBeNull();
+    }
+  );
+});
+
+describe("extractIds", () => {
+  it("should read single- and double-quoted ids", () => {
+    expect(extractIds(`<div id="a"></div><p data-id="x" id='b'></p>`)).toEqual(new Set(["a", "b"]));
+  });
+});
+
+describe("validateContentLinks", () => {
+  it("should accept pages, files and existing anchors", () => {
+    const links = [link("/"), link("/#services"), link("/services#frame-sprint"), link("/robots.txt")];
+    expect(validateContentLinks(links, builtSite, options)).toEqual([]);
+  });
+
+  it("should accept links into the entry's own locale", () => {
+    const links = [link("/de", "de"), link("https://example.com/de/dienstleistungen#frame-sprint", "de")];
+    expect(validateContentLinks(links, builtSite, options)).toEqual([]);
+  });
+
+  it("should report links without a generated page", () => {
+    const [issue] = validateContentLinks([link("/servics")], builtSite, options);
+    expect(issue.message).toBe('no page is generated for "/servics"');
+  });
+
+  it("should report missing anchors", () => {
+    const [issue] = validateContentLinks([link("/services#frame")], builtSite, options);
+    expect(issue.message).toBe('anchor "#frame" does not exist on /services');
+  });
+
+  it("should report fragments on non-HTML files", () => {
+    const [issue] = validateContentLinks([link("/robots.txt#top")], builtSite, options);
+    expect(issue.message).toBe('"#top" points into a non-HTML file');
+  });
+
+  it("should report links into another locale", () => {
+    const issues = validateContentLinks([link("/de/dienstleistungen"), link("/services", "de")], builtSite, options);
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'links to the "de" site from "en" content',
+      'links to the "en" site from "de" content',
+    ]);
+  });
+
+  it("should resolve symbolic links for the entry's locale", () => {
+    const resolveHref = (href: string, locale: string) =>
+      href === "route:services#frame-sprint"
+        ? locale === "de"
+          ? "/de/dienstleistungen#frame-sprint"
+          : "/services#frame-sprint"
+        : href;
+    const links = [link("route:services#frame-sprint"), link("route:services#frame-sprint", "de")];
+
+    expect(validateContentLinks(links, builtSite, { ...options, resolveHref })).toEqual([]);
+  });
+
+  it("should report symbolic links that cannot be resolved", () => {
+    const resolveHref = () => {
+      throw new Error('Invalid route link "route:servics"');
+    };
+    const [issue] = validateContentLinks([link("route:servics")], builtSite, { ...options, resolveHref });
+
+    expect(issue.message).toBe('Invalid route link "route:servics"');
+  });
+
+  it("should skip external links", () => {
+    expect(validateContentLinks([link("https://other.com/missing")], builtSite, options)).toEqual([]);
+  });
+});
+
+describe("formatLinkIssues", () => {
+  it("should print the file and field of each issue", () => {
+    const issues = validateContentLinks([link("/servics")], builtSite, options);
+    expect(formatLinkIssues(issues)).toBe(
+      'src/content/hero/en/home.json → href: "/servics" — no page is generated for "/servics"'
+    );
+  });
+});
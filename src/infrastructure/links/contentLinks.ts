@@ -0,0 +1,197 @@
+/**
+ * Internal links in content
+ *
+ * Content hrefs are free strings ("route:services#frame-sprint", "/de/dienstleistungen#frame-sprint").
+ * These helpers find them in content entries and check them against the built site.
+ */
+
+export interface ContentLink {
+  /** Content file, relative to the project root */
+  file: string;
+  /** JSON path of the field, e.g. "sections[1].items[0].href", or "line 12" in a markdown body */
+  field: string;
+  href: string;
+  /** Locale of the content entry */
+  locale: string;
+}
+
+export interface LinkIssue {
+  link: ContentLink;
+  message: string;
+}
+
+/** What a pathname resolves to in the build output */
+export type SiteEntry = { kind: "page"; html: string } | { kind: "file" };
+
+/** The built site as seen by the validator */
+export interface BuiltSite {
+  /** null when nothing is generated for the pathname */
+  resolve(pathname: string): SiteEntry | null;
+}
+
+export interface LinkValidationOptions {
+  locales: readonly string[];
+  defaultLocale: string;
+  /** Absolute URLs on this origin are internal too */
+  site?: URL;
+  /** Turns symbolic hrefs (`route:services#frame-sprint`) into paths; throws for unknown targets */
+  resolveHref?: (href: string, locale: string) => string;
+}
+
+/** Fields holding link targets */
+const LINK_FIELDS = new Set(["href"]);
+
+/**
+ * Collect the link fields of a content entry
+ *
+ * @example
+ * collectContentLinks({ primary: { href: "/contact" } }, { file: "hero/en/home.json", locale: "en" })
+ * // [{ file: "hero/en/home.json", field: "primary.href", href: "/contact", locale: "en" }]
+ */
+export function collectContentLinks(data: unknown, entry: { file: string; locale: string }): ContentLink[] {
+  const links: ContentLink[] = [];
+
+  const walk = (value: unknown, field: string) => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => walk(item, `${field}[${index}]`));
+    } else if (value && typeof value === "object") {
+      for (const [key, child] of Object.entries(value)) {
+        const childField = field ? `${field}.${key}` : key;
+        if (LINK_FIELDS.has(key) && typeof child === "string") links.push({ ...entry, field: childField, href: child });
+        else walk(child, childField);
+      }
+    }
+  };
+
+  walk(data, "");
+  return links;
+}
+
+/** Inline links `[text](href "title")` and reference definitions `[id]: href`; images are not links */
+const MARKDOWN_LINK =
+  /(?<!!)\[[^\]]*\]\(\s*<?([^\s)>]+)>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)|^ {0,3}\[[^\]]+\]:\s*<?([^\s>]+)>?/g;
+
+/**
+ * Collect the links of a markdown entry, skipping the frontmatter and fenced code
+ *
+ * @example
+ * collectMarkdownLinks("---\ntitle: Hi\n---\nSee [FRAME](route:services/frame-sprint).", { file: "insights/en/hi.md", locale: "en" })
+ * // [{ file: "insights/en/hi.md", field: "line 4", href: "route:services/frame-sprint", locale: "en" }]
+ */
+export function collectMarkdownLinks(markdown: string, entry: { file: string; locale: string }): ContentLink[] {
+  const links: ContentLink[] = [];
+  const lines = markdown.split("\n");
+  let skipUntil: string | null = lines[0]?.trim() === "---" ? "---" : null;
+
+  lines.forEach((line, index) => {
+    if (index === 0 && skipUntil) return;
+
+    const fence = line.match(/^ {0,3}(`{3,}|~{3,})/)?.[1];
+    if (skipUntil) {
+      if (skipUntil === "---" ? line.trim() === "---" : fence?.startsWith(skipUntil)) skipUntil = null;
+      return;
+    }
+    if (fence) {
+      skipUntil = fence;
+      return;
+    }
+
+    for (const match of line.matchAll(MARKDOWN_LINK)) {
+      links.push({ ...entry, field: `line ${index + 1}`, href: match[1] ?? match[2] });
+    }
+  });
+
+  return links;
+}
+
+/**
+ * Resolve an href to a same-site URL, or null for external links (other origins, mailto:, tel:)
+ */
+export function toInternalUrl(href: string, site?: URL): URL | null {
+  const base = site ?? new URL("https://internal.invalid");
+
+  if (href.startsWith("#")) return null;
+  if (href.startsWith("//")) return null;
+  if (!href.startsWith("/") && !(site && href.startsWith(site.origin))) return null;
+
+  const url = new URL(href, base);
+  return url.origin === base.origin ? url : null;
+}
+
+/** Element ids of a document */
+export function extractIds(html: string): Set<string> {
+  return new Set([...html.matchAll(/\sid\s*=\s*(?:"([^"]*)"|'([^']*)')/gi)].map((match) => match[1] ?? match[2]));
+}
+
+/** Locale of a path from its prefix ("/de/kontakt" → "de"); unprefixed paths belong to the default locale */
+function getPathLocale(pathname: string, { locales, defaultLocale }: LinkValidationOptions): string {
+  const [firstSegment] = pathname.split("/").filter(Boolean);
+  return firstSegment && locales.includes(firstSegment) ? firstSegment : defaultLocale;
+}
+
+/**
+ * Check content links against the built site
+ * - the path must be a generated page or file
+ * - a fragment must match an element id on that page
+ * - the target must be in the entry's own locale
+ */
+export function validateContentLinks(
+  links: ContentLink[],
+  site: BuiltSite,
+  options: LinkValidationOptions
+): LinkIssue[] {
+  const idsByPage = new Map<string, Set<string>>();
+  const issues: LinkIssue[] = [];
+
+  for (const link of links) {
+    let href: string;
+    try {
+      href = options.resolveHref ? options.resolveHref(link.href, link.locale) : link.href;
+    } catch (error) {
+      issues.push({ link, message: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+
+    const url = toInternalUrl(href, options.site);
+    if (!url) continue;
+
+    const pathname = decodeURIComponent(url.pathname);
+    const entry = site.resolve(pathname);
+
+    if (!entry) {
+      issues.push({ link, message: `no page is generated for "${pathname}"` });
+      continue;
+    }
+
+    const targetLocale = getPathLocale(pathname, options);
+    if (targetLocale !== link.locale) {
+      issues.push({ link, message: `links to the "${targetLocale}" site from "${link.locale}" content` });
+    }
+
+    const anchor = decodeURIComponent(url.hash.slice(1));
+    if (!anchor) continue;
+
+    if (entry.kind === "file") {
+      issues.push({ link, message: `"#${anchor}" points into a non-HTML file` });
+      continue;
+    }
+
+    let ids = idsByPage.get(pathname);
+    if (!ids) {
+      ids = extractIds(entry.html);
+      idsByPage.set(pathname, ids);
+    }
+    if (!ids.has(anchor)) {
+      issues.push({ link, message: `anchor "#${anchor}" does not exist on ${pathname}` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * One line per issue: file → field: "href" — problem
+ */
+export function formatLinkIssues(issues: LinkIssue[]): string {
+  return issues.map(({ link, message }) => `${link.file} → ${link.field}: "${link.href}" — ${message}`).join("\n");
+}
@@ -0,0 +1,11 @@
+export {
+  collectContentLinks,
+  collectMarkdownLinks,
+  extractIds,
+  formatLinkIssues,
+  toInternalUrl,
+  validateContentLinks,
+} from "./contentLinks";
+export type { BuiltSite, ContentLink, LinkIssue, LinkValidationOptions, SiteEntry } from "./contentLinks";
+export { getContentFileLocale, remarkRouteLinks } from "./remarkRouteLinks";
+export type { RemarkRouteLinksOptions } from "./remarkRouteLinks";
@@ -0,0 +1,105 @@
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { readdir, readFile } from "node:fs/promises";
+import { join, relative, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { AstroIntegration } from "astro";
+import { collectContentLinks, collectMarkdownLinks, formatLinkIssues, validateContentLinks } from "./contentLinks";
+import type { BuiltSite, ContentLink, SiteEntry } from "./contentLinks";
+
+export interface LinkValidationIntegrationOptions {
+  locales: readonly string[];
+  defaultLocale: string;
+  /** See LinkValidationOptions.resolveHref */
+  resolveHref?: (href: string, locale: string) => string;
+}
+
+/**
+ * Read every localized content entry: {collection}/{locale}/{entry}.json, {collection}/{locale}.json
+ * and markdown bodies ({collection}/{locale}/{entry}.md)
+ * Folders starting with "_" (schemas, collection definitions) are skipped
+ */
+async function readContentLinks(contentDir: string, rootDir: string, locales: readonly string[]) {
+  const links: ContentLink[] = [];
+  const files = (await readdir(contentDir, { recursive: true })).filter(
+    (file) => /\.(json|md)$/.test(file) && !file.split(sep).some((segment) => segment.startsWith("_"))
+  );
+
+  for (const file of files.sort()) {
+    const [, localeSegment] = file.split(sep);
+    const locale = localeSegment?.replace(/\.json$/, "");
+    if (!locale || !locales.includes(locale)) continue;
+
+    const path = join(contentDir, file);
+    const entry = { file: relative(rootDir, path).split(sep).join("/"), locale };
+    const content = await readFile(path, "utf-8");
+    links.push(
+      ...(file.endsWith(".md") ? collectMarkdownLinks(content, entry) : collectContentLinks(JSON.parse(content), entry))
+    );
+  }
+
+  return links;
+}
+
+/** Resolve pathnames like the static file server: /about → about/index.html, /robots.txt → robots.txt */
+function createBuiltSite(clientDir: string): BuiltSite {
+  const cache = new Map<string, SiteEntry | null>();
+
+  const resolve = (pathname: string): SiteEntry | null => {
+    const relativePath = pathname.replace(/^\/+|\/+$/g, "");
+    const candidates = [join(relativePath, "index.html"), `${relativePath}.html`, relativePath].filter(Boolean);
+
+    for (const candidate of candidates) {
+      const path = join(clientDir, candidate);
+      if (!existsSync(path) || !statSync(path).isFile()) continue;
+
+      return path.endsWith(".html") ? { kind: "page", html: readFileSync(path, "utf-8") } : { kind: "file" };
+    }
+
+    return null;
+  };
+
+  return {
+    resolve(pathname) {
+      if (!cache.has(pathname)) cache.set(pathname, resolve(pathname));
+      return cache.get(pathname) ?? null;
+    },
+  };
+}
+
+/**
+ * Fails `astro build` when content links are broken
+ *
+ * Every `href` and markdown link in src/content must point to a generated page (or file) of the same locale,
+ * and its #fragment must be an element id on that page.
+ */
+export function linkValidationIntegration(options: LinkValidationIntegrationOptions): AstroIntegration {
+  let site: URL | undefined;
+  let srcDir: URL;
+  let rootDir: URL;
+
+  return {
+    name: "link-validation",
+    hooks: {
+      "astro:config:done": ({ config }) => {
+        site = config.site ? new URL(config.site) : undefined;
+        srcDir = config.srcDir;
+        rootDir = config.root;
+      },
+      "astro:build:done": async ({ dir, logger }) => {
+        const links = await readContentLinks(
+          fileURLToPath(new URL("content/", srcDir)),
+          fileURLToPath(rootDir),
+          options.locales
+        );
+        const issues = validateContentLinks(links, createBuiltSite(fileURLToPath(dir)), { ...options, site });
+
+        if (issues.length > 0) {
+          logger.error(`${issues.length} broken content link(s):\n${formatLinkIssues(issues)}`);
+          throw new Error(`Content link validation failed (${issues.length} broken link(s))`);
+        }
+
+        logger.info(`${links.length} content links verified`);
+      },
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import { join } from "node:path";
+import { describe, it, expect } from "vitest";
+import { resolveHref } from "@/i18n/links";
+import type { Locale } from "@/domain";
+import { getContentFileLocale, remarkRouteLinks } from "./remarkRouteLinks";
+
+const locales = ["en", "de"];
+const transform = remarkRouteLinks({ locales, resolveHref: (href, locale) => resolveHref(href, locale as Locale) });
+
+const tree = () => ({
+  type: "root",
+  children: [
+    {
+      type: "paragraph",
+      children: [
+        { type: "link", url: "route:services/frame-sprint", children: [{ type: "text" }] },
+        { type: "link", url: "https://example.com", children: [] },
+      ],
+    },
+    { type: "definition", url: "route:contact" },
+  ],
+});
+
+describe("getContentFileLocale", () => {
+  it("should read the locale folder after the collection", () => {
+    expect(getContentFileLocale(join("/app", "src", "content", "insights", "de", "post.md"), locales)).toBe("de");
+    expect(getContentFileLocale(join("/app", "src", "content", "insights", "post.md"), locales)).toBeUndefined();
+    expect(getContentFileLocale(join("/app", "README.md"), locales)).toBeUndefined();
+  });
+});
+
+describe("remarkRouteLinks", () => {
+  it("should resolve route links for the entry's locale", () => {
+    const markdown = tree();
+    transform(markdown, { path: join("/app", "src", "content", "insights", "de", "post.md") });
+
+    expect(markdown.children[0].children?.map((node) => node.url)).toEqual([
+      "/de/dienstleistungen/frame-sprint",
+      "https://example.com",
+    ]);
+    expect(markdown.children[1].url).toBe("/de/kontakt");
+  });
+
+  it("should leave markdown outside localized content alone", () => {
+    const markdown = tree();
+    transform(markdown, { path: join("/app", "README.md") });
+
+    expect(markdown.children[1].url).toBe("route:contact");
+  });
+
+  it("should fail on unknown routes", () => {
+    const markdown = { type: "root", children: [{ type: "link", url: "route:nowhere" }] };
+
+    expect(() => transform(markdown, { path: join("/app", "src", "content", "insights", "en", "post.md") })).toThrow(
+      'Invalid route link "route:nowhere"'
+    );
+  });
+});
@@ -0,0 +1,41 @@
+import { sep } from "node:path";
+
+/** The parts of a markdown (mdast) node the plugin reads: links and definitions carry `url` */
+interface MarkdownNode {
+  type: string;
+  url?: string;
+  children?: MarkdownNode[];
+}
+
+export interface RemarkRouteLinksOptions {
+  locales: readonly string[];
+  /** Turns `route:` hrefs into localized paths, see resolveHref in src/i18n/links.ts */
+  resolveHref: (href: string, locale: string) => string;
+}
+
+/** Locale of a content file: src/content/{collection}/{locale}/{entry}.md */
+export function getContentFileLocale(path: string, locales: readonly string[]): string | undefined {
+  const segments = path.split(sep);
+  const contentIndex = segments.lastIndexOf("content");
+  const locale = contentIndex === -1 ? undefined : segments[contentIndex + 2];
+  return locale && locales.includes(locale) ? locale : undefined;
+}
+
+/**
+ * Remark plugin: resolves `route:` links in markdown content for the entry's locale
+ * so posts link like JSON content does (`[FRAME Sprint](route:services/frame-sprint)`)
+ *
+ * Registered in astro.config.mjs (`markdown.remarkPlugins`); unknown routes fail the build.
+ */
+export function remarkRouteLinks({ locales, resolveHref }: RemarkRouteLinksOptions) {
+  return (tree: MarkdownNode, file: { path?: string }) => {
+    const locale = file.path ? getContentFileLocale(file.path, locales) : undefined;
+    if (!locale) return;
+
+    const visit = (node: MarkdownNode) => {
+      if (node.url?.startsWith("route:")) node.url = resolveHref(node.url, locale);
+      node.children?.forEach(visit);
+    };
+    visit(tree);
+  };
+}
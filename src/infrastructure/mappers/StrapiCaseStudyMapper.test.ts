@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { toCaseStudy } from "./StrapiCaseStudyMapper";
+import type { StrapiCaseStudy } from "./StrapiCaseStudyMapper";
+
+const raw: StrapiCaseStudy = {
+  id: 1,
+  documentId: "case-study-grid-operator",
+  locale: "en",
+  slug: "grid-operator-stress-test",
+  title: "Stress-testing a transmission grid's control architecture",
+  summary: "A grid operator mapped its hidden dependencies before the regulator's resilience review.",
+  sector: "Transmission system operator",
+  challenge: "Nobody could say which control systems failed together.",
+  approach: "A FRAME Sprint mapped dependencies, a MODEL Validation tested the critical slices.",
+  outcomes: [{ id: 1, value: "3 weeks", label: "to a board-ready dependency map" }],
+  services: [{ slug: "frame-sprint" }, { slug: "model-validation" }],
+  domains: [{ slug: "energy-infrastructure" }],
+  order: 1,
+};
+
+describe("StrapiCaseStudyMapper", () => {
+  it("maps a Strapi case study to the CaseStudy entity", () => {
+    expect(toCaseStudy(raw)).toEqual({
+      slug: "grid-operator-stress-test",
+      title: "Stress-testing a transmission grid's control architecture",
+      summary: "A grid operator mapped its hidden dependencies before the regulator's resilience review.",
+      sector: "Transmission system operator",
+      challenge: "Nobody could say which control systems failed together.",
+      approach: "A FRAME Sprint mapped dependencies, a MODEL Validation tested the critical slices.",
+      outcomes: [{ value: "3 weeks", label: "to a board-ready dependency map" }],
+      services: ["frame-sprint", "model-validation"],
+      domains: ["energy-infrastructure"],
+      order: 1,
+    });
+  });
+
+  it("throws on invalid data", () => {
+    expect(() => toCaseStudy({ ...raw, slug: "Grid Operator" })).toThrow("Invalid case study slug: Grid Operator");
+    expect(() => toCaseStudy({ ...raw, outcomes: [] })).toThrow();
+    expect(() => toCaseStudy({ ...raw, services: null })).toThrow();
+  });
+});
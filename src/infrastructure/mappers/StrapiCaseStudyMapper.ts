@@ -0,0 +1,46 @@
+import type { CaseStudy } from "@/domain";
+import { assertSlug } from "@/domain";
+import { caseStudySchema } from "@/content/_schemas/caseStudy";
+import { withoutNulls } from "./strapiUtils";
+
+/** Strapi "case-studies" collection type entry (v5 flat response format) */
+export interface StrapiCaseStudy {
+  id: number;
+  documentId: string;
+  locale: string;
+  slug: string;
+  title: string;
+  summary: string;
+  sector: string;
+  challenge: string;
+  approach: string;
+  /** Repeatable "shared.outcome-metric" component */
+  outcomes: { id?: number; value: string; label: string }[];
+  /** Relations to "services" and "industry-domains"; only the slugs are needed */
+  services?: { slug: string }[] | null;
+  domains?: { slug: string }[] | null;
+  order: number;
+}
+
+/**
+ * Maps a Strapi case study entry to the CaseStudy entity
+ * Validates with the same zod schema as the Content Collection
+ */
+export function toCaseStudy(raw: StrapiCaseStudy): CaseStudy {
+  const { slug, title, summary, sector, challenge, approach, outcomes, services, domains, order } = withoutNulls(raw);
+
+  return {
+    slug: assertSlug(slug, `Invalid case study slug: ${slug}`),
+    ...caseStudySchema.parse({
+      title,
+      summary,
+      sector,
+      challenge,
+      approach,
+      outcomes: outcomes.map(({ value, label }) => ({ value, label })),
+      services: services?.map((service) => service.slug) ?? [],
+      domains: domains?.map((domain) => domain.slug) ?? [],
+      order,
+    }),
+  };
+}
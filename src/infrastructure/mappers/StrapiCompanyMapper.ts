@@ -0,0 +1,52 @@
+import type { Company } from "@/content/_schemas/company";
+import { companySchema } from "@/content/_schemas/company";
+import type { StrapiMedia } from "./strapiUtils";
+import { withoutNulls } from "./strapiUtils";
+
+/** Strapi "company" single type (v5 flat response format) */
+export interface StrapiCompany {
+  id: number;
+  documentId: string;
+  locale: string;
+  name: string;
+  legalName?: string | null;
+  description: string;
+  logo: StrapiMedia;
+  email?: string | null;
+  telephone?: string | null;
+  address?: {
+    id?: number;
+    streetAddress: string;
+    postalCode: string;
+    addressLocality: string;
+    addressCountry: string;
+  } | null;
+  /** Repeatable text components */
+  areaServed?: { id?: number; name: string }[] | null;
+  sameAs?: { id?: number; url: string }[] | null;
+}
+
+/**
+ * Maps the Strapi company single type to the Company content model
+ * Validates with the same zod schema as the Content Collection
+ */
+export function toCompany(raw: StrapiCompany): Company {
+  const { name, legalName, description, logo, email, telephone, address, areaServed, sameAs } = withoutNulls(raw);
+
+  return companySchema.parse({
+    name,
+    legalName,
+    description,
+    logo: logo.url,
+    email,
+    telephone,
+    address: address && {
+      streetAddress: address.streetAddress,
+      postalCode: address.postalCode,
+      addressLocality: address.addressLocality,
+      addressCountry: address.addressCountry,
+    },
+    areaServed: areaServed?.map((area) => area.name),
+    sameAs: sameAs?.map((profile) => profile.url),
+  });
+}
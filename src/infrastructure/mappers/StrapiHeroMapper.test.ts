@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { toHero } from "./StrapiHeroMapper";
+import type { StrapiHero } from "./StrapiHeroMapper";
+
+const raw: StrapiHero = {
+  id: 1,
+  documentId: "hero-home",
+  page: "home",
+  locale: "en",
+  title: "Resilience Architecture",
+  subtitle: "Independent consulting",
+  primaryCta: { id: 1, label: "Book an Intro Call", href: "/contact" },
+  secondaryCta: null,
+  image: null,
+};
+
+describe("StrapiHeroMapper", () => {
+  it("maps a Strapi hero and drops empty optional fields", () => {
+    expect(toHero(raw)).toEqual({
+      title: "Resilience Architecture",
+      subtitle: "Independent consulting",
+      primaryCta: { label: "Book an Intro Call", href: "/contact" },
+    });
+  });
+
+  it("maps media fields to their URL", () => {
+    const hero = toHero({ ...raw, image: { url: "/uploads/hero.jpg", alternativeText: null } });
+    expect(hero.image).toBe("/uploads/hero.jpg");
+  });
+
+  it("throws on invalid data", () => {
+    expect(() => toHero({ ...raw, title: "" })).toThrow();
+  });
+});
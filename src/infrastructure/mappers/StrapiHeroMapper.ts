@@ -0,0 +1,33 @@
+import type { Hero } from "@/content/_schemas/hero";
+import { heroSchema } from "@/content/_schemas/hero";
+import type { StrapiCta, StrapiMedia } from "./strapiUtils";
+import { withoutNulls } from "./strapiUtils";
+
+/** Strapi "hero" collection type entry (v5 flat response format) */
+export interface StrapiHero {
+  id: number;
+  documentId: string;
+  page: string;
+  locale: string;
+  title: string;
+  subtitle: string;
+  primaryCta: StrapiCta;
+  secondaryCta?: StrapiCta | null;
+  image?: StrapiMedia | null;
+}
+
+/**
+ * Maps a Strapi hero entry to the Hero content model
+ * Validates with the same zod schema as the Content Collection
+ */
+export function toHero(raw: StrapiHero): Hero {
+  const { title, subtitle, primaryCta, secondaryCta, image } = withoutNulls(raw);
+
+  return heroSchema.parse({
+    title,
+    subtitle,
+    primaryCta,
+    secondaryCta,
+    image: image?.url,
+  });
+}
@@ -0,0 +1,29 @@
+import type { IndustryDomain } from "@/domain";
+import { assertSlug } from "@/domain";
+import { industryDomainSchema } from "@/content/_schemas/industryDomain";
+import { withoutNulls } from "./strapiUtils";
+
+/** Strapi "industry-domains" collection type entry (v5 flat response format) */
+export interface StrapiIndustryDomain {
+  id: number;
+  documentId: string;
+  locale: string;
+  slug: string;
+  title: string;
+  summary: string;
+  description: string;
+  order: number;
+}
+
+/**
+ * Maps a Strapi industry domain entry to the IndustryDomain entity
+ * Validates with the same zod schema as the Content Collection
+ */
+export function toIndustryDomain(raw: StrapiIndustryDomain): IndustryDomain {
+  const { slug, title, summary, description, order } = withoutNulls(raw);
+
+  return {
+    slug: assertSlug(slug, `Invalid industry domain slug: ${slug}`),
+    ...industryDomainSchema.parse({ title, summary, description, order }),
+  };
+}
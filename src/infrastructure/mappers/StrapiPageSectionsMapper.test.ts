@@ -0,0 +1,169 @@
+import { describe, it, expect } from "vitest";
+import { toPageSections } from "./StrapiPageSectionsMapper";
+import type { StrapiPageSections } from "./StrapiPageSectionsMapper";
+
+const baseEntry = { id: 1, documentId: "doc-1", page: "home", locale: "en" };
+
+describe("StrapiPageSectionsMapper", () => {
+  it("maps dynamic zone components to section types", () => {
+    const raw: StrapiPageSections = {
+      ...baseEntry,
+      sections: [
+        {
+          __component: "sections.one-liner",
+          id: 7,
+          sectionId: "fras",
+          anchor: "fras",
+          title: "How we work",
+          oneLiner: "FRAS™",
+          body: null,
+        },
+        {
+          __component: "sections.cta-strip",
+          id: 8,
+          sectionId: "home-cta",
+          title: "Ready?",
+          primary: { id: 1, label: "Contact", href: "/contact" },
+          secondary: null,
+        },
+      ],
+    };
+
+    expect(toPageSections(raw)).toEqual({
+      sections: [
+        { type: "oneLiner", id: "fras", anchor: "fras", title: "How we work", oneLiner: "FRAS™" },
+        { type: "ctaStrip", id: "home-cta", title: "Ready?", primary: { label: "Contact", href: "/contact" } },
+      ],
+    });
+  });
+
+  it("drops Strapi component ids from nested items", () => {
+    const result = toPageSections({
+      ...baseEntry,
+      sections: [
+        {
+          __component: "sections.cards",
+          id: 1,
+          sectionId: "pillars",
+          anchor: "what-we-do",
+          title: "What we do",
+          intro: "Intro",
+          items: [{ id: 1, title: "Card", text: "Text", href: null }],
+        },
+      ],
+    });
+
+    expect(result.sections[0]).toMatchObject({ items: [{ title: "Card", text: "Text" }] });
+  });
+
+  it("maps FAQ components including their question items", () => {
+    const result = toPageSections({
+      ...baseEntry,
+      sections: [
+        {
+          __component: "sections.faq",
+          id: 3,
+          sectionId: "fras-faq",
+          anchor: "faq",
+          title: "FAQ",
+          intro: null,
+          items: [{ id: 1, question: "What is FRAS™?", answer: "Our framework." }],
+        },
+      ],
+    });
+
+    expect(result.sections[0]).toEqual({
+      type: "faq",
+      id: "fras-faq",
+      anchor: "faq",
+      title: "FAQ",
+      items: [{ question: "What is FRAS™?", answer: "Our framework." }],
+    });
+  });
+
+  it("maps process components with their steps in order", () => {
+    const result = toPageSections({
+      ...baseEntry,
+      sections: [
+        {
+          __component: "sections.process",
+          id: 5,
+          sectionId: "engagement-path",
+          anchor: "how-we-engage",
+          title: "How we engage",
+          intro: null,
+          steps: [
+            {
+              id: 1,
+              title: "FRAME Sprint",
+              description: "Map the risks.",
+              duration: "2–3 weeks",
+              href: "route:services#frame-sprint",
+            },
+            { id: 2, title: "STEER Retainer", description: "Keep it running.", duration: null, href: null },
+          ],
+        },
+      ],
+    });
+
+    expect(result.sections[0]).toEqual({
+      type: "process",
+      id: "engagement-path",
+      anchor: "how-we-engage",
+      title: "How we engage",
+      steps: [
+        {
+          title: "FRAME Sprint",
+          description: "Map the risks.",
+          duration: "2–3 weeks",
+          href: "route:services#frame-sprint",
+        },
+        { title: "STEER Retainer", description: "Keep it running." },
+      ],
+    });
+  });
+
+  it("maps featured case studies from their relation to slugs", () => {
+    const section = (studies: unknown) =>
+      toPageSections({
+        ...baseEntry,
+        sections: [
+          {
+            __component: "sections.case-studies",
+            id: 4,
+            sectionId: "evidence",
+            anchor: "case-studies",
+            title: "Evidence",
+            intro: null,
+            studies,
+            filterable: null,
+          },
+        ],
+      }).sections[0];
+
+    expect(section([{ id: 2, slug: "grid-operator" }])).toEqual({
+      type: "caseStudies",
+      id: "evidence",
+      anchor: "case-studies",
+      title: "Evidence",
+      studies: ["grid-operator"],
+      filterable: false,
+    });
+    expect(section([])).toMatchObject({ type: "caseStudies", studies: undefined });
+  });
+
+  it("throws on unknown components", () => {
+    expect(() =>
+      toPageSections({ ...baseEntry, sections: [{ __component: "sections.video", id: 1, sectionId: "video" }] })
+    ).toThrow("Unknown Strapi section component: sections.video");
+  });
+
+  it("throws when a section fails schema validation", () => {
+    expect(() =>
+      toPageSections({
+        ...baseEntry,
+        sections: [{ __component: "sections.cards", id: 1, sectionId: "empty", anchor: "a", title: "T", intro: "I" }],
+      })
+    ).toThrow();
+  });
+});
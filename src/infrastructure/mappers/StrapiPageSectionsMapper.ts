@@ -0,0 +1,65 @@
+import type { PageSection, PageSections } from "@/content/_schemas/pageSections";
+import { pageSectionsSchema } from "@/content/_schemas/pageSections";
+import { withoutNulls } from "./strapiUtils";
+
+/**
+ * Strapi dynamic zone component
+ * Strapi reserves `id` for its numeric component id, so our section id is stored as `sectionId`
+ */
+export interface StrapiSection {
+  __component: string;
+  id: number;
+  sectionId: string;
+  [field: string]: unknown;
+}
+
+/** Strapi "page-section" collection type entry (v5 flat response format) */
+export interface StrapiPageSections {
+  id: number;
+  documentId: string;
+  page: string;
+  locale: string;
+  sections: StrapiSection[];
+}
+
+/** Strapi component UID → section `type` discriminator */
+const SECTION_TYPES: Record<string, PageSection["type"]> = {
+  "sections.cards": "cards",
+  "sections.one-liner": "oneLiner",
+  "sections.cta-strip": "ctaStrip",
+  "sections.faq": "faq",
+  "sections.process": "process",
+  "sections.collection-cards": "collectionCards",
+  "sections.case-studies": "caseStudies",
+};
+
+/**
+ * Featured studies are a relation to "case-studies"; only the slugs are needed
+ * An empty relation features all studies
+ */
+function toStudySlugs(studies: unknown): string[] | undefined {
+  if (!Array.isArray(studies) || studies.length === 0) return undefined;
+  return studies.map((study: { slug?: unknown }) => String(study.slug));
+}
+
+function toSection(raw: StrapiSection): unknown {
+  const type = SECTION_TYPES[raw.__component];
+
+  if (!type) {
+    throw new Error(`Unknown Strapi section component: ${raw.__component}`);
+  }
+
+  const { __component: _component, id: _strapiId, sectionId, ...fields } = withoutNulls(raw);
+  if (type === "caseStudies") return { ...fields, type, id: sectionId, studies: toStudySlugs(fields.studies) };
+  return { ...fields, type, id: sectionId };
+}
+
+/**
+ * Maps a Strapi page-sections entry (dynamic zone) to the PageSections content model
+ * Validates with the same zod schema as the Content Collection
+ */
+export function toPageSections(raw: StrapiPageSections): PageSections {
+  return pageSectionsSchema.parse({
+    sections: raw.sections.map(toSection),
+  });
+}
@@ -0,0 +1,75 @@
+import type { OgType, SeoDefaults, SeoMetadata } from "@/content/_schemas/seo";
+import { seoDefaultsSchema, seoSchema } from "@/content/_schemas/seo";
+import type { StrapiMedia } from "./strapiUtils";
+import { withoutNulls } from "./strapiUtils";
+
+/** Social sharing fields shared by "seo" entries and the "seo-default" single type */
+interface StrapiSocialFields {
+  ogImage?: StrapiMedia | null;
+  ogImageAlt?: string | null;
+  ogType?: OgType | null;
+  /** JSON field with a list of keywords */
+  keywords?: string[] | null;
+  twitterSite?: string | null;
+}
+
+/** Strapi "seo" collection type entry (v5 flat response format) */
+export interface StrapiSeo extends StrapiSocialFields {
+  id: number;
+  documentId: string;
+  page: string;
+  locale: string;
+  title: string;
+  description: string;
+  noIndex?: boolean | null;
+  canonical?: string | null;
+  updatedAt?: string | null;
+}
+
+/** Strapi "seo-default" single type (v5 flat response format) */
+export interface StrapiSeoDefaults extends StrapiSocialFields {
+  id: number;
+  documentId: string;
+  locale: string;
+  siteName: string;
+  description?: string | null;
+}
+
+/**
+ * Maps a Strapi SEO entry to the SeoMetadata content model
+ * Validates with the same zod schema as the Content Collection
+ */
+export function toSeoMetadata(raw: StrapiSeo): SeoMetadata {
+  const { title, description, noIndex, canonical, updatedAt, ogImage, ogImageAlt, ogType, keywords, twitterSite } =
+    withoutNulls(raw);
+
+  return seoSchema.parse({
+    title,
+    description,
+    noIndex,
+    canonical,
+    lastModified: updatedAt,
+    ogImage: ogImage?.url,
+    ogImageAlt: ogImageAlt ?? ogImage?.alternativeText,
+    ogType,
+    keywords,
+    twitterSite,
+  });
+}
+
+/**
+ * Maps the Strapi SEO defaults single type to the SeoDefaults content model
+ */
+export function toSeoDefaults(raw: StrapiSeoDefaults): SeoDefaults {
+  const { siteName, description, ogImage, ogImageAlt, ogType, keywords, twitterSite } = withoutNulls(raw);
+
+  return seoDefaultsSchema.parse({
+    siteName,
+    description,
+    ogImage: ogImage?.url,
+    ogImageAlt: ogImageAlt ?? ogImage?.alternativeText,
+    ogType,
+    keywords,
+    twitterSite,
+  });
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { toService } from "./StrapiServiceMapper";
+import type { StrapiService } from "./StrapiServiceMapper";
+
+const raw: StrapiService = {
+  id: 1,
+  documentId: "service-frame-sprint",
+  locale: "en",
+  slug: "frame-sprint",
+  title: "FRAME Sprint",
+  summary: "Fast orientation: dependencies, constraints, priorities, and decision context.",
+  description: "A short, focused sprint that maps what matters before anyone commits budget.",
+  deliverables: [
+    { id: 1, label: "Dependency and constraint map" },
+    { id: 2, label: "Prioritized decision backlog" },
+  ],
+  duration: { id: 3, kind: "weeks", min: 2, max: 3 },
+  relatedDomains: [{ slug: "energy-infrastructure" }, { slug: "finance" }],
+  order: 1,
+};
+
+describe("StrapiServiceMapper", () => {
+  it("maps a Strapi service to the Service entity", () => {
+    expect(toService(raw)).toEqual({
+      slug: "frame-sprint",
+      title: "FRAME Sprint",
+      summary: "Fast orientation: dependencies, constraints, priorities, and decision context.",
+      description: "A short, focused sprint that maps what matters before anyone commits budget.",
+      deliverables: ["Dependency and constraint map", "Prioritized decision backlog"],
+      duration: { kind: "weeks", min: 2, max: 3 },
+      relatedDomains: ["energy-infrastructure", "finance"],
+      order: 1,
+    });
+  });
+
+  it("maps open-ended durations and missing relations", () => {
+    const service = toService({
+      ...raw,
+      duration: { id: 3, kind: "ongoing", min: null, max: null },
+      relatedDomains: null,
+    });
+
+    expect(service.duration).toEqual({ kind: "ongoing" });
+    expect(service.relatedDomains).toEqual([]);
+  });
+
+  it("throws on invalid data", () => {
+    expect(() => toService({ ...raw, slug: "Frame Sprint" })).toThrow("Invalid service slug: Frame Sprint");
+    expect(() => toService({ ...raw, duration: { kind: "weeks", min: 3, max: 2 } })).toThrow();
+    expect(() => toService({ ...raw, deliverables: [] })).toThrow();
+  });
+});
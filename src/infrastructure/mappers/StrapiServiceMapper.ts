@@ -0,0 +1,51 @@
+import type { Service } from "@/domain";
+import { assertSlug } from "@/domain";
+import { serviceSchema } from "@/content/_schemas/service";
+import { withoutNulls } from "./strapiUtils";
+
+/** Strapi "shared.duration" component */
+export interface StrapiDuration {
+  id?: number;
+  kind: "weeks" | "ongoing";
+  min?: number | null;
+  max?: number | null;
+}
+
+/** Strapi "services" collection type entry (v5 flat response format) */
+export interface StrapiService {
+  id: number;
+  documentId: string;
+  locale: string;
+  slug: string;
+  title: string;
+  summary: string;
+  description: string;
+  /** Repeatable "shared.deliverable" component */
+  deliverables: { id?: number; label: string }[];
+  duration: StrapiDuration;
+  /** Relation to "industry-domains"; only the slug is needed */
+  relatedDomains?: { slug: string }[] | null;
+  order: number;
+}
+
+/**
+ * Maps a Strapi service entry to the Service entity
+ * Validates with the same zod schema as the Content Collection
+ */
+export function toService(raw: StrapiService): Service {
+  const { slug, title, summary, description, deliverables, duration, relatedDomains, order } = withoutNulls(raw);
+  const { id: _componentId, ...durationFields } = duration;
+
+  return {
+    slug: assertSlug(slug, `Invalid service slug: ${slug}`),
+    ...serviceSchema.parse({
+      title,
+      summary,
+      description,
+      deliverables: deliverables.map((deliverable) => deliverable.label),
+      duration: durationFields,
+      relatedDomains: relatedDomains?.map((domain) => domain.slug),
+      order,
+    }),
+  };
+}
@@ -0,0 +1,14 @@
+export { toHero } from "./StrapiHeroMapper";
+export type { StrapiHero } from "./StrapiHeroMapper";
+export { toSeoMetadata, toSeoDefaults } from "./StrapiSeoMapper";
+export type { StrapiSeo, StrapiSeoDefaults } from "./StrapiSeoMapper";
+export { toPageSections } from "./StrapiPageSectionsMapper";
+export type { StrapiPageSections, StrapiSection } from "./StrapiPageSectionsMapper";
+export { toCompany } from "./StrapiCompanyMapper";
+export type { StrapiCompany } from "./StrapiCompanyMapper";
+export { toService } from "./StrapiServiceMapper";
+export type { StrapiService, StrapiDuration } from "./StrapiServiceMapper";
+export { toIndustryDomain } from "./StrapiIndustryDomainMapper";
+export type { StrapiIndustryDomain } from "./StrapiIndustryDomainMapper";
+export { toCaseStudy } from "./StrapiCaseStudyMapper";
+export type { StrapiCaseStudy } from "./StrapiCaseStudyMapper";
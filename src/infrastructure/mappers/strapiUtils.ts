@@ -0,0 +1,40 @@
+/**
+ * Shared helpers for Strapi mappers
+ */
+
+/** Strapi CTA component (shared.cta) */
+export interface StrapiCta {
+  id?: number;
+  label: string;
+  href: string;
+}
+
+/** Strapi media field (only the fields we use) */
+export interface StrapiMedia {
+  url: string;
+  alternativeText?: string | null;
+}
+
+/** Recursively replaces `null` with `undefined` */
+export type WithoutNulls<T> = T extends null
+  ? undefined
+  : T extends (infer U)[]
+    ? WithoutNulls<U>[]
+    : T extends object
+      ? { [K in keyof T]: WithoutNulls<T[K]> }
+      : T;
+
+/**
+ * Strapi returns `null` for empty optional fields, our zod schemas expect them to be absent.
+ * Converts nulls to undefined so `.optional()` fields validate.
+ */
+export function withoutNulls<T>(value: T): WithoutNulls<T> {
+  if (value === null) return undefined as WithoutNulls<T>;
+  if (Array.isArray(value)) return value.map(withoutNulls) as WithoutNulls<T>;
+  if (typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, entry]) => [key, withoutNulls(entry)])
+    ) as WithoutNulls<T>;
+  }
+  return value as WithoutNulls<T>;
+}
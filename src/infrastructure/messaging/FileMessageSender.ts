@@ -0,0 +1,26 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { MessageSender } from "@/application/ports/MessageSender";
+import type { ContactMessage } from "@/domain";
+import { formatContactMessage } from "./formatContactMessage";
+
+/**
+ * MessageSender for local development
+ * Writes each message as JSON into an outbox folder and logs it to the console
+ */
+export class FileMessageSender implements MessageSender {
+  constructor(private readonly outboxDir: string) {}
+
+  async send(message: ContactMessage): Promise<void> {
+    const { subject, text } = formatContactMessage(message);
+    const sentAt = new Date().toISOString();
+    const fileName = `${sentAt.replace(/[:.]/g, "-")}-${randomUUID().slice(0, 8)}.json`;
+    const filePath = join(this.outboxDir, fileName);
+
+    await mkdir(this.outboxDir, { recursive: true });
+    await writeFile(filePath, JSON.stringify({ sentAt, subject, message }, null, 2), "utf-8");
+
+    console.info(`[contact] ${subject} → ${filePath}\n${text}`);
+  }
+}
@@ -0,0 +1,56 @@
+import nodemailer from "nodemailer";
+import type { SendMailOptions } from "nodemailer";
+import type { MessageSender } from "@/application/ports/MessageSender";
+import type { ContactMessage } from "@/domain";
+import { formatContactMessage } from "./formatContactMessage";
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /** Envelope sender, must be allowed by the SMTP server */
+  from: string;
+  /** Inbox that receives contact requests */
+  to: string;
+}
+
+/** The part of a nodemailer transport the sender uses; tests pass a stub */
+export interface MailTransport {
+  sendMail(mail: SendMailOptions): Promise<unknown>;
+}
+
+/**
+ * MessageSender for production
+ * Sends contact messages via SMTP; the visitor's address is used as Reply-To
+ */
+export class SmtpMessageSender implements MessageSender {
+  private readonly transport: MailTransport;
+
+  constructor(
+    private readonly options: SmtpOptions,
+    transport?: MailTransport
+  ) {
+    this.transport =
+      transport ??
+      nodemailer.createTransport({
+        host: options.host,
+        port: options.port,
+        secure: options.secure,
+        auth: options.user ? { user: options.user, pass: options.password } : undefined,
+      });
+  }
+
+  async send(message: ContactMessage): Promise<void> {
+    const { subject, text } = formatContactMessage(message);
+
+    await this.transport.sendMail({
+      from: this.options.from,
+      to: this.options.to,
+      replyTo: message.email,
+      subject,
+      text,
+    });
+  }
+}
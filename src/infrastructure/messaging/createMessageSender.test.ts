@@ -0,0 +1,88 @@
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createMessageSender } from "./createMessageSender";
+import { FileMessageSender } from "./FileMessageSender";
+import { SmtpMessageSender } from "./SmtpMessageSender";
+import type { MailTransport } from "./SmtpMessageSender";
+import type { ContactMessage } from "@/domain";
+
+const message: ContactMessage = {
+  name: "Jane Doe",
+  email: "jane@example.com",
+  company: "ACME Energy",
+  message: "We need help with our target architecture.",
+  locale: "en",
+};
+
+describe("createMessageSender", () => {
+  it("creates a file sender for the file transport", () => {
+    const sender = createMessageSender({ transport: "file", outboxDir: ".outbox", smtp: {} });
+    expect(sender).toBeInstanceOf(FileMessageSender);
+  });
+
+  it("creates an SMTP sender when SMTP is fully configured", () => {
+    const sender = createMessageSender({
+      transport: "smtp",
+      outboxDir: ".outbox",
+      smtp: { host: "smtp.example.com", port: 587, from: "web@example.com", to: "hello@example.com" },
+    });
+    expect(sender).toBeInstanceOf(SmtpMessageSender);
+  });
+
+  it("fails fast when SMTP is selected but incomplete", () => {
+    expect(() =>
+      createMessageSender({ transport: "smtp", outboxDir: ".outbox", smtp: { host: "smtp.example.com" } })
+    ).toThrow(/SMTP_HOST, SMTP_PORT, CONTACT_FROM and CONTACT_TO/);
+  });
+});
+
+describe("FileMessageSender", () => {
+  let outboxDir: string | undefined;
+
+  afterEach(async () => {
+    if (outboxDir) await rm(outboxDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it("writes each message as JSON into the outbox folder", async () => {
+    outboxDir = await mkdtemp(join(tmpdir(), "outbox-"));
+    vi.spyOn(console, "info").mockImplementation(() => {});
+
+    await new FileMessageSender(outboxDir).send(message);
+
+    const files = await readdir(outboxDir);
+    expect(files).toHaveLength(1);
+
+    const written = JSON.parse(await readFile(join(outboxDir, files[0]), "utf-8"));
+    expect(written.subject).toBe("Contact request from Jane Doe (ACME Energy)");
+    expect(written.message).toEqual(message);
+  });
+});
+
+describe("SmtpMessageSender", () => {
+  it("sends a plain-text mail with the visitor as Reply-To", async () => {
+    const sendMail = vi.fn<MailTransport["sendMail"]>().mockResolvedValue({});
+    const sender = new SmtpMessageSender(
+      {
+        host: "smtp.example.com",
+        port: 587,
+        secure: false,
+        from: "web@example.com",
+        to: "hello@example.com",
+      },
+      { sendMail }
+    );
+
+    await sender.send(message);
+
+    expect(sendMail).toHaveBeenCalledWith({
+      from: "web@example.com",
+      to: "hello@example.com",
+      replyTo: "jane@example.com",
+      subject: "Contact request from Jane Doe (ACME Energy)",
+      text: expect.stringContaining("We need help with our target architecture."),
+    });
+  });
+});
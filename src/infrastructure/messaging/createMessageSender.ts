@@ -0,0 +1,30 @@
+import type { MessageSender } from "@/application/ports/MessageSender";
+import { FileMessageSender } from "./FileMessageSender";
+import { SmtpMessageSender } from "./SmtpMessageSender";
+import type { SmtpOptions } from "./SmtpMessageSender";
+
+export type MessageTransport = "file" | "smtp";
+
+export interface MessageSenderConfig {
+  transport: MessageTransport;
+  outboxDir: string;
+  smtp: Partial<SmtpOptions>;
+}
+
+/**
+ * Pick the MessageSender adapter for the configured transport
+ * Fails fast when SMTP is selected but not fully configured
+ */
+export function createMessageSender(config: MessageSenderConfig): MessageSender {
+  if (config.transport === "file") {
+    return new FileMessageSender(config.outboxDir);
+  }
+
+  const { host, port, secure, user, password, from, to } = config.smtp;
+
+  if (!host || !port || !from || !to) {
+    throw new Error("SMTP transport requires SMTP_HOST, SMTP_PORT, CONTACT_FROM and CONTACT_TO");
+  }
+
+  return new SmtpMessageSender({ host, port, secure: secure ?? false, user, password, from, to });
+}
@@ -0,0 +1,26 @@
+import type { ContactMessage } from "@/domain";
+
+export interface FormattedMessage {
+  subject: string;
+  text: string;
+}
+
+/**
+ * Render a contact message as a plain-text email
+ * Shared by all MessageSender adapters so every channel looks the same
+ */
+export function formatContactMessage(message: ContactMessage): FormattedMessage {
+  const sender = message.company ? `${message.name} (${message.company})` : message.name;
+
+  return {
+    subject: `Contact request from ${sender}`,
+    text: [
+      `Name: ${message.name}`,
+      `Email: ${message.email}`,
+      `Company: ${message.company ?? "-"}`,
+      `Locale: ${message.locale}`,
+      "",
+      message.message,
+    ].join("\n"),
+  };
+}
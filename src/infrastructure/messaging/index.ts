@@ -0,0 +1,6 @@
+export { createMessageSender } from "./createMessageSender";
+export type { MessageSenderConfig, MessageTransport } from "./createMessageSender";
+export { FileMessageSender } from "./FileMessageSender";
+export { SmtpMessageSender } from "./SmtpMessageSender";
+export type { MailTransport, SmtpOptions } from "./SmtpMessageSender";
+export { formatContactMessage } from "./formatContactMessage";
@@ -0,0 +1,28 @@
+import { getCollection, getEntry } from "astro:content";
+import type { CaseStudyRepository } from "@/application/ports/CaseStudyRepository";
+import type { CaseStudyEntry } from "@/content/_schemas/caseStudy";
+import type { CaseStudy, Locale, Slug } from "@/domain";
+import { isCaseStudy } from "@/domain";
+
+/** Entry ids are "{locale}/{slug}"; isCaseStudy rejects file names that are not valid slugs */
+const toCaseStudy = (id: string, data: CaseStudyEntry): CaseStudy => {
+  const caseStudy = { slug: id.slice(id.indexOf("/") + 1), ...data };
+  if (!isCaseStudy(caseStudy)) throw new Error(`Invalid case study entry: ${id}`);
+  return caseStudy;
+};
+
+/**
+ * Case study repository backed by Astro Content Collections
+ * Entries live in src/content/caseStudies/{locale}/{slug}.json
+ */
+export class ContentCollectionCaseStudyRepository implements CaseStudyRepository {
+  async findAll(locale: Locale): Promise<CaseStudy[]> {
+    const entries = await getCollection("caseStudies", ({ id }) => id.startsWith(`${locale}/`));
+    return entries.map(({ id, data }) => toCaseStudy(id, data));
+  }
+
+  async findBySlug(locale: Locale, slug: Slug): Promise<CaseStudy | null> {
+    const entry = await getEntry("caseStudies", `${locale}/${slug}`);
+    return entry ? toCaseStudy(entry.id, entry.data) : null;
+  }
+}
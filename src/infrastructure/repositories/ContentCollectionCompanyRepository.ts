@@ -0,0 +1,15 @@
+import { getEntry } from "astro:content";
+import type { CompanyRepository } from "@/application/ports/CompanyRepository";
+import type { Company } from "@/content/_schemas/company";
+import type { Locale } from "@/domain";
+
+/**
+ * Company repository backed by Astro Content Collections
+ * Entries live in src/content/company/{locale}.json
+ */
+export class ContentCollectionCompanyRepository implements CompanyRepository {
+  async find(locale: Locale): Promise<Company | null> {
+    const entry = await getEntry("company", locale);
+    return entry?.data ?? null;
+  }
+}
@@ -0,0 +1,15 @@
+import { getEntry } from "astro:content";
+import type { HeroRepository } from "@/application/ports/HeroRepository";
+import type { Hero } from "@/content/_schemas/hero";
+import type { Locale } from "@/domain";
+
+/**
+ * Hero repository backed by Astro Content Collections
+ * Entries live in src/content/hero/{locale}/{page}.json
+ */
+export class ContentCollectionHeroRepository implements HeroRepository {
+  async findByPage(locale: Locale, page: string): Promise<Hero | null> {
+    const entry = await getEntry("hero", `${locale}/${page}`);
+    return entry?.data ?? null;
+  }
+}
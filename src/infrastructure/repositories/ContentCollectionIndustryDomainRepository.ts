@@ -0,0 +1,28 @@
+import { getCollection, getEntry } from "astro:content";
+import type { IndustryDomainRepository } from "@/application/ports/IndustryDomainRepository";
+import type { IndustryDomainEntry } from "@/content/_schemas/industryDomain";
+import type { IndustryDomain, Locale, Slug } from "@/domain";
+import { isIndustryDomain } from "@/domain";
+
+/** Entry ids are "{locale}/{slug}"; a file name that is not a valid slug fails isIndustryDomain */
+const toIndustryDomain = (id: string, data: IndustryDomainEntry): IndustryDomain => {
+  const domain = { slug: id.slice(id.indexOf("/") + 1), ...data };
+  if (!isIndustryDomain(domain)) throw new Error(`Invalid industry domain entry: ${id}`);
+  return domain;
+};
+
+/**
+ * Industry domain repository backed by Astro Content Collections
+ * Entries live in src/content/industryDomains/{locale}/{slug}.json
+ */
+export class ContentCollectionIndustryDomainRepository implements IndustryDomainRepository {
+  async findAll(locale: Locale): Promise<IndustryDomain[]> {
+    const entries = await getCollection("industryDomains", ({ id }) => id.startsWith(`${locale}/`));
+    return entries.map(({ id, data }) => toIndustryDomain(id, data));
+  }
+
+  async findBySlug(locale: Locale, slug: Slug): Promise<IndustryDomain | null> {
+    const entry = await getEntry("industryDomains", `${locale}/${slug}`);
+    return entry ? toIndustryDomain(entry.id, entry.data) : null;
+  }
+}
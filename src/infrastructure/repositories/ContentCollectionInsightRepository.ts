@@ -0,0 +1,32 @@
+import { getCollection } from "astro:content";
+import type { CollectionEntry } from "astro:content";
+import type { InsightArticle, InsightRepository } from "@/application/ports/InsightRepository";
+import type { Insight, Locale, Slug } from "@/domain";
+import { estimateReadingTime, isInsight } from "@/domain";
+
+/**
+ * Entry slugs are "{locale}/{slug}"; reading time is estimated from the markdown body
+ * isInsight covers what the schema cannot: the slug taken from the file name
+ */
+const toInsight = ({ slug, body, data }: CollectionEntry<"insights">): Insight => {
+  const insight = { slug: slug.slice(slug.indexOf("/") + 1), ...data, readingTime: estimateReadingTime(body) };
+  if (!isInsight(insight)) throw new Error(`Invalid insight entry: ${slug}`);
+  return insight;
+};
+
+/**
+ * Insight repository backed by Astro Content Collections
+ * Posts live in src/content/insights/{locale}/{slug}.md; bodies are rendered by Astro's markdown pipeline
+ */
+export class ContentCollectionInsightRepository implements InsightRepository {
+  async findAll(locale: Locale): Promise<Insight[]> {
+    const entries = await getCollection("insights", ({ slug }) => slug.startsWith(`${locale}/`));
+    return entries.map(toInsight);
+  }
+
+  async findBySlug(locale: Locale, slug: Slug): Promise<InsightArticle | null> {
+    // getCollection instead of getEntry: missing translations are expected and getEntry warns about them
+    const [entry] = await getCollection("insights", (candidate) => candidate.slug === `${locale}/${slug}`);
+    return entry ? { insight: toInsight(entry), html: entry.rendered?.html ?? "" } : null;
+  }
+}
@@ -0,0 +1,15 @@
+import { getEntry } from "astro:content";
+import type { PageSectionsRepository } from "@/application/ports/PageSectionsRepository";
+import type { PageSections } from "@/content/_schemas/pageSections";
+import type { Locale } from "@/domain";
+
+/**
+ * Page sections repository backed by Astro Content Collections
+ * Entries live in src/content/pageSections/{locale}/{page}.json
+ */
+export class ContentCollectionPageSectionsRepository implements PageSectionsRepository {
+  async findByPage(locale: Locale, page: string): Promise<PageSections | null> {
+    const entry = await getEntry("pageSections", `${locale}/${page}`);
+    return entry?.data ?? null;
+  }
+}
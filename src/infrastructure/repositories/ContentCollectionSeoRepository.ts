@@ -0,0 +1,22 @@
+import { getCollection, getEntry } from "astro:content";
+import type { SeoRepository } from "@/application/ports/SeoRepository";
+import type { SeoDefaults, SeoMetadata } from "@/content/_schemas/seo";
+import type { Locale } from "@/domain";
+
+/**
+ * SEO repository backed by Astro Content Collections
+ * Entries live in src/content/seo/{locale}/{page}.json, defaults in src/content/seoDefaults/{locale}.json
+ */
+export class ContentCollectionSeoRepository implements SeoRepository {
+  async findByPage(locale: Locale, page: string): Promise<SeoMetadata | null> {
+    // SEO entries are optional (e.g. contact, imprint): a filtered lookup avoids getEntry's "not found" warning
+    const id = `${locale}/${page}`;
+    const [entry] = await getCollection("seo", (candidate) => candidate.id === id);
+    return entry?.data ?? null;
+  }
+
+  async findDefaults(locale: Locale): Promise<SeoDefaults | null> {
+    const entry = await getEntry("seoDefaults", locale);
+    return entry?.data ?? null;
+  }
+}
@@ -0,0 +1,28 @@
+import { getCollection, getEntry } from "astro:content";
+import type { ServiceRepository } from "@/application/ports/ServiceRepository";
+import type { ServiceEntry } from "@/content/_schemas/service";
+import type { Locale, Service, Slug } from "@/domain";
+import { isService } from "@/domain";
+
+/** Entry ids are "{locale}/{slug}"; isService also checks the slug, which comes from the file name, not the schema */
+const toService = (id: string, data: ServiceEntry): Service => {
+  const service = { slug: id.slice(id.indexOf("/") + 1), ...data };
+  if (!isService(service)) throw new Error(`Invalid service entry: ${id}`);
+  return service;
+};
+
+/**
+ * Service repository backed by Astro Content Collections
+ * Entries live in src/content/services/{locale}/{slug}.json
+ */
+export class ContentCollectionServiceRepository implements ServiceRepository {
+  async findAll(locale: Locale): Promise<Service[]> {
+    const entries = await getCollection("services", ({ id }) => id.startsWith(`${locale}/`));
+    return entries.map(({ id, data }) => toService(id, data));
+  }
+
+  async findBySlug(locale: Locale, slug: Slug): Promise<Service | null> {
+    const entry = await getEntry("services", `${locale}/${slug}`);
+    return entry ? toService(entry.id, entry.data) : null;
+  }
+}
@@ -0,0 +1,28 @@
+import type { CaseStudyRepository } from "@/application/ports/CaseStudyRepository";
+import type { CaseStudy, Locale, Slug } from "@/domain";
+import { toCaseStudy } from "@/infrastructure/mappers/StrapiCaseStudyMapper";
+import type { StrapiCaseStudy } from "@/infrastructure/mappers/StrapiCaseStudyMapper";
+import type { StrapiClient } from "@/infrastructure/strapi/StrapiClient";
+
+/**
+ * Case study repository backed by the Strapi REST API
+ * Collection type "case-studies", one entry per study and locale
+ */
+export class StrapiCaseStudyRepository implements CaseStudyRepository {
+  constructor(private readonly client: StrapiClient) {}
+
+  async findAll(locale: Locale): Promise<CaseStudy[]> {
+    const entries = await this.client.findMany<StrapiCaseStudy>("case-studies", { locale, populate: "*" });
+    return entries.map(toCaseStudy);
+  }
+
+  async findBySlug(locale: Locale, slug: Slug): Promise<CaseStudy | null> {
+    const [entry] = await this.client.findMany<StrapiCaseStudy>("case-studies", {
+      "filters[slug][$eq]": slug,
+      locale,
+      populate: "*",
+    });
+
+    return entry ? toCaseStudy(entry) : null;
+  }
+}
@@ -0,0 +1,20 @@
+import type { CompanyRepository } from "@/application/ports/CompanyRepository";
+import type { Company } from "@/content/_schemas/company";
+import type { Locale } from "@/domain";
+import { toCompany } from "@/infrastructure/mappers/StrapiCompanyMapper";
+import type { StrapiCompany } from "@/infrastructure/mappers/StrapiCompanyMapper";
+import type { StrapiClient } from "@/infrastructure/strapi/StrapiClient";
+
+/**
+ * Company repository backed by the Strapi REST API
+ * Single type "company", localized
+ */
+export class StrapiCompanyRepository implements CompanyRepository {
+  constructor(private readonly client: StrapiClient) {}
+
+  async find(locale: Locale): Promise<Company | null> {
+    const entry = await this.client.findOne<StrapiCompany>("company", { populate: "*", locale });
+
+    return entry ? toCompany(entry) : null;
+  }
+}
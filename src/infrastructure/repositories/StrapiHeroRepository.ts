@@ -0,0 +1,24 @@
+import type { HeroRepository } from "@/application/ports/HeroRepository";
+import type { Hero } from "@/content/_schemas/hero";
+import type { Locale } from "@/domain";
+import { toHero } from "@/infrastructure/mappers/StrapiHeroMapper";
+import type { StrapiHero } from "@/infrastructure/mappers/StrapiHeroMapper";
+import type { StrapiClient } from "@/infrastructure/strapi/StrapiClient";
+
+/**
+ * Hero repository backed by the Strapi REST API
+ * Collection type "heroes", one entry per page and locale
+ */
+export class StrapiHeroRepository implements HeroRepository {
+  constructor(private readonly client: StrapiClient) {}
+
+  async findByPage(locale: Locale, page: string): Promise<Hero | null> {
+    const [entry] = await this.client.findMany<StrapiHero>("heroes", {
+      "filters[page][$eq]": page,
+      locale,
+      populate: "*",
+    });
+
+    return entry ? toHero(entry) : null;
+  }
+}
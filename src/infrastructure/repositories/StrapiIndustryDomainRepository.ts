@@ -0,0 +1,27 @@
+import type { IndustryDomainRepository } from "@/application/ports/IndustryDomainRepository";
+import type { IndustryDomain, Locale, Slug } from "@/domain";
+import { toIndustryDomain } from "@/infrastructure/mappers/StrapiIndustryDomainMapper";
+import type { StrapiIndustryDomain } from "@/infrastructure/mappers/StrapiIndustryDomainMapper";
+import type { StrapiClient } from "@/infrastructure/strapi/StrapiClient";
+
+/**
+ * Industry domain repository backed by the Strapi REST API
+ * Collection type "industry-domains", one entry per domain and locale
+ */
+export class StrapiIndustryDomainRepository implements IndustryDomainRepository {
+  constructor(private readonly client: StrapiClient) {}
+
+  async findAll(locale: Locale): Promise<IndustryDomain[]> {
+    const entries = await this.client.findMany<StrapiIndustryDomain>("industry-domains", { locale });
+    return entries.map(toIndustryDomain);
+  }
+
+  async findBySlug(locale: Locale, slug: Slug): Promise<IndustryDomain | null> {
+    const [entry] = await this.client.findMany<StrapiIndustryDomain>("industry-domains", {
+      "filters[slug][$eq]": slug,
+      locale,
+    });
+
+    return entry ? toIndustryDomain(entry) : null;
+  }
+}
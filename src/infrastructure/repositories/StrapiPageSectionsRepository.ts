@@ -0,0 +1,25 @@
+import type { PageSectionsRepository } from "@/application/ports/PageSectionsRepository";
+import type { PageSections } from "@/content/_schemas/pageSections";
+import type { Locale } from "@/domain";
+import { toPageSections } from "@/infrastructure/mappers/StrapiPageSectionsMapper";
+import type { StrapiPageSections } from "@/infrastructure/mappers/StrapiPageSectionsMapper";
+import type { StrapiClient } from "@/infrastructure/strapi/StrapiClient";
+
+/**
+ * Page sections repository backed by the Strapi REST API
+ * Collection type "page-sections" with a `sections` dynamic zone
+ */
+export class StrapiPageSectionsRepository implements PageSectionsRepository {
+  constructor(private readonly client: StrapiClient) {}
+
+  async findByPage(locale: Locale, page: string): Promise<PageSections | null> {
+    const [entry] = await this.client.findMany<StrapiPageSections>("page-sections", {
+      "filters[page][$eq]": page,
+      locale,
+      // Dynamic zone components and their nested components (items, CTAs)
+      "populate[sections][populate]": "*",
+    });
+
+    return entry ? toPageSections(entry) : null;
+  }
+}
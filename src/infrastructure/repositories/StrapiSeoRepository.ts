@@ -0,0 +1,30 @@
+import type { SeoRepository } from "@/application/ports/SeoRepository";
+import type { SeoDefaults, SeoMetadata } from "@/content/_schemas/seo";
+import type { Locale } from "@/domain";
+import { toSeoDefaults, toSeoMetadata } from "@/infrastructure/mappers/StrapiSeoMapper";
+import type { StrapiSeo, StrapiSeoDefaults } from "@/infrastructure/mappers/StrapiSeoMapper";
+import type { StrapiClient } from "@/infrastructure/strapi/StrapiClient";
+
+/**
+ * SEO repository backed by the Strapi REST API
+ * Collection type "seos", one entry per page and locale; single type "seo-default" for site-wide defaults
+ */
+export class StrapiSeoRepository implements SeoRepository {
+  constructor(private readonly client: StrapiClient) {}
+
+  async findByPage(locale: Locale, page: string): Promise<SeoMetadata | null> {
+    const [entry] = await this.client.findMany<StrapiSeo>("seos", {
+      "filters[page][$eq]": page,
+      populate: "*",
+      locale,
+    });
+
+    return entry ? toSeoMetadata(entry) : null;
+  }
+
+  async findDefaults(locale: Locale): Promise<SeoDefaults | null> {
+    const entry = await this.client.findOne<StrapiSeoDefaults>("seo-default", { populate: "*", locale });
+
+    return entry ? toSeoDefaults(entry) : null;
+  }
+}
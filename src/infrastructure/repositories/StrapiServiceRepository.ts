@@ -0,0 +1,28 @@
+import type { ServiceRepository } from "@/application/ports/ServiceRepository";
+import type { Locale, Service, Slug } from "@/domain";
+import { toService } from "@/infrastructure/mappers/StrapiServiceMapper";
+import type { StrapiService } from "@/infrastructure/mappers/StrapiServiceMapper";
+import type { StrapiClient } from "@/infrastructure/strapi/StrapiClient";
+
+/**
+ * Service repository backed by the Strapi REST API
+ * Collection type "services", one entry per service and locale
+ */
+export class StrapiServiceRepository implements ServiceRepository {
+  constructor(private readonly client: StrapiClient) {}
+
+  async findAll(locale: Locale): Promise<Service[]> {
+    const entries = await this.client.findMany<StrapiService>("services", { locale, populate: "*" });
+    return entries.map(toService);
+  }
+
+  async findBySlug(locale: Locale, slug: Slug): Promise<Service | null> {
+    const [entry] = await this.client.findMany<StrapiService>("services", {
+      "filters[slug][$eq]": slug,
+      locale,
+      populate: "*",
+    });
+
+    return entry ? toService(entry) : null;
+  }
+}
@@ -0,0 +1,12 @@
+import { CONTENT_SOURCE, STRAPI_URL, STRAPI_TOKEN } from "astro:env/server";
+import { createContentRepositories } from "./createContentRepositories";
+
+/**
+ * Content repositories for the configured CONTENT_SOURCE
+ * Variables are declared in astro.config.mjs (env.schema)
+ */
+export const contentRepositories = createContentRepositories({
+  source: CONTENT_SOURCE,
+  strapiUrl: STRAPI_URL,
+  strapiToken: STRAPI_TOKEN,
+});
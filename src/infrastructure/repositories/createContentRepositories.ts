@@ -0,0 +1,80 @@
+import type { CaseStudyRepository } from "@/application/ports/CaseStudyRepository";
+import type { CompanyRepository } from "@/application/ports/CompanyRepository";
+import type { HeroRepository } from "@/application/ports/HeroRepository";
+import type { IndustryDomainRepository } from "@/application/ports/IndustryDomainRepository";
+import type { InsightRepository } from "@/application/ports/InsightRepository";
+import type { PageSectionsRepository } from "@/application/ports/PageSectionsRepository";
+import type { SeoRepository } from "@/application/ports/SeoRepository";
+import type { ServiceRepository } from "@/application/ports/ServiceRepository";
+import { StrapiClient } from "@/infrastructure/strapi/StrapiClient";
+import { ContentCollectionCaseStudyRepository } from "./ContentCollectionCaseStudyRepository";
+import { ContentCollectionCompanyRepository } from "./ContentCollectionCompanyRepository";
+import { ContentCollectionHeroRepository } from "./ContentCollectionHeroRepository";
+import { ContentCollectionIndustryDomainRepository } from "./ContentCollectionIndustryDomainRepository";
+import { ContentCollectionInsightRepository } from "./ContentCollectionInsightRepository";
+import { ContentCollectionPageSectionsRepository } from "./ContentCollectionPageSectionsRepository";
+import { ContentCollectionSeoRepository } from "./ContentCollectionSeoRepository";
+import { ContentCollectionServiceRepository } from "./ContentCollectionServiceRepository";
+import { StrapiCaseStudyRepository } from "./StrapiCaseStudyRepository";
+import { StrapiCompanyRepository } from "./StrapiCompanyRepository";
+import { StrapiHeroRepository } from "./StrapiHeroRepository";
+import { StrapiIndustryDomainRepository } from "./StrapiIndustryDomainRepository";
+import { StrapiPageSectionsRepository } from "./StrapiPageSectionsRepository";
+import { StrapiSeoRepository } from "./StrapiSeoRepository";
+import { StrapiServiceRepository } from "./StrapiServiceRepository";
+
+export type ContentSource = "collections" | "strapi";
+
+export interface ContentSourceConfig {
+  source: ContentSource;
+  strapiUrl?: string;
+  strapiToken?: string;
+}
+
+export interface ContentRepositories {
+  hero: HeroRepository;
+  seo: SeoRepository;
+  pageSections: PageSectionsRepository;
+  company: CompanyRepository;
+  services: ServiceRepository;
+  industryDomains: IndustryDomainRepository;
+  insights: InsightRepository;
+  caseStudies: CaseStudyRepository;
+}
+
+/**
+ * Pick the content adapters for the configured source
+ * Fails fast when Strapi is selected without a URL
+ */
+export function createContentRepositories(config: ContentSourceConfig): ContentRepositories {
+  if (config.source === "collections") {
+    return {
+      hero: new ContentCollectionHeroRepository(),
+      seo: new ContentCollectionSeoRepository(),
+      pageSections: new ContentCollectionPageSectionsRepository(),
+      company: new ContentCollectionCompanyRepository(),
+      services: new ContentCollectionServiceRepository(),
+      industryDomains: new ContentCollectionIndustryDomainRepository(),
+      insights: new ContentCollectionInsightRepository(),
+      caseStudies: new ContentCollectionCaseStudyRepository(),
+    };
+  }
+
+  if (!config.strapiUrl) {
+    throw new Error("CONTENT_SOURCE=strapi requires STRAPI_URL");
+  }
+
+  const client = new StrapiClient({ baseUrl: config.strapiUrl, token: config.strapiToken });
+
+  return {
+    hero: new StrapiHeroRepository(client),
+    seo: new StrapiSeoRepository(client),
+    pageSections: new StrapiPageSectionsRepository(client),
+    company: new StrapiCompanyRepository(client),
+    services: new StrapiServiceRepository(client),
+    industryDomains: new StrapiIndustryDomainRepository(client),
+    // Insights are markdown files versioned with the site, whatever the content source
+    insights: new ContentCollectionInsightRepository(),
+    caseStudies: new StrapiCaseStudyRepository(client),
+  };
+}
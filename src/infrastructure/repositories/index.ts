@@ -0,0 +1,17 @@
+export { createContentRepositories } from "./createContentRepositories";
+export type { ContentRepositories, ContentSource, ContentSourceConfig } from "./createContentRepositories";
+export { ContentCollectionHeroRepository } from "./ContentCollectionHeroRepository";
+export { ContentCollectionSeoRepository } from "./ContentCollectionSeoRepository";
+export { ContentCollectionPageSectionsRepository } from "./ContentCollectionPageSectionsRepository";
+export { ContentCollectionCompanyRepository } from "./ContentCollectionCompanyRepository";
+export { ContentCollectionServiceRepository } from "./ContentCollectionServiceRepository";
+export { ContentCollectionIndustryDomainRepository } from "./ContentCollectionIndustryDomainRepository";
+export { ContentCollectionInsightRepository } from "./ContentCollectionInsightRepository";
+export { ContentCollectionCaseStudyRepository } from "./ContentCollectionCaseStudyRepository";
+export { StrapiHeroRepository } from "./StrapiHeroRepository";
+export { StrapiSeoRepository } from "./StrapiSeoRepository";
+export { StrapiPageSectionsRepository } from "./StrapiPageSectionsRepository";
+export { StrapiCompanyRepository } from "./StrapiCompanyRepository";
+export { StrapiServiceRepository } from "./StrapiServiceRepository";
+export { StrapiIndustryDomainRepository } from "./StrapiIndustryDomainRepository";
+export { StrapiCaseStudyRepository } from "./StrapiCaseStudyRepository";
@@ -0,0 +1,45 @@
+import { readFile, writeFile } from "node:fs/promises";
+import type { AstroIntegration } from "astro";
+import { transformWithEsbuild } from "vite";
+
+export interface LocaleRedirectIntegrationOptions {
+  locales: readonly string[];
+  defaultLocale: string;
+  /** Home path per locale, e.g. { en: "/", de: "/de" } */
+  homePaths: Record<string, string>;
+}
+
+/** Pure negotiation helpers without imports, so they can be shipped to the server as one file */
+const NEGOTIATION_SOURCE = new URL("../../i18n/negotiation.ts", import.meta.url);
+
+/**
+ * Writes dist/locale-redirect.mjs for server/index.mjs (runs after `astro build`)
+ *
+ * The default home page is prerendered, so the locale redirect middleware never sees its requests.
+ * The production server redirects `/` instead, with the same helpers as the middleware
+ * (src/i18n/negotiation.ts, compiled to JavaScript) and the build's locales and home paths.
+ */
+export function localeRedirectIntegration(options: LocaleRedirectIntegrationOptions): AstroIntegration {
+  let outDir: URL;
+
+  return {
+    name: "locale-redirect",
+    hooks: {
+      "astro:config:done": ({ config }) => {
+        outDir = config.outDir;
+      },
+      "astro:build:done": async ({ logger }) => {
+        const { code } = await transformWithEsbuild(await readFile(NEGOTIATION_SOURCE, "utf-8"), "negotiation.ts", {
+          format: "esm",
+        });
+
+        await writeFile(
+          new URL("locale-redirect.mjs", outDir),
+          `${code}\nexport const localeRedirectOptions = ${JSON.stringify(options)};\n`
+        );
+
+        logger.info(`Locale redirect written for ${options.homePaths[options.defaultLocale]}`);
+      },
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  addNonce,
+  buildContentSecurityPolicy,
+  collectInlineHashes,
+  createNonce,
+  hashSource,
+} from "./contentSecurityPolicy";
+
+describe("hashSource", () => {
+  it("should return a quoted sha256 source expression", () => {
+    // echo -n "alert(1)" | openssl dgst -sha256 -binary | base64
+    expect(hashSource("alert(1)")).toBe("'sha256-bhHHL3z2vDgxUt0W3dWQOrprscmda2Y5pLsLg4GF+pI='");
+  });
+});
+
+describe("collectInlineHashes", () => {
+  it("should hash inline scripts and styles", () => {
+    const html = "<script>alert(1)</script><style>body{color:red}</style>";
+
+    expect(collectInlineHashes(html)).toEqual({
+      scripts: [hashSource("alert(1)")],
+      styles: [hashSource("body{color:red}")],
+    });
+  });
+
+  it("should skip external scripts and data blocks", () => {
+    const html = [
+      '<script type="module" src="/_astro/app.js"></script>',
+      '<script type="application/ld+json">{"@type":"Organization"}</script>',
+      '<script type="module">init()</script>',
+    ].join("");
+
+    expect(collectInlineHashes(html).scripts).toEqual([hashSource("init()")]);
+  });
+
+  it("should deduplicate identical blocks", () => {
+    expect(collectInlineHashes("<script>a()</script><script>a()</script>").scripts).toHaveLength(1);
+  });
+});
+
+describe("addNonce", () => {
+  it("should add the nonce to scripts and styles only once", () => {
+    const html = '<script src="/a.js"></script><style>p{}</style><script nonce="x">b()</script>';
+
+    expect(addNonce(html, "abc")).toBe(
+      '<script nonce="abc" src="/a.js"></script><style nonce="abc">p{}</style><script nonce="x">b()</script>'
+    );
+  });
+});
+
+describe("createNonce", () => {
+  it("should create unique base64 nonces", () => {
+    const nonce = createNonce();
+
+    expect(nonce).toMatch(/^[A-Za-z0-9+/]{22}==$/);
+    expect(createNonce()).not.toBe(nonce);
+  });
+});
+
+describe("buildContentSecurityPolicy", () => {
+  it("should build a strict same-origin policy", () => {
+    expect(buildContentSecurityPolicy()).toBe(
+      "default-src 'self'; script-src 'self'; style-src 'self'; img-src 'self' data:; font-src 'self'; " +
+        "connect-src 'self'; form-action 'self'; frame-ancestors 'none'; base-uri 'self'; object-src 'none'; " +
+        "upgrade-insecure-requests"
+    );
+  });
+
+  it("should add hashes or nonces and the report endpoint", () => {
+    const policy = buildContentSecurityPolicy({
+      scriptSources: ["'nonce-abc'"],
+      styleSources: ["'sha256-xyz'"],
+      upgradeInsecureRequests: false,
+      reportUri: "https://reports.example.com/csp",
+    });
+
+    expect(policy).toContain("script-src 'self' 'nonce-abc';");
+    expect(policy).toContain("style-src 'self' 'sha256-xyz';");
+    expect(policy).not.toContain("upgrade-insecure-requests");
+    expect(policy.endsWith("report-uri https://reports.example.com/csp")).toBe(true);
+  });
+});
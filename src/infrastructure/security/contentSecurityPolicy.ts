@@ -0,0 +1,105 @@
+import { createHash, randomBytes } from "node:crypto";
+
+/**
+ * Content Security Policy
+ *
+ * Scripts and styles are limited to same-origin files plus, per document,
+ * either the hashes of its inline blocks (static output) or a per-request nonce (on-demand output).
+ * JSON-LD (`type="application/ld+json"`) is data, not script, and needs neither.
+ */
+
+export interface ContentSecurityPolicyOptions {
+  /** Extra script-src entries: 'sha256-…' hashes or 'nonce-…' */
+  scriptSources?: string[];
+  /** Extra style-src entries: 'sha256-…' hashes or 'nonce-…' */
+  styleSources?: string[];
+  /** Upgrade http:// subresources (off for local http development) */
+  upgradeInsecureRequests?: boolean;
+  /** Endpoint for violation reports */
+  reportUri?: string;
+}
+
+export interface InlineHashes {
+  scripts: string[];
+  styles: string[];
+}
+
+/** Script types the browser executes; everything else (JSON-LD, templates) is a data block */
+const EXECUTABLE_SCRIPT_TYPES = new Set(["", "module", "text/javascript", "application/javascript"]);
+
+const INLINE_SCRIPT = /<script\b([^>]*)>([\s\S]*?)<\/script>/gi;
+const INLINE_STYLE = /<style\b[^>]*>([\s\S]*?)<\/style>/gi;
+
+function getAttribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i").exec(attributes);
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+function hasAttribute(attributes: string, name: string): boolean {
+  return new RegExp(`\\b${name}\\b`, "i").test(attributes);
+}
+
+/** CSP source expression for a block of inline code */
+export function hashSource(content: string): string {
+  return `'sha256-${createHash("sha256").update(content, "utf8").digest("base64")}'`;
+}
+
+/**
+ * Hash every inline script and style of a rendered document
+ *
+ * @example
+ * collectInlineHashes('<script>alert(1)</script>') // { scripts: ["'sha256-…'"], styles: [] }
+ */
+export function collectInlineHashes(html: string): InlineHashes {
+  const scripts = [...html.matchAll(INLINE_SCRIPT)]
+    .filter(([, attributes, content]) => {
+      const type = (getAttribute(attributes, "type") ?? "").toLowerCase();
+      return EXECUTABLE_SCRIPT_TYPES.has(type) && !hasAttribute(attributes, "src") && content.length > 0;
+    })
+    .map(([, , content]) => hashSource(content));
+  const styles = [...html.matchAll(INLINE_STYLE)].map(([, content]) => hashSource(content));
+
+  return { scripts: [...new Set(scripts)], styles: [...new Set(styles)] };
+}
+
+/** Random, base64-encoded nonce (128 bit) */
+export function createNonce(): string {
+  return randomBytes(16).toString("base64");
+}
+
+/**
+ * Add a nonce attribute to every script and style element of a document
+ * Used for on-demand responses, where hashes would have to be computed per request anyway
+ */
+export function addNonce(html: string, nonce: string): string {
+  return html.replace(/<(script|style)\b(?![^>]*\bnonce=)/gi, `<$1 nonce="${nonce}"`);
+}
+
+/**
+ * Serialize the site's Content Security Policy
+ *
+ * @example
+ * buildContentSecurityPolicy({ scriptSources: ["'nonce-abc'"] })
+ * // "default-src 'self'; script-src 'self' 'nonce-abc'; …"
+ */
+export function buildContentSecurityPolicy(options: ContentSecurityPolicyOptions = {}): string {
+  const { scriptSources = [], styleSources = [], upgradeInsecureRequests = true, reportUri } = options;
+
+  const directives: [string, ...string[]][] = [
+    ["default-src", "'self'"],
+    ["script-src", "'self'", ...scriptSources],
+    ["style-src", "'self'", ...styleSources],
+    ["img-src", "'self'", "data:"],
+    ["font-src", "'self'"],
+    ["connect-src", "'self'"],
+    ["form-action", "'self'"],
+    ["frame-ancestors", "'none'"],
+    ["base-uri", "'self'"],
+    ["object-src", "'none'"],
+  ];
+
+  if (upgradeInsecureRequests) directives.push(["upgrade-insecure-requests"]);
+  if (reportUri) directives.push(["report-uri", reportUri]);
+
+  return directives.map((directive) => directive.join(" ")).join("; ");
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { renderNetlifyHeaders, renderNginxHeaders } from "./headerFiles";
+
+const entries = [
+  { path: "*", headers: { "X-Frame-Options": "DENY", "Content-Security-Policy": "script-src 'self'" } },
+  { path: "/", headers: { "Content-Security-Policy": "script-src 'self' 'sha256-abc'" } },
+  { path: "/de/ueber-uns", headers: { "Content-Security-Policy": 'script-src "quoted"' } },
+];
+
+describe("renderNetlifyHeaders", () => {
+  it("should list the catch-all first and pages after it", () => {
+    expect(renderNetlifyHeaders(entries)).toBe(
+      [
+        "/*",
+        "  X-Frame-Options: DENY",
+        "",
+        "/",
+        "  Content-Security-Policy: script-src 'self' 'sha256-abc'",
+        "",
+        "/de/ueber-uns",
+        '  Content-Security-Policy: script-src "quoted"',
+        "",
+      ].join("\n")
+    );
+  });
+
+  // Both hosts apply every matching rule: a CSP in /* would be enforced next to the page's own
+  it("should keep headers that pages set differently out of the catch-all", () => {
+    const headers = renderNetlifyHeaders([
+      { path: "*", headers: { "X-Frame-Options": "DENY", "Content-Security-Policy": "script-src 'self'" } },
+      {
+        path: "/",
+        headers: { "X-Frame-Options": "DENY", "Content-Security-Policy": "script-src 'self' 'sha256-abc'" },
+      },
+      { path: "/about", headers: { "X-Frame-Options": "DENY", "Content-Security-Policy": "script-src 'self'" } },
+    ]);
+
+    expect(headers.match(/Content-Security-Policy/g)).toHaveLength(2);
+    expect(headers.match(/X-Frame-Options/g)).toHaveLength(1);
+    expect(headers).toContain("/about\n  Content-Security-Policy: script-src 'self'\n");
+  });
+});
+
+describe("renderNginxHeaders", () => {
+  const config = renderNginxHeaders(entries);
+
+  it("should emit server-level defaults", () => {
+    expect(config).toContain('add_header X-Frame-Options "DENY" always;');
+  });
+
+  it("should emit exact-match locations for pages with their own policy", () => {
+    expect(config).toContain("location = / {");
+    expect(config).toContain("location = /index.html {");
+    expect(config).toContain("location = /de/ueber-uns/ {");
+    expect(config).toContain(`add_header Content-Security-Policy "script-src 'self' 'sha256-abc'" always;`);
+  });
+
+  it("should escape quotes", () => {
+    expect(config).toContain('add_header Content-Security-Policy "script-src \\"quoted\\"" always;');
+  });
+});
@@ -0,0 +1,63 @@
+import type { SecurityHeaders } from "./securityHeaders";
+
+/** Headers for one URL path of the static build ("*" = every other path) */
+export interface PathHeaders {
+  path: string;
+  headers: SecurityHeaders;
+}
+
+/**
+ * Netlify / Cloudflare Pages `_headers` file
+ *
+ * Both hosts apply every rule that matches a path, so a page's CSP would not replace the catch-all's:
+ * the browser would enforce both, and the hash-less catch-all would block the page's inline code.
+ * Headers that pages set differently are therefore left out of `/*` and listed per page only;
+ * every HTML page needs its own entry.
+ */
+export function renderNetlifyHeaders(entries: PathHeaders[]): string {
+  const defaults = entries.find(({ path }) => path === "*")?.headers ?? {};
+  const perPage = new Set(
+    entries
+      .filter(({ path }) => path !== "*")
+      .flatMap(({ headers }) => Object.keys(headers).filter((name) => headers[name] !== defaults[name]))
+  );
+
+  return entries
+    .map(({ path, headers }) => {
+      const lines = Object.entries(headers)
+        .filter(([name]) => (path === "*") !== perPage.has(name))
+        .map(([name, value]) => `  ${name}: ${value}`);
+      return [path === "*" ? "/*" : path, ...lines].join("\n");
+    })
+    .join("\n\n")
+    .concat("\n");
+}
+
+function escapeNginx(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+/**
+ * nginx snippet (include it inside the `server` block)
+ *
+ * Per-page policies use exact-match locations; `always` also sends headers on error responses.
+ * `location` blocks replace inherited add_header directives, so every block lists all headers.
+ */
+export function renderNginxHeaders(entries: PathHeaders[]): string {
+  const block = (headers: SecurityHeaders, indent: string) =>
+    Object.entries(headers)
+      .map(([name, value]) => `${indent}add_header ${name} "${escapeNginx(value)}" always;`)
+      .join("\n");
+
+  return entries
+    .map(({ path, headers }) => {
+      if (path === "*") return `# Default for all other paths\n${block(headers, "")}`;
+
+      const locations = path === "/" ? ["/", "/index.html"] : [path, `${path}/`];
+      return locations
+        .map((location) => `location = ${location} {\n${block(headers, "  ")}\n  try_files $uri $uri/ =404;\n}`)
+        .join("\n");
+    })
+    .join("\n\n")
+    .concat("\n");
+}
@@ -0,0 +1,12 @@
+export {
+  buildContentSecurityPolicy,
+  collectInlineHashes,
+  createNonce,
+  addNonce,
+  hashSource,
+} from "./contentSecurityPolicy";
+export type { ContentSecurityPolicyOptions, InlineHashes } from "./contentSecurityPolicy";
+export { getSecurityHeaders, SECURITY_PROFILES } from "./securityHeaders";
+export type { SecurityHeaders, SecurityHeadersOptions } from "./securityHeaders";
+export { renderNetlifyHeaders, renderNginxHeaders } from "./headerFiles";
+export type { PathHeaders } from "./headerFiles";
@@ -0,0 +1,91 @@
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { join, sep } from "node:path";
+import type { AstroIntegration } from "astro";
+import type { SiteEnvironment } from "../seo/robots";
+import { collectInlineHashes } from "./contentSecurityPolicy";
+import { getSecurityHeaders, SECURITY_PROFILES } from "./securityHeaders";
+import { renderNetlifyHeaders, renderNginxHeaders } from "./headerFiles";
+import type { PathHeaders } from "./headerFiles";
+
+export interface SecurityHeadersIntegrationOptions {
+  environment: SiteEnvironment;
+  reportUri?: string;
+}
+
+/** "de/ueber-uns/index.html" → "/de/ueber-uns", "index.html" → "/", "404.html" → "/404" */
+function toRoutePath(file: string): string {
+  const path = `/${file.split(sep).join("/")}`.replace(/(\/index)?\.html$/, "");
+  return path || "/";
+}
+
+/**
+ * Writes security headers for the static build (runs after `astro build`)
+ *
+ * - dist/client/_headers               Netlify / Cloudflare Pages
+ * - dist/security-headers.nginx.conf   nginx (include in the server block)
+ * - dist/security-headers.json         server/index.mjs
+ *
+ * The static host files use the build's SITE_ENV and CSP_REPORT_URI. The JSON file holds one map per
+ * environment without report-uri: server/index.mjs picks both at runtime, so one build serves every environment.
+ *
+ * Each page gets a CSP with the hashes of its own inline scripts and styles.
+ * On-demand responses get a per-request nonce instead (src/middleware/securityHeaders.ts).
+ */
+export function securityHeadersIntegration(options: SecurityHeadersIntegrationOptions): AstroIntegration {
+  let outDir: URL;
+
+  return {
+    name: "security-headers",
+    hooks: {
+      "astro:config:done": ({ config }) => {
+        outDir = config.outDir;
+      },
+      "astro:build:done": async ({ dir, logger }) => {
+        const clientDir = fileURLToPath(dir);
+        const htmlFiles = (await readdir(clientDir, { recursive: true }))
+          .filter((file) => file.endsWith(".html"))
+          .sort();
+
+        const pages = await Promise.all(
+          htmlFiles.map(async (file) => ({
+            path: toRoutePath(file),
+            ...collectInlineHashes(await readFile(join(clientDir, file), "utf-8")),
+          }))
+        );
+
+        // Every page gets an entry: _headers cannot override the catch-all's CSP, only leave it out (headerFiles.ts)
+        const getEntries = (headerOptions: SecurityHeadersIntegrationOptions): PathHeaders[] => [
+          { path: "*", headers: getSecurityHeaders(headerOptions) },
+          ...pages.map(({ path, scripts, styles }) => ({
+            path,
+            headers: getSecurityHeaders({ ...headerOptions, scriptSources: scripts, styleSources: styles }),
+          })),
+        ];
+        const entries = getEntries(options);
+        const environments = Object.keys(SECURITY_PROFILES) as SiteEnvironment[];
+        const withHashes = pages.filter(({ scripts, styles }) => scripts.length > 0 || styles.length > 0).length;
+
+        await writeFile(join(clientDir, "_headers"), renderNetlifyHeaders(entries));
+        await writeFile(new URL("security-headers.nginx.conf", outDir), renderNginxHeaders(entries));
+        await writeFile(
+          new URL("security-headers.json", outDir),
+          JSON.stringify(
+            Object.fromEntries(
+              environments.map((environment) => [
+                environment,
+                Object.fromEntries(getEntries({ environment }).map(({ path, headers }) => [path, headers])),
+              ])
+            ),
+            null,
+            2
+          )
+        );
+
+        logger.info(
+          `Security headers written for ${pages.length} pages, ${withHashes} with inline hashes (${options.environment})`
+        );
+      },
+    },
+  };
+}
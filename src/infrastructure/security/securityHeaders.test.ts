@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { getSecurityHeaders } from "./securityHeaders";
+
+describe("getSecurityHeaders", () => {
+  it("should send the full header set in production", () => {
+    const headers = getSecurityHeaders({ environment: "production" });
+
+    expect(Object.keys(headers).sort()).toEqual([
+      "Content-Security-Policy",
+      "Cross-Origin-Opener-Policy",
+      "Permissions-Policy",
+      "Referrer-Policy",
+      "Strict-Transport-Security",
+      "X-Content-Type-Options",
+      "X-Frame-Options",
+    ]);
+    expect(headers["Strict-Transport-Security"]).toBe("max-age=63072000; includeSubDomains; preload");
+    expect(headers["Content-Security-Policy"]).toContain("frame-ancestors 'none'");
+    expect(headers["Permissions-Policy"]).toContain("camera=()");
+  });
+
+  it("should use a short HSTS max-age on staging", () => {
+    expect(getSecurityHeaders({ environment: "staging" })["Strict-Transport-Security"]).toBe("max-age=86400");
+  });
+
+  it("should only report CSP violations in development and skip HSTS", () => {
+    const headers = getSecurityHeaders({ environment: "development" });
+
+    expect(headers).not.toHaveProperty("Content-Security-Policy");
+    expect(headers["Content-Security-Policy-Report-Only"]).not.toContain("upgrade-insecure-requests");
+    expect(headers).not.toHaveProperty("Strict-Transport-Security");
+  });
+
+  it("should pass hashes and the report endpoint to the policy", () => {
+    const headers = getSecurityHeaders({
+      environment: "production",
+      scriptSources: ["'sha256-abc'"],
+      reportUri: "https://reports.example.com/csp",
+    });
+
+    expect(headers["Content-Security-Policy"]).toContain("script-src 'self' 'sha256-abc'");
+    expect(headers["Content-Security-Policy"]).toContain("report-uri https://reports.example.com/csp");
+  });
+});
@@ -0,0 +1,78 @@
+import type { SiteEnvironment } from "../seo/robots";
+import { buildContentSecurityPolicy } from "./contentSecurityPolicy";
+import type { ContentSecurityPolicyOptions } from "./contentSecurityPolicy";
+
+export type SecurityHeaders = Record<string, string>;
+
+interface SecurityProfile {
+  /** Strict-Transport-Security value; null disables HSTS */
+  hsts: string | null;
+  /** Report violations without blocking (local development tooling injects inline code) */
+  cspReportOnly: boolean;
+  upgradeInsecureRequests: boolean;
+}
+
+/**
+ * Per-environment settings, selected with SITE_ENV
+ * Production pins HTTPS for two years; staging only for a day, so a broken certificate is recoverable.
+ */
+export const SECURITY_PROFILES: Record<SiteEnvironment, SecurityProfile> = {
+  production: {
+    hsts: "max-age=63072000; includeSubDomains; preload",
+    cspReportOnly: false,
+    upgradeInsecureRequests: true,
+  },
+  staging: { hsts: "max-age=86400", cspReportOnly: false, upgradeInsecureRequests: true },
+  development: { hsts: null, cspReportOnly: true, upgradeInsecureRequests: false },
+};
+
+/** Browser features the site never uses */
+const PERMISSIONS_POLICY = [
+  "accelerometer=()",
+  "browsing-topics=()",
+  "camera=()",
+  "display-capture=()",
+  "geolocation=()",
+  "gyroscope=()",
+  "magnetometer=()",
+  "microphone=()",
+  "payment=()",
+  "usb=()",
+].join(", ");
+
+export interface SecurityHeadersOptions extends Pick<ContentSecurityPolicyOptions, "scriptSources" | "styleSources"> {
+  environment: SiteEnvironment;
+  reportUri?: string;
+}
+
+/**
+ * All security headers for one response
+ *
+ * @example
+ * getSecurityHeaders({ environment: "production", scriptSources: ["'nonce-abc'"] })
+ */
+export function getSecurityHeaders(options: SecurityHeadersOptions): SecurityHeaders {
+  const { environment, scriptSources, styleSources, reportUri } = options;
+  const profile = SECURITY_PROFILES[environment];
+
+  const csp = buildContentSecurityPolicy({
+    scriptSources,
+    styleSources,
+    reportUri,
+    upgradeInsecureRequests: profile.upgradeInsecureRequests,
+  });
+
+  const headers: SecurityHeaders = {
+    [profile.cspReportOnly ? "Content-Security-Policy-Report-Only" : "Content-Security-Policy"]: csp,
+    "Referrer-Policy": "strict-origin-when-cross-origin",
+    "Permissions-Policy": PERMISSIONS_POLICY,
+    "X-Content-Type-Options": "nosniff",
+    // Legacy counterpart of frame-ancestors for older scanners and browsers
+    "X-Frame-Options": "DENY",
+    "Cross-Origin-Opener-Policy": "same-origin",
+  };
+
+  if (profile.hsts) headers["Strict-Transport-Security"] = profile.hsts;
+
+  return headers;
+}
@@ -0,0 +1,5 @@
+export { renderSitemap } from "./sitemap";
+export { renderRssFeed } from "./rss";
+export type { RssFeed, RssItem } from "./rss";
+export { renderRobotsTxt } from "./robots";
+export type { SiteEnvironment } from "./robots";
@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { renderRobotsTxt } from "./robots";
+
+const sitemapUrl = new URL("https://example.com/sitemap.xml");
+
+describe("renderRobotsTxt", () => {
+  it("allows crawling and points to the sitemap in production", () => {
+    const robots = renderRobotsTxt("production", sitemapUrl);
+
+    expect(robots).toContain("Allow: /");
+    expect(robots).toContain("Sitemap: https://example.com/sitemap.xml");
+  });
+
+  it.each(["staging", "development"] as const)("disallows everything on %s", (environment) => {
+    const robots = renderRobotsTxt(environment, sitemapUrl);
+
+    expect(robots).toContain("Disallow: /");
+    expect(robots).not.toContain("Sitemap:");
+  });
+});
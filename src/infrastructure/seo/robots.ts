@@ -0,0 +1,14 @@
+/** Deployment environment, see SITE_ENV in astro.config.mjs */
+export type SiteEnvironment = "production" | "staging" | "development";
+
+/**
+ * Renders robots.txt
+ * Only production is open to crawlers; staging and development disallow everything.
+ */
+export function renderRobotsTxt(environment: SiteEnvironment, sitemapUrl: URL): string {
+  if (environment !== "production") {
+    return ["User-agent: *", "Disallow: /", ""].join("\n");
+  }
+
+  return ["User-agent: *", "Allow: /", "", `Sitemap: ${sitemapUrl.href}`, ""].join("\n");
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { renderRssFeed } from "./rss";
+import type { RssFeed } from "./rss";
+
+const site = new URL("https://example.com");
+
+const feed: RssFeed = {
+  title: "GlobalCore Einblicke",
+  description: "Fachbeiträge zur Resilienz-Architektur",
+  language: "de",
+  path: "/de/einblicke",
+  feedPath: "/de/einblicke/rss.xml",
+  items: [
+    {
+      title: "Stresstests & Abhängigkeiten",
+      description: "Warum <Karten> mehr leisten",
+      path: "/de/einblicke/grid-stress-tests",
+      publishedAt: new Date("2026-09-14T00:00:00Z"),
+      author: "Mara Lindqvist",
+      categories: ["Energie", "Stresstests"],
+    },
+    {
+      title: "Entscheidungsprotokolle",
+      description: "Kurz begründet",
+      path: "/de/einblicke/decision-logs",
+      publishedAt: new Date("2026-07-02T00:00:00Z"),
+      categories: [],
+    },
+  ],
+};
+
+describe("renderRssFeed", () => {
+  it("renders the channel with absolute links and a self link", () => {
+    const xml = renderRssFeed(feed, site);
+
+    expect(xml).toContain("<link>https://example.com/de/einblicke</link>");
+    expect(xml).toContain("<language>de</language>");
+    expect(xml).toContain(
+      '<atom:link href="https://example.com/de/einblicke/rss.xml" rel="self" type="application/rss+xml"/>'
+    );
+    expect(xml).toContain("<lastBuildDate>Mon, 14 Sep 2026 00:00:00 GMT</lastBuildDate>");
+  });
+
+  it("renders items with escaped text, permalink guid, author and categories", () => {
+    const xml = renderRssFeed(feed, site);
+
+    expect(xml).toContain("<title>Stresstests &amp; Abhängigkeiten</title>");
+    expect(xml).toContain("<description>Warum &lt;Karten&gt; mehr leisten</description>");
+    expect(xml).toContain('<guid isPermaLink="true">https://example.com/de/einblicke/grid-stress-tests</guid>');
+    expect(xml).toContain("<pubDate>Mon, 14 Sep 2026 00:00:00 GMT</pubDate>");
+    expect(xml).toContain("<dc:creator>Mara Lindqvist</dc:creator>");
+    expect(xml.match(/<category>/g)).toHaveLength(2);
+    expect(xml.match(/<item>/g)).toHaveLength(2);
+  });
+
+  it("omits lastBuildDate for an empty feed", () => {
+    expect(renderRssFeed({ ...feed, items: [] }, site)).not.toContain("lastBuildDate");
+  });
+});
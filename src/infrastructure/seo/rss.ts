@@ -0,0 +1,72 @@
+import { escapeXml } from "./xml";
+
+/** One post of a feed; paths are resolved against the site URL */
+export interface RssItem {
+  title: string;
+  description: string;
+  path: string;
+  publishedAt: Date;
+  author?: string;
+  categories: readonly string[];
+}
+
+export interface RssFeed {
+  title: string;
+  description: string;
+  /** BCP 47 language of the feed, e.g. "de" */
+  language: string;
+  /** Page the feed belongs to (the listing) */
+  path: string;
+  /** Path of the feed itself, advertised as atom:link rel="self" */
+  feedPath: string;
+  items: readonly RssItem[];
+}
+
+const toAbsoluteUrl = (path: string, site: URL) => escapeXml(new URL(path, site).href);
+
+function renderItem(item: RssItem, site: URL): string {
+  const url = toAbsoluteUrl(item.path, site);
+
+  return [
+    "    <item>",
+    `      <title>${escapeXml(item.title)}</title>`,
+    `      <link>${url}</link>`,
+    `      <guid isPermaLink="true">${url}</guid>`,
+    `      <description>${escapeXml(item.description)}</description>`,
+    `      <pubDate>${item.publishedAt.toUTCString()}</pubDate>`,
+    ...(item.author ? [`      <dc:creator>${escapeXml(item.author)}</dc:creator>`] : []),
+    ...item.categories.map((category) => `      <category>${escapeXml(category)}</category>`),
+    "    </item>",
+  ].join("\n");
+}
+
+/**
+ * Renders an RSS 2.0 feed
+ * https://www.rssboard.org/rss-specification
+ *
+ * Items are rendered in the given order; lastBuildDate is the newest item's date, so the output is stable between builds.
+ *
+ * @param site - Absolute site URL (astro.config `site`)
+ */
+export function renderRssFeed(feed: RssFeed, site: URL): string {
+  const lastBuildDate = feed.items.reduce<Date | undefined>(
+    (latest, item) => (!latest || item.publishedAt > latest ? item.publishedAt : latest),
+    undefined
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    "  <channel>",
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${toAbsoluteUrl(feed.path, site)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    `    <language>${escapeXml(feed.language)}</language>`,
+    `    <atom:link href="${toAbsoluteUrl(feed.feedPath, site)}" rel="self" type="application/rss+xml"/>`,
+    ...(lastBuildDate ? [`    <lastBuildDate>${lastBuildDate.toUTCString()}</lastBuildDate>`] : []),
+    ...feed.items.map((item) => renderItem(item, site)),
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
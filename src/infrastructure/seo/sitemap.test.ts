@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { renderSitemap } from "./sitemap";
+import type { SitemapEntry } from "@/application/use-cases/getSitemapEntries";
+
+const site = new URL("https://example.com");
+
+const alternates: SitemapEntry["alternates"] = [
+  { locale: "en", path: "/about" },
+  { locale: "de", path: "/de/ueber-uns" },
+];
+
+describe("renderSitemap", () => {
+  it("renders absolute URLs with hreflang alternates and x-default", () => {
+    const xml = renderSitemap([{ path: "/de/ueber-uns", locale: "de", alternates }], site, "en");
+
+    expect(xml).toContain("<loc>https://example.com/de/ueber-uns</loc>");
+    expect(xml).toContain('<xhtml:link rel="alternate" hreflang="en" href="https://example.com/about"/>');
+    expect(xml).toContain('<xhtml:link rel="alternate" hreflang="de" href="https://example.com/de/ueber-uns"/>');
+    expect(xml).toContain('<xhtml:link rel="alternate" hreflang="x-default" href="https://example.com/about"/>');
+  });
+
+  it("renders lastmod only when known", () => {
+    const xml = renderSitemap(
+      [
+        { path: "/about", locale: "en", alternates, lastModified: new Date("2026-01-15T00:00:00Z") },
+        { path: "/de/ueber-uns", locale: "de", alternates },
+      ],
+      site,
+      "en"
+    );
+
+    expect(xml.match(/<lastmod>/g)).toHaveLength(1);
+    expect(xml).toContain("<lastmod>2026-01-15T00:00:00.000Z</lastmod>");
+  });
+
+  it("omits x-default when the default locale is not indexable", () => {
+    const xml = renderSitemap(
+      [{ path: "/de/ueber-uns", locale: "de", alternates: [{ locale: "de", path: "/de/ueber-uns" }] }],
+      site,
+      "en"
+    );
+
+    expect(xml).not.toContain("x-default");
+  });
+});
@@ -0,0 +1,41 @@
+import type { SitemapEntry } from "@/application/use-cases/getSitemapEntries";
+import type { Locale } from "@/domain";
+import { escapeXml } from "./xml";
+
+function toAbsoluteUrl(path: string, site: URL): string {
+  return escapeXml(new URL(path, site).href);
+}
+
+function renderAlternate(hreflang: string, path: string, site: URL): string {
+  return `    <xhtml:link rel="alternate" hreflang="${hreflang}" href="${toAbsoluteUrl(path, site)}"/>`;
+}
+
+function renderUrl(entry: SitemapEntry, site: URL, defaultLocale: Locale): string {
+  const xDefault = entry.alternates.find((alternate) => alternate.locale === defaultLocale);
+
+  return [
+    "  <url>",
+    `    <loc>${toAbsoluteUrl(entry.path, site)}</loc>`,
+    ...(entry.lastModified ? [`    <lastmod>${entry.lastModified.toISOString()}</lastmod>`] : []),
+    ...entry.alternates.map((alternate) => renderAlternate(alternate.locale, alternate.path, site)),
+    ...(xDefault ? [renderAlternate("x-default", xDefault.path, site)] : []),
+    "  </url>",
+  ].join("\n");
+}
+
+/**
+ * Renders sitemap.xml with hreflang alternates
+ * https://developers.google.com/search/docs/specialty/international/localized-versions#sitemap
+ *
+ * @param site - Absolute site URL (astro.config `site`)
+ * @param defaultLocale - Locale advertised as `x-default`
+ */
+export function renderSitemap(entries: SitemapEntry[], site: URL, defaultLocale: Locale): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...entries.map((entry) => renderUrl(entry, site, defaultLocale)),
+    "</urlset>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,90 @@
+export interface StrapiClientOptions {
+  /** Strapi base URL without trailing /api (e.g. https://cms.example.com) */
+  baseUrl: string;
+  /** API token with read access to the content types */
+  token?: string;
+}
+
+/** Strapi REST query parameters in bracket notation (e.g. "filters[page][$eq]") */
+export type StrapiQuery = Record<string, string>;
+
+interface StrapiCollectionResponse<T> {
+  data: T[];
+}
+
+interface StrapiSingleResponse<T> {
+  data: T;
+}
+
+/**
+ * Thrown when Strapi answers with a non-2xx status
+ * Fails the build loudly instead of rendering pages without content
+ */
+export class StrapiRequestError extends Error {
+  constructor(
+    readonly url: string,
+    readonly status: number,
+    statusText: string
+  ) {
+    super(`Strapi request failed: ${status} ${statusText} (${url})`);
+    this.name = "StrapiRequestError";
+  }
+}
+
+/**
+ * Minimal Strapi v5 REST client
+ * Returns raw response data; mapping and validation happen in infrastructure/mappers
+ */
+export class StrapiClient {
+  private readonly baseUrl: string;
+
+  constructor(private readonly options: StrapiClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+  }
+
+  /**
+   * Fetch entries of a collection type (plural API ID, e.g. "heroes")
+   */
+  async findMany<T>(collection: string, query: StrapiQuery = {}): Promise<T[]> {
+    const url = this.buildUrl(collection, query);
+    const response = await this.request(url);
+
+    if (!response.ok) {
+      throw new StrapiRequestError(url, response.status, response.statusText);
+    }
+
+    const json = (await response.json()) as StrapiCollectionResponse<T>;
+    return json.data;
+  }
+
+  /**
+   * Fetch a single type (singular API ID, e.g. "company")
+   * Returns null when the single type has no entry for the requested locale (404)
+   */
+  async findOne<T>(singleType: string, query: StrapiQuery = {}): Promise<T | null> {
+    const url = this.buildUrl(singleType, query);
+    const response = await this.request(url);
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new StrapiRequestError(url, response.status, response.statusText);
+    }
+
+    const json = (await response.json()) as StrapiSingleResponse<T>;
+    return json.data;
+  }
+
+  private buildUrl(apiId: string, query: StrapiQuery): string {
+    const search = new URLSearchParams(query).toString();
+    return `${this.baseUrl}/api/${apiId}${search ? `?${search}` : ""}`;
+  }
+
+  private request(url: string): Promise<Response> {
+    return fetch(url, {
+      headers: {
+        Accept: "application/json",
+        ...(this.options.token && { Authorization: `Bearer ${this.options.token}` }),
+      },
+    });
+  }
+}
@@ -0,0 +1,2 @@
+export { StrapiClient, StrapiRequestError } from "./StrapiClient";
+export type { StrapiClientOptions, StrapiQuery } from "./StrapiClient";
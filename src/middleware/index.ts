@@ -0,0 +1,9 @@
+import { sequence } from "astro:middleware";
+import { securityHeaders } from "./securityHeaders";
+import { localeRedirect } from "./localeRedirect";
+
+/**
+ * Request pipeline for on-demand routes
+ * Security headers run outermost, so redirects get them too.
+ */
+export const onRequest = sequence(securityHeaders, localeRedirect);
@@ -0,0 +1,36 @@
+import { defineMiddleware } from "astro:middleware";
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES } from "@/domain";
+import { getLocalizedPaths } from "@/i18n/seo";
+import { getLocaleRedirect, LOCALE_COOKIE } from "@/i18n/negotiation";
+
+/**
+ * Sends first-time visitors of the default home page to their preferred language
+ *
+ * Only runs for on-demand requests: prerendered pages are built without request headers.
+ * The default home page is prerendered, so in production server/app.mjs (`createLocaleRedirect`) redirects it
+ * with the same helpers; this middleware covers a home page rendered on demand.
+ */
+export const localeRedirect = defineMiddleware(async (context, next) => {
+  if (context.isPrerendered) return next();
+
+  const { headers } = context.request;
+  const homePaths = getLocalizedPaths("home");
+
+  if (context.url.pathname !== homePaths[DEFAULT_LOCALE]) return next();
+
+  const target = getLocaleRedirect({
+    pathname: context.url.pathname,
+    acceptLanguage: headers.get("accept-language"),
+    userAgent: headers.get("user-agent"),
+    preferredLocale: context.cookies.get(LOCALE_COOKIE)?.value,
+    locales: SUPPORTED_LOCALES,
+    defaultLocale: DEFAULT_LOCALE,
+    homePaths,
+  });
+
+  // The answer for "/" depends on these headers; keep shared caches from mixing languages
+  const response = target ? context.redirect(target, 302) : await next();
+  response.headers.append("Vary", "Accept-Language, Cookie");
+
+  return response;
+});
@@ -0,0 +1,37 @@
+import { defineMiddleware } from "astro:middleware";
+import { SITE_ENV, CSP_REPORT_URI } from "astro:env/server";
+import { addNonce, createNonce, getSecurityHeaders } from "@/infrastructure/security";
+
+/** Either header means the response already carries a policy (development reports only) */
+const CSP_HEADERS = ["content-security-policy", "content-security-policy-report-only"];
+
+/**
+ * Security headers for on-demand responses, with a fresh CSP nonce per HTML response
+ *
+ * Prerendered pages are skipped: their headers (with inline hashes) are generated
+ * at build time by the security-headers integration.
+ */
+export const securityHeaders = defineMiddleware(async (context, next) => {
+  const response = await next();
+  if (context.isPrerendered) return response;
+  // Already secured by the run for a rewrite target; a second nonce would not match the page's
+  if (CSP_HEADERS.some((name) => response.headers.has(name))) return response;
+
+  const isHtml = response.headers.get("content-type")?.includes("text/html") ?? false;
+  const nonce = isHtml ? createNonce() : undefined;
+  const sources = nonce ? [`'nonce-${nonce}'`] : [];
+
+  const body = nonce ? addNonce(await response.text(), nonce) : response.body;
+  const secured = new Response(body, response);
+  if (nonce) secured.headers.delete("content-length");
+
+  const headers = getSecurityHeaders({
+    environment: SITE_ENV,
+    reportUri: CSP_REPORT_URI,
+    scriptSources: sources,
+    styleSources: sources,
+  });
+  for (const [name, value] of Object.entries(headers)) secured.headers.set(name, value);
+
+  return secured;
+});
@@ -0,0 +1,15 @@
+import type { APIRoute, GetStaticPaths } from "astro";
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES, getLocaleOrDefault } from "@/domain";
+import { translations } from "@/i18n/translations";
+import { buildInsightsFeed } from "@/pages/_insights/feed";
+
+export const getStaticPaths = (() =>
+  SUPPORTED_LOCALES.filter((locale) => locale !== DEFAULT_LOCALE).map((locale) => ({
+    params: { lang: locale, parent: translations[locale].routes.insights },
+  }))) satisfies GetStaticPaths;
+
+/**
+ * GET /{lang}/{insights}/rss.xml (generated at build time), e.g. /de/einblicke/rss.xml
+ * Posts of the locale, newest first
+ */
+export const GET: APIRoute = (context) => buildInsightsFeed(getLocaleOrDefault(context.params.lang), context);
@@ -0,0 +1,38 @@
+import type { APIContext } from "astro";
+import { getInsights } from "@/application/use-cases/getInsights";
+import { contentRepositories } from "@/infrastructure/repositories/contentRepositories";
+import { renderRssFeed } from "@/infrastructure/seo";
+import type { Locale } from "@/domain";
+import { t } from "@/i18n/translations";
+import { buildInsightPath, buildInsightsFeedPath, buildInsightsPath } from "@/i18n/insights";
+
+/**
+ * RSS feed of a locale's posts, newest first
+ * Shared by /insights/rss.xml and /{lang}/{insights}/rss.xml (folders starting with "_" are not routes)
+ */
+export async function buildInsightsFeed(locale: Locale, { site }: Pick<APIContext, "site">): Promise<Response> {
+  if (!site) throw new Error("rss.xml requires `site` in astro.config.mjs");
+
+  const insights = await getInsights(contentRepositories, locale);
+
+  const feed = renderRssFeed(
+    {
+      title: t(locale, "insights", "feedTitle"),
+      description: t(locale, "insights", "intro"),
+      language: locale,
+      path: buildInsightsPath(locale),
+      feedPath: buildInsightsFeedPath(locale),
+      items: insights.map((insight) => ({
+        title: insight.title,
+        description: insight.summary,
+        path: buildInsightPath(locale, insight.slug),
+        publishedAt: insight.publishedAt,
+        author: insight.author.name,
+        categories: insight.tags,
+      })),
+    },
+    site
+  );
+
+  return new Response(feed, { headers: { "Content-Type": "application/rss+xml; charset=utf-8" } });
+}
@@ -0,0 +1,117 @@
+import type { APIRoute } from "astro";
+import {
+  CONTACT_TRANSPORT,
+  CONTACT_OUTBOX_DIR,
+  CONTACT_FROM,
+  CONTACT_TO,
+  SMTP_HOST,
+  SMTP_PORT,
+  SMTP_SECURE,
+  SMTP_USER,
+  SMTP_PASSWORD,
+} from "astro:env/server";
+import { submitContactMessage } from "@/application/use-cases/submitContactMessage";
+import type { ContactSubmissionResult } from "@/application/use-cases/submitContactMessage";
+import type { MessageSender } from "@/application/ports/MessageSender";
+import { createMessageSender } from "@/infrastructure/messaging";
+import { getLocaleOrDefault } from "@/domain";
+import type { ContactMessageField } from "@/domain";
+import { t, buildPath } from "@/i18n/translations";
+import { localizeContactErrors } from "@/i18n/contact";
+
+// Contact submissions are handled on demand, the rest of the site stays static
+export const prerender = false;
+
+/** Hidden field that only bots fill in */
+const HONEYPOT_FIELD = "website";
+
+/** Fields echoed back into the form when a plain form post is rejected */
+const FORM_FIELDS: ContactMessageField[] = ["name", "email", "company", "message", "consent"];
+
+const STATUS_CODES: Record<ContactSubmissionResult["status"], number> = {
+  sent: 200,
+  invalid: 422,
+  failed: 502,
+};
+
+let messageSender: MessageSender | undefined;
+
+/**
+ * Created on first send, inside submitContactMessage's error handling:
+ * incomplete transport configuration then answers "failed" instead of an unhandled 500
+ */
+const sender: MessageSender = {
+  send(message) {
+    messageSender ??= createMessageSender({
+      transport: CONTACT_TRANSPORT,
+      outboxDir: CONTACT_OUTBOX_DIR,
+      smtp: {
+        host: SMTP_HOST,
+        port: SMTP_PORT,
+        secure: SMTP_SECURE,
+        user: SMTP_USER,
+        password: SMTP_PASSWORD,
+        from: CONTACT_FROM,
+        to: CONTACT_TO,
+      },
+    });
+    return messageSender.send(message);
+  },
+};
+
+/**
+ * POST /api/contact
+ *
+ * - `Accept: application/json` (enhanced form): JSON with localized message and field errors
+ * - Plain form post (JavaScript disabled): 303 redirect back to the contact page status anchor;
+ *   a rejected post re-renders the form with its values and errors (../contact-form/[locale].astro)
+ */
+export const POST: APIRoute = async ({ request, redirect, rewrite, locals }) => {
+  const wantsJson = request.headers.get("accept")?.includes("application/json") ?? false;
+
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return new Response(null, { status: 400 });
+  }
+
+  const locale = getLocaleOrDefault(formData.get("locale"));
+
+  const result: ContactSubmissionResult = formData.get(HONEYPOT_FIELD)
+    ? { status: "sent" } // Pretend success so bots don't retry
+    : await submitContactMessage(sender, {
+        name: formData.get("name"),
+        email: formData.get("email"),
+        company: formData.get("company"),
+        message: formData.get("message"),
+        consent: formData.get("consent"),
+        locale,
+      });
+
+  if (!wantsJson && result.status === "invalid") {
+    locals.contactForm = {
+      values: Object.fromEntries(
+        FORM_FIELDS.map((field) => [field, formData.get(field)]).filter(
+          (entry): entry is [ContactMessageField, string] => typeof entry[1] === "string"
+        )
+      ),
+      errors: localizeContactErrors(locale, result.errors),
+    };
+    // A new request: rewriting the original one would need its body, which is already read
+    return rewrite(new Request(new URL(`/contact-form/${locale}`, request.url), { headers: request.headers }));
+  }
+
+  if (!wantsJson) {
+    return redirect(`${buildPath("contact", locale)}#contact-${result.status}`, 303);
+  }
+
+  return Response.json(
+    {
+      status: result.status,
+      message: t(locale, "contact", result.status),
+      errors: result.status === "invalid" ? localizeContactErrors(locale, result.errors) : {},
+    },
+    { status: STATUS_CODES[result.status] }
+  );
+};
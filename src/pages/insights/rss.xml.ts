@@ -0,0 +1,9 @@
+import type { APIRoute } from "astro";
+import { DEFAULT_LOCALE } from "@/domain";
+import { buildInsightsFeed } from "@/pages/_insights/feed";
+
+/**
+ * GET /insights/rss.xml (generated at build time)
+ * Posts of the default locale, newest first; other locales have their own feed below their insights route
+ */
+export const GET: APIRoute = (context) => buildInsightsFeed(DEFAULT_LOCALE, context);
@@ -0,0 +1,18 @@
+import type { APIRoute } from "astro";
+import { SITE_ENV } from "astro:env/server";
+import { renderRobotsTxt } from "@/infrastructure/seo";
+
+// Rendered on demand: SITE_ENV is read when the server runs, not when the site is built
+export const prerender = false;
+
+/**
+ * GET /robots.txt
+ * Run staging with SITE_ENV=staging to keep crawlers out
+ */
+export const GET: APIRoute = ({ site }) => {
+  const sitemapUrl = new URL("/sitemap.xml", site);
+
+  return new Response(renderRobotsTxt(SITE_ENV, sitemapUrl), {
+    headers: { "Content-Type": "text/plain; charset=utf-8" },
+  });
+};
@@ -0,0 +1,56 @@
+import type { APIRoute } from "astro";
+import { getSitemapEntries } from "@/application/use-cases/getSitemapEntries";
+import type { LocalizedRoute } from "@/application/use-cases/getSitemapEntries";
+import { contentRepositories } from "@/infrastructure/repositories/contentRepositories";
+import { renderSitemap } from "@/infrastructure/seo";
+import { getServices } from "@/application/use-cases/getServices";
+import { getIndustryDomains } from "@/application/use-cases/getIndustryDomains";
+import { getInsights } from "@/application/use-cases/getInsights";
+import { getCaseStudies } from "@/application/use-cases/getCaseStudies";
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES } from "@/domain";
+import { getRouteKeys } from "@/i18n/translations";
+import { getLocalizedPaths } from "@/i18n/seo";
+import { buildInsightPath } from "@/i18n/insights";
+
+/**
+ * GET /sitemap.xml (generated at build time)
+ * Every route from translations.routes once per locale, with hreflang alternates,
+ * plus the service, industry domain and case study detail pages and the insights (only in the locales they are published in)
+ */
+export const GET: APIRoute = async ({ site }) => {
+  if (!site) throw new Error("sitemap.xml requires `site` in astro.config.mjs");
+
+  const [services, domains, caseStudies] = await Promise.all([
+    getServices(contentRepositories, DEFAULT_LOCALE),
+    getIndustryDomains(contentRepositories, DEFAULT_LOCALE),
+    getCaseStudies(contentRepositories, DEFAULT_LOCALE),
+  ]);
+
+  // Posts share their slug across locales
+  const insights = new Map<string, Required<Pick<LocalizedRoute, "paths" | "lastModified">>>();
+  for (const locale of SUPPORTED_LOCALES) {
+    for (const insight of await getInsights(contentRepositories, locale)) {
+      const route = insights.get(insight.slug) ?? { paths: {}, lastModified: {} };
+      route.paths[locale] = buildInsightPath(locale, insight.slug);
+      route.lastModified[locale] = insight.updatedAt ?? insight.publishedAt;
+      insights.set(insight.slug, route);
+    }
+  }
+
+  const routes: LocalizedRoute[] = [
+    ...getRouteKeys().map((key) => ({ key, paths: getLocalizedPaths(key) })),
+    ...services.map(({ slug }) => ({ key: `services/${slug}`, paths: getLocalizedPaths("services", slug) })),
+    ...domains.map(({ slug }) => ({ key: `domains/${slug}`, paths: getLocalizedPaths("domains", slug) })),
+    ...caseStudies.map(({ slug }) => ({
+      key: `caseStudies/${slug}`,
+      paths: getLocalizedPaths("caseStudies", slug),
+    })),
+    ...[...insights].map(([slug, route]) => ({ key: `insights/${slug}`, ...route })),
+  ];
+
+  const entries = await getSitemapEntries(contentRepositories, routes, SUPPORTED_LOCALES);
+
+  return new Response(renderSitemap(entries, site, DEFAULT_LOCALE), {
+    headers: { "Content-Type": "application/xml; charset=utf-8" },
+  });
+};
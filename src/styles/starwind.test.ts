@@ -0,0 +1,107 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+
+/**
+ * Contrast of the Starwind tokens in both themes (WCAG 2 relative luminance)
+ * Token values are read from starwind.css and resolved against Tailwind's palette.
+ */
+
+const starwindCss = readFileSync(join(import.meta.dirname, "starwind.css"), "utf-8");
+const tailwindTheme = readFileSync(join(import.meta.dirname, "../../node_modules/tailwindcss/theme.css"), "utf-8");
+
+const palette = new Map(
+  [...tailwindTheme.matchAll(/--color-([a-z]+(?:-\d+)?):\s*([^;]+);/g)].map(([, name, value]) => [name, value])
+);
+
+function readTokens(selector: string): Map<string, string> {
+  const block = starwindCss.match(new RegExp(`^${selector.replace(".", "\\.")} \\{([^}]*)\\}`, "m"))?.[1] ?? "";
+  return new Map([...block.matchAll(/--([a-z-]+):\s*var\(--color-([a-z]+(?:-\d+)?)\);/g)].map(([, t, c]) => [t, c]));
+}
+
+type Rgb = [number, number, number];
+
+function toRgb(color: string): Rgb {
+  if (color.startsWith("#")) {
+    const hex = color.length === 4 ? [...color.slice(1)].map((c) => c + c).join("") : color.slice(1);
+    return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16) / 255) as Rgb;
+  }
+
+  // oklch(L% C H) → OKLab → linear sRGB → sRGB
+  const [l, c, h] = color
+    .match(/oklch\(([\d.]+)% ([\d.]+) ([\d.]+)\)/)!
+    .slice(1)
+    .map(Number);
+  const [L, a, b] = [l / 100, c * Math.cos((h * Math.PI) / 180), c * Math.sin((h * Math.PI) / 180)];
+  const lms = [
+    L + 0.3963377774 * a + 0.2158037573 * b,
+    L - 0.1055613458 * a - 0.0638541728 * b,
+    L - 0.0894841775 * a - 1.291485548 * b,
+  ].map((v) => v ** 3);
+  const linear = [
+    4.0767416621 * lms[0] - 3.3077115913 * lms[1] + 0.2309699292 * lms[2],
+    -1.2684380046 * lms[0] + 2.6097574011 * lms[1] - 0.3413193965 * lms[2],
+    -0.0041960863 * lms[0] - 0.7034186147 * lms[1] + 1.707614701 * lms[2],
+  ];
+  return linear.map((v) => {
+    const clamped = Math.min(Math.max(v, 0), 1);
+    return clamped <= 0.0031308 ? 12.92 * clamped : 1.055 * clamped ** (1 / 2.4) - 0.055;
+  }) as Rgb;
+}
+
+function luminance(rgb: Rgb): number {
+  const [r, g, b] = rgb.map((v) => (v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4));
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+function contrast(tokens: Map<string, string>, first: string, second: string): number {
+  const [a, b] = [first, second].map((token) => luminance(toRgb(palette.get(tokens.get(token)!)!)));
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+const SURFACES = [
+  "background",
+  "card",
+  "popover",
+  "primary",
+  "secondary",
+  "muted",
+  "accent",
+  "info",
+  "success",
+  "warning",
+  "error",
+];
+
+// Tokens used as text colors directly on the page background (text-primary, text-error, …)
+const TEXT_ON_BACKGROUND = ["primary", "secondary", "error", "muted-foreground"];
+
+describe.each([
+  ["light", ":root"],
+  ["dark", ".dark"],
+])("%s theme", (_theme, selector) => {
+  const tokens = readTokens(selector);
+
+  it.each(SURFACES)("%s and its foreground reach 4.5:1", (surface) => {
+    const foreground = surface === "background" ? "foreground" : `${surface}-foreground`;
+
+    expect(contrast(tokens, surface, foreground)).toBeGreaterThanOrEqual(4.5);
+  });
+
+  it.each(TEXT_ON_BACKGROUND)("%s reaches 4.5:1 on the background", (token) => {
+    expect(contrast(tokens, token, "background")).toBeGreaterThanOrEqual(4.5);
+  });
+
+  it("keeps muted text readable on muted surfaces", () => {
+    expect(contrast(tokens, "muted-foreground", "muted")).toBeGreaterThanOrEqual(4.5);
+    expect(contrast(tokens, "muted-foreground", "card")).toBeGreaterThanOrEqual(4.5);
+  });
+});
+
+describe("dark theme controls", () => {
+  const tokens = readTokens(".dark");
+
+  it("input borders reach 3:1 on the background", () => {
+    expect(contrast(tokens, "input", "background")).toBeGreaterThanOrEqual(3);
+  });
+});
@@ -0,0 +1,95 @@
+import { test, expect } from "@playwright/test";
+
+test.describe("FAQ accordion", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/about");
+  });
+
+  test("opens and closes questions with the keyboard", async ({ page }) => {
+    const question = page.getByText("What is FRAS™?");
+    const answer = page.getByText(/FRAS™ is our engagement framework/);
+    await expect(answer).toBeHidden();
+
+    await question.focus();
+    await page.keyboard.press("Enter");
+    await expect(answer).toBeVisible();
+
+    await page.keyboard.press("Enter");
+    await expect(answer).toBeHidden();
+  });
+
+  test("keeps several questions open", async ({ page }) => {
+    await page.getByText("What is FRAS™?").click();
+    await page.getByText("Do you implement or resell tools?").click();
+
+    await expect(page.getByText(/FRAS™ is our engagement framework/)).toBeVisible();
+    await expect(page.getByText(/We are independent by design/)).toBeVisible();
+  });
+
+  test("moves focus between questions with the arrow keys", async ({ page }) => {
+    await page.getByText("What is FRAS™?").focus();
+
+    await page.keyboard.press("ArrowDown");
+    await expect(page.getByText("Do we have to start with a FRAME Sprint?")).toBeFocused();
+
+    await page.keyboard.press("End");
+    await expect(page.getByText("How does the STEER Retainer work?")).toBeFocused();
+
+    await page.keyboard.press("ArrowDown");
+    await expect(page.getByText("What is FRAS™?")).toBeFocused();
+  });
+});
+
+test.describe("Case study tabs", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/case-studies/hospital-group-operational-resilience");
+  });
+
+  test("shows the challenge first", async ({ page }) => {
+    await expect(page.getByRole("tab", { name: "Challenge" })).toHaveAttribute("aria-selected", "true");
+    await expect(page.getByRole("tabpanel", { name: "Challenge" })).toBeVisible();
+    await expect(page.getByRole("tabpanel", { name: "Approach" })).toBeHidden();
+  });
+
+  test("selects tabs with the arrow keys", async ({ page }) => {
+    await page.getByRole("tab", { name: "Challenge" }).click();
+
+    await page.keyboard.press("ArrowRight");
+
+    const approach = page.getByRole("tab", { name: "Approach" });
+    await expect(approach).toBeFocused();
+    await expect(approach).toHaveAttribute("aria-selected", "true");
+    await expect(page.getByRole("tabpanel", { name: "Approach" })).toBeVisible();
+
+    await page.keyboard.press("ArrowRight");
+    await expect(page.getByRole("tab", { name: "Challenge" })).toBeFocused();
+  });
+
+  test("moves from the selected tab to its panel with Tab", async ({ page }) => {
+    await page.getByRole("tab", { name: "Approach" }).click();
+
+    await page.keyboard.press("Tab");
+
+    await expect(page.getByRole("tabpanel", { name: "Approach" })).toBeFocused();
+  });
+
+  test("selects the tab named by the URL fragment", async ({ page }) => {
+    await page.goto("/case-studies/hospital-group-operational-resilience#case-study-approach");
+
+    await expect(page.getByRole("tab", { name: "Approach" })).toHaveAttribute("aria-selected", "true");
+  });
+});
+
+test.describe("Without JavaScript", () => {
+  test.use({ javaScriptEnabled: false });
+
+  test("answers open natively and every case study panel is visible", async ({ page }) => {
+    await page.goto("/about");
+    await page.getByText("What is FRAS™?").click();
+    await expect(page.getByText(/FRAS™ is our engagement framework/)).toBeVisible();
+
+    await page.goto("/case-studies/hospital-group-operational-resilience");
+    await expect(page.getByText(/Fallback procedures existed on paper/)).toBeVisible();
+    await expect(page.getByText(/A FRAME Sprint identified/)).toBeVisible();
+  });
+});
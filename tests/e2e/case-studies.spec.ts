@@ -0,0 +1,51 @@
+import { test, expect } from "@playwright/test";
+
+test.describe("Case studies page", () => {
+  test("filters studies by engagement format and industry domain", async ({ page }) => {
+    await page.goto("/case-studies");
+
+    const studies = page.locator("[data-case-study]");
+    await expect(studies).toHaveCount(3);
+    await expect(page.getByText("3 case studies")).toBeVisible();
+
+    await page.getByLabel("Engagement format").selectOption("frame-sprint");
+    await expect(studies.filter({ visible: true })).toHaveCount(2);
+    await expect(page).toHaveURL("/case-studies?service=frame-sprint");
+
+    await page.getByLabel("Industry domain").selectOption("health");
+    await expect(studies.filter({ visible: true })).toHaveCount(1);
+    await expect(page.getByText("1 case study")).toBeVisible();
+
+    await page.getByLabel("Engagement format").selectOption("steer-retainer");
+    await expect(page.getByText("No case studies match these filters.")).toBeVisible();
+  });
+
+  test("restores filters from the URL", async ({ page }) => {
+    await page.goto("/case-studies?domain=finance");
+
+    await expect(page.getByLabel("Industry domain")).toHaveValue("finance");
+    await expect(page.locator("[data-case-study]").filter({ visible: true })).toHaveCount(1);
+  });
+});
+
+test.describe("Case studies page without JavaScript", () => {
+  test.use({ javaScriptEnabled: false });
+
+  test("hides the filters and lists every study", async ({ page }) => {
+    await page.goto("/case-studies?service=steer-retainer");
+
+    await expect(page.getByLabel("Engagement format")).toBeHidden();
+    await expect(page.locator("[data-case-study]").filter({ visible: true })).toHaveCount(3);
+  });
+});
+
+test.describe("Case studies page (German /de/fallstudien)", () => {
+  test("links to localized detail pages", async ({ page }) => {
+    await page.goto("/de/fallstudien");
+
+    await page.getByRole("link", { name: /Klinikverbund/ }).click();
+
+    await expect(page).toHaveURL("/de/fallstudien/hospital-group-operational-resilience");
+    await expect(page.getByText("Ausgangslage")).toBeVisible();
+  });
+});
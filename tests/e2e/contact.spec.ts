@@ -0,0 +1,81 @@
+import { test, expect } from "@playwright/test";
+
+test.describe("Contact page", () => {
+  test("renders the contact form", async ({ page }) => {
+    await page.goto("/contact");
+
+    await expect(page.getByRole("heading", { name: "Contact", level: 1 })).toBeVisible();
+    await expect(page.getByLabel("Name")).toBeVisible();
+    await expect(page.getByLabel("Email")).toBeVisible();
+    await expect(page.getByLabel("Message")).toBeVisible();
+    await expect(page.getByRole("button", { name: "Send message" })).toBeVisible();
+  });
+
+  test("shows localized field errors without a page reload", async ({ page }) => {
+    await page.goto("/contact");
+
+    await page.getByLabel("Email").fill("not-an-email");
+    await page.getByRole("button", { name: "Send message" }).click();
+
+    await expect(page).toHaveURL("/contact");
+    await expect(page.getByText("Please check the highlighted fields.")).toBeVisible();
+    await expect(page.getByText("Please enter a valid email address.")).toBeVisible();
+    await expect(page.getByLabel("Email")).toHaveAttribute("aria-invalid", "true");
+  });
+
+  test("confirms a sent message", async ({ page }) => {
+    await page.goto("/contact");
+
+    await page.getByLabel("Name").fill("Jane Doe");
+    await page.getByLabel("Email").fill("jane@example.com");
+    await page.getByLabel("Message").fill("We need help with our target architecture.");
+    await page.getByRole("checkbox").check();
+    await page.getByRole("button", { name: "Send message" }).click();
+
+    await expect(page.getByText("Thank you! Your message has been sent.")).toBeVisible();
+  });
+});
+
+test.describe("Contact page (German /de/kontakt)", () => {
+  test("renders German labels", async ({ page }) => {
+    await page.goto("/de/kontakt");
+
+    await expect(page.getByRole("heading", { name: "Kontakt", level: 1 })).toBeVisible();
+    await expect(page.getByLabel("E-Mail")).toBeVisible();
+    await expect(page.getByRole("button", { name: "Nachricht senden" })).toBeVisible();
+  });
+});
+
+test.describe("Contact page without JavaScript", () => {
+  test.use({ javaScriptEnabled: false });
+
+  test("falls back to a plain form post", async ({ page }) => {
+    await page.goto("/contact");
+
+    await page.getByLabel("Name").fill("Jane Doe");
+    await page.getByLabel("Email").fill("jane@example.com");
+    await page.getByLabel("Message").fill("We need help with our target architecture.");
+    await page.getByRole("checkbox").check();
+    await page.getByRole("button", { name: "Send message" }).click();
+
+    await expect(page).toHaveURL("/contact#contact-sent");
+    await expect(page.getByText("Thank you! Your message has been sent.")).toBeVisible();
+  });
+
+  test("re-renders a rejected post with its values and errors", async ({ page }) => {
+    await page.goto("/de/kontakt");
+
+    await page.getByLabel("Name").fill("Jane Doe");
+    // Passes the browser's type="email" check, fails the server's
+    await page.getByLabel("E-Mail").fill("jane@example");
+    await page.getByLabel("Nachricht").fill("We need help with our target architecture.");
+    await page.getByRole("checkbox").check();
+    await page.getByRole("button", { name: "Nachricht senden" }).click();
+
+    await expect(page.getByText("Bitte geben Sie eine gültige E-Mail-Adresse ein.")).toBeVisible();
+    await expect(page.getByLabel("E-Mail")).toHaveAttribute("aria-invalid", "true");
+    await expect(page.getByLabel("E-Mail")).toHaveValue("jane@example");
+    await expect(page.getByLabel("Name")).toHaveValue("Jane Doe");
+    await expect(page.getByRole("checkbox")).toBeChecked();
+  });
+});
@@ -0,0 +1,81 @@
+import { test, expect } from "@playwright/test";
+
+test.describe("Mobile navigation", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.setViewportSize({ width: 375, height: 667 });
+    await page.goto("/");
+  });
+
+  test("opens with the keyboard and moves focus into the menu", async ({ page }) => {
+    const trigger = page.getByRole("button", { name: "Open main menu" });
+    await expect(trigger).toHaveAttribute("aria-expanded", "false");
+
+    await trigger.focus();
+    await page.keyboard.press("Enter");
+
+    const menu = page.getByRole("dialog", { name: "Menu" });
+    await expect(menu).toBeVisible();
+    await expect(trigger).toHaveAttribute("aria-expanded", "true");
+    await expect(trigger).toHaveAttribute("aria-controls", (await menu.getAttribute("id")) ?? "");
+    await expect(menu.getByRole("link", { name: "Home" })).toBeFocused();
+  });
+
+  test("keeps focus inside the menu", async ({ page }) => {
+    await page.getByRole("button", { name: "Open main menu" }).click();
+    const menu = page.getByRole("dialog", { name: "Menu" });
+    const close = menu.getByRole("button", { name: "Close main menu" });
+
+    await page.keyboard.press("Shift+Tab");
+    await expect(close).toBeFocused();
+
+    await page.keyboard.press("Tab");
+    await expect(menu.getByRole("link", { name: "Home" })).toBeFocused();
+  });
+
+  test("closes on Escape and returns focus to the menu button", async ({ page }) => {
+    const trigger = page.getByRole("button", { name: "Open main menu" });
+    await trigger.focus();
+    await page.keyboard.press("Enter");
+    await expect(page.getByRole("dialog", { name: "Menu" })).toBeVisible();
+
+    await page.keyboard.press("Escape");
+
+    await expect(page.getByRole("dialog", { name: "Menu" })).toBeHidden();
+    await expect(trigger).toHaveAttribute("aria-expanded", "false");
+    await expect(trigger).toBeFocused();
+  });
+
+  test("locks page scrolling while open", async ({ page }) => {
+    await page.getByRole("button", { name: "Open main menu" }).click();
+    await expect(page.locator("html")).toHaveCSS("overflow", "hidden");
+
+    await page.getByRole("button", { name: "Close main menu" }).click();
+    await expect(page.locator("html")).not.toHaveCSS("overflow", "hidden");
+  });
+
+  test("closes when a link is followed", async ({ page }) => {
+    await page.getByRole("button", { name: "Open main menu" }).click();
+    await page.getByRole("dialog", { name: "Menu" }).getByRole("link", { name: "Contact" }).click();
+
+    await expect(page).toHaveURL("/contact");
+    await expect(page.getByRole("dialog", { name: "Menu" })).toBeHidden();
+  });
+
+  test("closes when the viewport grows to the desktop layout", async ({ page }) => {
+    await page.getByRole("button", { name: "Open main menu" }).click();
+    await expect(page.getByRole("dialog", { name: "Menu" })).toBeVisible();
+
+    await page.setViewportSize({ width: 1280, height: 800 });
+
+    await expect(page.getByRole("dialog", { name: "Menu" })).toBeHidden();
+    await expect(page.locator("html")).not.toHaveCSS("overflow", "hidden");
+  });
+
+  test("is localized", async ({ page }) => {
+    await page.goto("/de");
+    await page.getByRole("button", { name: "Hauptmenü öffnen" }).click();
+
+    await expect(page.getByRole("dialog", { name: "Menü" })).toBeVisible();
+    await expect(page.getByRole("button", { name: "Hauptmenü schließen" })).toBeVisible();
+  });
+});
@@ -0,0 +1,54 @@
+import { test, expect } from "@playwright/test";
+
+test.describe("Theme", () => {
+  test.use({ viewport: { width: 1280, height: 800 } });
+
+  test("follows the system color scheme by default", async ({ page }) => {
+    await page.emulateMedia({ colorScheme: "dark" });
+    await page.goto("/");
+
+    await expect(page.locator("html")).toHaveClass(/\bdark\b/);
+    await expect(page.getByRole("button", { name: "System" })).toHaveAttribute("aria-pressed", "true");
+
+    await page.emulateMedia({ colorScheme: "light" });
+    await expect(page.locator("html")).not.toHaveClass(/\bdark\b/);
+  });
+
+  test("persists the chosen theme across pages", async ({ page }) => {
+    await page.emulateMedia({ colorScheme: "light" });
+    await page.goto("/");
+
+    await page.getByRole("group", { name: "Color theme" }).getByRole("button", { name: "Dark" }).click();
+    await expect(page.locator("html")).toHaveClass(/\bdark\b/);
+
+    await page.goto("/about");
+    await expect(page.locator("html")).toHaveClass(/\bdark\b/);
+    await expect(page.getByRole("button", { name: "Dark" })).toHaveAttribute("aria-pressed", "true");
+  });
+
+  test("applies the stored theme before first paint", async ({ page }) => {
+    await page.addInitScript(() => localStorage.setItem("theme", "dark"));
+
+    // Record the class the moment the body is parsed, before any module script has run
+    await page.addInitScript(() => {
+      new MutationObserver((_, observer) => {
+        if (!document.body) return;
+        (window as unknown as { darkAtBody: boolean }).darkAtBody = document.documentElement.classList.contains("dark");
+        observer.disconnect();
+      }).observe(document, { childList: true, subtree: true });
+    });
+    await page.goto("/");
+
+    expect(await page.evaluate(() => (window as unknown as { darkAtBody: boolean }).darkAtBody)).toBe(true);
+  });
+
+  test("is available in the mobile menu", async ({ page }) => {
+    await page.setViewportSize({ width: 375, height: 667 });
+    await page.goto("/de");
+    await page.getByRole("button", { name: "Hauptmenü öffnen" }).click();
+
+    await page.getByRole("dialog", { name: "Menü" }).getByRole("button", { name: "Dunkel" }).click();
+
+    await expect(page.locator("html")).toHaveClass(/\bdark\b/);
+  });
+});
@@ -0,0 +1,25 @@
+import type { IndustryDomain, Service } from "@/domain";
+
+/**
+ * Minimal domain entities for use-case and component tests
+ * Text fields are derived from the slug, so assertions can name them without a lookup.
+ */
+
+export const service = (slug: string, order: number, relatedDomains: string[] = []): Service => ({
+  slug,
+  title: slug,
+  summary: `${slug} summary`,
+  description: `${slug} description`,
+  deliverables: ["Decision log"],
+  duration: { kind: "ongoing" },
+  relatedDomains,
+  order,
+});
+
+export const domain = (slug: string, order: number): IndustryDomain => ({
+  slug,
+  title: slug,
+  summary: `${slug} summary`,
+  description: `${slug} description`,
+  order,
+});
@@ -0,0 +1,40 @@
+import { createContext } from "astro/middleware";
+import { describe, it, expect } from "vitest";
+import { localeRedirect } from "@/middleware/localeRedirect";
+
+const page = () => Promise.resolve(new Response("<html></html>", { headers: { "Content-Type": "text/html" } }));
+
+const BROWSER = "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/130.0 Safari/537.36";
+
+function request(pathname: string, headers: Record<string, string> = {}) {
+  return createContext({
+    request: new Request(`https://example.com${pathname}`, { headers: { "User-Agent": BROWSER, ...headers } }),
+  });
+}
+
+describe("locale redirect", () => {
+  it("sends a German-speaking first-time visitor of / to /de with a 302", async () => {
+    const response = (await localeRedirect(
+      request("/", { "Accept-Language": "de-DE,de;q=0.9,en;q=0.5" }),
+      page
+    )) as Response;
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get("Location")).toBe("/de");
+    expect(response.headers.get("Vary")).toBe("Accept-Language, Cookie");
+  });
+
+  it("serves / to visitors who prefer the default locale, varying on the same headers", async () => {
+    const response = (await localeRedirect(request("/", { "Accept-Language": "en-US,en;q=0.9" }), page)) as Response;
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Vary")).toBe("Accept-Language, Cookie");
+  });
+
+  it("leaves every other path alone", async () => {
+    const response = (await localeRedirect(request("/about", { "Accept-Language": "de" }), page)) as Response;
+
+    expect(response.status).toBe(200);
+    expect(response.headers.has("Vary")).toBe(false);
+  });
+});
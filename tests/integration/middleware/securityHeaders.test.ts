@@ -0,0 +1,31 @@
+import { createContext } from "astro/middleware";
+import { describe, it, expect, vi } from "vitest";
+import { securityHeaders } from "@/middleware/securityHeaders";
+
+vi.mock("astro:env/server", () => ({ SITE_ENV: "development", CSP_REPORT_URI: undefined }));
+
+const html =
+  (headers: Record<string, string> = {}) =>
+  () =>
+    Promise.resolve(new Response("<script>1</script>", { headers: { "Content-Type": "text/html", ...headers } }));
+
+const context = () => createContext({ request: new Request("https://example.com/contact-form") });
+
+describe("security headers", () => {
+  it("adds a policy with a fresh nonce to on-demand HTML", async () => {
+    const response = (await securityHeaders(context(), html())) as Response;
+    const policy = response.headers.get("content-security-policy-report-only");
+
+    expect(policy).toMatch(/'nonce-[^']+'/);
+    expect(await response.text()).toContain("nonce=");
+  });
+
+  it("leaves responses alone that already carry an enforced or report-only policy", async () => {
+    for (const name of ["Content-Security-Policy", "Content-Security-Policy-Report-Only"]) {
+      const response = (await securityHeaders(context(), html({ [name]: "script-src 'nonce-first'" }))) as Response;
+
+      expect(response.headers.get(name)).toBe("script-src 'nonce-first'");
+      expect(await response.text()).toBe("<script>1</script>");
+    }
+  });
+});
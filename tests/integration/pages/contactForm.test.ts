@@ -0,0 +1,58 @@
+import { experimental_AstroContainer as AstroContainer } from "astro/container";
+import { describe, it, expect, vi } from "vitest";
+import ContactFormPage from "@/pages/contact-form/[locale].astro";
+
+// The layout reads content through the configured repositories; swap them for in-memory ones
+vi.mock("@/infrastructure/repositories/contentRepositories", () => ({
+  contentRepositories: {
+    company: { find: async () => null },
+    seo: { findByPage: async () => null, findDefaults: async () => null },
+  },
+}));
+
+/** Opening tag of the element with `id` */
+function openingTag(html: string, id: string): string {
+  return html.match(new RegExp(`<[a-z]+[^>]*\\sid="${id}"[^>]*>`))?.[0] ?? "";
+}
+
+const request = new Request("https://example.com/api/contact", { method: "POST" });
+
+describe("contact form page", () => {
+  it("renders a rejected post with its values and localized errors", async () => {
+    const container = await AstroContainer.create();
+
+    const response = await container.renderToResponse(ContactFormPage, {
+      params: { locale: "de" },
+      request,
+      locals: {
+        contactForm: {
+          values: { name: "Jane Doe", email: "jane@example", message: "Hello", consent: "on" },
+          errors: { email: "Bitte geben Sie eine gültige E-Mail-Adresse ein.", message: "Zu kurz." },
+        },
+      },
+    });
+    const html = await response.text();
+
+    expect(response.status).toBe(422);
+    expect(openingTag(html, "contact-email")).toContain('aria-invalid="true"');
+    expect(openingTag(html, "contact-email")).toContain('value="jane@example"');
+    expect(html).toContain(">Bitte geben Sie eine gültige E-Mail-Adresse ein.</p>");
+    expect(html).toMatch(/<textarea[^>]*id="contact-message"[^>]*>Hello<\/textarea>/);
+    expect(openingTag(html, "contact-name")).toContain('value="Jane Doe"');
+    expect(openingTag(html, "contact-name")).not.toContain("aria-invalid=");
+    expect(openingTag(html, "contact-consent")).toMatch(/\schecked/);
+    expect(openingTag(html, "contact-invalid")).toMatch(/class="block /);
+  });
+
+  it("sends direct visits to the contact page", async () => {
+    const container = await AstroContainer.create();
+
+    const response = await container.renderToResponse(ContactFormPage, {
+      params: { locale: "de" },
+      request: new Request("https://example.com/contact-form/de"),
+    });
+
+    expect(response.status).toBe(303);
+    expect(response.headers.get("location")).toBe("/de/kontakt");
+  });
+});
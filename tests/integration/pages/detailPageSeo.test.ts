@@ -0,0 +1,33 @@
+import { experimental_AstroContainer as AstroContainer } from "astro/container";
+import { describe, it, expect, vi } from "vitest";
+import ServicePage from "@/pages/services/[slug].astro";
+import { domain, service } from "../../fixtures/entities";
+
+const frameSprint = { ...service("frame-sprint", 1, ["health"]), summary: "Two weeks from ambiguity to a decision." };
+
+// The page reads content through the configured repositories; swap them for in-memory ones
+vi.mock("@/infrastructure/repositories/contentRepositories", () => ({
+  contentRepositories: {
+    company: { find: async () => null },
+    seo: {
+      findByPage: async () => null,
+      findDefaults: async () => ({ siteName: "Globalcore", description: "Site-wide default description" }),
+    },
+    services: { findAll: async () => [frameSprint], findBySlug: async () => frameSprint },
+    industryDomains: { findAll: async () => [domain("health", 1)], findBySlug: async () => null },
+  },
+}));
+
+describe("detail page SEO", () => {
+  it("describes a service page with its summary, not the site-wide default", async () => {
+    const container = await AstroContainer.create();
+
+    const html = await container.renderToString(ServicePage, {
+      params: { slug: "frame-sprint" },
+      request: new Request("https://example.com/services/frame-sprint"),
+    });
+
+    expect(html).toContain('<meta name="description" content="Two weeks from ambiguity to a decision.">');
+    expect(html).not.toContain("Site-wide default description");
+  });
+});
@@ -0,0 +1,157 @@
+// @vitest-environment node
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { StrapiClient, StrapiRequestError } from "@/infrastructure/strapi/StrapiClient";
+import { StrapiHeroRepository } from "@/infrastructure/repositories/StrapiHeroRepository";
+import { StrapiSeoRepository } from "@/infrastructure/repositories/StrapiSeoRepository";
+import { StrapiPageSectionsRepository } from "@/infrastructure/repositories/StrapiPageSectionsRepository";
+import { StrapiCompanyRepository } from "@/infrastructure/repositories/StrapiCompanyRepository";
+
+const FIXTURES_DIR = join(process.cwd(), "tests/fixtures/strapi");
+const TOKEN = "test-token";
+
+interface FixtureEntry {
+  page: string;
+  locale: string;
+}
+
+/**
+ * Local stand-in for Strapi: serves tests/fixtures/strapi/{collection}.json
+ * and applies the locale + page filters the repositories send.
+ * Single types (object `data`) answer 404 for other locales, like Strapi does.
+ */
+function startFixtureServer(): Promise<Server> {
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const collection = url.pathname.replace(/^\/api\//, "");
+
+    if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+      res.writeHead(401, "Unauthorized").end();
+      return;
+    }
+
+    try {
+      const fixture = JSON.parse(await readFile(join(FIXTURES_DIR, `${collection}.json`), "utf-8"));
+      const locale = url.searchParams.get("locale");
+      const page = url.searchParams.get("filters[page][$eq]");
+
+      if (!Array.isArray(fixture.data)) {
+        if (locale && (fixture.data as FixtureEntry).locale !== locale) throw new Error("Locale not found");
+        res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(fixture));
+        return;
+      }
+
+      const data = (fixture.data as FixtureEntry[]).filter(
+        (entry) => (!locale || entry.locale === locale) && (!page || entry.page === page)
+      );
+
+      res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ ...fixture, data }));
+    } catch {
+      res.writeHead(404, "Not Found").end();
+    }
+  });
+
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+describe("Strapi repositories (fixture server)", () => {
+  let server: Server;
+  let client: StrapiClient;
+
+  beforeAll(async () => {
+    server = await startFixtureServer();
+    const { port } = server.address() as AddressInfo;
+    client = new StrapiClient({ baseUrl: `http://127.0.0.1:${port}/`, token: TOKEN });
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  describe("StrapiHeroRepository", () => {
+    it("fetches and maps the hero for a locale", async () => {
+      const hero = await new StrapiHeroRepository(client).findByPage("de", "home");
+
+      expect(hero).toEqual({
+        title: "Resilienz Architektur für kritische Systeme",
+        subtitle: expect.any(String),
+        primaryCta: { label: "Erstgespräch vereinbaren", href: "/de/kontakt" },
+        secondaryCta: { label: "So arbeiten wir (FRAS™)", href: "/de/ueber-uns#how-we-work" },
+      });
+    });
+
+    it("returns null for unknown pages", async () => {
+      expect(await new StrapiHeroRepository(client).findByPage("en", "unknown")).toBeNull();
+    });
+  });
+
+  describe("StrapiSeoRepository", () => {
+    it("fetches and maps SEO metadata", async () => {
+      const seo = await new StrapiSeoRepository(client).findByPage("en", "home");
+
+      expect(seo?.title).toBe("Globalcore - Resilience Architecture for Critical Systems");
+      expect(seo?.noIndex).toBe(false);
+      expect(seo?.lastModified).toEqual(new Date("2026-10-19T08:30:00.000Z"));
+    });
+
+    it("fetches the site-wide defaults single type", async () => {
+      const defaults = await new StrapiSeoRepository(client).findDefaults("en");
+
+      expect(defaults).toMatchObject({
+        siteName: "Globalcore",
+        ogImage: "/uploads/og_default.png",
+        ogImageAlt: "Globalcore logo",
+        keywords: ["resilience architecture", "decision governance"],
+      });
+    });
+  });
+
+  describe("StrapiPageSectionsRepository", () => {
+    it("maps the dynamic zone to typed sections", async () => {
+      const pageSections = await new StrapiPageSectionsRepository(client).findByPage("en", "home");
+
+      expect(pageSections?.sections.map((section) => section.type)).toEqual([
+        "cards",
+        "cards",
+        "cards",
+        "oneLiner",
+        "ctaStrip",
+      ]);
+      expect(pageSections?.sections[1]).toMatchObject({ id: "services", anchor: "services" });
+    });
+  });
+
+  describe("StrapiCompanyRepository", () => {
+    it("fetches and maps the company single type", async () => {
+      const company = await new StrapiCompanyRepository(client).find("en");
+
+      expect(company).toMatchObject({
+        name: "GlobalCore",
+        logo: "/uploads/logo.svg",
+        address: { addressLocality: "Berlin", addressCountry: "DE" },
+        areaServed: ["DE", "EU"],
+        sameAs: [],
+      });
+      expect(company?.email).toBeUndefined();
+    });
+
+    it("returns null when the single type has no entry for the locale", async () => {
+      expect(await new StrapiCompanyRepository(client).find("de")).toBeNull();
+    });
+  });
+
+  describe("StrapiClient", () => {
+    it("throws a StrapiRequestError on non-2xx responses", async () => {
+      await expect(client.findMany("unknown-collection")).rejects.toBeInstanceOf(StrapiRequestError);
+    });
+
+    it("sends the API token", async () => {
+      const { port } = server.address() as AddressInfo;
+      const anonymous = new StrapiClient({ baseUrl: `http://127.0.0.1:${port}` });
+
+      await expect(anonymous.findMany("heroes")).rejects.toMatchObject({ status: 401 });
+    });
+  });
+});
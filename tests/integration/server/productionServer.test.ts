@@ -0,0 +1,224 @@
+// @vitest-environment node
+import type { AddressInfo } from "node:net";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { describe, it, expect, afterEach } from "vitest";
+import * as negotiation from "@/i18n/negotiation";
+import {
+  assertContactTransport,
+  createLocaleRedirect,
+  createProductionServer,
+  getCacheControl,
+  getSecurityHeadersForPath,
+  IMMUTABLE_CACHE,
+  NO_STORE,
+  REVALIDATE_CACHE,
+  selectSecurityHeaders,
+} from "../../../server/app.mjs";
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void;
+
+const silentLogger = { info: () => {}, error: () => {} };
+let stopServer: (() => Promise<void>) | undefined;
+
+const securityHeaders = {
+  "*": { "X-Frame-Options": "DENY", "Content-Security-Policy": "script-src 'self'" },
+  "/": { "X-Frame-Options": "DENY", "Content-Security-Policy": "script-src 'self' 'sha256-abc'" },
+};
+
+// What the locale-redirect integration writes to dist/locale-redirect.mjs
+const localeRedirect = createLocaleRedirect({
+  ...negotiation,
+  localeRedirectOptions: { locales: ["en", "de"], defaultLocale: "en", homePaths: { en: "/", de: "/de" } },
+});
+
+const BROWSER = "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/130.0 Safari/537.36";
+
+async function start(handler: Handler, shutdownTimeoutMs = 1_000) {
+  const app = createProductionServer({
+    handler,
+    securityHeaders,
+    localeRedirect,
+    shutdownTimeoutMs,
+    logger: silentLogger,
+  });
+  await new Promise<void>((resolve) => app.server.listen(0, "127.0.0.1", resolve));
+  stopServer = app.shutdown;
+
+  const { port } = app.server.address() as AddressInfo;
+  return { ...app, url: (path: string) => `http://127.0.0.1:${port}${path}` };
+}
+
+const ok: Handler = (_req, res) => res.writeHead(200, { "Content-Type": "text/html" }).end("<h1>Hi</h1>");
+
+afterEach(async () => {
+  await stopServer?.();
+  stopServer = undefined;
+});
+
+describe("getCacheControl", () => {
+  it("should cache hashed assets forever and revalidate everything else", () => {
+    expect(getCacheControl("/_astro/index.Bx1c2d.css")).toBe(IMMUTABLE_CACHE);
+    expect(getCacheControl("/")).toBe(REVALIDATE_CACHE);
+    expect(getCacheControl("/de/ueber-uns")).toBe(REVALIDATE_CACHE);
+    expect(getCacheControl("/favicon.svg")).toBe(REVALIDATE_CACHE);
+    expect(getCacheControl("/api/contact")).toBe(NO_STORE);
+  });
+});
+
+describe("selectSecurityHeaders", () => {
+  const profiles = {
+    production: securityHeaders,
+    development: { "*": { "Content-Security-Policy-Report-Only": "script-src 'self'" } },
+  };
+
+  it("should pick the map of the environment the server runs in", () => {
+    expect(selectSecurityHeaders(profiles, "production")).toBe(securityHeaders);
+    expect(selectSecurityHeaders(profiles, "development")).toBe(profiles.development);
+  });
+
+  it("should append the report URI to every policy", () => {
+    const headers = selectSecurityHeaders(profiles, "production", "https://reports.example.com/csp");
+
+    expect(headers["/"]["Content-Security-Policy"]).toBe(
+      "script-src 'self' 'sha256-abc'; report-uri https://reports.example.com/csp"
+    );
+    expect(headers["/"]["X-Frame-Options"]).toBe("DENY");
+    expect(
+      selectSecurityHeaders(profiles, "development", "https://r.example.com")["*"][
+        "Content-Security-Policy-Report-Only"
+      ]
+    ).toBe("script-src 'self'; report-uri https://r.example.com");
+  });
+
+  it("should reject an unknown environment", () => {
+    expect(() => selectSecurityHeaders(profiles, "qa")).toThrow('Unknown SITE_ENV "qa"');
+  });
+});
+
+describe("assertContactTransport", () => {
+  it("should refuse production without the SMTP transport", () => {
+    expect(() => assertContactTransport("production", undefined)).toThrow("CONTACT_TRANSPORT=smtp");
+    expect(() => assertContactTransport("production", "file")).toThrow("CONTACT_TRANSPORT=smtp");
+  });
+
+  it("should accept SMTP in production and the outbox elsewhere", () => {
+    expect(() => assertContactTransport("production", "smtp")).not.toThrow();
+    expect(() => assertContactTransport("staging", undefined)).not.toThrow();
+    expect(() => assertContactTransport("development", "file")).not.toThrow();
+  });
+});
+
+describe("getSecurityHeadersForPath", () => {
+  it("should match page entries regardless of trailing slash or index.html", () => {
+    expect(getSecurityHeadersForPath(securityHeaders, "/")).toBe(securityHeaders["/"]);
+    expect(getSecurityHeadersForPath(securityHeaders, "/index.html")).toBe(securityHeaders["/"]);
+    expect(getSecurityHeadersForPath(securityHeaders, "/about/")).toBe(securityHeaders["*"]);
+  });
+
+  it("should return no headers without a build map", () => {
+    expect(getSecurityHeadersForPath({}, "/")).toEqual({});
+  });
+});
+
+describe("createProductionServer", () => {
+  it("should answer health and readiness probes without calling the handler", async () => {
+    const { url } = await start(() => {
+      throw new Error("handler must not be called");
+    });
+
+    const health = await fetch(url("/healthz"));
+    const ready = await fetch(url("/readyz"));
+
+    expect(health.status).toBe(200);
+    expect(await health.json()).toEqual({ status: "ok" });
+    expect(health.headers.get("cache-control")).toBe(NO_STORE);
+    expect(ready.status).toBe(200);
+    expect(await ready.json()).toEqual({ status: "ready" });
+  });
+
+  it("should set cache headers before delegating to the handler", async () => {
+    const { url } = await start(ok);
+
+    expect((await fetch(url("/about"))).headers.get("cache-control")).toBe(REVALIDATE_CACHE);
+    expect((await fetch(url("/_astro/app.123abc.js"))).headers.get("cache-control")).toBe(IMMUTABLE_CACHE);
+  });
+
+  it("should send the page's security headers", async () => {
+    const { url } = await start(ok);
+
+    expect((await fetch(url("/"))).headers.get("content-security-policy")).toBe("script-src 'self' 'sha256-abc'");
+    expect((await fetch(url("/about"))).headers.get("content-security-policy")).toBe("script-src 'self'");
+    expect((await fetch(url("/about"))).headers.get("x-frame-options")).toBe("DENY");
+  });
+
+  it("should let the handler override the default cache header", async () => {
+    const { url } = await start((_req, res) => res.writeHead(200, { "Cache-Control": "private" }).end());
+
+    expect((await fetch(url("/"))).headers.get("cache-control")).toBe("private");
+  });
+
+  it("should finish in-flight requests on shutdown and report not ready", async () => {
+    let release: () => void = () => {};
+    const { url, shutdown, isReady } = await start((_req, res) => {
+      release = () => res.writeHead(200).end("done");
+    });
+
+    const pending = fetch(url("/slow"));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(isReady()).toBe(true);
+
+    const closed = shutdown();
+    expect(isReady()).toBe(false);
+
+    release();
+    const response = await pending;
+    expect(await response.text()).toBe("done");
+    await expect(closed).resolves.toBeUndefined();
+  });
+
+  it("should drop hanging connections after the grace period", async () => {
+    const { url, shutdown } = await start(() => {}, 100);
+
+    const pending = fetch(url("/hang")).catch((error: unknown) => error);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    await shutdown();
+    expect(await pending).toBeInstanceOf(Error);
+  });
+
+  describe("locale redirect", () => {
+    const visit = (headers: Record<string, string>, path = "/") =>
+      start(ok).then(({ url }) =>
+        fetch(url(path), { headers: { "User-Agent": BROWSER, ...headers }, redirect: "manual" })
+      );
+
+    it("should send a German-speaking first-time visitor of the prerendered / to /de", async () => {
+      const response = await visit({ "Accept-Language": "de-DE,de;q=0.9,en;q=0.5" });
+
+      expect(response.status).toBe(302);
+      expect(response.headers.get("Location")).toBe("/de");
+      expect(response.headers.get("Vary")).toBe("Accept-Language, Cookie");
+      expect(response.headers.get("Content-Security-Policy")).toBe("script-src 'self' 'sha256-abc'");
+    });
+
+    it("should serve / when the language cookie or the header prefers the default locale", async () => {
+      const chosen = await visit({ "Accept-Language": "de", Cookie: "theme=dark; preferred-locale=en" });
+      expect(chosen.status).toBe(200);
+      expect(chosen.headers.get("Vary")).toBe("Accept-Language, Cookie");
+
+      await stopServer?.();
+      const english = await visit({ "Accept-Language": "en-US,en;q=0.9" });
+      expect(english.status).toBe(200);
+    });
+
+    it("should leave bots and every other path alone", async () => {
+      const bot = await visit({ "Accept-Language": "de", "User-Agent": "Googlebot/2.1" });
+      expect(bot.status).toBe(200);
+
+      await stopServer?.();
+      const about = await visit({ "Accept-Language": "de" }, "/about");
+      expect(about.status).toBe(200);
+      expect(about.headers.has("Vary")).toBe(false);
+    });
+  });
+});